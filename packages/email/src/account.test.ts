@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WrapsAccount } from './account';
+import { QuotaExceededError, SandboxError, SESError } from './errors';
+
+// Mock the command constructors to just pass through input
+vi.mock('@aws-sdk/client-sesv2', () => ({
+  GetAccountCommand: vi.fn(function (this: any, input: any) {
+    Object.assign(this, input);
+  }),
+}));
+
+const production = {
+  ProductionAccessEnabled: true,
+  SendingEnabled: true,
+  EnforcementStatus: 'HEALTHY',
+  SendQuota: { Max24HourSend: 50000, MaxSendRate: 14, SentLast24Hours: 1200 },
+  SuppressionAttributes: { SuppressedReasons: ['BOUNCE', 'COMPLAINT'] },
+  VdmAttributes: {
+    VdmEnabled: 'ENABLED',
+    DashboardAttributes: { EngagementMetrics: 'ENABLED' },
+    GuardianAttributes: { OptimizedSharedDelivery: 'DISABLED' },
+  },
+  DedicatedIpAutoWarmupEnabled: true,
+  $metadata: { requestId: 'req-1' },
+};
+
+describe('WrapsAccount', () => {
+  let account: WrapsAccount;
+  let mockSend: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    const mockClient = {
+      send: mockSend,
+      config: { region: vi.fn().mockResolvedValue('eu-west-1') },
+      destroy: vi.fn(),
+    } as any;
+    account = new WrapsAccount(mockClient);
+  });
+
+  describe('get', () => {
+    it('should summarise GetAccount', async () => {
+      mockSend.mockResolvedValue(production);
+
+      expect(await account.get()).toEqual({
+        productionAccessEnabled: true,
+        sendingEnabled: true,
+        enforcementStatus: 'HEALTHY',
+        sendQuota: {
+          max24HourSend: 50000,
+          maxSendRate: 14,
+          sentLast24Hours: 1200,
+          remaining24Hour: 48800,
+        },
+        vdm: { enabled: true, dashboardEnabled: true, guardianEnabled: false },
+        suppressedReasons: ['BOUNCE', 'COMPLAINT'],
+        dedicatedIpAutoWarmupEnabled: true,
+      });
+    });
+
+    it('should report an unlimited quota as null', async () => {
+      mockSend.mockResolvedValue({
+        ...production,
+        SendQuota: { Max24HourSend: -1, MaxSendRate: 200, SentLast24Hours: 10 },
+      });
+
+      expect((await account.get()).sendQuota).toEqual({
+        max24HourSend: null,
+        maxSendRate: 200,
+        sentLast24Hours: 10,
+        remaining24Hour: null,
+      });
+    });
+
+    it('should map SES errors', async () => {
+      mockSend.mockRejectedValue({
+        name: 'TooManyRequestsException',
+        message: 'Rate exceeded',
+        $metadata: { requestId: 'req-2' },
+      });
+
+      await expect(account.get()).rejects.toThrow(SESError);
+    });
+  });
+
+  describe('assertCanSend', () => {
+    it('should resolve with the summary when the send fits', async () => {
+      mockSend.mockResolvedValue({ ...production, EnforcementStatus: 'PROBATION' });
+
+      const summary = await account.assertCanSend({ recipients: 48800 });
+
+      expect(summary.enforcementStatus).toBe('PROBATION');
+    });
+
+    it('should throw QuotaExceededError past the remaining quota', async () => {
+      mockSend.mockResolvedValue(production);
+
+      const error = await account.assertCanSend({ recipients: 48801 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error).toMatchObject({
+        max24HourSend: 50000,
+        sentLast24Hours: 1200,
+        requested: 48801,
+      });
+    });
+
+    it('should throw SandboxError naming the region unless allowSandbox is set', async () => {
+      mockSend.mockResolvedValue({ ...production, ProductionAccessEnabled: false });
+
+      const error = await account.assertCanSend().catch((e) => e);
+
+      expect(error).toBeInstanceOf(SandboxError);
+      expect(error).toMatchObject({ code: 'ProductionAccessNotEnabled', region: 'eu-west-1' });
+      expect(error.message).toContain('in eu-west-1 is in the sandbox');
+      await expect(account.assertCanSend({ allowSandbox: true })).resolves.toBeDefined();
+    });
+
+    it('should throw when SES will not send at all', async () => {
+      mockSend
+        .mockResolvedValueOnce({ ...production, SendingEnabled: false })
+        .mockResolvedValueOnce({ ...production, EnforcementStatus: 'SHUTDOWN' });
+
+      await expect(account.assertCanSend()).rejects.toMatchObject({
+        name: 'SESError',
+        code: 'SendingPaused',
+        requestId: 'req-1',
+      });
+      await expect(account.assertCanSend()).rejects.toMatchObject({ code: 'AccountShutdown' });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import type { GetAccountCommandOutput, SESv2Client } from '@aws-sdk/client-sesv2';
+import { GetAccountCommand } from '@aws-sdk/client-sesv2';
+import { mapAwsSdkError, QuotaExceededError, SandboxError, SESError } from './errors';
+import type { AccountSummary, AssertCanSendOptions, SuppressionReason } from './types';
+
+function toSummary(response: GetAccountCommandOutput): AccountSummary {
+  const quota = response.SendQuota ?? {};
+  // SES reports -1 for an unlimited daily quota.
+  const max24HourSend =
+    quota.Max24HourSend === undefined || quota.Max24HourSend < 0 ? null : quota.Max24HourSend;
+  const sentLast24Hours = quota.SentLast24Hours ?? 0;
+  const vdm = response.VdmAttributes;
+
+  return {
+    productionAccessEnabled: response.ProductionAccessEnabled ?? false,
+    sendingEnabled: response.SendingEnabled ?? false,
+    enforcementStatus: response.EnforcementStatus ?? 'HEALTHY',
+    sendQuota: {
+      max24HourSend,
+      maxSendRate: quota.MaxSendRate ?? 0,
+      sentLast24Hours,
+      remaining24Hour: max24HourSend === null ? null : Math.max(0, max24HourSend - sentLast24Hours),
+    },
+    vdm: {
+      enabled: vdm?.VdmEnabled === 'ENABLED',
+      dashboardEnabled: vdm?.DashboardAttributes?.EngagementMetrics === 'ENABLED',
+      guardianEnabled: vdm?.GuardianAttributes?.OptimizedSharedDelivery === 'ENABLED',
+    },
+    suppressedReasons: (response.SuppressionAttributes?.SuppressedReasons ??
+      []) as SuppressionReason[],
+    dedicatedIpAutoWarmupEnabled: response.DedicatedIpAutoWarmupEnabled ?? false,
+  };
+}
+
+export class WrapsAccount {
+  constructor(private client: SESv2Client) {}
+
+  /**
+   * Read the account's sandbox state, quota, enforcement status, VDM and
+   * suppression settings for the client's region.
+   */
+  async get(): Promise<AccountSummary> {
+    return toSummary(await this.getAccount());
+  }
+
+  /**
+   * Check the account can take a send before it starts, e.g. ahead of a large
+   * campaign. Resolves with the summary it checked; a `PROBATION` account passes.
+   *
+   * @throws {SandboxError} When the account is in the sandbox and `allowSandbox` is not set.
+   * @throws {SESError} When sending is paused or the account has been shut down.
+   * @throws {QuotaExceededError} When `recipients` is more than what is left of the 24-hour quota.
+   */
+  async assertCanSend(options: AssertCanSendOptions = {}): Promise<AccountSummary> {
+    const response = await this.getAccount();
+    const summary = toSummary(response);
+    const requestId = response.$metadata?.requestId ?? 'unknown';
+
+    if (summary.enforcementStatus === 'SHUTDOWN') {
+      throw new SESError(
+        'SES has shut down sending for this account. Open a case with AWS Support to appeal.',
+        'AccountShutdown',
+        requestId,
+        false
+      );
+    }
+    if (!summary.sendingEnabled) {
+      throw new SESError(
+        'Sending is paused for this account. Re-enable it with PutAccountSendingAttributes.',
+        'SendingPaused',
+        requestId,
+        false
+      );
+    }
+    if (!summary.productionAccessEnabled && !options.allowSandbox) {
+      const region = await this.region();
+      throw new SandboxError(
+        `The SES account${region ? ` in ${region}` : ''} is in the sandbox, so it can only send to verified identities and the mailbox simulator. Request production access in the SES console, or pass allowSandbox: true.`,
+        'ProductionAccessNotEnabled',
+        requestId,
+        false,
+        region
+      );
+    }
+
+    const { max24HourSend, sentLast24Hours } = summary.sendQuota;
+    const recipients = options.recipients ?? 0;
+    if (max24HourSend !== null && sentLast24Hours + recipients > max24HourSend) {
+      throw new QuotaExceededError(
+        `Sending to ${recipients} recipient(s) would exceed the SES 24-hour quota of ${max24HourSend} (${sentLast24Hours} already sent in this window). Nothing was sent.`,
+        max24HourSend,
+        sentLast24Hours,
+        recipients
+      );
+    }
+
+    return summary;
+  }
+
+  private async getAccount(): Promise<GetAccountCommandOutput> {
+    try {
+      return await this.client.send(new GetAccountCommand({}));
+    } catch (error) {
+      throw mapAwsSdkError(error, 'SES GetAccount failed');
+    }
+  }
+
+  /** The region to name in a sandbox error, or undefined if it cannot be resolved. */
+  private async region(): Promise<string | undefined> {
+    try {
+      return await this.client.config.region();
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendBatchStream } from './batch-stream';
+import { MemoryStreamCheckpointStore } from './bulk-stream';
+import { SESError } from './errors';
+import type { BatchEmailEntry, BatchEntryResult, SendBatchParams } from './types';
+
+function entries(count: number): BatchEmailEntry[] {
+  return Array.from({ length: count }, (_, i) => ({
+    to: `user${i}@example.com`,
+    subject: `Digest ${i}`,
+    html: `<p>${i}</p>`,
+  }));
+}
+
+async function* stream(items: BatchEmailEntry[]): AsyncGenerator<BatchEmailEntry> {
+  yield* items;
+}
+
+const succeed = async (params: SendBatchParams) => ({
+  results: params.entries.map((entry, index) => ({
+    index,
+    status: 'success' as const,
+    messageId: `id-${entry.to}`,
+  })),
+  successCount: params.entries.length,
+  failureCount: 0,
+});
+
+async function drain<T, R>(generator: AsyncGenerator<T, R>): Promise<{ yielded: T[]; result: R }> {
+  const yielded: T[] = [];
+  for (;;) {
+    const next = await generator.next();
+    if (next.done) {
+      return { yielded, result: next.value };
+    }
+    yielded.push(next.value);
+  }
+}
+
+describe('sendBatchStream', () => {
+  let store: MemoryStreamCheckpointStore;
+
+  beforeEach(() => {
+    store = new MemoryStreamCheckpointStore();
+  });
+
+  it('should chunk to 100 entries per batch and yield results by source offset', async () => {
+    const send = vi.fn(succeed);
+
+    const { yielded, result } = await drain(
+      sendBatchStream({ from: 'a@example.com', entries: stream(entries(250)) }, send)
+    );
+
+    expect(send.mock.calls.map(([params]) => params.entries.length)).toEqual([100, 100, 50]);
+    expect(send.mock.calls[0][0]).toMatchObject({ from: 'a@example.com' });
+    expect(yielded.map((row) => row.index).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 250 }, (_, i) => i)
+    );
+    expect(yielded.find((row) => row.index === 120)).toEqual({
+      index: 120,
+      status: 'success',
+      messageId: 'id-user120@example.com',
+    });
+    expect(result).toEqual({ sent: 250, failed: 0, unknown: 0, total: 250, resumedFrom: 0 });
+  });
+
+  it('should not start a chunk while the consumer is not pulling', async () => {
+    const send = vi.fn(succeed);
+    const generator = sendBatchStream(
+      { from: 'a@example.com', entries: entries(100), chunkSize: 10, concurrency: 2 },
+      send
+    );
+
+    await generator.next();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(send).toHaveBeenCalledTimes(2);
+    await generator.return({ sent: 0, failed: 0, unknown: 0, total: 0, resumedFrom: 0 });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should record failed entries without stopping', async () => {
+    const send = vi.fn(async (params: SendBatchParams) => ({
+      results: params.entries.map(
+        (_, index): BatchEntryResult =>
+          index === 0
+            ? { index, status: 'failure', error: 'MessageRejected' }
+            : { index, status: 'success', messageId: 'id' }
+      ),
+      successCount: params.entries.length - 1,
+      failureCount: 1,
+    }));
+
+    const { yielded, result } = await drain(
+      sendBatchStream({ from: 'a@example.com', entries: entries(4), chunkSize: 2 }, send)
+    );
+
+    expect(yielded.filter((row) => row.status === 'failure').map((row) => row.index)).toEqual([
+      0, 2,
+    ]);
+    expect(result).toMatchObject({ sent: 2, failed: 2 });
+  });
+
+  it('should resume after a crash without resending an unacknowledged chunk', async () => {
+    const params = {
+      from: 'a@example.com',
+      chunkSize: 50,
+      concurrency: 1,
+      jobId: 'digest',
+      checkpointStore: store,
+    };
+    const failing = vi
+      .fn(succeed)
+      .mockImplementationOnce(succeed)
+      .mockRejectedValueOnce(new SESError('Socket hang up', 'NetworkingError', 'req', true));
+
+    await expect(
+      drain(sendBatchStream({ ...params, entries: entries(120) }, failing))
+    ).rejects.toThrow('Socket hang up');
+    expect(await store.get('digest')).toMatchObject({ offset: 50, sent: 50 });
+
+    const send = vi.fn(succeed);
+    const { yielded, result } = await drain(
+      sendBatchStream({ ...params, entries: entries(120) }, send)
+    );
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(yielded[0].index).toBe(100);
+    expect(result).toEqual({ sent: 70, failed: 0, unknown: 50, total: 120, resumedFrom: 100 });
+  });
+
+  it('should refuse a jobId without a checkpointStore before sending', async () => {
+    const send = vi.fn(succeed);
+
+    await expect(
+      drain(sendBatchStream({ from: 'a@example.com', entries: entries(3), jobId: 'digest' }, send))
+    ).rejects.toThrow('checkpointStore is required with jobId');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should reject a chunkSize over the sendBatch limit', async () => {
+    await expect(
+      drain(sendBatchStream({ from: 'a@example.com', entries: [], chunkSize: 101 }, vi.fn()))
+    ).rejects.toThrow('chunkSize must be an integer from 1 to 100');
+  });
+});
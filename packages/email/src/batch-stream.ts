@@ -0,0 +1,170 @@
+import {
+  advance,
+  assertPositiveInteger,
+  checkpointWriter,
+  openCheckpoint,
+  refusedBeforeSending,
+  settle,
+} from './bulk-stream';
+import type {
+  BatchEmailEntry,
+  BatchEntryResult,
+  SendBatchParams,
+  SendBatchResult,
+  SendBatchStreamParams,
+  SendBatchStreamResult,
+} from './types';
+
+const MAX_CHUNK_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+
+/** Entries bound for one `sendBatch` call, with their offsets. */
+type Chunk = Array<{ offset: number; entry: BatchEmailEntry }>;
+
+/** A chunk that finished, with its rows re-indexed by source offset. */
+interface Finished {
+  task: Promise<Finished>;
+  results: BatchEntryResult[];
+}
+
+/**
+ * Send an unbounded stream of entries as `sendBatch` chunks, `concurrency` at
+ * a time, through `send` — `WrapsEmail.sendBatch`, so middleware, the rate
+ * limiter and the reputation guard apply to each chunk. Entries are read and
+ * rendered only as chunks are started, so memory stays bounded by
+ * `chunkSize * concurrency`.
+ *
+ * Yields each entry's result as its chunk finishes, indexed by its offset in
+ * the source. No new chunk starts while the consumer is not pulling, and
+ * breaking out of the loop stops the job once the chunks in flight finish.
+ *
+ * Checkpoints work as in `sendBulkTemplateStream`: an entry whose chunk was
+ * in flight when a job stopped is reported as `unknown` on resume rather than
+ * sent twice. A chunk that throws stops the job; its error is thrown after the
+ * results of the chunks in flight have been yielded.
+ */
+export async function* sendBatchStream(
+  params: SendBatchStreamParams,
+  send: (params: SendBatchParams) => Promise<SendBatchResult>
+): AsyncGenerator<BatchEntryResult, SendBatchStreamResult, undefined> {
+  const {
+    entries,
+    chunkSize = MAX_CHUNK_SIZE,
+    concurrency = DEFAULT_CONCURRENCY,
+    jobId,
+    checkpointStore,
+    ...base
+  } = params;
+  assertPositiveInteger(chunkSize, 'chunkSize', MAX_CHUNK_SIZE);
+  assertPositiveInteger(concurrency, 'concurrency');
+
+  const checkpoint = await openCheckpoint(checkpointStore, jobId);
+  const resumedFrom = checkpoint.offset;
+  const { save, flush } = checkpointWriter(checkpointStore, jobId, checkpoint);
+
+  const active = new Set<Promise<Finished>>();
+  let stopped: { error: unknown } | undefined;
+
+  const run = (chunk: Chunk) => {
+    for (const { offset } of chunk) {
+      checkpoint.statuses[offset] = { status: 'pending' };
+    }
+    const work = (async () => {
+      let response: SendBatchResult;
+      try {
+        await save();
+        response = await send({ ...base, entries: chunk.map(({ entry }) => entry) });
+      } catch (error) {
+        if (refusedBeforeSending(error)) {
+          for (const { offset } of chunk) {
+            delete checkpoint.statuses[offset];
+          }
+          await save();
+        }
+        throw error;
+      }
+
+      const results = response.results.map(
+        (row): BatchEntryResult => ({ ...row, index: chunk[row.index].offset })
+      );
+      for (const { index, status, messageId, error } of results) {
+        settle(
+          checkpoint,
+          index,
+          status === 'success'
+            ? { status, messageId }
+            : { status, error: error ?? 'SES returned no error for this entry' }
+        );
+      }
+      advance(checkpoint);
+      await save();
+      return results;
+    })();
+    const task: Promise<Finished> = work.then(
+      (results) => ({ task, results }),
+      (error) => {
+        stopped ??= { error };
+        return { task, results: [] };
+      }
+    );
+    active.add(task);
+  };
+
+  // Yield finished chunks until no more than `limit` are in flight
+  async function* settled(limit: number): AsyncGenerator<BatchEntryResult, void, undefined> {
+    while (active.size > limit) {
+      const { task, results } = await Promise.race(active);
+      active.delete(task);
+      yield* results;
+    }
+  }
+
+  let total = 0;
+  try {
+    let chunk: Chunk = [];
+    try {
+      for await (const entry of entries) {
+        if (stopped) {
+          break;
+        }
+        const offset = total++;
+        if (offset < checkpoint.offset || checkpoint.statuses[offset]) {
+          continue;
+        }
+        chunk.push({ offset, entry });
+        if (chunk.length === chunkSize) {
+          yield* settled(concurrency - 1);
+          if (!stopped) {
+            run(chunk);
+          }
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0 && !stopped) {
+        yield* settled(concurrency - 1);
+        if (!stopped) {
+          run(chunk);
+        }
+      }
+    } catch (error) {
+      stopped ??= { error };
+    }
+
+    yield* settled(0);
+    if (stopped) {
+      throw stopped.error;
+    }
+  } finally {
+    // Reached early when the consumer stops iterating
+    await Promise.all(active);
+    await flush();
+  }
+
+  return {
+    sent: checkpoint.sent,
+    failed: checkpoint.failed,
+    unknown: checkpoint.unknown,
+    total,
+    resumedFrom,
+  };
+}
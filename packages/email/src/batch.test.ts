@@ -1,11 +1,17 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { sendBatch } from './batch';
-import { CredentialsError, SandboxError } from './errors';
+import { CredentialsError, SandboxError, SES_SIMULATOR_SUCCESS } from './errors';
+import { IdempotencyGuard, MemoryIdempotencyStore } from './idempotency';
+import { WrapsListUnsubscribe } from './list-unsubscribe';
+import { SafeMode } from './safe-mode';
 
 vi.mock('@aws-sdk/client-sesv2', () => ({
   SendBulkEmailCommand: vi.fn(function (this: any, input: any) {
     Object.assign(this, input);
   }),
+  SendEmailCommand: vi.fn(function (this: any, input: any) {
+    Object.assign(this, input);
+  }),
 }));
 
 const entries = (count: number) =>
@@ -97,6 +103,395 @@ describe('sendBatch', () => {
     expect(result.results[1]).toMatchObject({ index: 1, status: 'failure' });
   });
 
+  describe('with a retry policy', () => {
+    const throttledChunk = () =>
+      Object.assign(new Error('Maximum sending rate exceeded'), {
+        name: 'TooManyRequestsException',
+        $metadata: { requestId: 'req-t' },
+        $retryable: { throttling: true },
+      });
+
+    it('re-sends only the entries that failed retryably', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          BulkEmailEntryResults: [
+            { Status: 'SUCCESS', MessageId: 'msg-0' },
+            { Status: 'ACCOUNT_THROTTLED', Error: 'throttled' },
+            { Status: 'MESSAGE_REJECTED', Error: 'rejected' },
+          ],
+          $metadata: { requestId: 'req-1' },
+        })
+        .mockResolvedValueOnce({
+          BulkEmailEntryResults: [{ Status: 'SUCCESS', MessageId: 'msg-1' }],
+          $metadata: { requestId: 'req-2' },
+        });
+      const onRetry = vi.fn();
+
+      const result = await sendBatch(client, params(3), { retry: { baseDelayMs: 0, onRetry } });
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      const retried = mockSend.mock.calls[1][0].BulkEmailEntries;
+      expect(retried).toHaveLength(1);
+      expect(retried[0].Destination.ToAddresses).toEqual(['user1@example.com']);
+
+      expect(result.successCount).toBe(2);
+      expect(result.failureCount).toBe(1);
+      expect(result.results[1]).toMatchObject({ index: 1, status: 'success', messageId: 'msg-1' });
+      expect(result.results[2]).toMatchObject({ index: 2, status: 'failure', error: 'rejected' });
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: 'sendBatch', attempt: 1, entries: [1] })
+      );
+    });
+
+    it('retries a throttled chunk as a whole and keeps the successful chunk', async () => {
+      mockSend.mockImplementation(async (command: any) => {
+        const first = command.BulkEmailEntries[0].Destination.ToAddresses[0];
+        if (first === 'user50@example.com' && mockSend.mock.calls.length <= 2) {
+          throw throttledChunk();
+        }
+        return {
+          BulkEmailEntryResults: command.BulkEmailEntries.map((_: unknown, i: number) => ({
+            Status: 'SUCCESS',
+            MessageId: `msg-${i}`,
+          })),
+        };
+      });
+
+      const result = await sendBatch(client, params(60), { retry: { baseDelayMs: 0 } });
+
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect(mockSend.mock.calls[2][0].BulkEmailEntries).toHaveLength(10);
+      expect(result.successCount).toBe(60);
+      expect(result.results.map((r) => r.index)).toEqual(Array.from({ length: 60 }, (_, i) => i));
+    });
+
+    it('reports the last failure once attempts run out', async () => {
+      mockSend.mockRejectedValue(throttledChunk());
+
+      const result = await sendBatch(client, params(2), {
+        retry: { maxAttempts: 2, baseDelayMs: 0 },
+      });
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(result.failureCount).toBe(2);
+      expect(result.results[0].error).toContain('(retryable)');
+      expect(result.results[0]).not.toHaveProperty('retryError');
+    });
+
+    it('does not retry without a policy', async () => {
+      mockSend.mockRejectedValue(throttledChunk());
+
+      await sendBatch(client, params(2));
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('with idempotency keys', () => {
+    const keyed = (keys: string[]) => ({
+      from: 'sender@example.com',
+      entries: keys.map((idempotencyKey, i) => ({ ...entries(keys.length)[i], idempotencyKey })),
+    });
+
+    it('skips entries already sent and records the new ones', async () => {
+      const idempotency = new IdempotencyGuard(new MemoryIdempotencyStore());
+      await idempotency.record('k0', { messageId: 'msg-earlier', requestId: 'req-earlier' });
+      mockSend.mockResolvedValue({
+        BulkEmailEntryResults: [{ Status: 'SUCCESS', MessageId: 'msg-1' }],
+        $metadata: { requestId: 'req-1' },
+      });
+
+      const result = await sendBatch(client, keyed(['k0', 'k1']), { idempotency });
+
+      const sent = mockSend.mock.calls[0][0].BulkEmailEntries;
+      expect(sent).toHaveLength(1);
+      expect(sent[0].Destination.ToAddresses).toEqual(['user1@example.com']);
+      expect(result.results).toEqual([
+        { index: 0, status: 'success', messageId: 'msg-earlier' },
+        expect.objectContaining({ index: 1, status: 'success', messageId: 'msg-1' }),
+      ]);
+      expect(await idempotency.lookup('k1')).toEqual({ messageId: 'msg-1', requestId: 'req-1' });
+    });
+
+    it('does not record a failed entry, so a later retry sends it', async () => {
+      const idempotency = new IdempotencyGuard(new MemoryIdempotencyStore());
+      mockSend.mockResolvedValue({
+        BulkEmailEntryResults: [{ Status: 'MESSAGE_REJECTED', Error: 'rejected' }],
+        $metadata: { requestId: 'req-1' },
+      });
+
+      await sendBatch(client, keyed(['k0']), { idempotency });
+
+      expect(await idempotency.lookup('k0')).toBeUndefined();
+    });
+
+    it('fails an entry whose key another process is sending, and sends the rest', async () => {
+      const store = new MemoryIdempotencyStore();
+      await store.claim('k0', 60);
+      const idempotency = new IdempotencyGuard(store);
+      mockSend.mockResolvedValue({
+        BulkEmailEntryResults: [{ Status: 'SUCCESS', MessageId: 'msg-1' }],
+      });
+
+      const result = await sendBatch(client, keyed(['k0', 'k1']), { idempotency });
+
+      expect(mockSend.mock.calls[0][0].BulkEmailEntries).toHaveLength(1);
+      expect(result.results[0]).toEqual({
+        index: 0,
+        status: 'failure',
+        error: 'idempotencyKey "k0" is being sent by another process',
+      });
+      expect(result.results[1]).toMatchObject({ status: 'success', messageId: 'msg-1' });
+    });
+
+    it('releases the claim on a failed entry, so a later batch sends it', async () => {
+      const idempotency = new IdempotencyGuard(new MemoryIdempotencyStore());
+      mockSend
+        .mockResolvedValueOnce({
+          BulkEmailEntryResults: [{ Status: 'MESSAGE_REJECTED', Error: 'rejected' }],
+        })
+        .mockResolvedValueOnce({
+          BulkEmailEntryResults: [{ Status: 'SUCCESS', MessageId: 'msg-0' }],
+        });
+
+      await sendBatch(client, keyed(['k0']), { idempotency });
+      const retried = await sendBatch(client, keyed(['k0']), { idempotency });
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(retried.successCount).toBe(1);
+    });
+
+    it('rejects a key repeated within one batch before sending', async () => {
+      await expect(sendBatch(client, keyed(['k0', 'k0']))).rejects.toMatchObject({
+        name: 'ValidationError',
+        field: 'entries[1].idempotencyKey',
+      });
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  it('rewrites entries for safe mode with a subject prefix and X-Original-To', async () => {
+    mockSend.mockResolvedValue({
+      BulkEmailEntryResults: [{ Status: 'SUCCESS' }, { Status: 'SUCCESS' }],
+    });
+    const safeMode = new SafeMode({ allowedRecipients: ['user0@example.com'] });
+
+    await sendBatch(client, params(2), { safeMode });
+
+    const [kept, rewritten] = mockSend.mock.calls[0][0].BulkEmailEntries;
+    expect(kept.Destination.ToAddresses).toEqual(['user0@example.com']);
+    expect(kept.ReplacementHeaders).toBeUndefined();
+    expect(rewritten.Destination.ToAddresses).toEqual([SES_SIMULATOR_SUCCESS]);
+    expect(rewritten.ReplacementHeaders).toEqual([
+      { Name: 'X-Original-To', Value: 'user1@example.com' },
+    ]);
+    expect(
+      JSON.parse(rewritten.ReplacementEmailContent.ReplacementTemplate.ReplacementTemplateData)
+        .subject
+    ).toBe('[safe-mode] Hi');
+  });
+
+  it('sends per-entry headers as ReplacementHeaders', async () => {
+    mockSend.mockResolvedValue({ BulkEmailEntryResults: [{ Status: 'SUCCESS' }] });
+
+    await sendBatch(client, {
+      from: 'sender@example.com',
+      entries: [
+        {
+          to: 'user0@example.com',
+          subject: 'Hi',
+          html: '<p>Hi</p>',
+          headers: { 'X-Entity-Ref-ID': 'order-1' },
+        },
+      ],
+    });
+
+    expect(mockSend.mock.calls[0][0].BulkEmailEntries[0].ReplacementHeaders).toEqual([
+      { Name: 'X-Entity-Ref-ID', Value: 'order-1' },
+    ]);
+  });
+
+  it('signs one-click unsubscribe headers for each entry recipient', async () => {
+    mockSend.mockResolvedValue({
+      BulkEmailEntryResults: [{ Status: 'SUCCESS' }, { Status: 'SUCCESS' }],
+    });
+    const listUnsubscribe = new WrapsListUnsubscribe({
+      secret: 'unsubscribe-secret-0123456789',
+      mailto: 'unsubscribe@acme.test',
+    });
+
+    await sendBatch(
+      client,
+      { ...params(2), listUnsubscribe: { list: 'news' } },
+      { listUnsubscribe }
+    );
+
+    const recipients = mockSend.mock.calls[0][0].BulkEmailEntries.map((entry: any) => {
+      const [header] = entry.ReplacementHeaders;
+      const token = /subject=([\w-]+)>$/.exec(header.Value)?.[1] as string;
+      return listUnsubscribe.verify(token).recipient;
+    });
+    expect(recipients).toEqual(['user0@example.com', 'user1@example.com']);
+  });
+
+  it('refuses an unsubscribe link for an entry with cc or bcc recipients', async () => {
+    const listUnsubscribe = new WrapsListUnsubscribe({
+      secret: 'unsubscribe-secret-0123456789',
+      mailto: 'unsubscribe@acme.test',
+    });
+    const [entry] = params(1).entries;
+
+    await expect(
+      sendBatch(
+        client,
+        {
+          ...params(0),
+          entries: [{ ...entry, bcc: 'audit@example.com' }],
+          listUnsubscribe: { list: 'news' },
+        },
+        { listUnsubscribe }
+      )
+    ).rejects.toThrow('listUnsubscribe needs exactly one recipient per message (got 2)');
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('sends list-managed entries one SendEmail each, failing entries individually', async () => {
+    mockSend
+      .mockResolvedValueOnce({ MessageId: 'msg-0' })
+      .mockRejectedValueOnce(notVerifiedFailure());
+
+    const result = await sendBatch(client, {
+      ...params(2),
+      listManagement: { contactListName: 'customers', topicName: 'newsletter' },
+    });
+
+    expect(mockSend).toHaveBeenCalledTimes(2);
+    expect(mockSend.mock.calls[0][0]).toMatchObject({
+      FromEmailAddress: 'sender@example.com',
+      Destination: { ToAddresses: ['user0@example.com'] },
+      Content: { Simple: { Subject: { Data: 'Hi' } } },
+      ListManagementOptions: { ContactListName: 'customers', TopicName: 'newsletter' },
+    });
+    expect(result.successCount).toBe(1);
+    expect(result.results[0]).toMatchObject({ status: 'success', messageId: 'msg-0' });
+    expect(result.results[1]).toMatchObject({ index: 1, status: 'failure' });
+  });
+
+  it('sends list-managed entries four at a time, keeping rows in entry order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    mockSend.mockImplementation(async (command: any) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      const [to] = command.Destination.ToAddresses;
+      // Later entries finish first
+      await new Promise((resolve) => setTimeout(resolve, 10 - Number(/\d+/.exec(to))));
+      inFlight--;
+      return { MessageId: `msg-${to}` };
+    });
+
+    const result = await sendBatch(client, {
+      ...params(10),
+      listManagement: { contactListName: 'customers', topicName: 'newsletter' },
+    });
+
+    expect(peak).toBe(4);
+    expect(result.results.map((row) => [row.index, row.messageId])).toEqual(
+      Array.from({ length: 10 }, (_, i) => [i, `msg-user${i}@example.com`])
+    );
+  });
+
+  it('sends per-entry cc and bcc in the bulk destination', async () => {
+    mockSend.mockResolvedValue({
+      BulkEmailEntryResults: [{ Status: 'SUCCESS', MessageId: 'msg-0' }],
+    });
+    const [entry] = entries(1);
+
+    await sendBatch(client, {
+      from: 'sender@example.com',
+      entries: [{ ...entry, cc: 'billing@example.com', bcc: ['audit@example.com'] }],
+    });
+
+    expect(mockSend.mock.calls[0][0].BulkEmailEntries[0].Destination).toEqual({
+      ToAddresses: ['user0@example.com'],
+      CcAddresses: ['billing@example.com'],
+      BccAddresses: ['audit@example.com'],
+    });
+  });
+
+  it('sends entries with attachments or their own replyTo as raw SendEmail, in order', async () => {
+    mockSend.mockImplementation(async (command: any) =>
+      command.BulkEmailEntries
+        ? {
+            BulkEmailEntryResults: command.BulkEmailEntries.map(() => ({
+              Status: 'SUCCESS',
+              MessageId: 'msg-bulk',
+            })),
+          }
+        : { MessageId: `msg-${command.Destination.ToAddresses[0]}` }
+    );
+    const [plain, invoice, reply] = entries(3);
+
+    const result = await sendBatch(client, {
+      from: 'sender@example.com',
+      replyTo: 'support@example.com',
+      entries: [
+        plain,
+        {
+          ...invoice,
+          bcc: 'audit@example.com',
+          attachments: [{ filename: 'invoice.pdf', content: Buffer.from('%PDF') }],
+        },
+        { ...reply, replyTo: 'accounts@example.com' },
+      ],
+    });
+
+    expect(mockSend).toHaveBeenCalledTimes(3);
+    expect(mockSend.mock.calls[0][0].BulkEmailEntries).toHaveLength(1);
+    const raw = mockSend.mock.calls[1][0];
+    expect(raw.Destination).toEqual({
+      ToAddresses: ['user1@example.com'],
+      BccAddresses: ['audit@example.com'],
+    });
+    const message = new TextDecoder().decode(raw.Content.Raw.Data);
+    expect(message).toContain('filename="invoice.pdf"');
+    expect(message).toContain('Reply-To: support@example.com');
+    expect(message).not.toContain('Bcc:');
+    expect(mockSend.mock.calls[2][0]).toMatchObject({
+      ReplyToAddresses: ['accounts@example.com'],
+      Content: { Simple: { Subject: { Data: 'Hi' } } },
+    });
+    expect(result.results.map((row) => row.messageId)).toEqual([
+      'msg-bulk',
+      'msg-user1@example.com',
+      'msg-user2@example.com',
+    ]);
+  });
+
+  it('rejects an entry with more than 100 attachments before sending', async () => {
+    const [entry] = entries(1);
+    const attachments = Array.from({ length: 101 }, (_, i) => ({
+      filename: `${i}.txt`,
+      content: 'x',
+    }));
+
+    await expect(
+      sendBatch(client, { from: 'sender@example.com', entries: [{ ...entry, attachments }] })
+    ).rejects.toMatchObject({ name: 'ValidationError', field: 'entries[0].attachments' });
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('rejects a reserved header on an entry before sending', async () => {
+    const batch = params(2);
+    const withReserved = [batch.entries[0], { ...batch.entries[1], headers: { Subject: 'Other' } }];
+
+    await expect(sendBatch(client, { ...batch, entries: withReserved })).rejects.toMatchObject({
+      name: 'ValidationError',
+      field: 'entries[1].headers',
+    });
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
   it('surfaces the unverified-identity rejection as a SandboxError to a single send path', async () => {
     // Guards the shared mapper the batch path leans on: the same AWS text must
     // classify as SandboxError, not a bare SESError.
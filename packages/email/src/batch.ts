@@ -1,31 +1,81 @@
-import { type SESv2Client, SendBulkEmailCommand } from '@aws-sdk/client-sesv2';
 import {
+  type ListManagementOptions,
+  type SESv2Client,
+  SendBulkEmailCommand,
+  SendEmailCommand,
+} from '@aws-sdk/client-sesv2';
+import { listManagementOptions } from './contact-lists';
+import {
+  IdempotencyConflictError,
   isCredentialsChainError,
   isUnverifiedIdentityError,
   mapAwsSdkError,
   SESError,
   ValidationError,
 } from './errors';
+import { assertIdempotencyKey, type IdempotencyGuard } from './idempotency';
+import { unsubscribeHeaders, type WrapsListUnsubscribe } from './list-unsubscribe';
+import type { SendRateLimiter } from './rate-limit';
 import { renderReactEmail } from './react';
-import type { BatchEmailEntry, BatchEntryResult, SendBatchParams, SendBatchResult } from './types';
+import { isRetryableError, nextRetryDelay, sleep } from './retry';
+import type { SafeMode } from './safe-mode';
+import type {
+  Attachment,
+  BatchEntryResult,
+  RetryPolicy,
+  SendBatchParams,
+  SendBatchResult,
+} from './types';
+import { assertCustomHeaders } from './utils/headers';
 import { htmlToPlainText } from './utils/html-to-text';
+import { buildRawEmailMessage } from './utils/mime';
 import { normalizeEmailAddress, normalizeEmailAddresses } from './utils/validation';
 
 const MAX_ENTRIES = 100;
 const CHUNK_SIZE = 50;
+const MAX_ATTACHMENTS = 100;
+/** Own-send entries in flight at once; the bulk streams' default concurrency. */
+const ENTRY_CONCURRENCY = 4;
+
+export interface SendBatchOptions {
+  retry?: RetryPolicy;
+  rateLimiter?: SendRateLimiter;
+  idempotency?: IdempotencyGuard;
+  safeMode?: SafeMode;
+  listUnsubscribe?: WrapsListUnsubscribe;
+}
 
 interface ResolvedEntry {
   to: string;
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string[];
   subject: string;
   html: string;
   text: string;
+  attachments?: Attachment[];
   tags?: Record<string, string>;
+  headers?: Record<string, string>;
+}
+
+/**
+ * `SendBulkEmail` shares one Reply-To across the call and cannot carry
+ * attachments, so entries with either go out as their own raw `SendEmail`.
+ */
+function needsOwnSend(entry: ResolvedEntry): boolean {
+  return entry.replyTo !== undefined || (entry.attachments?.length ?? 0) > 0;
 }
 
 /**
- * Pre-process entries: validate and render React components
+ * Pre-process entries: validate, render React components, sign unsubscribe
+ * links, and apply safe mode
  */
-async function resolveEntries(entries: BatchEmailEntry[]): Promise<ResolvedEntry[]> {
+async function resolveEntries(
+  params: SendBatchParams,
+  options: SendBatchOptions
+): Promise<ResolvedEntry[]> {
+  const { entries } = params;
+  const { safeMode } = options;
   const resolved: ResolvedEntry[] = [];
 
   for (let i = 0; i < entries.length; i++) {
@@ -56,6 +106,17 @@ async function resolveEntries(entries: BatchEmailEntry[]): Promise<ResolvedEntry
       );
     }
 
+    if (entry.headers) {
+      assertCustomHeaders(entry.headers, `entries[${i}].headers`);
+    }
+
+    if (entry.attachments && entry.attachments.length > MAX_ATTACHMENTS) {
+      throw new ValidationError(
+        `Entry ${i}: maximum ${MAX_ATTACHMENTS} attachments allowed per email`,
+        `entries[${i}].attachments`
+      );
+    }
+
     let html = entry.html || '';
     let text = entry.text || '';
 
@@ -70,12 +131,33 @@ async function resolveEntries(entries: BatchEmailEntry[]): Promise<ResolvedEntry
       text = htmlToPlainText(html);
     }
 
+    const unsubscribe = unsubscribeHeaders(
+      options.listUnsubscribe,
+      params.listUnsubscribe,
+      [
+        normalizeEmailAddress(entry.to),
+        ...(entry.cc ? normalizeEmailAddresses(entry.cc) : []),
+        ...(entry.bcc ? normalizeEmailAddresses(entry.bcc) : []),
+      ],
+      entry.headers
+    );
+    const safe = safeMode?.rewrite({ to: entry.to, cc: entry.cc, bcc: entry.bcc });
+    const cc = safe ? safe.cc : entry.cc ? normalizeEmailAddresses(entry.cc) : undefined;
+    const bcc = safe ? safe.bcc : entry.bcc ? normalizeEmailAddresses(entry.bcc) : undefined;
     resolved.push({
-      to: normalizeEmailAddress(entry.to),
-      subject: entry.subject,
+      to: safe ? safe.to[0] : normalizeEmailAddress(entry.to),
+      cc: cc?.length ? cc : undefined,
+      bcc: bcc?.length ? bcc : undefined,
+      replyTo: entry.replyTo ? normalizeEmailAddresses(entry.replyTo) : undefined,
+      subject: safe && safeMode ? safeMode.subject(entry.subject) : entry.subject,
       html,
       text,
+      attachments: entry.attachments,
       tags: entry.tags,
+      headers:
+        entry.headers || unsubscribe || safe
+          ? { ...entry.headers, ...unsubscribe, ...safe?.headers }
+          : undefined,
     });
   }
 
@@ -83,23 +165,47 @@ async function resolveEntries(entries: BatchEmailEntry[]): Promise<ResolvedEntry
 }
 
 /**
- * Send a chunk of up to 50 entries via SES v2 SendBulkEmailCommand
+ * Per-entry outcome of one chunk send. `retryError` is set only on failures a
+ * retry could fix, so the retry loop never re-sends a rejected message.
+ */
+interface ChunkEntryResult extends BatchEntryResult {
+  retryError?: Error;
+  /** Request that sent this entry, recorded against its idempotency key. */
+  requestId?: string;
+}
+
+/**
+ * `BulkEmailEntryResult` statuses that describe a passing condition rather than
+ * a problem with the message itself.
+ */
+const RETRYABLE_ENTRY_STATUSES = new Set(['ACCOUNT_THROTTLED', 'TRANSIENT_FAILURE']);
+
+/**
+ * Send a chunk of up to 50 entries via SES v2 SendBulkEmailCommand, or one
+ * SendEmailCommand per entry when the batch is list-managed or the chunk holds
+ * entries that need their own send
  */
 async function sendChunk(
   sesv2Client: SESv2Client,
   params: SendBatchParams,
   resolvedEntries: ResolvedEntry[],
-  startIndex: number
-): Promise<BatchEntryResult[]> {
+  indices: number[],
+  listManagement?: ListManagementOptions
+): Promise<ChunkEntryResult[]> {
+  if (listManagement || resolvedEntries.some(needsOwnSend)) {
+    return sendEntries(sesv2Client, params, resolvedEntries, indices, listManagement);
+  }
+
   const command = new SendBulkEmailCommand({
     FromEmailAddress: normalizeEmailAddress(params.from),
     ReplyToAddresses: params.replyTo ? normalizeEmailAddresses(params.replyTo) : undefined,
     DefaultContent: {
       Template: {
         TemplateContent: {
-          Subject: '{{subject}}',
-          Html: '{{htmlContent}}',
-          Text: '{{textContent}}',
+          // Triple braces: each entry's content is already final markup and must not be escaped.
+          Subject: '{{{subject}}}',
+          Html: '{{{htmlContent}}}',
+          Text: '{{{textContent}}}',
         },
         TemplateData: JSON.stringify({ subject: '', htmlContent: '', textContent: '' }),
       },
@@ -107,6 +213,8 @@ async function sendChunk(
     BulkEmailEntries: resolvedEntries.map((entry) => ({
       Destination: {
         ToAddresses: [entry.to],
+        CcAddresses: entry.cc,
+        BccAddresses: entry.bcc,
       },
       ReplacementEmailContent: {
         ReplacementTemplate: {
@@ -120,6 +228,9 @@ async function sendChunk(
       ReplacementTags: entry.tags
         ? Object.entries(entry.tags).map(([Name, Value]) => ({ Name, Value }))
         : undefined,
+      ReplacementHeaders: entry.headers
+        ? Object.entries(entry.headers).map(([Name, Value]) => ({ Name, Value }))
+        : undefined,
     })),
     DefaultEmailTags: params.tags
       ? Object.entries(params.tags).map(([Name, Value]) => ({ Name, Value }))
@@ -136,15 +247,145 @@ async function sendChunk(
 
   return response.BulkEmailEntryResults.map((result, i) => {
     const status = result.Status === 'SUCCESS' ? 'success' : 'failure';
-    return {
-      index: startIndex + i,
+    const row: ChunkEntryResult = {
+      index: indices[i],
       messageId: result.MessageId,
       status,
       error: result.Error,
-    } as BatchEntryResult;
+      requestId: response.$metadata?.requestId,
+    };
+    if (result.Status && RETRYABLE_ENTRY_STATUSES.has(result.Status)) {
+      row.retryError = new SESError(
+        result.Error || result.Status,
+        result.Status,
+        response.$metadata?.requestId || 'unknown',
+        true
+      );
+    }
+    return row;
   });
 }
 
+/**
+ * Send each entry on its own: `SendBulkEmail` cannot carry list management, a
+ * per-entry Reply-To or attachments. Entries with attachments go out as raw
+ * MIME. Up to {@link ENTRY_CONCURRENCY} entries are in flight at once, and
+ * rows come back in entry order. An entry's failure is its own row; a
+ * credential-chain failure still propagates raw so the caller can fail the
+ * whole batch.
+ */
+async function sendEntries(
+  sesv2Client: SESv2Client,
+  params: SendBatchParams,
+  resolvedEntries: ResolvedEntry[],
+  indices: number[],
+  listManagement?: ListManagementOptions
+): Promise<ChunkEntryResult[]> {
+  const rows: ChunkEntryResult[] = new Array(resolvedEntries.length);
+  const sendOne = async (i: number) => {
+    const entry = resolvedEntries[i];
+    const tags = entry.tags ?? params.tags;
+    const replyTo =
+      entry.replyTo ?? (params.replyTo ? normalizeEmailAddresses(params.replyTo) : undefined);
+    try {
+      const response = await sesv2Client.send(
+        new SendEmailCommand({
+          FromEmailAddress: normalizeEmailAddress(params.from),
+          ReplyToAddresses: replyTo,
+          Destination: {
+            ToAddresses: [entry.to],
+            CcAddresses: entry.cc,
+            BccAddresses: entry.bcc,
+          },
+          Content: entry.attachments?.length
+            ? {
+                Raw: {
+                  Data: new TextEncoder().encode(
+                    // Bcc recipients travel in Destination only, never in a header
+                    buildRawEmailMessage({
+                      from: params.from,
+                      to: entry.to,
+                      cc: entry.cc,
+                      replyTo,
+                      subject: entry.subject,
+                      html: entry.html || undefined,
+                      text: entry.text || undefined,
+                      attachments: entry.attachments,
+                      customHeaders: entry.headers,
+                    })
+                  ),
+                },
+              }
+            : {
+                Simple: {
+                  Subject: { Data: entry.subject, Charset: 'UTF-8' },
+                  Body: {
+                    Html: entry.html ? { Data: entry.html, Charset: 'UTF-8' } : undefined,
+                    Text: entry.text ? { Data: entry.text, Charset: 'UTF-8' } : undefined,
+                  },
+                  Headers: entry.headers
+                    ? Object.entries(entry.headers).map(([Name, Value]) => ({ Name, Value }))
+                    : undefined,
+                },
+              },
+          EmailTags: tags
+            ? Object.entries(tags).map(([Name, Value]) => ({ Name, Value }))
+            : undefined,
+          ConfigurationSetName: params.configurationSetName,
+          ListManagementOptions: listManagement,
+        })
+      );
+      rows[i] = {
+        index: indices[i],
+        messageId: response.MessageId,
+        status: 'success',
+        requestId: response.$metadata?.requestId,
+      };
+    } catch (error) {
+      if (isCredentialsChainError(error)) {
+        throw error;
+      }
+      rows[i] = {
+        index: indices[i],
+        status: 'failure',
+        error: describeChunkError(error, undefined),
+        retryError: isRetryableError(error)
+          ? mapAwsSdkError(error, 'SES request failed')
+          : undefined,
+      };
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < resolvedEntries.length) {
+      await sendOne(next++);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(ENTRY_CONCURRENCY, resolvedEntries.length) }, worker)
+  );
+  return rows;
+}
+
+/**
+ * Split entry indices into SES-sized chunks, preserving order. Entries that
+ * need their own send are chunked apart, so they never cost the rest of the
+ * batch its `SendBulkEmail` call.
+ */
+function chunkIndices(indices: number[], resolved: ResolvedEntry[]): number[][] {
+  const chunks: number[][] = [];
+  for (const group of [
+    indices.filter((i) => !needsOwnSend(resolved[i])),
+    indices.filter((i) => needsOwnSend(resolved[i])),
+  ]) {
+    for (let offset = 0; offset < group.length; offset += CHUNK_SIZE) {
+      chunks.push(group.slice(offset, offset + CHUNK_SIZE));
+    }
+  }
+  return chunks;
+}
+
 /**
  * Region the batch client actually sends to, so a chunk failure caused by an
  * identity verified elsewhere reads as a region problem rather than a mystery.
@@ -181,15 +422,38 @@ function describeChunkError(error: unknown, region: string | undefined): string
  * A credential-chain failure is the exception: nothing was ever sent, so it
  * throws rather than reporting every entry as failed with the same message.
  *
+ * With `options.retry`, entries that failed retryably (throttling, transient
+ * SES errors) are re-sent on their own — successes are never sent twice.
+ *
+ * With `options.safeMode`, entry recipients off the allow-list are rewritten
+ * and carry `X-Original-To` via `ReplacementHeaders`.
+ *
+ * With `params.listUnsubscribe`, each entry carries one-click unsubscribe
+ * headers signed for its own recipient by `options.listUnsubscribe`.
+ *
+ * With `params.listManagement`, entries go out one `SendEmailCommand` each,
+ * since `SendBulkEmailCommand` cannot name a contact list. So do entries with
+ * attachments or their own `replyTo`, chunked apart from the rest.
+ *
+ * Entries whose `idempotencyKey` already has a live record are not sent; their
+ * row reports the original `messageId`. Keys are claimed before sending, so an
+ * entry whose key another process is sending fails with that reason.
+ *
  * @param sesv2Client - SES v2 client instance
  * @param params - Batch send parameters
+ * @param options - Retry policy for throttled and transient entry failures,
+ *   the send-rate limiter each chunk acquires from, the idempotency guard
+ *   entry keys are checked against, safe-mode recipient rewriting, and the
+ *   unsubscribe signer
  * @returns Aggregated results for all entries
- * @throws {ValidationError} On an empty, oversized, or malformed entries array.
+ * @throws {ValidationError} On an empty, oversized, or malformed entries array,
+ *   including an `idempotencyKey` repeated within the batch.
  * @throws {CredentialsError} When the AWS credential chain produced nothing.
  */
 export async function sendBatch(
   sesv2Client: SESv2Client,
-  params: SendBatchParams
+  params: SendBatchParams,
+  options: SendBatchOptions = {}
 ): Promise<SendBatchResult> {
   if (!params.entries || params.entries.length === 0) {
     throw new ValidationError('entries array must not be empty', 'entries');
@@ -202,12 +466,24 @@ export async function sendBatch(
     );
   }
 
-  const resolved = await resolveEntries(params.entries);
+  const keys = params.entries.map((entry) => entry.idempotencyKey);
+  const seenKeys = new Set<string>();
+  keys.forEach((key, i) => {
+    if (key === undefined) {
+      return;
+    }
+    assertIdempotencyKey(key, `entries[${i}].idempotencyKey`);
+    if (seenKeys.has(key)) {
+      throw new ValidationError(
+        `Entry ${i}: idempotencyKey "${key}" is repeated within the batch`,
+        `entries[${i}].idempotencyKey`
+      );
+    }
+    seenKeys.add(key);
+  });
 
-  const chunkOffsets: number[] = [];
-  for (let offset = 0; offset < resolved.length; offset += CHUNK_SIZE) {
-    chunkOffsets.push(offset);
-  }
+  const listManagement = listManagementOptions(params.listManagement, params.listUnsubscribe);
+  const resolved = await resolveEntries(params, options);
 
   // Only the unverified-identity message names the region, and resolving it can
   // walk to IMDS. Resolve on first need, at most once for the whole batch.
@@ -217,38 +493,131 @@ export async function sendBatch(
     return regionOnce;
   };
 
-  const chunkResultSets = await Promise.all(
-    chunkOffsets.map(async (offset) => {
-      const chunk = resolved.slice(offset, offset + CHUNK_SIZE);
-      try {
-        return await sendChunk(sesv2Client, params, chunk, offset);
-      } catch (error) {
-        // Nothing was signed, so no entry was attempted. Reporting this as N
-        // identical failure rows would bury one credential problem in N copies
-        // of the same multi-line guidance.
-        if (isCredentialsChainError(error)) {
-          throw mapAwsSdkError(error, 'SES request failed');
+  const sendIndices = async (indices: number[]): Promise<ChunkEntryResult[]> => {
+    const chunkResultSets = await Promise.all(
+      chunkIndices(indices, resolved).map(async (chunkIdx) => {
+        const chunk = chunkIdx.map((i) => resolved[i]);
+        try {
+          // Each chunk waits its own turn, so parallel chunks still respect the
+          // account send rate. A quota refusal fails just this chunk's rows.
+          await options.rateLimiter?.acquire(
+            chunk.reduce(
+              (count, entry) => count + 1 + (entry.cc?.length ?? 0) + (entry.bcc?.length ?? 0),
+              0
+            )
+          );
+          return await sendChunk(sesv2Client, params, chunk, chunkIdx, listManagement);
+        } catch (error) {
+          // Nothing was signed, so no entry was attempted. Reporting this as N
+          // identical failure rows would bury one credential problem in N copies
+          // of the same multi-line guidance.
+          if (isCredentialsChainError(error)) {
+            throw mapAwsSdkError(error, 'SES request failed');
+          }
+          const detail = describeChunkError(
+            error,
+            isUnverifiedIdentityError(error) ? await region() : undefined
+          );
+          const retryError = isRetryableError(error)
+            ? mapAwsSdkError(error, 'SES request failed')
+            : undefined;
+          return chunkIdx.map(
+            (index): ChunkEntryResult => ({
+              index,
+              status: 'failure',
+              error: detail,
+              retryError,
+            })
+          );
         }
-        const detail = describeChunkError(
-          error,
-          isUnverifiedIdentityError(error) ? await region() : undefined
-        );
-        return chunk.map((_, i) => ({
-          index: offset + i,
-          status: 'failure' as const,
-          error: detail,
-        }));
-      }
-    })
+      })
+    );
+    return chunkResultSets.flat();
+  };
+
+  const results = new Array<BatchEntryResult>(resolved.length);
+  const { idempotency } = options;
+  const priors = await Promise.all(
+    keys.map((key) =>
+      key !== undefined && idempotency
+        ? idempotency.acquire(key).catch((error: unknown) => {
+            if (error instanceof IdempotencyConflictError) {
+              return error;
+            }
+            throw error;
+          })
+        : undefined
+    )
   );
+  priors.forEach((prior, index) => {
+    if (prior instanceof IdempotencyConflictError) {
+      results[index] = { index, status: 'failure', error: prior.message };
+    } else if (prior) {
+      results[index] = { index, messageId: prior.messageId, status: 'success' };
+    }
+  });
+
+  const recorded: Promise<void>[] = [];
+  const startedAt = Date.now();
+  let pending = resolved.map((_, i) => i).filter((i) => !priors[i]);
 
-  const allResults: BatchEntryResult[] = chunkResultSets.flat().sort((a, b) => a.index - b.index);
+  try {
+    for (let attempt = 1; ; attempt++) {
+      const retryable: ChunkEntryResult[] = [];
+      for (const { retryError, requestId, ...row } of await sendIndices(pending)) {
+        results[row.index] = row;
+        if (retryError) {
+          retryable.push({ ...row, retryError });
+        }
+        const key = keys[row.index];
+        if (idempotency && key !== undefined && row.status === 'success' && row.messageId) {
+          recorded.push(
+            idempotency.record(key, { messageId: row.messageId, requestId: requestId || 'unknown' })
+          );
+        }
+      }
+
+      const delayMs =
+        options.retry && retryable.length > 0
+          ? nextRetryDelay(options.retry, attempt, startedAt)
+          : null;
+      if (delayMs === null) {
+        break;
+      }
+
+      // Only the entries that failed retryably go again; successes and hard
+      // rejections keep the row they already have.
+      pending = retryable.map((row) => row.index);
+      await options.retry?.onRetry?.({
+        operation: 'sendBatch',
+        attempt,
+        delayMs,
+        error: retryable[0].retryError as Error,
+        entries: pending,
+      });
+      await sleep(delayMs);
+    }
+  } finally {
+    // Keys this batch claimed but did not send are free for a retry, including
+    // when a credential failure aborts it
+    keys.forEach((key, index) => {
+      if (
+        idempotency &&
+        key !== undefined &&
+        !priors[index] &&
+        results[index]?.status !== 'success'
+      ) {
+        recorded.push(idempotency.release(key));
+      }
+    });
+    await Promise.all(recorded);
+  }
 
-  const successCount = allResults.filter((r) => r.status === 'success').length;
-  const failureCount = allResults.filter((r) => r.status === 'failure').length;
+  const successCount = results.filter((r) => r.status === 'success').length;
+  const failureCount = results.filter((r) => r.status === 'failure').length;
 
   return {
-    results: allResults,
+    results,
     successCount,
     failureCount,
   };
@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStreamCheckpointStore, sendBulkTemplateStream } from './bulk-stream';
+import { SESError, ValidationError } from './errors';
+import type { BulkTemplateDestination, SendBulkTemplateParams } from './types';
+
+function destinations(count: number): BulkTemplateDestination[] {
+  return Array.from({ length: count }, (_, i) => ({
+    to: `user${i}@example.com`,
+    templateData: { i },
+  }));
+}
+
+async function* stream(items: BulkTemplateDestination[]): AsyncGenerator<BulkTemplateDestination> {
+  yield* items;
+}
+
+const succeed = async (params: SendBulkTemplateParams) => ({
+  status: params.destinations.map((dest) => ({
+    status: 'success' as const,
+    messageId: `id-${dest.to}`,
+  })),
+  requestId: 'req',
+});
+
+describe('sendBulkTemplateStream', () => {
+  let store: MemoryStreamCheckpointStore;
+
+  beforeEach(() => {
+    store = new MemoryStreamCheckpointStore();
+  });
+
+  it('should chunk an async iterable to 50 destinations per call', async () => {
+    const send = vi.fn(succeed);
+    const onProgress = vi.fn();
+
+    const result = await sendBulkTemplateStream(
+      {
+        from: 'a@example.com',
+        template: 'news',
+        destinations: stream(destinations(120)),
+        onProgress,
+      },
+      send
+    );
+
+    expect(send.mock.calls.map(([params]) => params.destinations.length)).toEqual([50, 50, 20]);
+    expect(send.mock.calls[0][0]).toMatchObject({ from: 'a@example.com', template: 'news' });
+    expect(send.mock.calls[0][0]).not.toHaveProperty('onProgress');
+    expect(result).toEqual({ sent: 120, failed: 0, unknown: 0, total: 120, resumedFrom: 0 });
+    expect(onProgress.mock.calls.at(-1)?.[0]).toMatchObject({ sent: 120, offset: 120 });
+    expect(onProgress.mock.calls[0][0].results[0]).toEqual({
+      offset: 0,
+      to: 'user0@example.com',
+      status: 'success',
+      messageId: 'id-user0@example.com',
+    });
+  });
+
+  it('should keep at most concurrency chunks in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const send = vi.fn(async (params: SendBulkTemplateParams) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return succeed(params);
+    });
+
+    await sendBulkTemplateStream(
+      {
+        from: 'a@example.com',
+        template: 'news',
+        destinations: destinations(100),
+        chunkSize: 10,
+        concurrency: 3,
+      },
+      send
+    );
+
+    expect(send).toHaveBeenCalledTimes(10);
+    expect(peak).toBe(3);
+  });
+
+  it('should count per-destination failures without stopping', async () => {
+    const send = vi.fn(async (params: SendBulkTemplateParams) => ({
+      status: params.destinations.map((_, i) =>
+        i === 0
+          ? { status: 'failure' as const, error: 'MessageRejected' }
+          : { status: 'success' as const, messageId: 'id' }
+      ),
+      requestId: 'req',
+    }));
+
+    const result = await sendBulkTemplateStream(
+      { from: 'a@example.com', template: 'news', destinations: destinations(4), chunkSize: 2 },
+      send
+    );
+
+    expect(result).toMatchObject({ sent: 2, failed: 2 });
+  });
+
+  it('should resume after a crash without resending an unacknowledged chunk', async () => {
+    const params = {
+      from: 'a@example.com',
+      template: 'news',
+      chunkSize: 50,
+      concurrency: 1,
+      jobId: 'job-1',
+      checkpointStore: store,
+    };
+    const failing = vi
+      .fn(succeed)
+      .mockImplementationOnce(succeed)
+      .mockRejectedValueOnce(new SESError('Socket hang up', 'NetworkingError', 'req', true));
+
+    await expect(
+      sendBulkTemplateStream({ ...params, destinations: destinations(120) }, failing)
+    ).rejects.toThrow('Socket hang up');
+    expect(await store.get('job-1')).toMatchObject({ offset: 50, sent: 50 });
+
+    const send = vi.fn(succeed);
+    const result = await sendBulkTemplateStream(
+      { ...params, destinations: destinations(120) },
+      send
+    );
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0].destinations[0].to).toBe('user100@example.com');
+    expect(result).toEqual({ sent: 70, failed: 0, unknown: 50, total: 120, resumedFrom: 100 });
+  });
+
+  it('should resend a chunk refused before it reached SES', async () => {
+    const params = {
+      from: 'a@example.com',
+      template: 'news',
+      jobId: 'job-2',
+      checkpointStore: store,
+    };
+    const refusing = vi.fn().mockRejectedValue(new ValidationError('missing name', 'templateData'));
+
+    await expect(
+      sendBulkTemplateStream({ ...params, destinations: destinations(3) }, refusing)
+    ).rejects.toThrow(ValidationError);
+
+    const send = vi.fn(succeed);
+    const result = await sendBulkTemplateStream({ ...params, destinations: destinations(3) }, send);
+
+    expect(send.mock.calls[0][0].destinations).toHaveLength(3);
+    expect(result).toMatchObject({ sent: 3, unknown: 0, resumedFrom: 0 });
+  });
+
+  it('should refuse a jobId without a checkpointStore before sending', async () => {
+    const send = vi.fn(succeed);
+
+    await expect(
+      sendBulkTemplateStream(
+        { from: 'a@example.com', template: 'news', destinations: destinations(3), jobId: 'job-3' },
+        send
+      )
+    ).rejects.toMatchObject({ name: 'ValidationError', field: 'checkpointStore' });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should reject a chunkSize over the SES limit', async () => {
+    await expect(
+      sendBulkTemplateStream(
+        { from: 'a@example.com', template: 'news', destinations: [], chunkSize: 51 },
+        vi.fn()
+      )
+    ).rejects.toThrow('chunkSize must be an integer from 1 to 50');
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  CredentialsError,
+  QuotaExceededError,
+  ReputationCircuitOpenError,
+  SuppressedRecipientError,
+  ValidationError,
+} from './errors';
+import type {
+  BulkTemplateDestination,
+  BulkTemplateDestinationResult,
+  SendBulkTemplateParams,
+  SendBulkTemplateResult,
+  SendBulkTemplateStreamParams,
+  SendBulkTemplateStreamResult,
+  StreamCheckpoint,
+  StreamCheckpointStatus,
+  StreamCheckpointStore,
+} from './types';
+
+const MAX_CHUNK_SIZE = 50;
+const DEFAULT_CONCURRENCY = 4;
+
+/** Destinations bound for one `SendBulkTemplatedEmail` call, with their offsets. */
+type Chunk<Name extends string> = Array<{
+  offset: number;
+  destination: BulkTemplateDestination<Name>;
+}>;
+
+/**
+ * Process-local {@link StreamCheckpointStore}: a job can resume within the
+ * same process, but not after a crash. For tests and jobs that only need to
+ * survive a caught error.
+ */
+export class MemoryStreamCheckpointStore implements StreamCheckpointStore {
+  private checkpoints = new Map<string, StreamCheckpoint>();
+
+  async get(jobId: string): Promise<StreamCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(jobId);
+    return checkpoint ? structuredClone(checkpoint) : undefined;
+  }
+
+  async set(jobId: string, checkpoint: StreamCheckpoint): Promise<void> {
+    this.checkpoints.set(jobId, structuredClone(checkpoint));
+  }
+}
+
+/** Errors raised before the chunk reached SES, so nothing in it was sent. */
+export function refusedBeforeSending(error: unknown): boolean {
+  return (
+    error instanceof ValidationError ||
+    error instanceof CredentialsError ||
+    error instanceof ReputationCircuitOpenError ||
+    error instanceof QuotaExceededError ||
+    error instanceof SuppressedRecipientError
+  );
+}
+
+export function assertPositiveInteger(
+  value: number,
+  field: string,
+  max = Number.MAX_SAFE_INTEGER
+): void {
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    throw new ValidationError(
+      `${field} must be an integer from 1${max < Number.MAX_SAFE_INTEGER ? ` to ${max}` : ''}`,
+      field
+    );
+  }
+}
+
+/** Move `offset` past every destination that has a final outcome. */
+export function advance(checkpoint: StreamCheckpoint): void {
+  for (;;) {
+    const status = checkpoint.statuses[checkpoint.offset];
+    if (!status || status.status === 'pending') {
+      return;
+    }
+    delete checkpoint.statuses[checkpoint.offset];
+    checkpoint.offset++;
+  }
+}
+
+/**
+ * The checkpoint saved for `jobId`, or a fresh one. Chunks still pending when
+ * the job stopped become `unknown`.
+ *
+ * @throws {ValidationError} When `jobId` is set without a `store`: a default
+ *   one could only be in memory, and lose the job on the crash it exists for.
+ */
+export async function openCheckpoint(
+  store: StreamCheckpointStore | undefined,
+  jobId: string | undefined
+): Promise<StreamCheckpoint> {
+  if (jobId !== undefined && !store) {
+    throw new ValidationError(
+      'checkpointStore is required with jobId, so the job can resume after a crash',
+      'checkpointStore'
+    );
+  }
+  const saved = jobId && store ? await store.get(jobId) : undefined;
+  const checkpoint: StreamCheckpoint = saved ?? {
+    offset: 0,
+    statuses: {},
+    sent: 0,
+    failed: 0,
+    unknown: 0,
+  };
+  for (const [offset, status] of Object.entries(checkpoint.statuses)) {
+    if (status.status === 'pending') {
+      checkpoint.statuses[Number(offset)] = { status: 'unknown' };
+      checkpoint.unknown++;
+    }
+  }
+  advance(checkpoint);
+  return checkpoint;
+}
+
+/**
+ * Saves snapshots of `checkpoint` for `jobId`. Writes are chained so the store
+ * sees them in order, one at a time; `flush` waits for the last of them.
+ */
+export function checkpointWriter(
+  store: StreamCheckpointStore | undefined,
+  jobId: string | undefined,
+  checkpoint: StreamCheckpoint
+): { save: () => Promise<void>; flush: () => Promise<void> } {
+  let writing: Promise<void> = Promise.resolve();
+  return {
+    save: () => {
+      if (!jobId || !store) {
+        return Promise.resolve();
+      }
+      const snapshot = structuredClone(checkpoint);
+      writing = writing.catch(() => undefined).then(() => store.set(jobId, snapshot));
+      return writing;
+    },
+    // A failed write already stopped the chunk that made it
+    flush: () => writing.catch(() => undefined),
+  };
+}
+
+/** Record a final outcome for the destination at `offset`. */
+export function settle(
+  checkpoint: StreamCheckpoint,
+  offset: number,
+  status: StreamCheckpointStatus
+): void {
+  checkpoint.statuses[offset] = status;
+  if (status.status === 'success') {
+    checkpoint.sent++;
+  } else {
+    checkpoint.failed++;
+  }
+}
+
+/**
+ * Send an unbounded stream of destinations as `SendBulkTemplatedEmail` chunks,
+ * `concurrency` at a time, through `send` — `WrapsEmail.sendBulkTemplate`, so
+ * middleware, the rate limiter and the reputation guard apply to each chunk.
+ *
+ * With a `jobId`, the checkpoint is saved to `checkpointStore` as each chunk
+ * goes out and again when it comes back. A chunk still pending when a job
+ * stopped may or may not have been sent, so a resume reports its destinations
+ * as `unknown` rather than sending them twice. A chunk that throws stops the
+ * job.
+ */
+export async function sendBulkTemplateStream<Name extends string>(
+  params: SendBulkTemplateStreamParams<Name>,
+  send: (params: SendBulkTemplateParams<Name>) => Promise<SendBulkTemplateResult>
+): Promise<SendBulkTemplateStreamResult> {
+  const {
+    destinations,
+    chunkSize = MAX_CHUNK_SIZE,
+    concurrency = DEFAULT_CONCURRENCY,
+    jobId,
+    checkpointStore,
+    onProgress,
+    ...base
+  } = params;
+  assertPositiveInteger(chunkSize, 'chunkSize', MAX_CHUNK_SIZE);
+  assertPositiveInteger(concurrency, 'concurrency');
+
+  const checkpoint = await openCheckpoint(checkpointStore, jobId);
+  const resumedFrom = checkpoint.offset;
+  const { save, flush } = checkpointWriter(checkpointStore, jobId, checkpoint);
+
+  const active = new Set<Promise<void>>();
+  let stopped: { error: unknown } | undefined;
+
+  const run = (chunk: Chunk<Name>) => {
+    for (const { offset } of chunk) {
+      checkpoint.statuses[offset] = { status: 'pending' };
+    }
+    const task: Promise<void> = (async () => {
+      let response: SendBulkTemplateResult;
+      try {
+        await save();
+        response = await send({ ...base, destinations: chunk.map((entry) => entry.destination) });
+      } catch (error) {
+        if (refusedBeforeSending(error)) {
+          for (const { offset } of chunk) {
+            delete checkpoint.statuses[offset];
+          }
+          await save();
+        }
+        throw error;
+      }
+
+      const results = chunk.map(({ offset, destination }, index): BulkTemplateDestinationResult => {
+        const status = response.status[index];
+        return status?.status === 'success'
+          ? { offset, to: destination.to, status: 'success', messageId: status.messageId }
+          : {
+              offset,
+              to: destination.to,
+              status: 'failure',
+              error: status?.error ?? 'SES returned no status for this destination',
+            };
+      });
+      for (const { offset, to: _to, ...status } of results) {
+        settle(checkpoint, offset, status);
+      }
+      advance(checkpoint);
+      await save();
+      await onProgress?.({
+        results,
+        sent: checkpoint.sent,
+        failed: checkpoint.failed,
+        unknown: checkpoint.unknown,
+        offset: checkpoint.offset,
+      });
+    })()
+      .catch((error) => {
+        stopped ??= { error };
+      })
+      .finally(() => {
+        active.delete(task);
+      });
+    active.add(task);
+  };
+
+  const schedule = async (chunk: Chunk<Name>) => {
+    while (active.size >= concurrency) {
+      await Promise.race(active);
+    }
+    if (!stopped) {
+      run(chunk);
+    }
+  };
+
+  let total = 0;
+  let chunk: Chunk<Name> = [];
+  try {
+    for await (const destination of destinations) {
+      if (stopped) {
+        break;
+      }
+      const offset = total++;
+      if (offset < checkpoint.offset || checkpoint.statuses[offset]) {
+        continue;
+      }
+      chunk.push({ offset, destination });
+      if (chunk.length === chunkSize) {
+        await schedule(chunk);
+        chunk = [];
+      }
+    }
+    if (chunk.length > 0 && !stopped) {
+      await schedule(chunk);
+    }
+  } catch (error) {
+    stopped ??= { error };
+  }
+
+  await Promise.all(active);
+  await flush();
+  if (stopped) {
+    throw stopped.error;
+  }
+  return {
+    sent: checkpoint.sent,
+    failed: checkpoint.failed,
+    unknown: checkpoint.unknown,
+    total,
+    resumedFrom,
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildCalendarEvent, cancelCalendarEvent, updateCalendarEvent } from './calendar';
+import { ValidationError } from './errors';
+import type { CalendarEvent } from './types';
+
+const defaults = { summary: 'Dental check-up', attendees: ['"Ada L" <ada@example.com>'] };
+
+const event: CalendarEvent = {
+  uid: 'appt-42@acme.test',
+  start: '2025-06-02T08:00:00Z',
+  end: '2025-06-02T08:30:00Z',
+  organizer: { email: 'clinic@acme.test', name: 'Acme Clinic' },
+  location: 'Room 4, Main St',
+};
+
+/** Unfolded content lines of a rendered calendar. */
+const linesOf = (content: string) => content.replace(/\r\n /g, '').split('\r\n');
+
+describe('buildCalendarEvent', () => {
+  it('renders a VEVENT request in UTC with organizer and attendees', () => {
+    const part = buildCalendarEvent(event, defaults);
+
+    expect(part).toMatchObject({ uid: 'appt-42@acme.test', method: 'REQUEST' });
+    const lines = linesOf(part.content);
+    expect(lines.slice(0, 5)).toEqual([
+      'BEGIN:VCALENDAR',
+      'PRODID:-//Wraps//@wraps.dev/email//EN',
+      'VERSION:2.0',
+      'CALSCALE:GREGORIAN',
+      'METHOD:REQUEST',
+    ]);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'UID:appt-42@acme.test',
+        'SEQUENCE:0',
+        'DTSTART:20250602T080000Z',
+        'DTEND:20250602T083000Z',
+        'SUMMARY:Dental check-up',
+        'LOCATION:Room 4\\, Main St',
+        'ORGANIZER;CN="Acme Clinic":mailto:clinic@acme.test',
+        'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;CN="Ada L":mailto:ada@example.com',
+        'STATUS:CONFIRMED',
+      ])
+    );
+    expect(part.content.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const part = buildCalendarEvent({ ...event, description: 'é'.repeat(100) }, defaults);
+
+    for (const line of part.content.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(linesOf(part.content)).toContain(`DESCRIPTION:${'é'.repeat(100)}`);
+  });
+
+  it('presents times in a time zone with a VTIMEZONE covering DST changes', () => {
+    const part = buildCalendarEvent(
+      { ...event, timezone: 'Europe/Berlin', recurrence: 'RRULE:FREQ=WEEKLY;COUNT=4' },
+      defaults
+    );
+
+    const lines = linesOf(part.content);
+    expect(lines).toContain('DTSTART;TZID=Europe/Berlin:20250602T100000');
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;COUNT=4');
+    const zone = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+    expect(zone.join('\n')).toContain(
+      [
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20250330T020000',
+        'TZOFFSETFROM:+0100',
+        'TZOFFSETTO:+0200',
+        'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+        'END:DAYLIGHT',
+        'BEGIN:STANDARD',
+        'DTSTART:20251026T030000',
+        'TZOFFSETFROM:+0200',
+        'TZOFFSETTO:+0100',
+        'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+        'END:STANDARD',
+      ].join('\n')
+    );
+  });
+
+  it('tells nth-weekday DST rules from last-weekday ones', () => {
+    const part = buildCalendarEvent({ ...event, timezone: 'America/New_York' }, defaults);
+
+    const lines = linesOf(part.content);
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU');
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+  });
+
+  it('lists each change through UNTIL in a zone without yearly rules', () => {
+    const part = buildCalendarEvent(
+      {
+        ...event,
+        timezone: 'Africa/Casablanca',
+        recurrence: 'FREQ=MONTHLY;UNTIL=20281231T000000Z',
+      },
+      defaults
+    );
+
+    const zone = linesOf(part.content).filter((line) => /^(DTSTART|RRULE):/.test(line));
+    expect(zone.some((line) => line.startsWith('RRULE:FREQ=YEARLY'))).toBe(false);
+    expect(zone.some((line) => line.startsWith('DTSTART:2028'))).toBe(true);
+    expect(zone.some((line) => line.startsWith('DTSTART:2029'))).toBe(false);
+  });
+
+  it('caps the changes listed for a far-off UNTIL and reuses the built zone', () => {
+    const farOff = {
+      ...event,
+      timezone: 'Africa/Casablanca',
+      recurrence: 'FREQ=WEEKLY;UNTIL=29991231T000000Z',
+    };
+    const first = buildCalendarEvent(farOff, defaults);
+
+    const years = linesOf(first.content)
+      .filter((line) => line.startsWith('DTSTART:'))
+      .map((line) => Number(line.slice('DTSTART:'.length, 'DTSTART:'.length + 4)));
+    expect(Math.max(...years)).toBeLessThanOrEqual(2035);
+
+    const formatToParts = vi.spyOn(Intl.DateTimeFormat.prototype, 'formatToParts');
+    try {
+      const second = buildCalendarEvent(farOff, defaults);
+      expect(linesOf(second.content).filter((line) => line.startsWith('DTSTART:'))).toEqual(
+        linesOf(first.content).filter((line) => line.startsWith('DTSTART:'))
+      );
+      // Only the event's own times are formatted; the zone is not scanned again
+      expect(formatToParts.mock.calls.length).toBeLessThan(10);
+    } finally {
+      formatToParts.mockRestore();
+    }
+  });
+
+  it('rejects an end before the start and unknown time zones', () => {
+    expect(() => buildCalendarEvent({ ...event, end: event.start }, defaults)).toThrow(
+      'calendarEvent.end must be after start'
+    );
+    expect(() => buildCalendarEvent({ ...event, timezone: 'Mars/Olympus' }, defaults)).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('updateCalendarEvent / cancelCalendarEvent', () => {
+  it('keep the UID and bump the sequence', () => {
+    const moved = updateCalendarEvent(event, {
+      start: '2025-06-03T08:00:00Z',
+      end: '2025-06-03T08:30:00Z',
+    });
+    const cancelled = cancelCalendarEvent(moved);
+
+    expect(moved).toMatchObject({ uid: event.uid, sequence: 1, start: '2025-06-03T08:00:00Z' });
+    expect(cancelled).toMatchObject({ uid: event.uid, sequence: 2, method: 'CANCEL' });
+    expect(linesOf(buildCalendarEvent(cancelled, defaults).content)).toEqual(
+      expect.arrayContaining(['METHOD:CANCEL', 'SEQUENCE:2', 'STATUS:CANCELLED'])
+    );
+  });
+
+  it('need the UID of the event that was sent', () => {
+    expect(() => cancelCalendarEvent({ ...event, uid: undefined })).toThrow(
+      'calendarEvent.uid is required'
+    );
+  });
+});
@@ -0,0 +1,455 @@
+import { randomUUID } from 'node:crypto';
+import { ValidationError } from './errors';
+import type { CalendarEvent, EmailAddress } from './types';
+import { assertNoHeaderInjection } from './utils/headers';
+import { extractEmail, normalizeEmailAddress } from './utils/validation';
+
+const PRODID = '-//Wraps//@wraps.dev/email//EN';
+
+/** A rendered event, ready for `buildRawEmailMessage({ calendar })`. */
+export interface CalendarPart {
+  uid: string;
+  method: 'REQUEST' | 'CANCEL';
+  /** The VCALENDAR object, CRLF-terminated lines. */
+  content: string;
+}
+
+/**
+ * The same event, edited or rescheduled: keeps the UID, bumps the sequence
+ * so clients replace the copy they already have.
+ *
+ * @throws {ValidationError} if `event` has no `uid` (use the one returned as
+ *   `SendEmailResult.calendarEventUid`).
+ */
+export function updateCalendarEvent(
+  event: CalendarEvent,
+  changes: Partial<Omit<CalendarEvent, 'uid' | 'sequence'>> = {}
+): CalendarEvent {
+  return { ...event, ...changes, uid: requireUid(event), sequence: (event.sequence ?? 0) + 1 };
+}
+
+/**
+ * Withdraw a sent event: same UID, `METHOD:CANCEL`, next sequence. Send it
+ * to the same attendees.
+ *
+ * @throws {ValidationError} if `event` has no `uid`.
+ */
+export function cancelCalendarEvent(event: CalendarEvent): CalendarEvent {
+  return { ...updateCalendarEvent(event), method: 'CANCEL' };
+}
+
+function requireUid(event: CalendarEvent): string {
+  if (!event.uid) {
+    throw new ValidationError(
+      'calendarEvent.uid is required to update or cancel an event; use the calendarEventUid returned by send()',
+      'calendarEvent.uid'
+    );
+  }
+  return event.uid;
+}
+
+/**
+ * Render `event` as an RFC 5545 VCALENDAR with one VEVENT (and a VTIMEZONE
+ * when `timezone` is set).
+ *
+ * @param defaults - Fallbacks taken from the message: its subject and its
+ *   To/Cc recipients.
+ * @throws {ValidationError} on unparseable times, an end before the start,
+ *   an unknown time zone or a newline in a property.
+ */
+export function buildCalendarEvent(
+  event: CalendarEvent,
+  defaults: { summary: string; attendees: (string | EmailAddress)[] }
+): CalendarPart {
+  const start = parseTime(event.start, 'calendarEvent.start');
+  const end = parseTime(event.end, 'calendarEvent.end');
+  if (end.getTime() <= start.getTime()) {
+    throw new ValidationError('calendarEvent.end must be after start', 'calendarEvent.end');
+  }
+  const sequence = event.sequence ?? 0;
+  if (!Number.isInteger(sequence) || sequence < 0) {
+    throw new ValidationError(
+      'calendarEvent.sequence must be a non-negative integer',
+      'calendarEvent.sequence'
+    );
+  }
+  if (!event.organizer) {
+    throw new ValidationError('calendarEvent.organizer is required', 'calendarEvent.organizer');
+  }
+
+  const uid = event.uid ?? `${randomUUID()}@wraps.dev`;
+  const method = event.method ?? 'REQUEST';
+  const timezone = event.timezone;
+  const formatter = timezone ? zoneFormatter(timezone) : undefined;
+  const time = (name: string, date: Date) =>
+    formatter
+      ? `${name};TZID=${timezone}:${localTime(formatter, date)}`
+      : `${name}:${utcTime(date)}`;
+
+  assertNoHeaderInjection(uid, 'calendarEvent.uid');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${PRODID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+  ];
+  if (formatter) {
+    lines.push(...vtimezone(timezone as string, formatter, start, event.recurrence));
+  }
+  lines.push(
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTAMP:${utcTime(new Date())}`,
+    time('DTSTART', start),
+    time('DTEND', end),
+    `SUMMARY:${escapeText(event.summary ?? defaults.summary)}`
+  );
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.recurrence) {
+    assertNoHeaderInjection(event.recurrence, 'calendarEvent.recurrence');
+    lines.push(`RRULE:${event.recurrence.replace(/^RRULE:/i, '')}`);
+  }
+  lines.push(`ORGANIZER${calAddress(event.organizer)}`);
+  for (const attendee of event.attendees ?? defaults.attendees) {
+    lines.push(
+      `ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE${calAddress(attendee)}`
+    );
+  }
+  lines.push(
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  );
+
+  return { uid, method, content: `${lines.map(fold).join('\r\n')}\r\n` };
+}
+
+function parseTime(value: Date | string, field: string): Date {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${field} is not a valid date: ${String(value)}`, field);
+  }
+  return date;
+}
+
+/** `;CN=...:mailto:...` for ORGANIZER and ATTENDEE. */
+function calAddress(address: string | EmailAddress): string {
+  const normalized = normalizeEmailAddress(address);
+  assertNoHeaderInjection(normalized, 'calendarEvent');
+  const name =
+    typeof address === 'string' ? /^\s*"?([^"<]*?)"?\s*</.exec(address)?.[1] : address.name;
+  const cn = name ? `;CN="${name.replace(/"/g, "'")}"` : '';
+  return `${cn}:mailto:${extractEmail(normalized)}`;
+}
+
+/** RFC 5545 §3.3.11 TEXT escaping. */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold a content line at 75 octets (RFC 5545 §3.1), never splitting a UTF-8 sequence. */
+function fold(line: string): string {
+  const bytes = Buffer.from(line, 'utf-8');
+  if (bytes.length <= 75) {
+    return line;
+  }
+  const parts: string[] = [];
+  let start = 0;
+  let limit = 75;
+  while (start < bytes.length) {
+    let end = Math.min(start + limit, bytes.length);
+    // Back up off UTF-8 continuation bytes
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) {
+      end--;
+    }
+    parts.push(bytes.subarray(start, end).toString('utf-8'));
+    start = end;
+    limit = 74; // continuation lines start with a space
+  }
+  return parts.join('\r\n ');
+}
+
+function pad(value: number, width = 2): string {
+  return String(value).padStart(width, '0');
+}
+
+function utcTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(
+    date.getUTCHours()
+  )}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function zoneFormatter(timezone: string): Intl.DateTimeFormat {
+  assertNoHeaderInjection(timezone, 'calendarEvent.timezone');
+  try {
+    return new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  } catch {
+    throw new ValidationError(
+      `calendarEvent.timezone is not a known IANA time zone: ${timezone}`,
+      'calendarEvent.timezone'
+    );
+  }
+}
+
+/** Wall-clock fields of `date` in the formatter's zone. */
+function wallClock(formatter: Intl.DateTimeFormat, date: Date): Record<string, number> {
+  const fields: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  return fields;
+}
+
+/** Floating local time, `YYYYMMDDTHHMMSS`. */
+function localTime(formatter: Intl.DateTimeFormat, date: Date): string {
+  const t = wallClock(formatter, date);
+  return `${t.year}${pad(t.month)}${pad(t.day)}T${pad(t.hour)}${pad(t.minute)}${pad(t.second)}`;
+}
+
+/** The zone's UTC offset at `date`, in minutes. */
+function offsetMinutes(formatter: Intl.DateTimeFormat, date: Date): number {
+  const t = wallClock(formatter, date);
+  const asUtc = Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+const DAY_MS = 86_400_000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+/**
+ * How far explicit observances reach in a zone without yearly rules: for an
+ * open-ended recurrence, and at most for one with a later UNTIL. The last
+ * observance's offset stands after that.
+ */
+const EXPLICIT_YEARS = 10;
+/** Built VTIMEZONEs, most recent last; the oldest is dropped past this many. */
+const VTIMEZONE_CACHE_SIZE = 64;
+const vtimezoneCache = new Map<string, string[]>();
+
+/** An offset change: the instant it happens, and the offsets either side. */
+interface Transition {
+  at: number;
+  from: number;
+  to: number;
+}
+
+/** A transition that recurs on the `nth` (`-1`: last) `weekday` of `month`. */
+interface YearlyRule extends Transition {
+  month: number;
+  weekday: number;
+  nth: number;
+}
+
+/**
+ * Every offset change from `from` to `to`, found by a daily scan and narrowed
+ * to the minute.
+ */
+function transitionsBetween(
+  offsetAt: (ms: number) => number,
+  from: number,
+  to: number
+): Transition[] {
+  const transitions: Transition[] = [];
+  let previous = offsetAt(from);
+  for (let day = from + DAY_MS; day <= to; day += DAY_MS) {
+    const current = offsetAt(day);
+    if (current === previous) {
+      continue;
+    }
+    // Narrow to the first minute with the new offset
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > 60_000) {
+      const mid = low + Math.floor((high - low) / 120_000) * 60_000;
+      if (offsetAt(mid) === previous) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    transitions.push({ at: high, from: previous, to: current });
+    previous = current;
+  }
+  return transitions;
+}
+
+/** The local time a change happens, read in the old offset, as UTC fields. */
+function onset(transition: Transition): Date {
+  return new Date(transition.at + transition.from * 60_000);
+}
+
+/** Day of the month of its `nth` (`-1`: last) `weekday`. */
+function nthWeekday(year: number, month: number, weekday: number, nth: number): number {
+  if (nth > 0) {
+    const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7;
+  }
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  return last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7);
+}
+
+/**
+ * Yearly rules, like "last Sunday of March at 02:00", that turn the first
+ * year's changes into each later year's. `null` when the zone follows no such
+ * rules, or changed them within the years given.
+ */
+function yearlyRules(years: Transition[][]): YearlyRule[] | null {
+  const [first, ...later] = years;
+  if (first.length === 0 || later.some((year) => year.length !== first.length)) {
+    return null;
+  }
+  const timeOfDay = (date: Date) => ((date.getTime() % DAY_MS) + DAY_MS) % DAY_MS;
+
+  const rules: YearlyRule[] = [];
+  for (const [i, transition] of first.entries()) {
+    const local = onset(transition);
+    const month = local.getUTCMonth();
+    const weekday = local.getUTCDay();
+    const day = local.getUTCDate();
+    const lastDay = new Date(Date.UTC(local.getUTCFullYear(), month + 1, 0)).getUTCDate();
+    const candidates = [
+      ...(day + 7 > lastDay ? [-1] : []),
+      ...(day <= 28 ? [Math.ceil(day / 7)] : []),
+    ];
+    const nth = candidates.find((n) =>
+      later.every((year) => {
+        const next = year[i];
+        const nextLocal = onset(next);
+        return (
+          next.from === transition.from &&
+          next.to === transition.to &&
+          nextLocal.getUTCMonth() === month &&
+          nextLocal.getUTCDate() === nthWeekday(nextLocal.getUTCFullYear(), month, weekday, n) &&
+          timeOfDay(nextLocal) === timeOfDay(local)
+        );
+      })
+    );
+    if (nth === undefined) {
+      return null;
+    }
+    rules.push({ ...transition, month, weekday, nth });
+  }
+  return rules;
+}
+
+/**
+ * A VTIMEZONE built from the runtime's zone data. A zone whose changes follow
+ * yearly weekday rules (as DST does nearly everywhere) gets one observance per
+ * rule, with an RRULE, so it covers a recurrence however long it runs. Any
+ * other zone gets one observance per change: through the recurrence's UNTIL,
+ * capped at {@link EXPLICIT_YEARS} years as is an open-ended one, or for two
+ * years without a recurrence. Scanning takes thousands of zone lookups, so
+ * results are cached by zone and year range.
+ */
+function vtimezone(
+  timezone: string,
+  formatter: Intl.DateTimeFormat,
+  start: Date,
+  recurrence: string | undefined
+): string[] {
+  const year = start.getUTCFullYear();
+  let last: number | undefined;
+  if (recurrence) {
+    const until = /UNTIL=(\d{4})/i.exec(recurrence);
+    last = Math.max(
+      year,
+      Math.min(until ? Number(until[1]) : Number.POSITIVE_INFINITY, year + EXPLICIT_YEARS)
+    );
+  }
+
+  const key = `${timezone} ${year} ${last ?? ''}`;
+  let lines = vtimezoneCache.get(key);
+  if (!lines) {
+    lines = buildVtimezone(timezone, formatter, year, last);
+    if (vtimezoneCache.size >= VTIMEZONE_CACHE_SIZE) {
+      vtimezoneCache.delete(vtimezoneCache.keys().next().value as string);
+    }
+  } else {
+    vtimezoneCache.delete(key);
+  }
+  vtimezoneCache.set(key, lines);
+  return lines;
+}
+
+/** {@link vtimezone} for `year`, listing changes through `last` when needed. */
+function buildVtimezone(
+  timezone: string,
+  formatter: Intl.DateTimeFormat,
+  year: number,
+  last: number | undefined
+): string[] {
+  const yearStart = (y: number) => Date.UTC(y, 0, 1);
+  const offsetAt = (ms: number) => offsetMinutes(formatter, new Date(ms));
+
+  // Three years tell a rule apart from a coincidence, such as "fourth Sunday"
+  // from "last Sunday"
+  const scanned = [0, 1, 2].map((i) =>
+    transitionsBetween(offsetAt, yearStart(year + i), yearStart(year + i + 1))
+  );
+  const rules = yearlyRules(scanned);
+  let transitions: Transition[] = rules ?? scanned.slice(0, 2).flat();
+  if (!rules && last !== undefined) {
+    transitions = transitionsBetween(offsetAt, yearStart(year), yearStart(last + 1));
+  }
+
+  const initial = offsetAt(yearStart(year));
+  const standard = Math.min(initial, ...transitions.map((t) => t.to));
+  const observance = (dtstart: string, offsetFrom: number, offsetTo: number, rrule?: string) => {
+    const kind = offsetTo === standard ? 'STANDARD' : 'DAYLIGHT';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${dtstart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      ...(rrule ? [`RRULE:${rrule}`] : []),
+      `END:${kind}`,
+    ];
+  };
+  const localOnset = (t: Transition) => utcTime(onset(t)).slice(0, -1);
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    // The offset in force before the first change, then each change. A
+    // change's DTSTART is the local time it happens, read in the old offset.
+    ...observance('19700101T000000', initial, initial),
+    ...(rules
+      ? rules.flatMap((rule) =>
+          observance(
+            localOnset(rule),
+            rule.from,
+            rule.to,
+            `FREQ=YEARLY;BYMONTH=${rule.month + 1};BYDAY=${rule.nth}${WEEKDAYS[rule.weekday]}`
+          )
+        )
+      : transitions.flatMap((t) => observance(localOnset(t), t.from, t.to))),
+    'END:VTIMEZONE',
+  ];
+}
@@ -1,6 +1,25 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  CreateTemplateCommand,
+  DeleteTemplateCommand,
+  GetSendStatisticsCommand,
+  GetTemplateCommand,
+  ListTemplatesCommand,
+  UpdateTemplateCommand,
+} from '@aws-sdk/client-ses';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cancelCalendarEvent } from './calendar';
 import { WrapsEmail } from './client';
-import { CredentialsError, SandboxError, SESError, ValidationError } from './errors';
+import {
+  CredentialsError,
+  QuotaExceededError,
+  ReputationCircuitOpenError,
+  SandboxError,
+  SESError,
+  ValidationError,
+} from './errors';
 
 // Mock the SES client
 vi.mock('@aws-sdk/client-ses', () => {
@@ -41,6 +60,12 @@ vi.mock('@aws-sdk/client-ses', () => {
     DeleteTemplateCommand: vi.fn(function (this: any, input: any) {
       Object.assign(this, input);
     }),
+    TestRenderTemplateCommand: vi.fn(function (this: any, input: any) {
+      Object.assign(this, input);
+    }),
+    GetSendStatisticsCommand: vi.fn(function (this: any, input: any) {
+      Object.assign(this, input);
+    }),
   };
 });
 
@@ -49,6 +74,7 @@ vi.mock('./utils/validation', () => ({
   validateEmailParams: vi.fn(),
   normalizeEmailAddress: vi.fn((addr) => (typeof addr === 'string' ? addr : addr.email)),
   normalizeEmailAddresses: vi.fn((addrs) => (Array.isArray(addrs) ? addrs : [addrs])),
+  extractEmail: vi.fn((addr: string) => addr),
 }));
 
 // Shared SSM mock for reply-threading tests. We pass a pre-configured
@@ -161,6 +187,25 @@ describe('WrapsEmail', () => {
       expect(command).toHaveProperty('RawMessage');
     });
 
+    it('routes custom headers through SendRawEmail', async () => {
+      mockSend.mockResolvedValue({
+        MessageId: 'headers-message-id',
+        $metadata: { requestId: 'headers-request-id' },
+      });
+
+      await email.send({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Digest',
+        html: '<p>Test</p>',
+        headers: { 'List-Id': '<digest.acme.test>', 'Auto-Submitted': 'auto-generated' },
+      });
+
+      const raw = new TextDecoder().decode(mockSend.mock.calls[0][0].RawMessage.Data);
+      expect(raw).toContain('List-Id: <digest.acme.test>\r\n');
+      expect(raw).toContain('Auto-Submitted: auto-generated\r\n');
+    });
+
     it('should send email with multiple attachments', async () => {
       mockSend.mockResolvedValue({
         MessageId: 'multi-attach-id',
@@ -397,6 +442,32 @@ describe('WrapsEmail', () => {
       expect(result.status[0].status).toBe('success');
     });
 
+    it('should stream destinations through bulk sends of up to 50', async () => {
+      mockSend.mockImplementation(async (command: any) => ({
+        Status: command.Destinations.map((_: unknown, i: number) => ({
+          MessageId: `msg-${i}`,
+          Status: 'success',
+        })),
+        $metadata: { requestId: 'bulk-request-id' },
+      }));
+      async function* destinations() {
+        for (let i = 0; i < 60; i++) {
+          yield { to: `user${i}@example.com`, templateData: { name: `User ${i}` } };
+        }
+      }
+
+      const result = await email.sendBulkTemplateStream({
+        from: 'sender@example.com',
+        template: 'newsletter',
+        destinations: destinations(),
+      });
+
+      expect(mockSend.mock.calls.map(([command]: any[]) => command.Destinations.length)).toEqual([
+        50, 10,
+      ]);
+      expect(result).toMatchObject({ sent: 60, failed: 0, total: 60 });
+    });
+
     it('should throw error for more than 50 destinations', async () => {
       const destinations = Array.from({ length: 51 }, (_, i) => ({
         to: `user${i}@example.com`,
@@ -496,6 +567,70 @@ describe('WrapsEmail', () => {
     });
   });
 
+  describe('templates.render', () => {
+    const stored = {
+      Template: {
+        TemplateName: 'welcome',
+        SubjectPart: 'Hi {{name}}',
+        HtmlPart: '<p>{{#if plan}}Plan: {{plan}}{{/if}}</p>',
+      },
+    };
+
+    it('should render through SES TestRenderTemplate', async () => {
+      mockSend.mockResolvedValueOnce(stored).mockResolvedValueOnce({
+        RenderedTemplate:
+          'Subject: Hi Ada\r\nContent-Type: text/html; charset=UTF-8\r\n\r\n<p>Plan: pro</p>',
+      });
+
+      const rendered = await email.templates.render('welcome', {
+        name: 'Ada',
+        plan: 'pro',
+        extra: 1,
+      });
+
+      expect(mockSend.mock.calls[1][0]).toEqual({
+        TemplateName: 'welcome',
+        TemplateData: '{"name":"Ada","plan":"pro","extra":1}',
+      });
+      expect(rendered).toEqual({
+        subject: 'Hi Ada',
+        html: '<p>Plan: pro</p>',
+        text: undefined,
+        missing: [],
+        unused: ['extra'],
+        renderer: 'ses',
+      });
+    });
+
+    it('should fall back to the local renderer when data misses substitutions', async () => {
+      mockSend.mockResolvedValueOnce(stored);
+
+      const rendered = await email.templates.render('welcome', { plan: 'pro' });
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      expect(rendered).toMatchObject({
+        subject: 'Hi ',
+        html: '<p>Plan: pro</p>',
+        missing: ['name'],
+        renderer: 'local',
+      });
+    });
+
+    it('should render an inline template without calling SES', async () => {
+      const rendered = await email.templates.render(
+        'draft',
+        { name: '<Ada>' },
+        { template: { subject: 'Hi {{name}}', text: 'Hi {{{name}}}' } }
+      );
+
+      expect(mockSend).not.toHaveBeenCalled();
+      expect(rendered).toMatchObject({ subject: 'Hi &lt;Ada&gt;', text: 'Hi <Ada>' });
+      await expect(
+        email.templates.render('draft', {}, { renderer: 'ses', template: { subject: 'x' } })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
   describe('templates.list', () => {
     it('should list all templates', async () => {
       mockSend.mockResolvedValue({
@@ -530,6 +665,878 @@ describe('WrapsEmail', () => {
     });
   });
 
+  describe('retry', () => {
+    const throttled = {
+      message: 'Maximum sending rate exceeded.',
+      name: 'Throttling',
+      $metadata: { requestId: 'throttled-request-id' },
+      $retryable: { throttling: true },
+    };
+    const sent = { MessageId: 'retried-id', $metadata: { requestId: 'retried-request-id' } };
+
+    it('retries a throttled send under the configured policy', async () => {
+      const onRetry = vi.fn();
+      const retrying = new WrapsEmail({ region: 'us-east-1', retry: { baseDelayMs: 0, onRetry } });
+      const send = (retrying as any).sesClient.send;
+      send.mockRejectedValueOnce(throttled).mockResolvedValueOnce(sent);
+
+      const result = await retrying.send({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Test',
+        html: '<p>Test</p>',
+      });
+
+      expect(result.messageId).toBe('retried-id');
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: 'send', attempt: 1 })
+      );
+    });
+
+    it('applies to sendTemplate and sendBulkTemplate', async () => {
+      const retrying = new WrapsEmail({ region: 'us-east-1', retry: { baseDelayMs: 0 } });
+      const send = (retrying as any).sesClient.send;
+      send
+        .mockRejectedValueOnce(throttled)
+        .mockResolvedValueOnce(sent)
+        .mockRejectedValueOnce(throttled)
+        .mockResolvedValueOnce({
+          Status: [{ Status: 'Success', MessageId: 'bulk-id' }],
+          $metadata: { requestId: 'bulk-request-id' },
+        });
+
+      await retrying.sendTemplate({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        template: 'welcome',
+        templateData: {},
+      });
+      await retrying.sendBulkTemplate({
+        from: 'sender@example.com',
+        template: 'welcome',
+        destinations: [{ to: 'recipient@example.com', templateData: {} }],
+      });
+
+      expect(send).toHaveBeenCalledTimes(4);
+    });
+
+    it('throws the mapped error once attempts run out', async () => {
+      const retrying = new WrapsEmail({
+        region: 'us-east-1',
+        retry: { maxAttempts: 2, baseDelayMs: 0 },
+      });
+      const send = (retrying as any).sesClient.send;
+      send.mockRejectedValue(throttled);
+
+      await expect(
+        retrying.send({
+          from: 'sender@example.com',
+          to: 'recipient@example.com',
+          subject: 'Test',
+          html: '<p>Test</p>',
+        })
+      ).rejects.toMatchObject({ name: 'SESError', code: 'Throttling', retryable: true });
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('sends once when no policy is configured', async () => {
+      mockSend.mockRejectedValue(throttled);
+
+      await expect(
+        email.send({
+          from: 'sender@example.com',
+          to: 'recipient@example.com',
+          subject: 'Test',
+          html: '<p>Test</p>',
+        })
+      ).rejects.toThrow(SESError);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('rateLimit', () => {
+    it('claims one token per recipient before sending', async () => {
+      const limited = new WrapsEmail({
+        region: 'us-east-1',
+        rateLimit: { maxSendRate: 100, max24HourSend: 10 },
+      });
+      const acquire = vi.spyOn((limited as any).rateLimiter, 'acquire');
+      (limited as any).sesClient.send.mockResolvedValue({
+        MessageId: 'id',
+        $metadata: { requestId: 'req' },
+      });
+
+      await limited.send({
+        from: 'sender@example.com',
+        to: ['a@example.com', 'b@example.com'],
+        cc: 'c@example.com',
+        subject: 'Test',
+        html: '<p>Test</p>',
+      });
+
+      expect(acquire).toHaveBeenCalledWith(3);
+    });
+
+    it('refuses a send over the 24-hour quota without calling SES', async () => {
+      const limited = new WrapsEmail({
+        region: 'us-east-1',
+        rateLimit: { maxSendRate: 100, max24HourSend: 1 },
+      });
+      const send = (limited as any).sesClient.send;
+
+      await expect(
+        limited.send({
+          from: 'sender@example.com',
+          to: ['a@example.com', 'b@example.com'],
+          subject: 'Test',
+          html: '<p>Test</p>',
+        })
+      ).rejects.toThrow(QuotaExceededError);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reputationGuard', () => {
+    it('refuses promotional sends while the breaker is open and lets transactional ones through', async () => {
+      const sesv2Send = vi.fn();
+      const guarded = new WrapsEmail({
+        region: 'us-east-1',
+        sesv2Client: { send: sesv2Send } as any,
+        reputationGuard: {},
+      });
+      const send = (guarded as any).sesClient.send;
+      send.mockImplementation(async (command: unknown) =>
+        command instanceof GetSendStatisticsCommand
+          ? {
+              SendDataPoints: [
+                { Timestamp: new Date(), DeliveryAttempts: 1000, Bounces: 80, Complaints: 0 },
+              ],
+            }
+          : { MessageId: 'id', $metadata: { requestId: 'req' } }
+      );
+      const message = {
+        from: 'sender@example.com',
+        to: 'a@example.com',
+        subject: 'Test',
+        html: '<p>Test</p>',
+      };
+
+      await expect(guarded.send({ ...message, promotional: true })).rejects.toThrow(
+        ReputationCircuitOpenError
+      );
+      await expect(
+        guarded.sendTemplate({
+          from: 'sender@example.com',
+          to: 'a@example.com',
+          template: 'offer',
+          templateData: {},
+          tags: { category: 'promotional' },
+        })
+      ).rejects.toThrow('bounce rate 8% (sendStatistics) exceeds 4%');
+      await expect(guarded.send(message)).resolves.toMatchObject({ messageId: 'id' });
+      // One statistics read, one transactional send; VDM is never asked
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(sesv2Send).not.toHaveBeenCalled();
+      expect(guarded.reputation?.status().state).toBe('open');
+    });
+  });
+
+  describe('pools', () => {
+    const message = {
+      from: 'sender@example.com',
+      to: 'a@example.com',
+      subject: 'Test',
+      html: '<p>Test</p>',
+    };
+
+    it('routes a send through the configuration set its pool names', async () => {
+      const pooled = new WrapsEmail({
+        region: 'us-east-1',
+        pools: { transactional: 'tx-set', marketing: 'bulk-set' },
+      });
+      const send = (pooled as any).sesClient.send;
+      send.mockResolvedValue({ MessageId: 'id', $metadata: { requestId: 'req' } });
+
+      await pooled.send({ ...message, pool: 'marketing' });
+
+      expect(send.mock.calls[0][0].ConfigurationSetName).toBe('bulk-set');
+    });
+
+    it('rejects an unknown pool, or one combined with configurationSetName', async () => {
+      const pooled = new WrapsEmail({ region: 'us-east-1', pools: { transactional: 'tx-set' } });
+
+      await expect(pooled.send({ ...message, pool: 'marketing' })).rejects.toThrow(
+        'Unknown pool "marketing"; configured pools: transactional'
+      );
+      await expect(
+        pooled.send({ ...message, pool: 'transactional', configurationSetName: 'other' })
+      ).rejects.toThrow(ValidationError);
+      expect((pooled as any).sesClient.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('suppressionCheck', () => {
+    const lookup = vi.fn(async (emails: string[]) =>
+      emails
+        .filter((address) => address.startsWith('gone'))
+        .map((address) => ({ email: address, reason: 'unsubscribed' }))
+    );
+    const skipped = (address: string) => ({
+      email: address,
+      reason: 'unsubscribed',
+      source: 'app',
+    });
+    let checked: WrapsEmail;
+    let send: any;
+
+    beforeEach(() => {
+      checked = new WrapsEmail({ region: 'us-east-1', suppressionCheck: { ses: false, lookup } });
+      send = (checked as any).sesClient.send;
+    });
+
+    it('sends without suppressed cc recipients and reports them', async () => {
+      send.mockResolvedValue({ MessageId: 'id', $metadata: { requestId: 'req' } });
+
+      const result = await checked.send({
+        from: 'sender@example.com',
+        to: 'a@example.com',
+        cc: ['gone@example.com', 'b@example.com'],
+        subject: 'Test',
+        html: '<p>Test</p>',
+      });
+
+      expect(send.mock.calls[0][0].Destination).toMatchObject({
+        ToAddresses: ['a@example.com'],
+        CcAddresses: ['b@example.com'],
+      });
+      expect(result.skipped).toEqual([skipped('gone@example.com')]);
+    });
+
+    it('skips a send whose every To recipient is suppressed, unless the send turns it off', async () => {
+      send.mockResolvedValue({ MessageId: 'id', $metadata: { requestId: 'req' } });
+      const message = {
+        from: 'sender@example.com',
+        to: 'gone@example.com',
+        subject: 'Test',
+        html: '<p>Test</p>',
+      };
+
+      expect(await checked.send(message)).toEqual({
+        messageId: '',
+        requestId: '',
+        skipped: [skipped('gone@example.com')],
+      });
+      expect(send).not.toHaveBeenCalled();
+
+      await checked.send({ ...message, suppressionCheck: 'off' });
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a suppressed bulk destination in its place without sending to it', async () => {
+      send.mockResolvedValue({
+        Status: [{ MessageId: 'msg-1', Status: 'success' }],
+        $metadata: { requestId: 'bulk-request-id' },
+      });
+
+      const result = await checked.sendBulkTemplate({
+        from: 'sender@example.com',
+        template: 'newsletter',
+        destinations: [
+          { to: 'gone@example.com', templateData: {} },
+          { to: 'a@example.com', templateData: {} },
+        ],
+      });
+
+      expect(send.mock.calls[0][0].Destinations).toHaveLength(1);
+      expect(result.status).toEqual([
+        {
+          status: 'failure',
+          error: 'Recipient is suppressed (unsubscribed, app)',
+          skipped: [skipped('gone@example.com')],
+        },
+        { messageId: 'msg-1', status: 'success', error: undefined },
+      ]);
+    });
+
+    it('keeps batch results in entry order around a suppressed entry', async () => {
+      const sesv2Send = vi.fn(async (command: any) => ({
+        BulkEmailEntryResults: command.input.BulkEmailEntries.map((_: unknown, i: number) => ({
+          Status: 'SUCCESS',
+          MessageId: `msg-${i}`,
+        })),
+      }));
+      const batched = new WrapsEmail({
+        region: 'us-east-1',
+        sesv2Client: { send: sesv2Send, destroy: vi.fn() } as any,
+        suppressionCheck: { ses: false, lookup },
+      });
+      const entry = { subject: 'Hi', html: '<p>Hi</p>' };
+
+      const result = await batched.sendBatch({
+        from: 'sender@example.com',
+        entries: [
+          { ...entry, to: 'a@example.com', bcc: 'gone-audit@example.com' },
+          { ...entry, to: 'gone@example.com' },
+          { ...entry, to: 'b@example.com' },
+        ],
+      });
+
+      const sent = sesv2Send.mock.calls[0][0].input.BulkEmailEntries;
+      expect(sent.map((e: any) => e.Destination)).toEqual([
+        { ToAddresses: ['a@example.com'] },
+        { ToAddresses: ['b@example.com'] },
+      ]);
+      expect(result).toEqual({
+        results: [
+          {
+            index: 0,
+            status: 'success',
+            messageId: 'msg-0',
+            skipped: [skipped('gone-audit@example.com')],
+          },
+          {
+            index: 1,
+            status: 'failure',
+            error: 'Recipient is suppressed (unsubscribed, app)',
+            skipped: [skipped('gone@example.com')],
+          },
+          { index: 2, status: 'success', messageId: 'msg-1' },
+        ],
+        successCount: 2,
+        failureCount: 1,
+      });
+    });
+  });
+
+  describe('templates.sync', () => {
+    const stored: Record<string, { SubjectPart: string; HtmlPart?: string }> = {
+      welcome: { SubjectPart: 'Hi {{name}}', HtmlPart: '<p>Hi</p>\n' },
+      receipt: { SubjectPart: 'Receipt', HtmlPart: '<p>Old</p>\n' },
+      legacy: { SubjectPart: 'Old', HtmlPart: '<p>Old</p>' },
+    };
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'wraps-sync-'));
+      await writeFile(join(dir, 'welcome.subject.txt'), 'Hi {{name}}\n');
+      await writeFile(join(dir, 'welcome.html'), '<p>Hi</p>\n');
+      await writeFile(join(dir, 'receipt.subject.txt'), 'Receipt\n');
+      await writeFile(join(dir, 'receipt.html'), '<p>New</p>\n');
+      await writeFile(join(dir, 'reset.subject.txt'), 'Reset\n');
+      await writeFile(join(dir, 'reset.txt'), 'Reset: {{url}}\n');
+      mockSend.mockImplementation(async (command: any) => {
+        if (command instanceof ListTemplatesCommand) {
+          return {
+            TemplatesMetadata: Object.keys(stored).map((Name) => ({ Name })),
+          };
+        }
+        if (command instanceof GetTemplateCommand) {
+          const name = command.TemplateName as string;
+          return { Template: { TemplateName: name, ...stored[name] } };
+        }
+        return {};
+      });
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('creates, updates and prunes templates to match the directory', async () => {
+      const result = await email.templates.sync({ dir, prune: true, requestsPerSecond: 1000 });
+
+      expect(result.changes.map(({ action, name }) => [action, name])).toEqual([
+        ['update', 'receipt'],
+        ['create', 'reset'],
+        ['delete', 'legacy'],
+      ]);
+      expect(result.unchanged).toEqual(['welcome']);
+      expect(result.changes[0].diff).toContain('-<p>Old</p>\n+<p>New</p>');
+      const applied = mockSend.mock.calls.map(([command]: any[]) => command);
+      expect(applied.filter((c: any) => c instanceof UpdateTemplateCommand)[0].Template).toEqual({
+        TemplateName: 'receipt',
+        SubjectPart: 'Receipt',
+        HtmlPart: '<p>New</p>\n',
+        TextPart: undefined,
+      });
+      expect(applied.filter((c: any) => c instanceof CreateTemplateCommand)).toHaveLength(1);
+      expect(applied.filter((c: any) => c instanceof DeleteTemplateCommand)).toHaveLength(1);
+    });
+
+    it('only reports changes on a dry run, and leaves untracked templates alone', async () => {
+      const result = await email.templates.sync({ dir, dryRun: true, requestsPerSecond: 1000 });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.untracked).toEqual(['legacy']);
+      expect(result.changes.map((change) => change.action)).toEqual(['update', 'create']);
+      expect(
+        mockSend.mock.calls.some(
+          ([command]: any[]) =>
+            command instanceof CreateTemplateCommand || command instanceof UpdateTemplateCommand
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('requiredTemplateData', () => {
+    const typed = () =>
+      new WrapsEmail({
+        region: 'us-east-1',
+        requiredTemplateData: { welcome: ['name', 'user.email'] },
+      });
+
+    it('rejects template data missing a required key before calling SES', async () => {
+      const client = typed();
+
+      await expect(
+        client.sendTemplate({
+          from: 'sender@example.com',
+          to: 'a@example.com',
+          template: 'welcome',
+          templateData: { name: 'Ada', user: {} },
+        })
+      ).rejects.toThrow('Template "welcome" data is missing user.email');
+      expect((client as any).sesClient.send).not.toHaveBeenCalled();
+    });
+
+    it('checks each bulk destination merged over the defaults', async () => {
+      const client = typed();
+
+      const error = await client
+        .sendBulkTemplate({
+          from: 'sender@example.com',
+          template: 'welcome',
+          defaultTemplateData: { user: { email: 'x@example.com' } },
+          destinations: [
+            { to: 'a@example.com', templateData: { name: 'Ada' } },
+            { to: 'b@example.com', templateData: {} },
+          ],
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.field).toBe('destinations[1].templateData');
+      expect((client as any).sesClient.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('templates.generateTypes', () => {
+    it('generates types from every stored template', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          TemplatesMetadata: [{ Name: 'welcome', CreatedTimestamp: new Date() }],
+        })
+        .mockResolvedValueOnce({
+          Template: { TemplateName: 'welcome', SubjectPart: 'Hi {{name}}' },
+        });
+
+      const source = await email.templates.generateTypes();
+
+      expect(mockSend.mock.calls[1][0]).toEqual({ TemplateName: 'welcome' });
+      expect(source).toContain('name: string | number | boolean;');
+      expect(source).toContain('welcome: ["name"],');
+    });
+
+    it('follows NextToken to templates past the first page', async () => {
+      mockSend
+        .mockResolvedValueOnce({ TemplatesMetadata: [{ Name: 'welcome' }], NextToken: 'page-2' })
+        .mockResolvedValueOnce({ TemplatesMetadata: [{ Name: 'receipt' }] })
+        .mockResolvedValueOnce({ Template: { TemplateName: 'welcome', SubjectPart: 'Hi' } })
+        .mockResolvedValueOnce({ Template: { TemplateName: 'receipt', SubjectPart: '{{total}}' } });
+
+      const source = await email.templates.generateTypes();
+
+      expect(mockSend.mock.calls[1][0]).toEqual({ MaxItems: 100, NextToken: 'page-2' });
+      expect(source).toContain('receipt: ["total"],');
+    });
+  });
+
+  describe('idempotencyKey', () => {
+    const sent = { MessageId: 'original-id', $metadata: { requestId: 'original-request-id' } };
+
+    it('returns the original result for a repeated key without sending again', async () => {
+      mockSend.mockResolvedValue(sent);
+      const params = {
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Receipt',
+        html: '<p>Thanks</p>',
+        idempotencyKey: 'order-123-receipt',
+      };
+
+      const first = await email.send(params);
+      const second = await email.send(params);
+
+      expect(second).toEqual(first);
+      expect(second).toEqual({ messageId: 'original-id', requestId: 'original-request-id' });
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('dedupes sendTemplate with the same key', async () => {
+      mockSend.mockResolvedValue(sent);
+      const params = {
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        template: 'welcome',
+        templateData: {},
+        idempotencyKey: 'welcome-42',
+      };
+
+      await email.sendTemplate(params);
+      await email.sendTemplate(params);
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses a configured store', async () => {
+      const store = {
+        get: vi.fn().mockResolvedValue({ messageId: 'stored-id', requestId: 'stored-request' }),
+        set: vi.fn(),
+      };
+      const deduped = new WrapsEmail({ region: 'us-east-1', idempotency: { store } });
+
+      const result = await deduped.send({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Test',
+        html: '<p>Test</p>',
+        idempotencyKey: 'k',
+      });
+
+      expect(result.messageId).toBe('stored-id');
+      expect((deduped as any).sesClient.send).not.toHaveBeenCalled();
+    });
+
+    it('shares one DynamoDB client between events and a table-backed store', () => {
+      const shared = new WrapsEmail({
+        region: 'us-east-1',
+        historyTableName: 'history',
+        idempotency: { tableName: 'idempotency' },
+      });
+
+      expect((shared as any).ownedClients).toHaveLength(1);
+    });
+  });
+
+  describe('use', () => {
+    it('wraps send with hooks that can rewrite the params', async () => {
+      mockSend.mockResolvedValue({ MessageId: 'mw-id', $metadata: { requestId: 'mw-request' } });
+      const afterSend = vi.fn();
+
+      email
+        .use({
+          beforeSend: (ctx) => {
+            if (ctx.operation === 'send') {
+              ctx.params = { ...ctx.params, tags: { env: 'staging' } };
+            }
+          },
+        })
+        .use({ afterSend });
+
+      await email.send({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Test',
+        html: '<p>Test</p>',
+      });
+
+      expect(mockSend.mock.calls[0][0].Tags).toEqual([{ Name: 'env', Value: 'staging' }]);
+      expect(afterSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: 'send',
+          result: { messageId: 'mw-id', requestId: 'mw-request' },
+        })
+      );
+    });
+
+    it('reports a mapped SES error to onError hooks from config', async () => {
+      const onError = vi.fn();
+      const hooked = new WrapsEmail({ region: 'us-east-1', middleware: [{ onError }] });
+      (hooked as any).sesClient.send.mockRejectedValue({
+        message: 'Rejected',
+        name: 'MessageRejected',
+        $metadata: { requestId: 'req' },
+      });
+
+      await expect(
+        hooked.sendTemplate({
+          from: 'sender@example.com',
+          to: 'recipient@example.com',
+          template: 'welcome',
+          templateData: {},
+        })
+      ).rejects.toThrow(SESError);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: 'sendTemplate', error: expect.any(SESError) })
+      );
+    });
+
+    it('lets beforeSend block a bulk send before it reaches SES', async () => {
+      email.use({
+        beforeSend: () => {
+          throw new ValidationError('example.org is blocked');
+        },
+      });
+
+      await expect(
+        email.sendBulkTemplate({
+          from: 'sender@example.com',
+          template: 'welcome',
+          destinations: [{ to: 'user@example.org', templateData: {} }],
+        })
+      ).rejects.toThrow('example.org is blocked');
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('safeMode', () => {
+    const sent = { MessageId: 'safe-id', $metadata: { requestId: 'safe-request' } };
+    const rawOf = (command: any) => new TextDecoder().decode(command.RawMessage.Data);
+    let safe: WrapsEmail;
+    let send: any;
+
+    beforeEach(() => {
+      safe = new WrapsEmail({
+        region: 'us-east-1',
+        safeMode: { allowedDomains: ['team.test'], redirectTo: 'catch-all@team.test' },
+      });
+      send = (safe as any).sesClient.send;
+    });
+
+    it('sends allowed recipients unchanged through SendEmail', async () => {
+      send.mockResolvedValue(sent);
+
+      await safe.send({
+        from: 'sender@example.com',
+        to: 'dev@team.test',
+        subject: 'Test',
+        html: '<p>Test</p>',
+      });
+
+      expect(send.mock.calls[0][0].Destination.ToAddresses).toEqual(['dev@team.test']);
+      expect(send.mock.calls[0][0].Message.Subject.Data).toBe('Test');
+    });
+
+    it('rewrites send() recipients, prefixes the subject, and adds X-Original-To', async () => {
+      send.mockResolvedValue(sent);
+
+      await safe.send({
+        from: 'sender@example.com',
+        to: 'customer@gmail.com',
+        subject: 'Your receipt',
+        html: '<p>Thanks</p>',
+      });
+
+      const raw = rawOf(send.mock.calls[0][0]);
+      expect(raw).toContain('To: catch-all@team.test');
+      expect(raw).not.toMatch(/^To:.*customer@gmail\.com/m);
+      expect(raw).toContain('Subject: [safe-mode] Your receipt');
+      expect(raw).toContain('X-Original-To: customer@gmail.com');
+    });
+
+    it('renders a rewritten sendTemplate so it can carry the header and prefix', async () => {
+      send
+        .mockResolvedValueOnce({
+          RenderedTemplate: 'Subject: Welcome\r\nMIME-Version: 1.0\r\n\r\nHello',
+        })
+        .mockResolvedValueOnce(sent);
+
+      const result = await safe.sendTemplate({
+        from: 'sender@example.com',
+        to: 'customer@gmail.com',
+        template: 'welcome',
+        templateData: { name: 'Ada' },
+      });
+
+      expect(result.messageId).toBe('safe-id');
+      expect(send.mock.calls[0][0]).toMatchObject({
+        TemplateName: 'welcome',
+        TemplateData: '{"name":"Ada"}',
+      });
+      const command = send.mock.calls[1][0];
+      expect(command.Destinations).toEqual(['catch-all@team.test']);
+      expect(rawOf(command)).toContain('X-Original-To: customer@gmail.com');
+      expect(rawOf(command)).toContain('Subject: [safe-mode] Welcome');
+    });
+
+    it('sends bulk destinations one by one when any is rewritten', async () => {
+      send.mockImplementation(async (command: any) =>
+        command.TemplateName
+          ? { RenderedTemplate: 'Subject: Hi\r\n\r\nBody' }
+          : { MessageId: `id-${send.mock.calls.length}`, $metadata: { requestId: 'bulk-req' } }
+      );
+
+      const result = await safe.sendBulkTemplate({
+        from: 'sender@example.com',
+        template: 'welcome',
+        destinations: [
+          { to: 'dev@team.test', templateData: {} },
+          { to: 'customer@gmail.com', templateData: {} },
+        ],
+      });
+
+      expect(result.status.map((s) => s.status)).toEqual(['success', 'success']);
+      const raws = send.mock.calls
+        .filter(([command]: any[]) => command.RawMessage)
+        .map(([command]: any[]) => rawOf(command));
+      expect(raws[0]).toContain('Subject: Hi');
+      expect(raws[0]).not.toContain('X-Original-To');
+      expect(raws[1]).toContain('Subject: [safe-mode] Hi');
+      expect(raws[1]).toContain('X-Original-To: customer@gmail.com');
+    });
+  });
+
+  describe('listUnsubscribe', () => {
+    const sent = { MessageId: 'unsub-id', $metadata: { requestId: 'unsub-request' } };
+    const rawOf = (command: any) => new TextDecoder().decode(command.RawMessage.Data);
+    const tokenOf = (raw: string) =>
+      new URL((/^List-Unsubscribe: <([^>]+)>/m.exec(raw) as RegExpExecArray)[1]).searchParams.get(
+        'token'
+      ) as string;
+    let lists: WrapsEmail;
+    let send: any;
+
+    beforeEach(() => {
+      lists = new WrapsEmail({
+        region: 'us-east-1',
+        listUnsubscribe: { secret: 'unsubscribe-secret-0123456789', url: 'https://acme.test/u' },
+        safeMode: { allowedDomains: ['example.com'] },
+      });
+      send = (lists as any).sesClient.send;
+    });
+
+    it('adds signed one-click headers to send()', async () => {
+      send.mockResolvedValue(sent);
+
+      await lists.send({
+        from: 'news@acme.test',
+        to: 'ada@example.com',
+        subject: 'This week',
+        html: '<p>News</p>',
+        listUnsubscribe: { list: 'newsletter' },
+      });
+
+      const raw = rawOf(send.mock.calls[0][0]);
+      expect(raw).toContain('List-Unsubscribe-Post: List-Unsubscribe=One-Click\r\n');
+      expect(lists.listUnsubscribe?.verify(tokenOf(raw))).toMatchObject({
+        recipient: 'ada@example.com',
+        list: 'newsletter',
+      });
+    });
+
+    it('signs for the requested recipient when safe mode redirects the message', async () => {
+      send.mockResolvedValue(sent);
+
+      await lists.send({
+        from: 'news@acme.test',
+        to: 'customer@gmail.com',
+        subject: 'This week',
+        text: 'News',
+        listUnsubscribe: { list: 'newsletter' },
+      });
+
+      const raw = rawOf(send.mock.calls[0][0]);
+      expect(raw).toContain('X-Original-To: customer@gmail.com');
+      expect(lists.listUnsubscribe?.verify(tokenOf(raw)).recipient).toBe('customer@gmail.com');
+    });
+
+    it('signs each sendBulkTemplate destination before sending any', async () => {
+      send.mockImplementation(async (command: any) =>
+        command.TemplateName ? { RenderedTemplate: 'Subject: Hi\r\n\r\nBody' } : sent
+      );
+
+      await lists.sendBulkTemplate({
+        from: 'news@acme.test',
+        template: 'digest',
+        destinations: [
+          { to: 'ada@example.com', templateData: {} },
+          { to: 'bob@example.com', templateData: {} },
+        ],
+        listUnsubscribe: { list: 'digest' },
+      });
+
+      const recipients = send.mock.calls
+        .filter(([command]: any[]) => command.RawMessage)
+        .map(
+          ([command]: any[]) => lists.listUnsubscribe?.verify(tokenOf(rawOf(command))).recipient
+        );
+      expect(recipients).toEqual(['ada@example.com', 'bob@example.com']);
+
+      send.mockClear();
+      await expect(
+        lists.sendBulkTemplate({
+          from: 'news@acme.test',
+          template: 'digest',
+          destinations: [
+            { to: 'ada@example.com', templateData: {} },
+            { to: ['bob@example.com', 'eve@example.com'], templateData: {} },
+          ],
+          listUnsubscribe: { list: 'digest' },
+        })
+      ).rejects.toThrow('exactly one recipient');
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('rejects listUnsubscribe on a client without the config', async () => {
+      await expect(
+        email.send({
+          from: 'news@acme.test',
+          to: 'ada@example.com',
+          subject: 'This week',
+          text: 'News',
+          listUnsubscribe: { list: 'newsletter' },
+        })
+      ).rejects.toMatchObject({ name: 'ValidationError', field: 'listUnsubscribe' });
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('calendarEvent', () => {
+    const rawOf = (command: any) => new TextDecoder().decode(command.RawMessage.Data);
+    const invite = {
+      from: 'clinic@acme.test',
+      to: 'ada@example.com',
+      cc: 'bob@example.com',
+      subject: 'Your appointment',
+      text: 'See you then',
+      calendarEvent: {
+        start: '2025-06-02T08:00:00Z',
+        end: '2025-06-02T08:30:00Z',
+        organizer: 'clinic@acme.test',
+      },
+    };
+
+    it('sends the invite as a text/calendar alternative and returns its UID', async () => {
+      mockSend.mockResolvedValue({ MessageId: 'invite-id', $metadata: { requestId: 'req' } });
+
+      const result = await email.send(invite);
+
+      const raw = rawOf(mockSend.mock.calls[0][0]).replace(/\r\n /g, '');
+      expect(result.calendarEventUid).toMatch(/@wraps\.dev$/);
+      expect(raw).toContain('Content-Type: text/calendar; charset=UTF-8; method=REQUEST');
+      expect(raw).toContain(`UID:${result.calendarEventUid}`);
+      expect(raw).toContain('SUMMARY:Your appointment');
+      expect(raw).toContain(':mailto:ada@example.com');
+      expect(raw).toContain(':mailto:bob@example.com');
+    });
+
+    it('cancels with the UID from the original send', async () => {
+      mockSend.mockResolvedValue({ MessageId: 'invite-id', $metadata: { requestId: 'req' } });
+      const { calendarEventUid } = await email.send(invite);
+
+      const result = await email.send({
+        ...invite,
+        calendarEvent: cancelCalendarEvent({ ...invite.calendarEvent, uid: calendarEventUid }),
+      });
+
+      const raw = rawOf(mockSend.mock.calls[1][0]);
+      expect(result.calendarEventUid).toBe(calendarEventUid);
+      expect(raw).toContain('method=CANCEL');
+      expect(raw).toContain('SEQUENCE:1');
+    });
+  });
+
   describe('destroy', () => {
     it('should destroy the SES client', () => {
       const mockDestroy = (email as any).sesClient.destroy;
@@ -10,33 +10,91 @@ import {
   SendEmailCommand,
   SendRawEmailCommand,
   SendTemplatedEmailCommand,
+  TestRenderTemplateCommand,
   UpdateTemplateCommand,
 } from '@aws-sdk/client-ses';
-import { SESv2Client } from '@aws-sdk/client-sesv2';
+import {
+  type ListManagementOptions as SESListManagementOptions,
+  SESv2Client,
+  SendEmailCommand as SendEmailV2Command,
+} from '@aws-sdk/client-sesv2';
 import { SSMClient } from '@aws-sdk/client-ssm';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { WrapsAccount } from './account';
 import { sendBatch as sendBatchImpl } from './batch';
-import { isUnverifiedIdentityError, mapAwsSdkError, ValidationError } from './errors';
+import { sendBatchStream as sendBatchStreamImpl } from './batch-stream';
+import { sendBulkTemplateStream as sendBulkTemplateStreamImpl } from './bulk-stream';
+import { buildCalendarEvent, type CalendarPart } from './calendar';
+import { WrapsConfigurationSets } from './configuration-sets';
+import { listManagementOptions, WrapsContactLists } from './contact-lists';
+import {
+  CredentialsError,
+  isUnverifiedIdentityError,
+  mapAwsSdkError,
+  ValidationError,
+} from './errors';
 import { WrapsEmailEvents } from './events';
+import { FileSink } from './file-sink';
+import {
+  DEFAULT_IDEMPOTENCY_CLAIM_TTL_SECONDS,
+  DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+  DynamoDBIdempotencyStore,
+  IdempotencyGuard,
+  MemoryIdempotencyStore,
+} from './idempotency';
+import { WrapsIdentities } from './identities';
 import { WrapsInbox } from './inbox';
+import { WrapsIpPools } from './ip-pools';
+import { unsubscribeHeaders, WrapsListUnsubscribe } from './list-unsubscribe';
+import { MiddlewarePipeline } from './middleware';
+import { SendRateLimiter } from './rate-limit';
 import { renderReactEmail } from './react';
 import { WrapsReplyThreading } from './reply-threading';
+import { ReputationGuard } from './reputation';
+import { withRetry } from './retry';
+import { SafeMode } from './safe-mode';
+import { assertRecipientCertificates, type ResolvedSmime, resolveSmime } from './smime';
 import { WrapsEmailSuppression } from './suppression';
+import { SuppressionCheck, suppressedError } from './suppression-check';
+import {
+  type LocalTemplate,
+  readTemplateDir,
+  templateApiPacer,
+  templateDiff,
+  templateHash,
+} from './template-sync';
+import { generateTemplateTypes, missingTemplateData } from './template-types';
 import type {
+  Attachment,
+  BatchEntryResult,
   CreateTemplateFromReactParams,
   CreateTemplateParams,
   EmailAddress,
+  GenerateTemplateTypesOptions,
+  RenderedTemplate,
+  RenderTemplateOptions,
+  RetryPolicy,
   SendBatchParams,
   SendBatchResult,
+  SendBatchStreamParams,
+  SendBatchStreamResult,
   SendBulkTemplateParams,
   SendBulkTemplateResult,
+  SendBulkTemplateStreamParams,
+  SendBulkTemplateStreamResult,
   SendEmailParams,
   SendEmailResult,
   SendTemplateParams,
+  SmimeConfig,
   Template,
   TemplateMetadata,
+  TemplateSyncChange,
+  TemplateSyncOptions,
+  TemplateSyncResult,
+  TemplateTypesSource,
   UpdateTemplateParams,
   WrapsEmailConfig,
+  WrapsEmailMiddleware,
 } from './types';
 import {
   baseClientConfig,
@@ -45,13 +103,29 @@ import {
   resolveRegion,
 } from './utils/credentials';
 import { htmlToPlainText } from './utils/html-to-text';
-import { buildRawEmailMessage } from './utils/mime';
+import { inlineLocalImages } from './utils/inline-images';
+import { addressRenderedMessage, buildRawEmailMessage } from './utils/mime';
+import { headerValue, parseMime } from './utils/mime-parse';
+import { renderTemplate } from './utils/template';
 import {
   normalizeEmailAddress,
   normalizeEmailAddresses,
   validateEmailParams,
 } from './utils/validation';
 
+/** SES meters send rate and quota per recipient, across To, Cc and Bcc. */
+function countRecipients(
+  ...lists: Array<string | EmailAddress | (string | EmailAddress)[] | undefined>
+): number {
+  let count = 0;
+  for (const list of lists) {
+    if (list) {
+      count += Array.isArray(list) ? list.length : 1;
+    }
+  }
+  return count;
+}
+
 export class WrapsEmail {
   private sesClient: SESClient;
   private sesv2Client: SESv2Client;
@@ -74,12 +148,54 @@ export class WrapsEmail {
    */
   public readonly suppression: WrapsEmailSuppression;
 
+  /**
+   * Contact lists, topics and subscriptions (SES v2)
+   * Always available when credentials are configured
+   */
+  public readonly contactLists: WrapsContactLists;
+
+  /**
+   * Configuration sets and their event destinations (SES v2)
+   * Always available when credentials are configured
+   */
+  public readonly configurationSets: WrapsConfigurationSets;
+
+  /**
+   * Sending identities: domains, DKIM, MAIL FROM and email addresses (SES v2)
+   * Always available when credentials are configured
+   */
+  public readonly identities: WrapsIdentities;
+
+  /**
+   * Account status: sandbox, quota and enforcement (SES v2)
+   * Always available when credentials are configured
+   */
+  public readonly account: WrapsAccount;
+
+  /**
+   * Dedicated IP pools and the IPs in them (SES v2)
+   * Always available when credentials are configured
+   */
+  public readonly ipPools: WrapsIpPools;
+
+  /**
+   * Circuit breaker on bounce and complaint rates
+   * Only available when `reputationGuard` is configured
+   */
+  public readonly reputation: ReputationGuard | null;
+
   /**
    * Signed reply-to threading
    * Only available when `replyThreading` is configured
    */
   public readonly replyThreading: WrapsReplyThreading | null;
 
+  /**
+   * One-click unsubscribe signing and token verification
+   * Only available when `listUnsubscribe` is configured
+   */
+  public readonly listUnsubscribe: WrapsListUnsubscribe | null;
+
   /**
    * Constructor-level `replyDomain` override, preserved so per-send
    * resolution can honor it without re-reading config.
@@ -95,6 +211,42 @@ export class WrapsEmail {
    */
   private readonly region: RegionProvider;
 
+  /** Retry policy applied to every send path; `undefined` means one attempt. */
+  private readonly retry: RetryPolicy | undefined;
+
+  /** Send pacing shared by every send path; `null` when `rateLimit` is unset. */
+  private readonly rateLimiter: SendRateLimiter | null;
+
+  /** Hooks registered via `use()` or `config.middleware`, shared with the inbox. */
+  private readonly middleware = new MiddlewarePipeline();
+
+  /** Recipient rewriting for non-production; `null` when `safeMode` is unset. */
+  private readonly safeMode: SafeMode | null;
+
+  /** Client-level S/MIME, checked once; `null` when `smime` is unset. */
+  private readonly smime: ResolvedSmime | null;
+
+  /** The `smime` config as given, for per-send overrides to merge over. */
+  private readonly smimeConfig: SmimeConfig | undefined;
+
+  /** Templates live in a `fileSink`, so previews render locally by default. */
+  private readonly localTemplates: boolean;
+
+  /** `pool` aliases, each naming the configuration set a send is routed through. */
+  private readonly pools: Record<string, string>;
+
+  /** Keys each template cannot render without, checked before SES is called. */
+  private readonly requiredTemplateData: Record<string, readonly string[]>;
+
+  /** Pre-send suppression filtering; off unless `suppressionCheck` is set. */
+  private readonly suppressionCheck: SuppressionCheck;
+
+  /** Dedupes sends that carry an `idempotencyKey`. */
+  private readonly idempotency: IdempotencyGuard;
+
+  /** DocumentClient built from region/credentials, shared by every DynamoDB user. */
+  private ownedDocClient: DynamoDBDocumentClient | undefined;
+
   /**
    * Template management methods
    */
@@ -105,16 +257,37 @@ export class WrapsEmail {
     get: (name: string) => Promise<Template>;
     list: () => Promise<TemplateMetadata[]>;
     delete: (name: string) => Promise<void>;
+    render: (
+      name: string,
+      data?: Record<string, unknown>,
+      options?: RenderTemplateOptions
+    ) => Promise<RenderedTemplate>;
+    generateTypes: (options?: GenerateTemplateTypesOptions) => Promise<string>;
+    sync: (options?: TemplateSyncOptions) => Promise<TemplateSyncResult>;
   };
 
   constructor(config: WrapsEmailConfig = {}) {
     this.region = resolveRegion(config.region);
-    this.sesClient = createSESClient(config, this.region);
+    const fileSink = config.fileSink ? new FileSink(config.fileSink, this.region) : null;
+    this.sesClient = fileSink?.sesClient ?? createSESClient(config, this.region);
+    this.localTemplates = fileSink !== null;
+    this.retry = config.retry;
+    this.safeMode = config.safeMode ? new SafeMode(config.safeMode) : null;
+    this.smimeConfig = config.smime;
+    this.smime = config.smime ? resolveSmime(config.smime) : null;
+    for (const middleware of config.middleware ?? []) {
+      this.middleware.use(middleware);
+    }
 
     // Initialize inbox if bucket name provided
     if (config.inboxBucketName) {
       if (config.s3Client) {
-        this.inbox = new WrapsInbox(config.s3Client, config.inboxBucketName, this.sesClient);
+        this.inbox = new WrapsInbox(
+          config.s3Client,
+          config.inboxBucketName,
+          this.sesClient,
+          this.middleware
+        );
       } else {
         const s3Config: Record<string, unknown> = { ...baseClientConfig(this.region) };
         if (config.credentials) {
@@ -125,7 +298,12 @@ export class WrapsEmail {
         }
         const s3Client = new S3Client(s3Config);
         this.ownedClients.push(s3Client);
-        this.inbox = new WrapsInbox(s3Client, config.inboxBucketName, this.sesClient);
+        this.inbox = new WrapsInbox(
+          s3Client,
+          config.inboxBucketName,
+          this.sesClient,
+          this.middleware
+        );
       }
     } else {
       this.inbox = null;
@@ -133,29 +311,15 @@ export class WrapsEmail {
 
     // Initialize events API (requires historyTableName)
     if (config.historyTableName) {
-      if (config.dynamodbClient) {
-        this.events = new WrapsEmailEvents(config.dynamodbClient, config.historyTableName);
-      } else {
-        const dynamoConfig: Record<string, unknown> = { ...baseClientConfig(this.region) };
-        if (config.credentials) {
-          dynamoConfig.credentials = config.credentials;
-        }
-        if (config.endpoint) {
-          dynamoConfig.endpoint = config.endpoint;
-        }
-        const ddbClient = new DynamoDBClient(dynamoConfig);
-        this.ownedClients.push(ddbClient);
-        const docClient = DynamoDBDocumentClient.from(ddbClient, {
-          marshallOptions: { removeUndefinedValues: true },
-        });
-        this.events = new WrapsEmailEvents(docClient, config.historyTableName);
-      }
+      this.events = new WrapsEmailEvents(this.documentClient(config), config.historyTableName);
     } else {
       this.events = null;
     }
 
     // Initialize SES v2 client (used by suppression and batch)
-    if (config.sesv2Client) {
+    if (fileSink) {
+      this.sesv2Client = fileSink.sesv2Client;
+    } else if (config.sesv2Client) {
       this.sesv2Client = config.sesv2Client;
     } else {
       const sesv2Config: Record<string, unknown> = { ...baseClientConfig(this.region) };
@@ -168,6 +332,37 @@ export class WrapsEmail {
       this.sesv2Client = new SESv2Client(sesv2Config);
     }
     this.suppression = new WrapsEmailSuppression(this.sesv2Client);
+    this.contactLists = new WrapsContactLists(this.sesv2Client);
+    this.configurationSets = new WrapsConfigurationSets(this.sesv2Client);
+    this.identities = new WrapsIdentities(this.sesv2Client);
+    this.account = new WrapsAccount(this.sesv2Client);
+    this.ipPools = new WrapsIpPools(this.sesv2Client);
+    this.pools = config.pools ?? {};
+    this.requiredTemplateData = config.requiredTemplateData ?? {};
+    this.suppressionCheck = new SuppressionCheck(config.suppressionCheck, this.suppression);
+
+    // Reads rates lazily, on the first promotional send
+    this.reputation = config.reputationGuard
+      ? new ReputationGuard(config.reputationGuard, this.sesClient, this.sesv2Client, this.events)
+      : null;
+
+    // Seeded lazily from the account quota, so construction stays offline
+    this.rateLimiter = config.rateLimit
+      ? new SendRateLimiter(config.rateLimit, this.sesv2Client)
+      : null;
+
+    // Keys are always honored; the store decides how far they reach
+    const idempotency = config.idempotency ?? {};
+    const idempotencyStore =
+      idempotency.store ??
+      (idempotency.tableName
+        ? new DynamoDBIdempotencyStore(this.documentClient(config), idempotency.tableName)
+        : new MemoryIdempotencyStore());
+    this.idempotency = new IdempotencyGuard(
+      idempotencyStore,
+      idempotency.ttlSeconds ?? DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+      idempotency.claimTtlSeconds ?? DEFAULT_IDEMPOTENCY_CLAIM_TTL_SECONDS
+    );
 
     // Initialize reply threading if configured
     this.replyDomainOverride = config.replyThreading?.replyDomain;
@@ -195,6 +390,10 @@ export class WrapsEmail {
       this.replyThreading = null;
     }
 
+    this.listUnsubscribe = config.listUnsubscribe
+      ? new WrapsListUnsubscribe(config.listUnsubscribe)
+      : null;
+
     // Initialize templates namespace
     this.templates = {
       create: this.createTemplate.bind(this),
@@ -203,9 +402,62 @@ export class WrapsEmail {
       get: this.getTemplate.bind(this),
       list: this.listTemplates.bind(this),
       delete: this.deleteTemplate.bind(this),
+      render: this.renderTemplate.bind(this),
+      generateTypes: this.generateTemplateTypes.bind(this),
+      sync: this.syncTemplates.bind(this),
     };
   }
 
+  /**
+   * Add middleware around every send: `send`, `sendTemplate`,
+   * `sendBulkTemplate`, `sendBatch`, `inbox.forward` and `inbox.reply`.
+   * Hooks run in registration order, after any passed as `config.middleware`.
+   *
+   * @returns This client, for chaining.
+   *
+   * @example
+   * ```typescript
+   * email.use({
+   *   beforeSend(ctx) {
+   *     if (ctx.operation === 'send') {
+   *       ctx.params = { ...ctx.params, tags: { ...ctx.params.tags, app: 'billing' } };
+   *     }
+   *   },
+   *   afterSend: (ctx) => audit.log(ctx.operation, ctx.result),
+   *   onError: (ctx) => audit.fail(ctx.operation, ctx.error),
+   * });
+   * ```
+   */
+  use(middleware: WrapsEmailMiddleware): this {
+    this.middleware.use(middleware);
+    return this;
+  }
+
+  /**
+   * The configured `dynamodbClient`, else one built from region/credentials on
+   * first use and shared by events and idempotency.
+   */
+  private documentClient(config: WrapsEmailConfig): DynamoDBDocumentClient {
+    if (config.dynamodbClient) {
+      return config.dynamodbClient;
+    }
+    if (!this.ownedDocClient) {
+      const dynamoConfig: Record<string, unknown> = { ...baseClientConfig(this.region) };
+      if (config.credentials) {
+        dynamoConfig.credentials = config.credentials;
+      }
+      if (config.endpoint) {
+        dynamoConfig.endpoint = config.endpoint;
+      }
+      const ddbClient = new DynamoDBClient(dynamoConfig);
+      this.ownedClients.push(ddbClient);
+      this.ownedDocClient = DynamoDBDocumentClient.from(ddbClient, {
+        marshallOptions: { removeUndefinedValues: true },
+      });
+    }
+    return this.ownedDocClient;
+  }
+
   /**
    * Send a single email through SES.
    *
@@ -214,6 +466,9 @@ export class WrapsEmail {
    * A plain-text part is auto-generated from `html` when `text` is omitted.
    * Passing `attachments` switches to `SendRawEmail` transparently.
    *
+   * With an `idempotencyKey`, a repeat of a key sent within its TTL returns the
+   * original result and sends nothing.
+   *
    * @param params - Sender, recipients, subject, and body. See {@link SendEmailParams}.
    * @returns The SES `messageId` and `requestId`, plus `conversationId` /
    *   `sendId` when the send was signed for reply threading.
@@ -225,7 +480,8 @@ export class WrapsEmail {
    *   verified in the region used. The message separates the two causes: a
    *   region mismatch and the SES sandbox.
    * @throws {SESError} For every other SES failure, carrying `code`,
-   *   `requestId`, and `retryable`.
+   *   `requestId`, and `retryable`. With a `retry` policy configured, thrown
+   *   only once the policy gives up.
    *
    * @example
    * ```typescript
@@ -252,8 +508,50 @@ export class WrapsEmail {
    * ```
    */
   async send(params: SendEmailParams): Promise<SendEmailResult> {
-    // Validate parameters
-    validateEmailParams(params);
+    return this.middleware.run('send', params, async (finalParams) => {
+      // Validate parameters
+      validateEmailParams(finalParams);
+      await this.reputation?.check('send', [finalParams]);
+      const routed = this.routeToPool(finalParams);
+
+      return this.idempotency.run(routed.idempotencyKey, () => this.sendUnsuppressed(routed));
+    });
+  }
+
+  /**
+   * Leave suppressed recipients out of `params`, per its `suppressionCheck`.
+   * A message with no To recipient left is not sent.
+   */
+  private async sendUnsuppressed(params: SendEmailParams): Promise<SendEmailResult> {
+    const [screened] =
+      (await this.suppressionCheck.screen(params.suppressionCheck, [params])) ?? [];
+    if (!screened || screened.skipped.length === 0) {
+      return this.sendNow(params);
+    }
+    if (screened.to.length === 0) {
+      return { messageId: '', requestId: '', skipped: screened.skipped };
+    }
+    const result = await this.sendNow({
+      ...params,
+      to: screened.to,
+      cc: screened.cc,
+      bcc: screened.bcc,
+    });
+    return { ...result, skipped: screened.skipped };
+  }
+
+  private async sendNow(requested: SendEmailParams): Promise<SendEmailResult> {
+    // Safe mode rewrites recipients before anything else sees them
+    const safe = this.safeMode?.rewrite(requested) ?? null;
+    const params: SendEmailParams = safe
+      ? {
+          ...requested,
+          to: safe.to,
+          cc: safe.cc,
+          bcc: safe.bcc,
+          subject: (this.safeMode as SafeMode).subject(requested.subject),
+        }
+      : requested;
 
     // Resolve reply-to (signed token when conversationId is set)
     const replyToResolved = await this.resolveReplyTo({
@@ -282,9 +580,83 @@ export class WrapsEmail {
       text = htmlToPlainText(html);
     }
 
-    // Handle attachments (requires SES v2 SendRawEmail)
-    if (params.attachments && params.attachments.length > 0) {
-      return this.sendWithAttachments(params, replyToResolved);
+    // Local <img src> files become inline attachments referenced by CID
+    let attachments = params.attachments;
+    if (params.inlineImages && html) {
+      const inlined = await inlineLocalImages(
+        html,
+        params.inlineImages === true ? undefined : params.inlineImages.baseDir
+      );
+      html = inlined.html;
+      attachments = [...(attachments ?? []), ...inlined.attachments];
+    }
+
+    // Invitees are the recipients the caller asked for, like the unsubscribe link
+    const calendar = params.calendarEvent
+      ? buildCalendarEvent(params.calendarEvent, {
+          summary: requested.subject,
+          attendees: [
+            ...normalizeEmailAddresses(requested.to),
+            ...(requested.cc ? normalizeEmailAddresses(requested.cc) : []),
+          ],
+        })
+      : undefined;
+
+    const requestedRecipients = [
+      ...normalizeEmailAddresses(requested.to),
+      ...(requested.cc ? normalizeEmailAddresses(requested.cc) : []),
+      ...(requested.bcc ? normalizeEmailAddresses(requested.bcc) : []),
+    ];
+
+    // Signed for the recipient the caller asked for, not safe mode's stand-in
+    const unsubscribe = unsubscribeHeaders(
+      this.listUnsubscribe,
+      requested.listUnsubscribe,
+      requestedRecipients,
+      requested.headers
+    );
+
+    const listManagement = listManagementOptions(
+      requested.listManagement,
+      requested.listUnsubscribe
+    );
+
+    // Per-send S/MIME merges over the client's; encryption must reach everyone asked for
+    const smime =
+      requested.smime === false
+        ? null
+        : requested.smime
+          ? resolveSmime({ ...this.smimeConfig, ...requested.smime })
+          : this.smime;
+    if (smime) {
+      assertRecipientCertificates(smime, requestedRecipients);
+    }
+
+    // Attachments, calendar parts, S/MIME and any extra headers need SendRawEmail
+    if (
+      (attachments && attachments.length > 0) ||
+      calendar ||
+      smime ||
+      listManagement ||
+      params.headers ||
+      unsubscribe ||
+      safe
+    ) {
+      const result = await this.sendRaw(
+        params,
+        { html, text, attachments, calendar, smime: smime ?? undefined },
+        replyToResolved,
+        {
+          ...params.headers,
+          ...unsubscribe,
+          ...safe?.headers,
+        },
+        listManagement
+      );
+      if (calendar) {
+        result.calendarEventUid = calendar.uid;
+      }
+      return result;
     }
 
     // Build SES SendEmail command
@@ -326,8 +698,12 @@ export class WrapsEmail {
     });
 
     // Send email
+    const recipients = countRecipients(params.to, params.cc, params.bcc);
     try {
-      const response = await this.sesClient.send(command);
+      const response = await withRetry(this.retry, 'send', async () => {
+        await this.rateLimiter?.acquire(recipients);
+        return this.sesClient.send(command);
+      });
 
       if (!response.MessageId || !response.$metadata.requestId) {
         throw new Error('Invalid response from SES: missing MessageId or requestId');
@@ -347,53 +723,34 @@ export class WrapsEmail {
     }
   }
 
-  private async sendWithAttachments(
+  /**
+   * Send `params` as a raw MIME message. `content` is the body `sendNow`
+   * already rendered, with any inlined images among its attachments, any
+   * calendar event as an alternative part and the S/MIME keys to protect it.
+   * List-managed sends go through SES v2, which alone accepts the options.
+   */
+  private async sendRaw(
     params: SendEmailParams,
-    preResolvedReplyTo?: {
+    content: {
+      html?: string;
+      text?: string;
+      attachments?: Attachment[];
+      calendar?: CalendarPart;
+      smime?: ResolvedSmime;
+    },
+    replyToResolved: {
       replyToAddresses?: string[];
       conversationId?: string;
       sendId?: string;
-    }
+    },
+    customHeaders?: Record<string, string>,
+    listManagement?: SESListManagementOptions
   ): Promise<SendEmailResult> {
-    // Validate that we have attachments
-    if (!params.attachments || params.attachments.length === 0) {
-      throw new ValidationError('sendWithAttachments called without attachments');
-    }
-
     // Validate attachment count (AWS limit: 10MB total message size, max 500 MIME parts)
-    if (params.attachments.length > 100) {
+    if (content.attachments && content.attachments.length > 100) {
       throw new ValidationError('Maximum 100 attachments allowed per email');
     }
 
-    // Handle React rendering if needed
-    let html = params.html;
-    let text = params.text;
-
-    if (params.react) {
-      if (params.html) {
-        throw new ValidationError('Cannot provide both "html" and "react" parameters');
-      }
-      const rendered = await renderReactEmail(params.react);
-      html = rendered.html;
-      text = text || rendered.text;
-    }
-
-    // Auto-generate plain text from HTML when not explicitly provided
-    if (html && !text) {
-      text = htmlToPlainText(html);
-    }
-
-    // Resolve reply-to (may mint a signed token)
-    const replyToResolved =
-      preResolvedReplyTo ??
-      (await this.resolveReplyTo({
-        from: params.from,
-        replyTo: params.replyTo,
-        conversationId: params.conversationId,
-        sendId: params.sendId,
-        replyTtlSeconds: params.replyTtlSeconds,
-      }));
-
     // Build raw MIME message
     const rawMessage = buildRawEmailMessage({
       from: params.from,
@@ -402,31 +759,48 @@ export class WrapsEmail {
       bcc: params.bcc,
       replyTo: replyToResolved.replyToAddresses,
       subject: params.subject,
-      html,
-      text,
-      attachments: params.attachments,
+      html: content.html,
+      text: content.text,
+      attachments: content.attachments,
+      calendar: content.calendar,
+      smime: content.smime,
+      customHeaders,
     });
 
     // Convert to Uint8Array for SES
     const rawMessageData = new TextEncoder().encode(rawMessage);
+    const tags = params.tags
+      ? Object.entries(params.tags).map(([Name, Value]) => ({
+          Name,
+          Value,
+        }))
+      : undefined;
 
     // Build SendRawEmail command
     const command = new SendRawEmailCommand({
       RawMessage: {
         Data: rawMessageData,
       },
-      Tags: params.tags
-        ? Object.entries(params.tags).map(([Name, Value]) => ({
-            Name,
-            Value,
-          }))
-        : undefined,
+      Tags: tags,
       ConfigurationSetName: params.configurationSetName,
     });
 
     // Send email
+    const recipients = countRecipients(params.to, params.cc, params.bcc);
     try {
-      const response = await this.sesClient.send(command);
+      const response = await withRetry(this.retry, 'send', async () => {
+        await this.rateLimiter?.acquire(recipients);
+        return listManagement
+          ? this.sesv2Client.send(
+              new SendEmailV2Command({
+                Content: { Raw: { Data: rawMessageData } },
+                EmailTags: tags,
+                ConfigurationSetName: params.configurationSetName,
+                ListManagementOptions: listManagement,
+              })
+            )
+          : this.sesClient.send(command);
+      });
 
       if (!response.MessageId || !response.$metadata.requestId) {
         throw new Error('Invalid response from SES: missing MessageId or requestId');
@@ -514,9 +888,22 @@ export class WrapsEmail {
   }
 
   /**
-   * Send email using an SES template
+   * Send email using an SES template. An `idempotencyKey` dedupes repeats the
+   * same way as {@link WrapsEmail.send}.
    */
-  async sendTemplate(params: SendTemplateParams): Promise<SendEmailResult> {
+  async sendTemplate<Name extends string>(
+    params: SendTemplateParams<Name>
+  ): Promise<SendEmailResult> {
+    return this.middleware.run('sendTemplate', params, async (finalParams) => {
+      await this.reputation?.check('sendTemplate', [finalParams]);
+      const routed = this.routeToPool(finalParams);
+      return this.idempotency.run(routed.idempotencyKey, () => this.sendTemplateNow(routed));
+    });
+  }
+
+  private async sendTemplateNow(params: SendTemplateParams): Promise<SendEmailResult> {
+    this.assertNoSmime('sendTemplate');
+    this.assertTemplateData(params.template, params.templateData, 'templateData');
     const replyToResolved = await this.resolveReplyTo({
       from: params.from,
       replyTo: params.replyTo,
@@ -525,6 +912,28 @@ export class WrapsEmail {
       replyTtlSeconds: params.replyTtlSeconds,
     });
 
+    const safe = this.safeMode?.rewrite(params) ?? null;
+    if (safe) {
+      const result = await this.sendRenderedTemplate('sendTemplate', {
+        from: params.from,
+        to: safe.to,
+        cc: safe.cc,
+        bcc: safe.bcc,
+        replyTo: replyToResolved.replyToAddresses,
+        template: params.template,
+        templateData: params.templateData,
+        tags: params.tags,
+        configurationSetName: params.configurationSetName,
+        headers: safe.headers,
+        subjectPrefix: this.safeMode?.subjectPrefix,
+      });
+      if (replyToResolved.conversationId) {
+        result.conversationId = replyToResolved.conversationId;
+        result.sendId = replyToResolved.sendId;
+      }
+      return result;
+    }
+
     const toAddresses: (string | EmailAddress)[] = Array.isArray(params.to)
       ? params.to
       : [params.to];
@@ -548,7 +957,12 @@ export class WrapsEmail {
     });
 
     try {
-      const response = await this.sesClient.send(command);
+      const response = await withRetry(this.retry, 'sendTemplate', async () => {
+        await this.rateLimiter?.acquire(
+          toAddresses.length + countRecipients(params.cc, params.bcc)
+        );
+        return this.sesClient.send(command);
+      });
 
       if (!response.MessageId || !response.$metadata.requestId) {
         throw new Error('Invalid response from SES: missing MessageId or requestId');
@@ -571,10 +985,77 @@ export class WrapsEmail {
   /**
    * Send bulk emails using an SES template (up to 50 recipients)
    */
-  async sendBulkTemplate(params: SendBulkTemplateParams): Promise<SendBulkTemplateResult> {
+  async sendBulkTemplate<Name extends string>(
+    params: SendBulkTemplateParams<Name>
+  ): Promise<SendBulkTemplateResult> {
+    return this.middleware.run('sendBulkTemplate', params, async (finalParams) => {
+      await this.reputation?.check('sendBulkTemplate', [finalParams]);
+      return this.sendBulkTemplateUnsuppressed(this.routeToPool(finalParams));
+    });
+  }
+
+  /**
+   * Drop destinations whose recipient is suppressed, per `suppressionCheck`,
+   * and report each as a failure in its place.
+   */
+  private async sendBulkTemplateUnsuppressed(
+    params: SendBulkTemplateParams
+  ): Promise<SendBulkTemplateResult> {
+    const screened = await this.suppressionCheck.screen(
+      params.suppressionCheck,
+      params.destinations
+    );
+    if (!screened || screened.every((dest) => dest.skipped.length === 0)) {
+      return this.sendBulkTemplateNow(params);
+    }
+
+    const kept = params.destinations.filter((_, index) => screened[index].to.length > 0);
+    const result =
+      kept.length > 0
+        ? await this.sendBulkTemplateNow({ ...params, destinations: kept })
+        : { status: [], requestId: '' };
+    let next = 0;
+    return {
+      ...result,
+      status: screened.map((dest) =>
+        dest.to.length > 0
+          ? result.status[next++]
+          : { status: 'failure', error: suppressedError(dest.skipped[0]), skipped: dest.skipped }
+      ),
+    };
+  }
+
+  /**
+   * Send a template to any number of destinations, read from an iterable or
+   * async iterable as they are needed. Destinations go out in chunks of up to
+   * 50 through {@link WrapsEmail.sendBulkTemplate}, `concurrency` chunks at a
+   * time. Give the job a `jobId` and a `checkpointStore` to checkpoint it;
+   * running it again with the same `jobId` resumes where it stopped without
+   * sending anyone mail twice.
+   *
+   * @throws {ValidationError} When `jobId` is set without `checkpointStore`.
+   * @throws The first error a chunk throws, once chunks in flight finish.
+   */
+  async sendBulkTemplateStream<Name extends string>(
+    params: SendBulkTemplateStreamParams<Name>
+  ): Promise<SendBulkTemplateStreamResult> {
+    return sendBulkTemplateStreamImpl(params, (chunk) => this.sendBulkTemplate(chunk));
+  }
+
+  private async sendBulkTemplateNow(
+    params: SendBulkTemplateParams
+  ): Promise<SendBulkTemplateResult> {
+    this.assertNoSmime('sendBulkTemplate');
     if (params.destinations.length > 50) {
       throw new ValidationError('Maximum 50 destinations allowed per bulk send');
     }
+    params.destinations.forEach((dest, index) => {
+      this.assertTemplateData(
+        params.template,
+        { ...params.defaultTemplateData, ...dest.templateData },
+        `destinations[${index}].templateData`
+      );
+    });
 
     const replyToResolved = await this.resolveReplyTo({
       from: params.from,
@@ -584,6 +1065,15 @@ export class WrapsEmail {
       replyTtlSeconds: params.replyTtlSeconds,
     });
 
+    const listManagement = listManagementOptions(params.listManagement, params.listUnsubscribe);
+    if (
+      params.listUnsubscribe ||
+      listManagement ||
+      (this.safeMode && params.destinations.some((dest) => this.safeMode?.rewrite({ to: dest.to })))
+    ) {
+      return this.sendBulkTemplateRendered(params, replyToResolved, listManagement);
+    }
+
     const command = new SendBulkTemplatedEmailCommand({
       Source: normalizeEmailAddress(params.from),
       ReplyToAddresses: replyToResolved.replyToAddresses,
@@ -618,7 +1108,12 @@ export class WrapsEmail {
     });
 
     try {
-      const response = await this.sesClient.send(command);
+      const response = await withRetry(this.retry, 'sendBulkTemplate', async () => {
+        await this.rateLimiter?.acquire(
+          countRecipients(...params.destinations.map((dest) => dest.to))
+        );
+        return this.sesClient.send(command);
+      });
 
       if (!response.Status || !response.$metadata.requestId) {
         throw new Error('Invalid response from SES: missing Status or requestId');
@@ -642,6 +1137,145 @@ export class WrapsEmail {
     }
   }
 
+  /**
+   * Bulk send with per-destination headers (safe mode, one-click unsubscribe)
+   * or list management: each destination goes out on its own through
+   * {@link sendRenderedTemplate}, so it can carry its own headers and subject
+   * prefix. Per-destination failures become `failure` rows, like SES's own
+   * bulk status.
+   */
+  private async sendBulkTemplateRendered(
+    params: SendBulkTemplateParams,
+    replyToResolved: { replyToAddresses?: string[]; conversationId?: string; sendId?: string },
+    listManagement?: SESListManagementOptions
+  ): Promise<SendBulkTemplateResult> {
+    const status: SendBulkTemplateResult['status'] = [];
+    let requestId: string | undefined;
+
+    // Sign every link first, so a bad destination fails the call before any send
+    const unsubscribe = params.destinations.map((dest) =>
+      unsubscribeHeaders(
+        this.listUnsubscribe,
+        params.listUnsubscribe,
+        normalizeEmailAddresses(dest.to)
+      )
+    );
+
+    for (const [i, dest] of params.destinations.entries()) {
+      const safe = this.safeMode?.rewrite({ to: dest.to }) ?? null;
+      try {
+        const sent = await this.sendRenderedTemplate('sendBulkTemplate', {
+          from: params.from,
+          to: safe ? safe.to : normalizeEmailAddresses(dest.to),
+          replyTo: replyToResolved.replyToAddresses,
+          template: params.template,
+          templateData: { ...params.defaultTemplateData, ...dest.templateData },
+          tags: dest.replacementTags ?? params.tags,
+          configurationSetName: params.configurationSetName,
+          headers: unsubscribe[i] || safe ? { ...unsubscribe[i], ...safe?.headers } : undefined,
+          subjectPrefix: safe ? this.safeMode?.subjectPrefix : undefined,
+          listManagement,
+        });
+        requestId ??= sent.requestId;
+        status.push({ messageId: sent.messageId, status: 'success' });
+      } catch (error) {
+        // Nothing can be sent without credentials; one error beats N copies.
+        if (error instanceof CredentialsError) {
+          throw error;
+        }
+        status.push({ status: 'failure', error: (error as Error).message });
+      }
+    }
+
+    const result: SendBulkTemplateResult = { status, requestId: requestId ?? 'unknown' };
+    if (replyToResolved.conversationId) {
+      result.conversationId = replyToResolved.conversationId;
+      result.sendId = replyToResolved.sendId;
+    }
+    return result;
+  }
+
+  /**
+   * Send a stored template as a raw message. SES renders it with
+   * `TestRenderTemplate` and the rendered MIME is addressed here, because the
+   * templated send APIs cannot carry per-message headers or a subject prefix.
+   */
+  private async sendRenderedTemplate(
+    operation: 'sendTemplate' | 'sendBulkTemplate',
+    message: {
+      from: string | EmailAddress;
+      to: string[];
+      cc?: string[];
+      bcc?: string[];
+      replyTo?: string[];
+      template: string;
+      templateData: Record<string, unknown>;
+      tags?: Record<string, string>;
+      configurationSetName?: string;
+      headers?: Record<string, string>;
+      subjectPrefix?: string;
+      listManagement?: SESListManagementOptions;
+    }
+  ): Promise<SendEmailResult> {
+    const cc = message.cc ?? [];
+    const bcc = message.bcc ?? [];
+    try {
+      const rendered = await this.sesClient.send(
+        new TestRenderTemplateCommand({
+          TemplateName: message.template,
+          TemplateData: JSON.stringify(message.templateData),
+        })
+      );
+      if (!rendered.RenderedTemplate) {
+        throw new Error('Invalid response from SES: missing RenderedTemplate');
+      }
+
+      const rawMessage = addressRenderedMessage(rendered.RenderedTemplate, {
+        from: message.from,
+        to: message.to,
+        cc: cc.length > 0 ? cc : undefined,
+        replyTo: message.replyTo,
+        subjectPrefix: message.subjectPrefix,
+        customHeaders: message.headers,
+      });
+      const data = new TextEncoder().encode(rawMessage);
+      const tags = message.tags
+        ? Object.entries(message.tags).map(([Name, Value]) => ({ Name, Value }))
+        : undefined;
+      const { listManagement } = message;
+      const command = new SendRawEmailCommand({
+        Source: normalizeEmailAddress(message.from),
+        Destinations: [...message.to, ...cc, ...bcc],
+        RawMessage: { Data: data },
+        Tags: tags,
+        ConfigurationSetName: message.configurationSetName,
+      });
+
+      const response = await withRetry(this.retry, operation, async () => {
+        await this.rateLimiter?.acquire(message.to.length + cc.length + bcc.length);
+        return listManagement
+          ? this.sesv2Client.send(
+              new SendEmailV2Command({
+                FromEmailAddress: normalizeEmailAddress(message.from),
+                Destination: { ToAddresses: message.to, CcAddresses: cc, BccAddresses: bcc },
+                Content: { Raw: { Data: data } },
+                EmailTags: tags,
+                ConfigurationSetName: message.configurationSetName,
+                ListManagementOptions: listManagement,
+              })
+            )
+          : this.sesClient.send(command);
+      });
+
+      if (!response.MessageId || !response.$metadata.requestId) {
+        throw new Error('Invalid response from SES: missing MessageId or requestId');
+      }
+      return { messageId: response.MessageId, requestId: response.$metadata.requestId };
+    } catch (error) {
+      throw await this.handleSESError(error);
+    }
+  }
+
   /**
    * Send batch emails with unique content per recipient (max 100 entries).
    *
@@ -667,7 +1301,144 @@ export class WrapsEmail {
    * ```
    */
   async sendBatch(params: SendBatchParams): Promise<SendBatchResult> {
-    return sendBatchImpl(this.sesv2Client, params);
+    return this.middleware.run('sendBatch', params, async (finalParams) => {
+      this.assertNoSmime('sendBatch');
+      await this.reputation?.check(
+        'sendBatch',
+        finalParams.entries.map((entry) => ({
+          promotional: finalParams.promotional,
+          tags: entry.tags ?? finalParams.tags,
+        }))
+      );
+      return this.sendBatchUnsuppressed(this.routeToPool(finalParams));
+    });
+  }
+
+  /**
+   * Leave suppressed recipients out of each entry, per `suppressionCheck`. An
+   * entry whose `to` is suppressed is not sent and reports a failure.
+   */
+  private async sendBatchUnsuppressed(params: SendBatchParams): Promise<SendBatchResult> {
+    const screened =
+      params.entries?.length > 0
+        ? await this.suppressionCheck.screen(params.suppressionCheck, params.entries)
+        : null;
+    if (!screened || screened.every((entry) => entry.skipped.length === 0)) {
+      return this.sendBatchNow(params);
+    }
+
+    const kept = screened.flatMap((entry, index) => (entry.to.length > 0 ? [index] : []));
+    const result =
+      kept.length > 0
+        ? await this.sendBatchNow({
+            ...params,
+            entries: kept.map((index) => ({
+              ...params.entries[index],
+              to: screened[index].to[0],
+              cc: screened[index].cc,
+              bcc: screened[index].bcc,
+            })),
+          })
+        : { results: [], successCount: 0, failureCount: 0 };
+    const rows = new Map(kept.map((index, position) => [index, result.results[position]]));
+
+    const results = screened.map(({ skipped }, index): BatchEntryResult => {
+      const row = rows.get(index);
+      if (!row) {
+        return { index, status: 'failure', error: suppressedError(skipped[0]), skipped };
+      }
+      return skipped.length > 0 ? { ...row, index, skipped } : { ...row, index };
+    });
+    return {
+      results,
+      successCount: results.filter((row) => row.status === 'success').length,
+      failureCount: results.filter((row) => row.status === 'failure').length,
+    };
+  }
+
+  private async sendBatchNow(params: SendBatchParams): Promise<SendBatchResult> {
+    return sendBatchImpl(this.sesv2Client, params, {
+      retry: this.retry,
+      rateLimiter: this.rateLimiter ?? undefined,
+      idempotency: this.idempotency,
+      safeMode: this.safeMode ?? undefined,
+      listUnsubscribe: this.listUnsubscribe ?? undefined,
+    });
+  }
+
+  /**
+   * Send unique content to any number of recipients, read from an iterable or
+   * async iterable as they are needed. Entries go out in chunks of up to 100
+   * through {@link WrapsEmail.sendBatch}, `concurrency` chunks at a time, and
+   * each entry's result is yielded as its chunk finishes. Give the job a
+   * `jobId` and a `checkpointStore` to checkpoint it, as with
+   * `sendBulkTemplateStream`.
+   *
+   * @example
+   * ```typescript
+   * for await (const result of wraps.sendBatchStream({ from, entries: digests() })) {
+   *   if (result.status === 'failure') console.error(result.index, result.error);
+   * }
+   * ```
+   *
+   * @returns Totals for the job, as the generator's return value.
+   * @throws {ValidationError} When `jobId` is set without `checkpointStore`.
+   * @throws The first error a chunk throws, once chunks in flight finish.
+   */
+  async *sendBatchStream(
+    params: SendBatchStreamParams
+  ): AsyncGenerator<BatchEntryResult, SendBatchStreamResult, undefined> {
+    return yield* sendBatchStreamImpl(params, (chunk) => this.sendBatch(chunk));
+  }
+
+  /**
+   * Resolve a `pool` alias to the configuration set it names. Both are
+   * routing decisions, so a send may carry one or the other.
+   */
+  private routeToPool<T extends { pool?: string; configurationSetName?: string }>(params: T): T {
+    if (params.pool === undefined) {
+      return params;
+    }
+    if (params.configurationSetName) {
+      throw new ValidationError('Pass either pool or configurationSetName, not both', 'pool');
+    }
+    const configurationSetName = this.pools[params.pool];
+    if (!configurationSetName) {
+      const known = Object.keys(this.pools);
+      throw new ValidationError(
+        `Unknown pool "${params.pool}"; configured pools: ${known.length > 0 ? known.join(', ') : 'none'}`,
+        'pool'
+      );
+    }
+    return { ...params, configurationSetName };
+  }
+
+  /**
+   * Refuse data missing a key the template needs, per `requiredTemplateData`,
+   * rather than let SES fail the render after accepting the send.
+   */
+  private assertTemplateData(template: string, data: Record<string, unknown>, field: string): void {
+    const required = this.requiredTemplateData[template];
+    const missing = required ? missingTemplateData(required, data) : [];
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Template "${template}" data is missing ${missing.join(', ')}`,
+        field
+      );
+    }
+  }
+
+  /**
+   * SES renders template and batch sends itself, so there is no message here
+   * to sign. Refuse rather than send unprotected mail from an S/MIME client.
+   */
+  private assertNoSmime(operation: string): void {
+    if (this.smime) {
+      throw new ValidationError(
+        `${operation} cannot be signed or encrypted: SES renders the message. Use send(), or a client without smime`,
+        'smime'
+      );
+    }
   }
 
   /**
@@ -788,6 +1559,202 @@ export class WrapsEmail {
     }
   }
 
+  /**
+   * Preview a template with data: its rendered subject, HTML and text, and
+   * which substitutions the data misses or which of its keys go unused.
+   */
+  private async renderTemplate(
+    name: string,
+    data: Record<string, unknown> = {},
+    options: RenderTemplateOptions = {}
+  ): Promise<RenderedTemplate> {
+    if (options.template && options.renderer === 'ses') {
+      throw new ValidationError(
+        'SES can only render a stored template; omit template or use the local renderer',
+        'renderer'
+      );
+    }
+    let source = options.template;
+    if (!source) {
+      const template = await this.getTemplate(name);
+      source = { subject: template.subject, html: template.htmlPart, text: template.textPart };
+    }
+    const local = renderTemplate(source, data);
+    const renderer =
+      options.renderer ?? (options.template || this.localTemplates ? 'local' : 'ses');
+
+    // SES rejects data with missing substitutions outright, so unless SES was
+    // asked for by name the preview comes from the local renderer
+    if (renderer === 'local' || (!options.renderer && local.missing.length > 0)) {
+      return { ...local.parts, missing: local.missing, unused: local.unused, renderer: 'local' };
+    }
+
+    try {
+      const response = await this.sesClient.send(
+        new TestRenderTemplateCommand({ TemplateName: name, TemplateData: JSON.stringify(data) })
+      );
+      if (!response.RenderedTemplate) {
+        throw new Error('Invalid response from SES: missing RenderedTemplate');
+      }
+      const rendered = parseMime(response.RenderedTemplate);
+      return {
+        subject: headerValue(rendered.headers, 'Subject') ?? '',
+        html: rendered.html,
+        text: rendered.text,
+        missing: local.missing,
+        unused: local.unused,
+        renderer: 'ses',
+      };
+    } catch (error) {
+      throw await this.handleSESError(error);
+    }
+  }
+
+  /**
+   * Generate data types for every stored template, with
+   * {@link generateTemplateTypes}. Reads the `fileSink` directory's
+   * templates when the client writes to one.
+   */
+  private async generateTemplateTypes(options?: GenerateTemplateTypesOptions): Promise<string> {
+    const templates: TemplateTypesSource[] = [];
+    for (const name of await this.templateNames()) {
+      const template = await this.getTemplate(name);
+      templates.push({
+        name,
+        subject: template.subject,
+        html: template.htmlPart,
+        text: template.textPart,
+      });
+    }
+    return generateTemplateTypes(templates, options);
+  }
+
+  /**
+   * Names of every SES template, following `NextToken` through all pages.
+   * `pace` is awaited before each page.
+   */
+  private async templateNames(pace?: () => Promise<void>): Promise<string[]> {
+    const names: string[] = [];
+    let nextToken: string | undefined;
+    do {
+      await pace?.();
+      try {
+        const response = await this.sesClient.send(
+          new ListTemplatesCommand({ MaxItems: 100, NextToken: nextToken })
+        );
+        for (const template of response.TemplatesMetadata ?? []) {
+          if (template.Name) {
+            names.push(template.Name);
+          }
+        }
+        nextToken = response.NextToken;
+      } catch (error) {
+        throw await this.handleSESError(error);
+      }
+    } while (nextToken);
+    return names;
+  }
+
+  /**
+   * Make SES templates match a directory of template files: create the new
+   * ones, update the changed ones, and with `prune` delete the ones without
+   * files. Content is compared by hash; each change carries a unified diff.
+   * Every SES call is paced to `requestsPerSecond`. A failed change stops
+   * the sync with the changes before it applied, so rerun once it is fixed.
+   */
+  private async syncTemplates(options: TemplateSyncOptions = {}): Promise<TemplateSyncResult> {
+    const dryRun = options.dryRun ?? false;
+    const pace = templateApiPacer(options.requestsPerSecond ?? 1);
+    const local = await readTemplateDir(options.dir ?? './templates');
+
+    const remoteNames = new Set(await this.templateNames(pace));
+
+    const changes: TemplateSyncChange[] = [];
+    const unchanged: string[] = [];
+    for (const template of local) {
+      const localHash = templateHash(template);
+      if (!remoteNames.has(template.name)) {
+        changes.push({
+          action: 'create',
+          name: template.name,
+          diff: templateDiff(template.name, null, template),
+          localHash,
+        });
+        continue;
+      }
+      await pace();
+      const stored = await this.getTemplate(template.name);
+      const remote = { subject: stored.subject, html: stored.htmlPart, text: stored.textPart };
+      const remoteHash = templateHash(remote);
+      if (remoteHash === localHash) {
+        unchanged.push(template.name);
+      } else {
+        changes.push({
+          action: 'update',
+          name: template.name,
+          diff: templateDiff(template.name, remote, template),
+          localHash,
+          remoteHash,
+        });
+      }
+    }
+
+    const localNames = new Set(local.map((template) => template.name));
+    const untracked: string[] = [];
+    for (const name of [...remoteNames].sort()) {
+      if (localNames.has(name)) {
+        continue;
+      }
+      if (!options.prune) {
+        untracked.push(name);
+        continue;
+      }
+      await pace();
+      const stored = await this.getTemplate(name);
+      const remote = { subject: stored.subject, html: stored.htmlPart, text: stored.textPart };
+      changes.push({
+        action: 'delete',
+        name,
+        diff: templateDiff(name, remote, null),
+        remoteHash: templateHash(remote),
+      });
+    }
+
+    if (!dryRun) {
+      const byName = new Map(local.map((template) => [template.name, template]));
+      for (const change of changes) {
+        await pace();
+        const template = byName.get(change.name);
+        if (change.action === 'delete' || !template) {
+          await this.deleteTemplate(change.name);
+        } else {
+          await this.putTemplate(change.action, template);
+        }
+      }
+    }
+
+    return { changes, unchanged, untracked, dryRun };
+  }
+
+  /** Create or replace a template that may have only an HTML or only a text part. */
+  private async putTemplate(action: 'create' | 'update', template: LocalTemplate): Promise<void> {
+    const Template = {
+      TemplateName: template.name,
+      SubjectPart: template.subject,
+      HtmlPart: template.html,
+      TextPart: template.text,
+    };
+    try {
+      await this.sesClient.send(
+        action === 'create'
+          ? new CreateTemplateCommand({ Template })
+          : new UpdateTemplateCommand({ Template })
+      );
+    } catch (error) {
+      throw await this.handleSESError(error);
+    }
+  }
+
   /**
    * Close the SES client and clean up resources
    */
@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WrapsConfigurationSets } from './configuration-sets';
+import { SESError, ValidationError } from './errors';
+
+// Mock the command constructors to just pass through input, tagged with
+// their name so tests can tell the per-section requests apart
+vi.mock('@aws-sdk/client-sesv2', () => {
+  const passThrough = (command: string) =>
+    vi.fn(function (this: any, input: any) {
+      Object.assign(this, input, { command });
+    });
+  return Object.fromEntries(
+    [
+      'CreateConfigurationSetCommand',
+      'CreateConfigurationSetEventDestinationCommand',
+      'DeleteConfigurationSetCommand',
+      'DeleteConfigurationSetEventDestinationCommand',
+      'GetConfigurationSetCommand',
+      'GetConfigurationSetEventDestinationsCommand',
+      'ListConfigurationSetsCommand',
+      'PutConfigurationSetDeliveryOptionsCommand',
+      'PutConfigurationSetReputationOptionsCommand',
+      'PutConfigurationSetSendingOptionsCommand',
+      'PutConfigurationSetSuppressionOptionsCommand',
+      'PutConfigurationSetTrackingOptionsCommand',
+      'UpdateConfigurationSetEventDestinationCommand',
+    ].map((name) => [name, passThrough(name)])
+  );
+});
+
+const notFound = { name: 'NotFoundException', message: 'Not found', $metadata: {} };
+
+describe('WrapsConfigurationSets', () => {
+  let configurationSets: WrapsConfigurationSets;
+  let mockSend: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    const mockClient = { send: mockSend, destroy: vi.fn() } as any;
+    configurationSets = new WrapsConfigurationSets(mockClient);
+  });
+
+  describe('create', () => {
+    it('should create a set with every option section', async () => {
+      mockSend.mockResolvedValue({});
+
+      await configurationSets.create({
+        name: 'transactional',
+        tracking: { customRedirectDomain: 'track.acme.test', httpsPolicy: 'REQUIRE' },
+        reputationMetricsEnabled: true,
+        suppressedReasons: ['BOUNCE'],
+        delivery: { tlsPolicy: 'REQUIRE', sendingPoolName: 'dedicated', maxDeliverySeconds: 600 },
+        tags: { team: 'growth' },
+      });
+
+      expect(mockSend.mock.calls[0][0]).toMatchObject({
+        ConfigurationSetName: 'transactional',
+        TrackingOptions: { CustomRedirectDomain: 'track.acme.test', HttpsPolicy: 'REQUIRE' },
+        ReputationOptions: { ReputationMetricsEnabled: true },
+        SendingOptions: undefined,
+        SuppressionOptions: { SuppressedReasons: ['BOUNCE'] },
+        DeliveryOptions: {
+          TlsPolicy: 'REQUIRE',
+          SendingPoolName: 'dedicated',
+          MaxDeliverySeconds: 600,
+        },
+        Tags: [{ Key: 'team', Value: 'growth' }],
+      });
+    });
+
+    it('should validate before calling SES', async () => {
+      await expect(configurationSets.create({ name: '' })).rejects.toThrow(ValidationError);
+      await expect(
+        configurationSets.create({ name: 'x', delivery: { maxDeliverySeconds: 60 } })
+      ).rejects.toThrow('delivery.maxDeliverySeconds must be a whole number from 300 to 50400');
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('get / list / delete', () => {
+    it('should get a set, or null when it does not exist', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          ConfigurationSetName: 'transactional',
+          TrackingOptions: { CustomRedirectDomain: 'track.acme.test' },
+          ReputationOptions: { ReputationMetricsEnabled: true },
+          SendingOptions: { SendingEnabled: true },
+          SuppressionOptions: { SuppressedReasons: ['BOUNCE', 'COMPLAINT'] },
+          Tags: [{ Key: 'team', Value: 'growth' }],
+        })
+        .mockRejectedValueOnce(notFound);
+
+      expect(await configurationSets.get('transactional')).toEqual({
+        name: 'transactional',
+        tracking: { customRedirectDomain: 'track.acme.test' },
+        reputationMetricsEnabled: true,
+        sendingEnabled: true,
+        suppressedReasons: ['BOUNCE', 'COMPLAINT'],
+        tags: { team: 'growth' },
+      });
+      expect(await configurationSets.get('missing')).toBeNull();
+    });
+
+    it('should list set names with nextToken', async () => {
+      mockSend.mockResolvedValue({ ConfigurationSets: ['a', 'b'], NextToken: 'next' });
+
+      expect(await configurationSets.list()).toEqual({
+        configurationSets: ['a', 'b'],
+        nextToken: 'next',
+      });
+    });
+
+    it('should delete idempotently', async () => {
+      mockSend.mockRejectedValue(notFound);
+
+      await expect(configurationSets.delete('missing')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('update', () => {
+    it('should put only the sections given', async () => {
+      mockSend.mockResolvedValue({});
+
+      await configurationSets.update('transactional', {
+        tracking: null,
+        sendingEnabled: false,
+      });
+
+      expect(mockSend.mock.calls.map(([command]) => command)).toEqual([
+        {
+          command: 'PutConfigurationSetTrackingOptionsCommand',
+          ConfigurationSetName: 'transactional',
+          CustomRedirectDomain: undefined,
+          HttpsPolicy: undefined,
+        },
+        {
+          command: 'PutConfigurationSetSendingOptionsCommand',
+          ConfigurationSetName: 'transactional',
+          SendingEnabled: false,
+        },
+      ]);
+    });
+
+    it('should stop at the first failing section', async () => {
+      mockSend.mockRejectedValueOnce({
+        name: 'BadRequestException',
+        message: 'Pool does not exist',
+        $metadata: { requestId: 'req-1' },
+      });
+
+      await expect(
+        configurationSets.update('transactional', {
+          delivery: { sendingPoolName: 'missing' },
+          reputationMetricsEnabled: true,
+        })
+      ).rejects.toThrow(SESError);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('event destinations', () => {
+    it('should default to the event types WrapsEmailEvents reports on', async () => {
+      mockSend.mockResolvedValue({});
+
+      await configurationSets.putEventDestination('transactional', {
+        name: 'wraps-events',
+        target: {
+          type: 'eventBridge',
+          eventBusArn: 'arn:aws:events:us-east-1:123456789012:event-bus/default',
+        },
+      });
+
+      expect(mockSend.mock.calls[0][0]).toMatchObject({
+        command: 'CreateConfigurationSetEventDestinationCommand',
+        EventDestinationName: 'wraps-events',
+        EventDestination: {
+          Enabled: true,
+          MatchingEventTypes: ['SEND', 'DELIVERY', 'OPEN', 'CLICK', 'BOUNCE', 'COMPLAINT'],
+          EventBridgeDestination: {
+            EventBusArn: 'arn:aws:events:us-east-1:123456789012:event-bus/default',
+          },
+        },
+      });
+    });
+
+    it('should update a destination that already exists', async () => {
+      mockSend
+        .mockRejectedValueOnce({
+          name: 'AlreadyExistsException',
+          message: 'exists',
+          $metadata: {},
+        })
+        .mockResolvedValueOnce({});
+
+      await configurationSets.putEventDestination('transactional', {
+        name: 'bounces',
+        eventTypes: ['BOUNCE'],
+        target: { type: 'sns', topicArn: 'arn:aws:sns:us-east-1:123456789012:bounces' },
+      });
+
+      expect(mockSend.mock.calls[1][0]).toMatchObject({
+        command: 'UpdateConfigurationSetEventDestinationCommand',
+        EventDestination: {
+          MatchingEventTypes: ['BOUNCE'],
+          SnsDestination: { TopicArn: 'arn:aws:sns:us-east-1:123456789012:bounces' },
+        },
+      });
+    });
+
+    it('should list destinations in the same shape', async () => {
+      mockSend.mockResolvedValue({
+        EventDestinations: [
+          {
+            Name: 'metrics',
+            Enabled: true,
+            MatchingEventTypes: ['DELIVERY'],
+            CloudWatchDestination: {
+              DimensionConfigurations: [
+                {
+                  DimensionName: 'campaign',
+                  DimensionValueSource: 'MESSAGE_TAG',
+                  DefaultDimensionValue: 'none',
+                },
+              ],
+            },
+          },
+          { Name: 'legacy', PinpointDestination: { ApplicationArn: 'arn' } },
+        ],
+      });
+
+      expect(await configurationSets.listEventDestinations('transactional')).toEqual([
+        {
+          name: 'metrics',
+          enabled: true,
+          eventTypes: ['DELIVERY'],
+          target: {
+            type: 'cloudWatch',
+            dimensions: [{ name: 'campaign', source: 'MESSAGE_TAG', defaultValue: 'none' }],
+          },
+        },
+      ]);
+    });
+
+    it('should delete a destination idempotently', async () => {
+      mockSend.mockRejectedValue(notFound);
+
+      await expect(
+        configurationSets.deleteEventDestination('transactional', 'missing')
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,463 @@
+import type {
+  EventDestinationDefinition,
+  EventDestination as SESEventDestination,
+  SESv2Client,
+} from '@aws-sdk/client-sesv2';
+import {
+  CreateConfigurationSetCommand,
+  CreateConfigurationSetEventDestinationCommand,
+  DeleteConfigurationSetCommand,
+  DeleteConfigurationSetEventDestinationCommand,
+  GetConfigurationSetCommand,
+  GetConfigurationSetEventDestinationsCommand,
+  ListConfigurationSetsCommand,
+  PutConfigurationSetDeliveryOptionsCommand,
+  PutConfigurationSetReputationOptionsCommand,
+  PutConfigurationSetSendingOptionsCommand,
+  PutConfigurationSetSuppressionOptionsCommand,
+  PutConfigurationSetTrackingOptionsCommand,
+  UpdateConfigurationSetEventDestinationCommand,
+} from '@aws-sdk/client-sesv2';
+import { isUnverifiedIdentityError, mapAwsSdkError, ValidationError } from './errors';
+import type {
+  ConfigurationSet,
+  ConfigurationSetEventType,
+  ConfigurationSetListOptions,
+  ConfigurationSetListResult,
+  CreateConfigurationSetParams,
+  EventDestination,
+  EventDestinationTarget,
+  SuppressionReason,
+  UpdateConfigurationSetParams,
+} from './types';
+
+/** The SES events the Wraps event pipeline stores and `WrapsEmailEvents` reports on. */
+export const HISTORY_EVENT_TYPES: readonly ConfigurationSetEventType[] = [
+  'SEND',
+  'DELIVERY',
+  'OPEN',
+  'CLICK',
+  'BOUNCE',
+  'COMPLAINT',
+];
+
+function isNotFound(error: unknown): boolean {
+  return (error as { name?: string }).name === 'NotFoundException';
+}
+
+function isAlreadyExists(error: unknown): boolean {
+  return (error as { name?: string }).name === 'AlreadyExistsException';
+}
+
+function requireName(name: string, field = 'name'): void {
+  if (!name) {
+    throw new ValidationError('Configuration set name is required', field);
+  }
+}
+
+function assertOptions(options: UpdateConfigurationSetParams): void {
+  if (options.tracking && !options.tracking.customRedirectDomain) {
+    throw new ValidationError(
+      'tracking.customRedirectDomain is required',
+      'tracking.customRedirectDomain'
+    );
+  }
+  const seconds = options.delivery?.maxDeliverySeconds;
+  if (seconds !== undefined && (!Number.isInteger(seconds) || seconds < 300 || seconds > 50_400)) {
+    throw new ValidationError(
+      `delivery.maxDeliverySeconds must be a whole number from 300 to 50400, got: ${seconds}`,
+      'delivery.maxDeliverySeconds'
+    );
+  }
+}
+
+function toDefinition(destination: EventDestination): EventDestinationDefinition {
+  const { target } = destination;
+  const definition: EventDestinationDefinition = {
+    Enabled: destination.enabled ?? true,
+    MatchingEventTypes: [...(destination.eventTypes ?? HISTORY_EVENT_TYPES)],
+  };
+  switch (target.type) {
+    case 'eventBridge':
+      definition.EventBridgeDestination = { EventBusArn: target.eventBusArn };
+      break;
+    case 'sns':
+      definition.SnsDestination = { TopicArn: target.topicArn };
+      break;
+    case 'cloudWatch':
+      definition.CloudWatchDestination = {
+        DimensionConfigurations: target.dimensions.map((dimension) => ({
+          DimensionName: dimension.name,
+          DimensionValueSource: dimension.source,
+          DefaultDimensionValue: dimension.defaultValue,
+        })),
+      };
+      break;
+    case 'firehose':
+      definition.KinesisFirehoseDestination = {
+        DeliveryStreamArn: target.deliveryStreamArn,
+        IamRoleArn: target.iamRoleArn,
+      };
+      break;
+    default:
+      throw new ValidationError(
+        `target.type must be eventBridge, sns, cloudWatch or firehose, got: ${(target as { type?: string }).type}`,
+        'target.type'
+      );
+  }
+  return definition;
+}
+
+function fromDestination(destination: SESEventDestination): EventDestination | null {
+  let target: EventDestinationTarget;
+  if (destination.EventBridgeDestination) {
+    target = {
+      type: 'eventBridge',
+      eventBusArn: destination.EventBridgeDestination.EventBusArn ?? '',
+    };
+  } else if (destination.SnsDestination) {
+    target = { type: 'sns', topicArn: destination.SnsDestination.TopicArn ?? '' };
+  } else if (destination.CloudWatchDestination) {
+    target = {
+      type: 'cloudWatch',
+      dimensions: (destination.CloudWatchDestination.DimensionConfigurations ?? []).map(
+        (dimension) => ({
+          name: dimension.DimensionName ?? '',
+          source: dimension.DimensionValueSource ?? 'MESSAGE_TAG',
+          defaultValue: dimension.DefaultDimensionValue ?? '',
+        })
+      ),
+    };
+  } else if (destination.KinesisFirehoseDestination) {
+    target = {
+      type: 'firehose',
+      deliveryStreamArn: destination.KinesisFirehoseDestination.DeliveryStreamArn ?? '',
+      iamRoleArn: destination.KinesisFirehoseDestination.IamRoleArn ?? '',
+    };
+  } else {
+    // Pinpoint destinations have no equivalent here
+    return null;
+  }
+  return {
+    name: destination.Name ?? '',
+    enabled: destination.Enabled ?? false,
+    eventTypes: (destination.MatchingEventTypes ?? []) as ConfigurationSetEventType[],
+    target,
+  };
+}
+
+/**
+ * SES v2 configuration sets: tracking, reputation, suppression and delivery
+ * options, and the event destinations that publish send events — including
+ * the EventBridge destination the Wraps event pipeline reads from.
+ */
+export class WrapsConfigurationSets {
+  constructor(private client: SESv2Client) {}
+
+  /**
+   * Create a configuration set with its options
+   */
+  async create(params: CreateConfigurationSetParams): Promise<void> {
+    requireName(params.name);
+    assertOptions(params);
+
+    try {
+      await this.client.send(
+        new CreateConfigurationSetCommand({
+          ConfigurationSetName: params.name,
+          TrackingOptions: params.tracking
+            ? {
+                CustomRedirectDomain: params.tracking.customRedirectDomain,
+                HttpsPolicy: params.tracking.httpsPolicy,
+              }
+            : undefined,
+          ReputationOptions:
+            params.reputationMetricsEnabled === undefined
+              ? undefined
+              : { ReputationMetricsEnabled: params.reputationMetricsEnabled },
+          SendingOptions:
+            params.sendingEnabled === undefined
+              ? undefined
+              : { SendingEnabled: params.sendingEnabled },
+          SuppressionOptions: params.suppressedReasons
+            ? { SuppressedReasons: params.suppressedReasons }
+            : undefined,
+          DeliveryOptions: params.delivery
+            ? {
+                TlsPolicy: params.delivery.tlsPolicy,
+                SendingPoolName: params.delivery.sendingPoolName,
+                MaxDeliverySeconds: params.delivery.maxDeliverySeconds,
+              }
+            : undefined,
+          Tags: params.tags
+            ? Object.entries(params.tags).map(([Key, Value]) => ({ Key, Value }))
+            : undefined,
+        })
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a configuration set's options
+   * Returns null if the configuration set does not exist
+   */
+  async get(name: string): Promise<ConfigurationSet | null> {
+    requireName(name);
+
+    try {
+      const response = await this.client.send(
+        new GetConfigurationSetCommand({ ConfigurationSetName: name })
+      );
+      const tags: Record<string, string> = {};
+      for (const tag of response.Tags ?? []) {
+        if (tag.Key) {
+          tags[tag.Key] = tag.Value ?? '';
+        }
+      }
+      const result: ConfigurationSet = {
+        name: response.ConfigurationSetName ?? name,
+        reputationMetricsEnabled: response.ReputationOptions?.ReputationMetricsEnabled ?? false,
+        sendingEnabled: response.SendingOptions?.SendingEnabled ?? true,
+        tags,
+      };
+      if (response.TrackingOptions?.CustomRedirectDomain) {
+        result.tracking = {
+          customRedirectDomain: response.TrackingOptions.CustomRedirectDomain,
+          httpsPolicy: response.TrackingOptions.HttpsPolicy,
+        };
+      }
+      if (response.SuppressionOptions?.SuppressedReasons) {
+        result.suppressedReasons = response.SuppressionOptions
+          .SuppressedReasons as SuppressionReason[];
+      }
+      if (response.DeliveryOptions) {
+        result.delivery = {
+          tlsPolicy: response.DeliveryOptions.TlsPolicy,
+          sendingPoolName: response.DeliveryOptions.SendingPoolName,
+          maxDeliverySeconds: response.DeliveryOptions.MaxDeliverySeconds,
+        };
+      }
+      return result;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * List configuration set names
+   */
+  async list(options: ConfigurationSetListOptions = {}): Promise<ConfigurationSetListResult> {
+    try {
+      const response = await this.client.send(
+        new ListConfigurationSetsCommand({
+          PageSize: options.maxResults || 100,
+          NextToken: options.continuationToken,
+        })
+      );
+
+      return {
+        configurationSets: response.ConfigurationSets ?? [],
+        nextToken: response.NextToken,
+      };
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Replace the given sections of a configuration set's options
+   * One request per section; a failure leaves earlier sections applied.
+   */
+  async update(name: string, params: UpdateConfigurationSetParams): Promise<void> {
+    requireName(name);
+    assertOptions(params);
+
+    const steps: Array<() => Promise<unknown>> = [];
+    if (params.tracking !== undefined) {
+      steps.push(() =>
+        this.client.send(
+          new PutConfigurationSetTrackingOptionsCommand({
+            ConfigurationSetName: name,
+            CustomRedirectDomain: params.tracking?.customRedirectDomain,
+            HttpsPolicy: params.tracking?.httpsPolicy,
+          })
+        )
+      );
+    }
+    if (params.reputationMetricsEnabled !== undefined) {
+      steps.push(() =>
+        this.client.send(
+          new PutConfigurationSetReputationOptionsCommand({
+            ConfigurationSetName: name,
+            ReputationMetricsEnabled: params.reputationMetricsEnabled,
+          })
+        )
+      );
+    }
+    if (params.sendingEnabled !== undefined) {
+      steps.push(() =>
+        this.client.send(
+          new PutConfigurationSetSendingOptionsCommand({
+            ConfigurationSetName: name,
+            SendingEnabled: params.sendingEnabled,
+          })
+        )
+      );
+    }
+    if (params.suppressedReasons !== undefined) {
+      steps.push(() =>
+        this.client.send(
+          new PutConfigurationSetSuppressionOptionsCommand({
+            ConfigurationSetName: name,
+            SuppressedReasons: params.suppressedReasons,
+          })
+        )
+      );
+    }
+    const delivery = params.delivery;
+    if (delivery !== undefined) {
+      steps.push(() =>
+        this.client.send(
+          new PutConfigurationSetDeliveryOptionsCommand({
+            ConfigurationSetName: name,
+            TlsPolicy: delivery.tlsPolicy,
+            SendingPoolName: delivery.sendingPoolName,
+            MaxDeliverySeconds: delivery.maxDeliverySeconds,
+          })
+        )
+      );
+    }
+
+    try {
+      for (const step of steps) {
+        await step();
+      }
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a configuration set and its event destinations
+   * Idempotent — silently succeeds if the configuration set does not exist
+   */
+  async delete(name: string): Promise<void> {
+    requireName(name);
+
+    try {
+      await this.client.send(new DeleteConfigurationSetCommand({ ConfigurationSetName: name }));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * List a configuration set's event destinations
+   */
+  async listEventDestinations(name: string): Promise<EventDestination[]> {
+    requireName(name);
+
+    try {
+      const response = await this.client.send(
+        new GetConfigurationSetEventDestinationsCommand({ ConfigurationSetName: name })
+      );
+      return (response.EventDestinations ?? []).flatMap(
+        (destination) => fromDestination(destination) ?? []
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Create an event destination, or replace the one with the same name
+   */
+  async putEventDestination(name: string, destination: EventDestination): Promise<void> {
+    requireName(name);
+    if (!destination.name) {
+      throw new ValidationError('Event destination name is required', 'destination.name');
+    }
+    if (destination.eventTypes?.length === 0) {
+      throw new ValidationError(
+        'destination.eventTypes must not be empty',
+        'destination.eventTypes'
+      );
+    }
+    const definition = toDefinition(destination);
+
+    try {
+      await this.client.send(
+        new CreateConfigurationSetEventDestinationCommand({
+          ConfigurationSetName: name,
+          EventDestinationName: destination.name,
+          EventDestination: definition,
+        })
+      );
+    } catch (error) {
+      if (!isAlreadyExists(error)) {
+        throw await this.handleError(error);
+      }
+      try {
+        await this.client.send(
+          new UpdateConfigurationSetEventDestinationCommand({
+            ConfigurationSetName: name,
+            EventDestinationName: destination.name,
+            EventDestination: definition,
+          })
+        );
+      } catch (updateError) {
+        throw await this.handleError(updateError);
+      }
+    }
+  }
+
+  /**
+   * Remove an event destination
+   * Idempotent — silently succeeds if the destination does not exist
+   */
+  async deleteEventDestination(name: string, destinationName: string): Promise<void> {
+    requireName(name);
+
+    try {
+      await this.client.send(
+        new DeleteConfigurationSetEventDestinationCommand({
+          ConfigurationSetName: name,
+          EventDestinationName: destinationName,
+        })
+      );
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Route through the shared mapper so a credential-chain failure here becomes
+   * a `CredentialsError`, as it does on the send path.
+   */
+  private async handleError(error: unknown): Promise<Error> {
+    return mapAwsSdkError(error, 'SES request failed', { region: await this.errorRegion(error) });
+  }
+
+  /** The region to name in an error, resolved only when the message will use it. */
+  private async errorRegion(error: unknown): Promise<string | undefined> {
+    if (!isUnverifiedIdentityError(error)) {
+      return undefined;
+    }
+    try {
+      return await this.client.config.region();
+    } catch {
+      return undefined;
+    }
+  }
+}
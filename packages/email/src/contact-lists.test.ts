@@ -0,0 +1,265 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { listManagementOptions, WrapsContactLists } from './contact-lists';
+import { SESError, ValidationError } from './errors';
+
+// Mock the command constructors to just pass through input
+vi.mock('@aws-sdk/client-sesv2', () => {
+  const passThrough = () =>
+    vi.fn(function (this: any, input: any) {
+      Object.assign(this, input);
+    });
+  return {
+    CreateContactListCommand: passThrough(),
+    GetContactListCommand: passThrough(),
+    ListContactListsCommand: passThrough(),
+    UpdateContactListCommand: passThrough(),
+    DeleteContactListCommand: passThrough(),
+    CreateContactCommand: passThrough(),
+    GetContactCommand: passThrough(),
+    UpdateContactCommand: passThrough(),
+    DeleteContactCommand: passThrough(),
+    ListContactsCommand: passThrough(),
+  };
+});
+
+const notFound = { name: 'NotFoundException', message: 'List does not exist', $metadata: {} };
+
+const newsletter = {
+  name: 'newsletter',
+  displayName: 'Newsletter',
+  defaultSubscriptionStatus: 'OPT_IN' as const,
+};
+
+describe('WrapsContactLists', () => {
+  let contactLists: WrapsContactLists;
+  let mockSend: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    const mockClient = { send: mockSend, destroy: vi.fn() } as any;
+    contactLists = new WrapsContactLists(mockClient);
+  });
+
+  describe('lists', () => {
+    it('should create a list with its topics and tags', async () => {
+      mockSend.mockResolvedValue({});
+
+      await contactLists.create({
+        name: 'customers',
+        description: 'Everyone who bought',
+        topics: [newsletter],
+        tags: { team: 'growth' },
+      });
+
+      expect(mockSend.mock.calls[0][0]).toMatchObject({
+        ContactListName: 'customers',
+        Description: 'Everyone who bought',
+        Topics: [
+          {
+            TopicName: 'newsletter',
+            DisplayName: 'Newsletter',
+            DefaultSubscriptionStatus: 'OPT_IN',
+          },
+        ],
+        Tags: [{ Key: 'team', Value: 'growth' }],
+      });
+    });
+
+    it('should get a list, or null when it does not exist', async () => {
+      mockSend.mockResolvedValueOnce({
+        ContactListName: 'customers',
+        Topics: [
+          {
+            TopicName: 'newsletter',
+            DisplayName: 'Newsletter',
+            DefaultSubscriptionStatus: 'OPT_IN',
+          },
+        ],
+      });
+      mockSend.mockRejectedValueOnce(notFound);
+
+      expect(await contactLists.get('customers')).toEqual({
+        name: 'customers',
+        topics: [newsletter],
+      });
+      expect(await contactLists.get('missing')).toBeNull();
+    });
+
+    it('should list lists with nextToken', async () => {
+      mockSend.mockResolvedValue({
+        ContactLists: [{ ContactListName: 'customers' }],
+        NextToken: 'next',
+      });
+
+      const result = await contactLists.list({ maxResults: 10, continuationToken: 'token' });
+
+      expect(mockSend.mock.calls[0][0]).toMatchObject({ PageSize: 10, NextToken: 'token' });
+      expect(result).toEqual({ lists: [{ name: 'customers' }], nextToken: 'next' });
+    });
+
+    it('should delete idempotently', async () => {
+      mockSend.mockRejectedValue(notFound);
+
+      await expect(contactLists.delete('missing')).resolves.toBeUndefined();
+    });
+
+    it('should validate the list name', async () => {
+      await expect(contactLists.create({ name: '' })).rejects.toThrow(ValidationError);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('topics', () => {
+    it('should replace a topic of the same name and keep the others', async () => {
+      const offers = { ...newsletter, name: 'offers', displayName: 'Offers' };
+      mockSend.mockResolvedValueOnce({
+        ContactListName: 'customers',
+        Topics: [
+          { TopicName: 'newsletter', DisplayName: 'Old', DefaultSubscriptionStatus: 'OPT_OUT' },
+          { TopicName: 'offers', DisplayName: 'Offers', DefaultSubscriptionStatus: 'OPT_IN' },
+        ],
+      });
+      mockSend.mockResolvedValueOnce({});
+
+      await contactLists.putTopic('customers', newsletter);
+
+      expect(mockSend.mock.calls[1][0].Topics).toEqual(
+        [offers, newsletter].map((topic) => ({
+          TopicName: topic.name,
+          DisplayName: topic.displayName,
+          DefaultSubscriptionStatus: topic.defaultSubscriptionStatus,
+        }))
+      );
+    });
+
+    it('should skip the update when deleting a topic that is not there', async () => {
+      mockSend.mockResolvedValueOnce({ ContactListName: 'customers', Topics: [] });
+
+      await contactLists.deleteTopic('customers', 'newsletter');
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject topic changes on a missing list', async () => {
+      mockSend.mockRejectedValue(notFound);
+
+      await expect(contactLists.putTopic('missing', newsletter)).rejects.toThrow(
+        'Contact list "missing" does not exist'
+      );
+    });
+  });
+
+  describe('contacts', () => {
+    it('should add a contact with topic preferences and attributes', async () => {
+      mockSend.mockResolvedValue({});
+
+      await contactLists.addContact('customers', 'ada@example.com', {
+        topics: { newsletter: 'OPT_OUT' },
+        attributes: { firstName: 'Ada' },
+      });
+
+      expect(mockSend.mock.calls[0][0]).toMatchObject({
+        ContactListName: 'customers',
+        EmailAddress: 'ada@example.com',
+        TopicPreferences: [{ TopicName: 'newsletter', SubscriptionStatus: 'OPT_OUT' }],
+        AttributesData: '{"firstName":"Ada"}',
+      });
+    });
+
+    it('should get a contact with preferences and defaults, or null', async () => {
+      mockSend.mockResolvedValueOnce({
+        EmailAddress: 'ada@example.com',
+        TopicPreferences: [{ TopicName: 'newsletter', SubscriptionStatus: 'OPT_OUT' }],
+        TopicDefaultPreferences: [{ TopicName: 'offers', SubscriptionStatus: 'OPT_IN' }],
+        UnsubscribeAll: false,
+        AttributesData: '{"firstName":"Ada"}',
+      });
+      mockSend.mockRejectedValueOnce(notFound);
+
+      expect(await contactLists.getContact('customers', 'ada@example.com')).toEqual({
+        email: 'ada@example.com',
+        topics: { newsletter: 'OPT_OUT' },
+        topicDefaults: { offers: 'OPT_IN' },
+        unsubscribeAll: false,
+        attributes: { firstName: 'Ada' },
+      });
+      expect(await contactLists.getContact('customers', 'bob@example.com')).toBeNull();
+    });
+
+    it('should name the contact whose attributes are not JSON', async () => {
+      mockSend.mockResolvedValueOnce({
+        EmailAddress: 'ada@example.com',
+        AttributesData: 'tier=gold',
+        $metadata: { requestId: 'req-7' },
+      });
+
+      await expect(contactLists.getContact('customers', 'ada@example.com')).rejects.toMatchObject({
+        name: 'SESError',
+        code: 'InvalidAttributesData',
+        requestId: 'req-7',
+        retryable: false,
+        message: expect.stringContaining(
+          'Contact ada@example.com has attributes that are not valid JSON'
+        ),
+      });
+    });
+
+    it('should remove a contact idempotently', async () => {
+      mockSend.mockRejectedValue(notFound);
+
+      await expect(
+        contactLists.removeContact('customers', 'ada@example.com')
+      ).resolves.toBeUndefined();
+    });
+
+    it('should filter contacts by topic, falling back to topic defaults', async () => {
+      mockSend.mockResolvedValue({ Contacts: [], NextToken: 'next' });
+
+      const result = await contactLists.listContacts('customers', {
+        status: 'OPT_IN',
+        topic: 'newsletter',
+      });
+
+      expect(mockSend.mock.calls[0][0]).toMatchObject({
+        ContactListName: 'customers',
+        Filter: {
+          FilteredStatus: 'OPT_IN',
+          TopicFilter: { TopicName: 'newsletter', UseDefaultIfPreferenceUnavailable: true },
+        },
+        PageSize: 100,
+      });
+      expect(result).toEqual({ contacts: [], nextToken: 'next' });
+    });
+
+    it('should throw SESError on API errors', async () => {
+      mockSend.mockRejectedValue({
+        name: 'TooManyRequestsException',
+        message: 'Rate exceeded',
+        $metadata: { requestId: 'req-1' },
+      });
+
+      await expect(
+        contactLists.updateContact('customers', 'ada@example.com', { unsubscribeAll: true })
+      ).rejects.toThrow(SESError);
+    });
+  });
+});
+
+describe('listManagementOptions', () => {
+  it('maps to the SES shape, or undefined when not set', () => {
+    expect(listManagementOptions(undefined)).toBeUndefined();
+    expect(
+      listManagementOptions({ contactListName: 'customers', topicName: 'newsletter' })
+    ).toEqual({ ContactListName: 'customers', TopicName: 'newsletter' });
+  });
+
+  it('rejects a missing list name and a conflicting listUnsubscribe', () => {
+    expect(() => listManagementOptions({ contactListName: '' })).toThrow(
+      'listManagement.contactListName is required'
+    );
+    expect(() =>
+      listManagementOptions({ contactListName: 'customers' }, { list: 'newsletter' })
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,452 @@
+import type {
+  Contact as SESContact,
+  ListManagementOptions as SESListManagementOptions,
+  SESv2Client,
+  Topic,
+  TopicPreference,
+} from '@aws-sdk/client-sesv2';
+import {
+  CreateContactCommand,
+  CreateContactListCommand,
+  DeleteContactCommand,
+  DeleteContactListCommand,
+  GetContactCommand,
+  GetContactListCommand,
+  ListContactListsCommand,
+  ListContactsCommand,
+  UpdateContactCommand,
+  UpdateContactListCommand,
+} from '@aws-sdk/client-sesv2';
+import { isUnverifiedIdentityError, mapAwsSdkError, SESError, ValidationError } from './errors';
+import type {
+  Contact,
+  ContactList,
+  ContactListListOptions,
+  ContactListListResult,
+  ContactListTopic,
+  ContactParams,
+  ContactSubscriptionStatus,
+  ContactsListOptions,
+  ContactsListResult,
+  CreateContactListParams,
+  ListManagementOptions,
+  ListUnsubscribeOptions,
+  UpdateContactListParams,
+} from './types';
+
+function isNotFound(error: unknown): boolean {
+  return (error as { name?: string }).name === 'NotFoundException';
+}
+
+function toTopic(topic: ContactListTopic): Topic {
+  return {
+    TopicName: topic.name,
+    DisplayName: topic.displayName,
+    Description: topic.description,
+    DefaultSubscriptionStatus: topic.defaultSubscriptionStatus,
+  };
+}
+
+function fromTopic(topic: Topic): ContactListTopic {
+  return {
+    name: topic.TopicName ?? '',
+    displayName: topic.DisplayName ?? '',
+    description: topic.Description,
+    defaultSubscriptionStatus: topic.DefaultSubscriptionStatus as ContactSubscriptionStatus,
+  };
+}
+
+function toPreferences(
+  topics: Record<string, ContactSubscriptionStatus> | undefined
+): TopicPreference[] | undefined {
+  return topics
+    ? Object.entries(topics).map(([TopicName, SubscriptionStatus]) => ({
+        TopicName,
+        SubscriptionStatus,
+      }))
+    : undefined;
+}
+
+function fromPreferences(
+  preferences: TopicPreference[] | undefined
+): Record<string, ContactSubscriptionStatus> {
+  const topics: Record<string, ContactSubscriptionStatus> = {};
+  for (const preference of preferences ?? []) {
+    if (preference.TopicName && preference.SubscriptionStatus) {
+      topics[preference.TopicName] = preference.SubscriptionStatus;
+    }
+  }
+  return topics;
+}
+
+function fromContact(
+  contact: SESContact & { AttributesData?: string; CreatedTimestamp?: Date },
+  requestId = 'unknown'
+) {
+  const result: Contact = {
+    email: contact.EmailAddress ?? '',
+    topics: fromPreferences(contact.TopicPreferences),
+    topicDefaults: fromPreferences(contact.TopicDefaultPreferences),
+    unsubscribeAll: contact.UnsubscribeAll ?? false,
+    createdAt: contact.CreatedTimestamp,
+    lastUpdated: contact.LastUpdatedTimestamp,
+  };
+  if (contact.AttributesData) {
+    // Contacts written outside this SDK can carry any string. That is bad
+    // data in SES, not a bad argument, so it is not a ValidationError.
+    try {
+      result.attributes = JSON.parse(contact.AttributesData);
+    } catch (error) {
+      throw new SESError(
+        `Contact ${result.email} has attributes that are not valid JSON: ${(error as Error).message}`,
+        'InvalidAttributesData',
+        requestId,
+        false
+      );
+    }
+  }
+  return result;
+}
+
+function requireName(name: string, field = 'name'): void {
+  if (!name) {
+    throw new ValidationError('Contact list name is required', field);
+  }
+}
+
+function requireEmail(email: string): void {
+  if (!email) {
+    throw new ValidationError('Email address is required', 'email');
+  }
+}
+
+/**
+ * SES v2 contact lists: lists with subscription topics, and the contacts on
+ * them with their topic preferences. Sends that pass `listManagement` name a
+ * list (and topic) here, and SES honours the contacts' preferences.
+ */
+export class WrapsContactLists {
+  constructor(private client: SESv2Client) {}
+
+  /**
+   * Create a contact list, optionally with its topics
+   */
+  async create(params: CreateContactListParams): Promise<void> {
+    requireName(params.name);
+
+    try {
+      await this.client.send(
+        new CreateContactListCommand({
+          ContactListName: params.name,
+          Description: params.description,
+          Topics: params.topics?.map(toTopic),
+          Tags: params.tags
+            ? Object.entries(params.tags).map(([Key, Value]) => ({ Key, Value }))
+            : undefined,
+        })
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a contact list and its topics
+   * Returns null if the list does not exist
+   */
+  async get(name: string): Promise<ContactList | null> {
+    requireName(name);
+
+    try {
+      const response = await this.client.send(new GetContactListCommand({ ContactListName: name }));
+      return {
+        name: response.ContactListName ?? name,
+        description: response.Description,
+        topics: (response.Topics ?? []).map(fromTopic),
+        createdAt: response.CreatedTimestamp,
+        lastUpdated: response.LastUpdatedTimestamp,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * List the account's contact lists
+   */
+  async list(options: ContactListListOptions = {}): Promise<ContactListListResult> {
+    try {
+      const response = await this.client.send(
+        new ListContactListsCommand({
+          PageSize: options.maxResults || 100,
+          NextToken: options.continuationToken,
+        })
+      );
+
+      return {
+        lists: (response.ContactLists ?? []).flatMap((list) =>
+          list.ContactListName
+            ? [{ name: list.ContactListName, lastUpdated: list.LastUpdatedTimestamp }]
+            : []
+        ),
+        nextToken: response.NextToken,
+      };
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a list's description and/or replace its topics
+   */
+  async update(name: string, params: UpdateContactListParams): Promise<void> {
+    requireName(name);
+
+    try {
+      await this.client.send(
+        new UpdateContactListCommand({
+          ContactListName: name,
+          Description: params.description,
+          Topics: params.topics?.map(toTopic),
+        })
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a contact list and every contact on it
+   * Idempotent — silently succeeds if the list does not exist
+   */
+  async delete(name: string): Promise<void> {
+    requireName(name);
+
+    try {
+      await this.client.send(new DeleteContactListCommand({ ContactListName: name }));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Add a topic to a list, or replace the topic with the same name
+   *
+   * SES stores topics as part of the list, so this reads the list and writes
+   * its topics back; concurrent topic changes to one list can overwrite each
+   * other.
+   */
+  async putTopic(listName: string, topic: ContactListTopic): Promise<void> {
+    if (!topic.name) {
+      throw new ValidationError('Topic name is required', 'topic.name');
+    }
+    const topics = await this.topicsOf(listName);
+    await this.update(listName, {
+      topics: [...topics.filter((existing) => existing.name !== topic.name), topic],
+    });
+  }
+
+  /**
+   * Remove a topic from a list
+   * Idempotent — silently succeeds if the topic does not exist
+   */
+  async deleteTopic(listName: string, topicName: string): Promise<void> {
+    const topics = await this.topicsOf(listName);
+    if (topics.some((topic) => topic.name === topicName)) {
+      await this.update(listName, {
+        topics: topics.filter((topic) => topic.name !== topicName),
+      });
+    }
+  }
+
+  private async topicsOf(listName: string): Promise<ContactListTopic[]> {
+    const list = await this.get(listName);
+    if (!list) {
+      throw new ValidationError(`Contact list "${listName}" does not exist`, 'listName');
+    }
+    return list.topics;
+  }
+
+  /**
+   * Add a contact to a list
+   */
+  async addContact(listName: string, email: string, params: ContactParams = {}): Promise<void> {
+    requireName(listName, 'listName');
+    requireEmail(email);
+
+    try {
+      await this.client.send(
+        new CreateContactCommand({
+          ContactListName: listName,
+          EmailAddress: email,
+          TopicPreferences: toPreferences(params.topics),
+          UnsubscribeAll: params.unsubscribeAll,
+          AttributesData: params.attributes ? JSON.stringify(params.attributes) : undefined,
+        })
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a contact with its topic preferences and attributes
+   * Returns null if the contact is not on the list
+   * Throws an SESError if its stored attributes are not valid JSON
+   */
+  async getContact(listName: string, email: string): Promise<Contact | null> {
+    requireName(listName, 'listName');
+    requireEmail(email);
+
+    try {
+      const response = await this.client.send(
+        new GetContactCommand({ ContactListName: listName, EmailAddress: email })
+      );
+      return fromContact(response, response.$metadata?.requestId);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a contact's topic preferences, unsubscribe-all flag or attributes
+   */
+  async updateContact(listName: string, email: string, params: ContactParams): Promise<void> {
+    requireName(listName, 'listName');
+    requireEmail(email);
+
+    try {
+      await this.client.send(
+        new UpdateContactCommand({
+          ContactListName: listName,
+          EmailAddress: email,
+          TopicPreferences: toPreferences(params.topics),
+          UnsubscribeAll: params.unsubscribeAll,
+          AttributesData: params.attributes ? JSON.stringify(params.attributes) : undefined,
+        })
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Remove a contact from a list
+   * Idempotent — silently succeeds if the contact is not on the list
+   */
+  async removeContact(listName: string, email: string): Promise<void> {
+    requireName(listName, 'listName');
+    requireEmail(email);
+
+    try {
+      await this.client.send(
+        new DeleteContactCommand({ ContactListName: listName, EmailAddress: email })
+      );
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * List a list's contacts, optionally filtered by topic subscription
+   */
+  async listContacts(
+    listName: string,
+    options: ContactsListOptions = {}
+  ): Promise<ContactsListResult> {
+    requireName(listName, 'listName');
+
+    try {
+      const response = await this.client.send(
+        new ListContactsCommand({
+          ContactListName: listName,
+          Filter:
+            options.status || options.topic
+              ? {
+                  FilteredStatus: options.status,
+                  TopicFilter: options.topic
+                    ? {
+                        TopicName: options.topic,
+                        UseDefaultIfPreferenceUnavailable: options.useTopicDefault ?? true,
+                      }
+                    : undefined,
+                }
+              : undefined,
+          PageSize: options.maxResults || 100,
+          NextToken: options.continuationToken,
+        })
+      );
+
+      return {
+        contacts: (response.Contacts ?? []).map((contact) =>
+          fromContact(contact, response.$metadata?.requestId)
+        ),
+        nextToken: response.NextToken,
+      };
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Route through the shared mapper so a credential-chain failure here becomes
+   * a `CredentialsError`, as it does on the send path.
+   */
+  private async handleError(error: unknown): Promise<Error> {
+    return mapAwsSdkError(error, 'SES request failed', { region: await this.errorRegion(error) });
+  }
+
+  /** The region to name in an error, resolved only when the message will use it. */
+  private async errorRegion(error: unknown): Promise<string | undefined> {
+    if (!isUnverifiedIdentityError(error)) {
+      return undefined;
+    }
+    try {
+      return await this.client.config.region();
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * SES `ListManagementOptions` for a send, or `undefined` when it did not opt
+ * in. Shared by every send path that accepts `listManagement`.
+ *
+ * @param listUnsubscribe - The send's own unsubscribe option; SES adds its own
+ *   `List-Unsubscribe` headers, so the two cannot be combined.
+ * @throws {ValidationError} on a missing list name or a conflicting option.
+ */
+export function listManagementOptions(
+  options: ListManagementOptions | undefined,
+  listUnsubscribe?: ListUnsubscribeOptions
+): SESListManagementOptions | undefined {
+  if (!options) {
+    return undefined;
+  }
+  if (!options.contactListName) {
+    throw new ValidationError(
+      'listManagement.contactListName is required',
+      'listManagement.contactListName'
+    );
+  }
+  if (listUnsubscribe) {
+    throw new ValidationError(
+      'Pass either listManagement or listUnsubscribe, not both: SES adds its own List-Unsubscribe headers',
+      'listManagement'
+    );
+  }
+  return { ContactListName: options.contactListName, TopicName: options.topicName };
+}
@@ -1,3 +1,5 @@
+import type { ReputationMetrics, SkippedRecipient } from './types';
+
 export class WrapsEmailError extends Error {
   constructor(message: string) {
     super(message);
@@ -85,6 +87,106 @@ export class CredentialsError extends WrapsEmailError {
   }
 }
 
+/**
+ * A send was refused before reaching SES because it would cross the account's
+ * 24-hour sending quota. Nothing was sent, and waiting for the rate limiter
+ * would not help — the quota only frees up as the 24-hour window rolls.
+ */
+export class QuotaExceededError extends WrapsEmailError {
+  /** The account's 24-hour quota, in recipients. */
+  public readonly max24HourSend: number;
+  /** Recipients already counted against the current window. */
+  public readonly sentLast24Hours: number;
+  /** Recipients the refused send would have added. */
+  public readonly requested: number;
+
+  constructor(message: string, max24HourSend: number, sentLast24Hours: number, requested: number) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.max24HourSend = max24HourSend;
+    this.sentLast24Hours = sentLast24Hours;
+    this.requested = requested;
+  }
+}
+
+/**
+ * `reputationGuard` refused a promotional send because bounce or complaint
+ * rates crossed their thresholds. Nothing was sent; transactional sends still go.
+ */
+export class ReputationCircuitOpenError extends WrapsEmailError {
+  /** Why the breaker is open, one entry per threshold crossed. */
+  public readonly reasons: string[];
+  /** The readings that tripped the breaker. */
+  public readonly metrics: ReputationMetrics[];
+
+  constructor(message: string, reasons: string[], metrics: ReputationMetrics[]) {
+    super(message);
+    this.name = 'ReputationCircuitOpenError';
+    this.reasons = reasons;
+    this.metrics = metrics;
+  }
+}
+
+/**
+ * `suppressionCheck` refused a send in `'error'` mode because a recipient is
+ * suppressed. Nothing was sent.
+ */
+export class SuppressedRecipientError extends WrapsEmailError {
+  /** The suppressed recipients, and the list each was found on. */
+  public readonly recipients: SkippedRecipient[];
+
+  constructor(message: string, recipients: SkippedRecipient[]) {
+    super(message);
+    this.name = 'SuppressedRecipientError';
+    this.recipients = recipients;
+  }
+}
+
+/**
+ * Another process holds a pending claim on this `idempotencyKey`: it is
+ * sending the email now, or stopped before recording whether it did. Nothing
+ * was sent; the claim lapses after the key's TTL.
+ */
+export class IdempotencyConflictError extends WrapsEmailError {
+  /** The key that is claimed elsewhere. */
+  public readonly key: string;
+
+  constructor(message: string, key: string) {
+    super(message);
+    this.name = 'IdempotencyConflictError';
+    this.key = key;
+  }
+}
+
+/**
+ * `identities.waitUntilVerified()` stopped before the identity was verified:
+ * SES reported a failed check, or the identity was still pending when the
+ * timeout ran out. The statuses are the last ones SES reported.
+ */
+export class IdentityVerificationError extends WrapsEmailError {
+  public readonly identity: string;
+  /** `failed` when SES gave up on a check, `timeout` when it was still pending. */
+  public readonly reason: 'failed' | 'timeout';
+  public readonly verificationStatus: string;
+  public readonly dkimStatus?: string;
+  public readonly mailFromStatus?: string;
+
+  constructor(
+    message: string,
+    identity: string,
+    reason: 'failed' | 'timeout',
+    statuses: { verificationStatus: string; dkimStatus?: string; mailFromStatus?: string }
+  ) {
+    super(message);
+    this.name = 'IdentityVerificationError';
+    this.identity = identity;
+    this.reason = reason;
+    this.verificationStatus = statuses.verificationStatus;
+    this.dkimStatus = statuses.dkimStatus;
+    this.mailFromStatus = statuses.mailFromStatus;
+  }
+}
+
 /**
  * AWS pre-verifies this address, so a sandboxed account can send to it with no
  * recipient verification and get a real Delivery event back. Mirrors
@@ -239,3 +341,25 @@ export function mapAwsSdkError(
 
   return error as Error;
 }
+
+/**
+ * Map a DynamoDB client error into a {@link DynamoDBError}. Errors that never
+ * reached AWS (no `$metadata`) are returned unchanged.
+ */
+export function mapDynamoDBError(error: unknown): Error {
+  const err = error as {
+    $metadata?: { requestId?: string };
+    $retryable?: { throttling?: boolean };
+    message?: string;
+    name?: string;
+  };
+  if (err.$metadata) {
+    return new DynamoDBError(
+      err.message || 'DynamoDB request failed',
+      err.name || 'Unknown',
+      err.$metadata.requestId || 'unknown',
+      err.$retryable?.throttling || false
+    );
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
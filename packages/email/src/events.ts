@@ -1,6 +1,6 @@
 import type { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { QueryCommand } from '@aws-sdk/lib-dynamodb';
-import { DynamoDBError, ValidationError } from './errors';
+import { mapDynamoDBError, ValidationError } from './errors';
 import type { EmailEvent, EmailListOptions, EmailListResult, EmailStatus } from './types';
 
 const EVENT_TYPE_MAP: Record<string, EmailStatus['status']> = {
@@ -77,7 +77,7 @@ export class WrapsEmailEvents {
     try {
       return await this.fetchMessage(messageId);
     } catch (error) {
-      throw this.handleDynamoDBError(error);
+      throw mapDynamoDBError(error);
     }
   }
 
@@ -186,7 +186,7 @@ export class WrapsEmailEvents {
 
       return { emails, nextToken };
     } catch (error) {
-      throw this.handleDynamoDBError(error);
+      throw mapDynamoDBError(error);
     }
   }
 
@@ -250,22 +250,4 @@ export class WrapsEmailEvents {
       events,
     };
   }
-
-  private handleDynamoDBError(error: unknown): Error {
-    const err = error as {
-      $metadata?: { requestId?: string };
-      $retryable?: { throttling?: boolean };
-      message?: string;
-      name?: string;
-    };
-    if (err.$metadata) {
-      return new DynamoDBError(
-        err.message || 'DynamoDB request failed',
-        err.name || 'Unknown',
-        err.$metadata.requestId || 'unknown',
-        err.$retryable?.throttling || false
-      );
-    }
-    return error instanceof Error ? error : new Error(String(error));
-  }
 }
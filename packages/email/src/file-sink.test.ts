@@ -0,0 +1,183 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WrapsEmail } from './client';
+import { ValidationError } from './errors';
+import type { FileSinkRecord } from './file-sink';
+
+describe('fileSink', () => {
+  let directory: string;
+  let email: WrapsEmail;
+
+  /** Every message written so far, oldest first. */
+  const written = async () => {
+    const files = (await readdir(directory)).filter((name) => name.endsWith('.eml')).sort();
+    return Promise.all(
+      files.map(async (file) => ({
+        eml: await readFile(join(directory, file), 'utf-8'),
+        sidecar: JSON.parse(
+          await readFile(join(directory, file.replace(/\.eml$/, '.json')), 'utf-8')
+        ) as FileSinkRecord,
+      }))
+    );
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'wraps-sink-'));
+    email = new WrapsEmail({ region: 'us-east-1', fileSink: { directory } });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('writes send() as an .eml file with a sidecar and returns a synthetic messageId', async () => {
+    const result = await email.send({
+      from: 'hello@acme.test',
+      to: 'ada@example.com',
+      bcc: 'audit@acme.test',
+      subject: 'Welcome',
+      html: '<p>Hi Ada</p>',
+      tags: { campaign: 'onboarding' },
+      configurationSetName: 'transactional',
+    });
+
+    const [message] = await written();
+    expect(result.messageId).toMatch(/^local-/);
+    expect(message.eml).toContain('From: hello@acme.test\r\nTo: ada@example.com\r\n');
+    expect(message.eml).toContain('Subject: Welcome');
+    expect(message.eml).toContain(`Message-ID: <${result.messageId}@wraps.local>`);
+    expect(message.eml).toMatch(/^Date: /m);
+    expect(message.eml).toContain('<p>Hi Ada</p>');
+    expect(message.sidecar).toMatchObject({
+      messageId: result.messageId,
+      api: 'SendEmail',
+      bcc: ['audit@acme.test'],
+      tags: { campaign: 'onboarding' },
+      configurationSetName: 'transactional',
+    });
+  });
+
+  it('keeps raw messages as built and stamps the missing envelope headers', async () => {
+    await email.send({
+      from: 'hello@acme.test',
+      to: 'ada@example.com',
+      subject: 'Invoice',
+      text: 'Attached',
+      attachments: [{ filename: 'invoice.pdf', content: Buffer.from('%PDF') }],
+    });
+
+    const [message] = await written();
+    expect(message.sidecar.api).toBe('SendRawEmail');
+    expect(message.eml).toMatch(/^Message-ID: <local-.*@wraps\.local>\r\nDate: /);
+    expect(message.eml).toContain('filename="invoice.pdf"');
+  });
+
+  it('renders templates locally for sendTemplate()', async () => {
+    await email.templates.create({
+      name: 'welcome',
+      subject: 'Welcome, {{name}}',
+      html: '<p>Plan: {{plan.name}}</p>',
+    });
+
+    await email.sendTemplate({
+      from: 'hello@acme.test',
+      to: 'ada@example.com',
+      template: 'welcome',
+      templateData: { name: 'Ada', plan: { name: 'Pro' } },
+    });
+
+    const [message] = await written();
+    expect(message.eml).toContain('Subject: Welcome, Ada');
+    expect(message.eml).toContain('<p>Plan: Pro</p>');
+    expect(message.sidecar).toMatchObject({ template: 'welcome', templateData: { name: 'Ada' } });
+    expect((await email.templates.list()).map((t) => t.name)).toEqual(['welcome']);
+  });
+
+  it('reports a template that was never created', async () => {
+    await expect(
+      email.sendTemplate({
+        from: 'hello@acme.test',
+        to: 'ada@example.com',
+        template: 'missing',
+        templateData: {},
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('writes one message per sendBatch() entry', async () => {
+    const result = await email.sendBatch({
+      from: 'hello@acme.test',
+      entries: [
+        { to: 'ada@example.com', subject: 'Hi Ada', html: '<p>Ada</p>' },
+        { to: 'bob@example.com', subject: 'Hi Bob', html: '<p>Bob</p>' },
+      ],
+    });
+
+    const messages = await written();
+    expect(result.successCount).toBe(2);
+    expect(messages.map((m) => m.sidecar.subject).sort()).toEqual(['Hi Ada', 'Hi Bob']);
+    expect(messages.map((m) => m.sidecar.messageId).sort()).toEqual(
+      result.results.map((r) => r.messageId).sort()
+    );
+  });
+
+  it('writes sendBatch() content exactly as the entry gave it', async () => {
+    await email.sendBatch({
+      from: 'hello@acme.test',
+      entries: [
+        {
+          to: 'ada@example.com',
+          subject: 'Tom & Jerry',
+          html: '<p>Tom & Jerry\'s "deal"</p>',
+          text: 'Tom & Jerry <3',
+        },
+      ],
+    });
+
+    const [message] = await written();
+    expect(message.sidecar.subject).toBe('Tom & Jerry');
+    expect(message.eml).toContain('Subject: Tom & Jerry\r\n');
+    expect(message.eml).toContain('<p>Tom & Jerry\'s "deal"</p>');
+    expect(message.eml).toContain('Tom & Jerry <3');
+    expect(message.eml).not.toContain('&amp;');
+  });
+
+  it('records the reply-threading ids minted into the reply-to address', async () => {
+    const ssmSend = vi.fn().mockResolvedValue({
+      Parameter: {
+        Value: JSON.stringify({ kid: 1, current: Buffer.alloc(32, 1).toString('base64') }),
+      },
+    });
+    const threaded = new WrapsEmail({
+      region: 'us-east-1',
+      fileSink: { directory },
+      replyThreading: { ssmClient: { send: ssmSend } as any },
+    });
+
+    const result = await threaded.send({
+      from: 'hello@acme.test',
+      to: 'ada@example.com',
+      subject: 'Ticket #1',
+      text: 'Reply to this email',
+      conversationId: 'AAAAAAAAAAA',
+    });
+
+    const [message] = await written();
+    expect(message.sidecar.replyThreading).toMatchObject({
+      replyDomain: 'r.mail.acme.test',
+      conversationId: result.conversationId,
+      sendId: result.sendId,
+    });
+    expect(message.sidecar.replyTo[0]).toBe(
+      `${message.sidecar.replyThreading?.token}@r.mail.acme.test`
+    );
+  });
+
+  it('rejects template names that would escape the templates directory', async () => {
+    await expect(
+      email.templates.create({ name: '../escape', subject: 'x', html: 'x' })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,298 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  CreateTemplateCommand,
+  DeleteTemplateCommand,
+  GetTemplateCommand,
+  ListTemplatesCommand,
+  SESClient,
+  TestRenderTemplateCommand,
+  UpdateTemplateCommand,
+} from '@aws-sdk/client-ses';
+import { SESv2Client } from '@aws-sdk/client-sesv2';
+import { ValidationError } from './errors';
+import { decodeReplyToken } from './reply-token-codec';
+import type { FileSinkConfig, ListManagementOptions } from './types';
+import { baseClientConfig, type RegionProvider } from './utils/credentials';
+import { buildRawEmailMessage } from './utils/mime';
+import {
+  type EmulatedMessage,
+  type EmulatedSendApi,
+  emulatedSendOutput,
+  emulateSend,
+} from './utils/ses-emulation';
+import {
+  buildRenderedTemplateMessage,
+  renderTemplateParts,
+  type TemplateParts,
+} from './utils/template';
+
+/** SES template names; also keeps template files inside the templates directory. */
+const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** What the JSON sidecar next to each `.eml` file records. */
+export interface FileSinkRecord {
+  messageId: string;
+  /** The SES API the message would have gone out through. */
+  api: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  replyTo: string[];
+  subject?: string;
+  tags: Record<string, string>;
+  configurationSetName?: string;
+  template?: string;
+  templateData?: Record<string, unknown>;
+  /** The contact list (and topic) a list-managed send named. */
+  listManagement?: ListManagementOptions;
+  /** Decoded from a signed reply-to address; the signature is not checked. */
+  replyThreading?: {
+    token: string;
+    replyDomain: string;
+    conversationId: string;
+    sendId: string;
+    /** Unix seconds; `null` when the token never expires. */
+    expiresAt: number | null;
+  };
+  writtenAt: string;
+}
+
+function headerBlock(source: string): string {
+  const end = source.search(/\r?\n\r?\n/);
+  return end === -1 ? source : source.slice(0, end);
+}
+
+function toBase64Url(bytes: Buffer): string {
+  return bytes.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Read the ids back out of a signed reply-to address, if one is present. */
+function replyThreadingOf(replyTo: string[]): FileSinkRecord['replyThreading'] {
+  for (const address of replyTo) {
+    const bare = (/<([^>]*)>\s*$/.exec(address)?.[1] ?? address).trim();
+    const at = bare.lastIndexOf('@');
+    const token = bare.slice(0, at);
+    const decoded = at === -1 ? null : decodeReplyToken(token);
+    if (!decoded) {
+      continue;
+    }
+    return {
+      token,
+      replyDomain: bare.slice(at + 1),
+      conversationId: toBase64Url(decoded.convId),
+      sendId: toBase64Url(decoded.sendId),
+      expiresAt: decoded.exp === 0 ? null : decoded.exp,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Writes every outgoing message to a directory instead of sending it, for
+ * local development without AWS credentials. Each message becomes an RFC 5322
+ * `.eml` file plus a `.json` sidecar ({@link FileSinkRecord}).
+ *
+ * Stands in for the SES and SES v2 clients: `send`, `sendTemplate`,
+ * `sendBulkTemplate` and `sendBatch` all land here. Templates live as JSON
+ * under `templates/` and are rendered locally, with the Handlebars subset SES
+ * supports.
+ */
+export class FileSink {
+  readonly sesClient: SESClient;
+  readonly sesv2Client: SESv2Client;
+
+  private readonly directory: string;
+  private ready: Promise<void> | undefined;
+
+  constructor(config: FileSinkConfig, region: RegionProvider) {
+    if (!config.directory) {
+      throw new ValidationError('fileSink.directory is required', 'directory');
+    }
+    this.directory = config.directory;
+
+    // Real clients keep `config.region()` and `destroy()` working; `send`
+    // never reaches the network, so no credentials are needed.
+    this.sesClient = new SESClient(baseClientConfig(region));
+    this.sesv2Client = new SESv2Client(baseClientConfig(region));
+    (this.sesClient as { send: unknown }).send = (command: unknown) => this.handleSes(command);
+    (this.sesv2Client as { send: unknown }).send = (command: unknown) => this.handleSesv2(command);
+  }
+
+  /** Write the messages of an SES or SES v2 send command, if it is one. */
+  private async handleSend(command: unknown): Promise<object | undefined> {
+    const send = await emulateSend(command, (name) => this.readTemplate(name));
+    if (!send) {
+      return undefined;
+    }
+    const messageIds: string[] = [];
+    for (const message of send.messages) {
+      messageIds.push(await this.write(send.api, message));
+    }
+    return respond(emulatedSendOutput(send.api, messageIds));
+  }
+
+  private async handleSes(command: unknown): Promise<object> {
+    const sent = await this.handleSend(command);
+    if (sent) {
+      return sent;
+    }
+
+    if (command instanceof CreateTemplateCommand || command instanceof UpdateTemplateCommand) {
+      const template = command.input.Template;
+      const path = this.templatePath(template?.TemplateName);
+      await mkdir(join(this.directory, 'templates'), { recursive: true });
+      await writeFile(path, JSON.stringify(template, null, 2));
+      return respond({});
+    }
+
+    if (command instanceof GetTemplateCommand) {
+      const template = await this.readTemplate(command.input.TemplateName);
+      return respond({
+        Template: {
+          TemplateName: command.input.TemplateName,
+          SubjectPart: template.subject,
+          HtmlPart: template.html,
+          TextPart: template.text,
+        },
+      });
+    }
+
+    if (command instanceof ListTemplatesCommand) {
+      const directory = join(this.directory, 'templates');
+      const files = await readdir(directory).catch(() => [] as string[]);
+      const metadata = [];
+      for (const file of files.filter((name) => name.endsWith('.json'))) {
+        const { birthtime } = await stat(join(directory, file));
+        metadata.push({ Name: file.slice(0, -'.json'.length), CreatedTimestamp: birthtime });
+      }
+      return respond({ TemplatesMetadata: metadata });
+    }
+
+    if (command instanceof DeleteTemplateCommand) {
+      await rm(this.templatePath(command.input.TemplateName), { force: true });
+      return respond({});
+    }
+
+    if (command instanceof TestRenderTemplateCommand) {
+      const data = JSON.parse(command.input.TemplateData ?? '{}') as Record<string, unknown>;
+      const template = await this.readTemplate(command.input.TemplateName);
+      return respond({
+        RenderedTemplate: buildRenderedTemplateMessage(renderTemplateParts(template, data)),
+      });
+    }
+
+    throw unsupported(command);
+  }
+
+  private async handleSesv2(command: unknown): Promise<object> {
+    const sent = await this.handleSend(command);
+    if (sent) {
+      return sent;
+    }
+    throw unsupported(command);
+  }
+
+  /**
+   * Write one message and its sidecar. A raw message is written as sent;
+   * any other is built from its parts.
+   *
+   * @returns The synthetic message ID.
+   */
+  private async write(api: EmulatedSendApi, message: EmulatedMessage): Promise<string> {
+    const messageId = `local-${randomUUID()}`;
+    const now = new Date();
+    const envelope = {
+      'Message-ID': `<${messageId}@wraps.local>`,
+      Date: now.toUTCString(),
+    };
+
+    let eml: string;
+    if (message.raw !== undefined) {
+      // Raw sources arrive without the headers SES would stamp on them.
+      const head = headerBlock(message.raw);
+      const missing = Object.entries(envelope).filter(
+        ([name]) => !new RegExp(`^${name}:`, 'im').test(head)
+      );
+      eml = [...missing.map(([name, value]) => `${name}: ${value}`), message.raw].join('\r\n');
+    } else {
+      eml = buildRawEmailMessage({
+        from: message.from,
+        to: message.to,
+        cc: message.cc.length > 0 ? message.cc : undefined,
+        bcc: message.bcc.length > 0 ? message.bcc : undefined,
+        replyTo: message.replyTo.length > 0 ? message.replyTo : undefined,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        customHeaders: { ...envelope, ...message.headers },
+      });
+    }
+
+    const sidecar: FileSinkRecord = {
+      messageId,
+      api,
+      from: message.from,
+      to: message.to,
+      cc: message.cc,
+      bcc: message.bcc,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      tags: message.tags,
+      configurationSetName: message.configurationSetName,
+      template: message.template,
+      templateData: message.templateData,
+      listManagement: message.listManagement,
+      replyThreading: replyThreadingOf(message.replyTo),
+      writtenAt: now.toISOString(),
+    };
+    // Timestamp first, so a directory listing reads in send order.
+    const base = join(this.directory, `${now.toISOString().replace(/[:.]/g, '-')}-${messageId}`);
+    await this.ensureDirectory();
+    await writeFile(`${base}.eml`, eml);
+    await writeFile(`${base}.json`, `${JSON.stringify(sidecar, null, 2)}\n`);
+    return messageId;
+  }
+
+  private ensureDirectory(): Promise<void> {
+    this.ready ??= mkdir(this.directory, { recursive: true }).then(() => undefined);
+    return this.ready;
+  }
+
+  private templatePath(name: string | undefined): string {
+    if (!name || !TEMPLATE_NAME_PATTERN.test(name)) {
+      throw new ValidationError(
+        'Template name may only contain letters, numbers, underscores and hyphens',
+        'name'
+      );
+    }
+    return join(this.directory, 'templates', `${name}.json`);
+  }
+
+  private async readTemplate(name: string | undefined): Promise<TemplateParts> {
+    let stored: { SubjectPart?: string; HtmlPart?: string; TextPart?: string };
+    try {
+      stored = JSON.parse(await readFile(this.templatePath(name), 'utf-8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        throw new ValidationError(
+          `Template ${name} does not exist in ${join(this.directory, 'templates')}`,
+          'template'
+        );
+      }
+      throw error;
+    }
+    return { subject: stored.SubjectPart ?? '', html: stored.HtmlPart, text: stored.TextPart };
+  }
+}
+
+function respond<T extends object>(output: T): T & { $metadata: object } {
+  return { ...output, $metadata: { httpStatusCode: 200, requestId: `local-${randomUUID()}` } };
+}
+
+function unsupported(command: unknown): Error {
+  const name = (command as { constructor?: { name?: string } })?.constructor?.name ?? 'command';
+  return new Error(`fileSink does not support ${name}; it only stands in for sending`);
+}
@@ -0,0 +1,251 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DynamoDBError, IdempotencyConflictError, ValidationError } from './errors';
+import { DynamoDBIdempotencyStore, IdempotencyGuard, MemoryIdempotencyStore } from './idempotency';
+
+vi.mock('@aws-sdk/lib-dynamodb', () => ({
+  DeleteCommand: vi.fn(function (this: any, input: any) {
+    Object.assign(this, input);
+  }),
+  GetCommand: vi.fn(function (this: any, input: any) {
+    Object.assign(this, input);
+  }),
+  PutCommand: vi.fn(function (this: any, input: any) {
+    Object.assign(this, input);
+  }),
+}));
+
+const sent = { messageId: 'msg-1', requestId: 'req-1' };
+
+describe('MemoryIdempotencyStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns a record until its TTL lapses', async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.set('k', sent, 60);
+
+    vi.advanceTimersByTime(59_999);
+    expect(await store.get('k')).toEqual(sent);
+
+    vi.advanceTimersByTime(1);
+    expect(await store.get('k')).toBeUndefined();
+  });
+
+  it('claims a key once until it is released or its TTL lapses', async () => {
+    const store = new MemoryIdempotencyStore();
+
+    expect(await store.claim('k', 60)).toBe(true);
+    expect(await store.claim('k', 60)).toBe(false);
+    expect(await store.get('k')).toBeUndefined();
+
+    await store.release('k');
+    expect(await store.claim('k', 60)).toBe(true);
+
+    vi.advanceTimersByTime(60_000);
+    expect(await store.claim('k', 60)).toBe(true);
+  });
+
+  it('keeps a record on release and refuses to claim over it', async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.claim('k', 60);
+    await store.set('k', sent, 60);
+
+    await store.release('k');
+
+    expect(await store.get('k')).toEqual(sent);
+    expect(await store.claim('k', 60)).toBe(false);
+  });
+});
+
+describe('DynamoDBIdempotencyStore', () => {
+  let mockSend: ReturnType<typeof vi.fn>;
+  let store: DynamoDBIdempotencyStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    store = new DynamoDBIdempotencyStore({ send: mockSend } as any, 'wraps-idempotency');
+  });
+
+  it('writes the result with an epoch-seconds expiry', async () => {
+    mockSend.mockResolvedValue({});
+    const now = Math.floor(Date.now() / 1000);
+
+    await store.set('k', sent, 3600);
+
+    const command = mockSend.mock.calls[0][0];
+    expect(command.TableName).toBe('wraps-idempotency');
+    expect(command.Item).toMatchObject({ idempotencyKey: 'k', result: sent });
+    expect(command.Item.expiresAt).toBeGreaterThanOrEqual(now + 3600);
+  });
+
+  it('reads with strong consistency and ignores items TTL has not deleted yet', async () => {
+    const future = Math.floor(Date.now() / 1000) + 60;
+    mockSend
+      .mockResolvedValueOnce({ Item: { idempotencyKey: 'k', result: sent, expiresAt: future } })
+      .mockResolvedValueOnce({ Item: { idempotencyKey: 'k', result: sent, expiresAt: 1 } });
+
+    expect(await store.get('k')).toEqual(sent);
+    expect(await store.get('k')).toBeUndefined();
+    expect(mockSend.mock.calls[0][0]).toMatchObject({
+      Key: { idempotencyKey: 'k' },
+      ConsistentRead: true,
+    });
+  });
+
+  it('claims with a conditional put that only an absent or expired item passes', async () => {
+    mockSend.mockResolvedValueOnce({}).mockRejectedValueOnce(
+      Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+        $metadata: { requestId: 'req-ddb' },
+      })
+    );
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(await store.claim('k', 3600)).toBe(true);
+    expect(await store.claim('k', 3600)).toBe(false);
+
+    const command = mockSend.mock.calls[0][0];
+    expect(command.Item).toEqual({ idempotencyKey: 'k', expiresAt: expect.any(Number) });
+    expect(command.Item.expiresAt).toBeGreaterThanOrEqual(now + 3600);
+    expect(command.ConditionExpression).toBe(
+      'attribute_not_exists(idempotencyKey) OR expiresAt <= :now'
+    );
+    expect(command.ExpressionAttributeValues[':now']).toBeGreaterThanOrEqual(now);
+  });
+
+  it('treats a claim without a result as no record, and releases only claims', async () => {
+    const future = Math.floor(Date.now() / 1000) + 60;
+    mockSend.mockResolvedValueOnce({ Item: { idempotencyKey: 'k', expiresAt: future } });
+    mockSend.mockRejectedValueOnce(
+      Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+        $metadata: { requestId: 'req-ddb' },
+      })
+    );
+
+    expect(await store.get('k')).toBeUndefined();
+    await expect(store.release('k')).resolves.toBeUndefined();
+    expect(mockSend.mock.calls[1][0]).toMatchObject({
+      Key: { idempotencyKey: 'k' },
+      ConditionExpression: 'attribute_not_exists(#result)',
+    });
+  });
+
+  it('maps AWS failures to DynamoDBError', async () => {
+    mockSend.mockRejectedValue(
+      Object.assign(new Error('Requested resource not found'), {
+        name: 'ResourceNotFoundException',
+        $metadata: { requestId: 'req-ddb' },
+      })
+    );
+
+    await expect(store.get('k')).rejects.toBeInstanceOf(DynamoDBError);
+  });
+});
+
+describe('IdempotencyGuard', () => {
+  it('sends once per key and returns the original result after', async () => {
+    const guard = new IdempotencyGuard(new MemoryIdempotencyStore());
+    const send = vi.fn().mockResolvedValue(sent);
+
+    expect(await guard.run('k', send)).toEqual(sent);
+    expect(await guard.run('k', send)).toEqual(sent);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one send between concurrent calls with the same key', async () => {
+    const guard = new IdempotencyGuard(new MemoryIdempotencyStore());
+    const send = vi.fn().mockResolvedValue(sent);
+
+    await Promise.all([guard.run('k', send), guard.run('k', send)]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets only one of two processes sharing a store send a key', async () => {
+    const store = new MemoryIdempotencyStore();
+    const [first, second] = [new IdempotencyGuard(store), new IdempotencyGuard(store)];
+    let finish: (result: typeof sent) => void = () => undefined;
+    const send = vi.fn(() => new Promise<typeof sent>((resolve) => (finish = resolve)));
+
+    const winner = first.run('k', send);
+    await vi.waitFor(() => expect(send).toHaveBeenCalled());
+    const error = await second.run('k', send).catch((e) => e);
+
+    expect(error).toBeInstanceOf(IdempotencyConflictError);
+    expect(error.key).toBe('k');
+
+    finish(sent);
+    await winner;
+    expect(await second.run('k', send)).toEqual(sent);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets another process take over a claim whose lease ran out', async () => {
+    vi.useFakeTimers();
+    try {
+      const store = new MemoryIdempotencyStore();
+      const claimSpy = vi.spyOn(store, 'claim');
+      const [crashed, survivor] = [
+        new IdempotencyGuard(store, 86_400, 60),
+        new IdempotencyGuard(store, 86_400, 60),
+      ];
+      const send = vi.fn().mockResolvedValue(sent);
+
+      // Claimed, then never recorded or released
+      await crashed.acquire('k');
+      expect(claimSpy).toHaveBeenCalledWith('k', 60);
+      await expect(survivor.run('k', send)).rejects.toBeInstanceOf(IdempotencyConflictError);
+
+      vi.advanceTimersByTime(60_000);
+      expect(await survivor.run('k', send)).toEqual(sent);
+      expect(send).toHaveBeenCalledTimes(1);
+
+      // The recorded result keeps the full TTL, not the lease
+      vi.advanceTimersByTime(3_600_000);
+      expect(await survivor.lookup('k')).toEqual(sent);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not record a failed send', async () => {
+    const guard = new IdempotencyGuard(new MemoryIdempotencyStore());
+    const send = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValueOnce(sent);
+
+    await expect(guard.run('k', send)).rejects.toThrow('boom');
+    expect(await guard.run('k', send)).toEqual(sent);
+  });
+
+  it('does not record a send that went to no one', async () => {
+    const guard = new IdempotencyGuard(new MemoryIdempotencyStore());
+    const send = vi.fn().mockResolvedValueOnce({ messageId: '', requestId: '' });
+    send.mockResolvedValueOnce(sent);
+
+    await guard.run('k', send);
+    expect(await guard.run('k', send)).toEqual(sent);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('still returns the result when recording it fails', async () => {
+    const store = new MemoryIdempotencyStore();
+    vi.spyOn(store, 'set').mockRejectedValue(new Error('store down'));
+    const guard = new IdempotencyGuard(store);
+
+    await expect(guard.run('k', async () => sent)).resolves.toEqual(sent);
+  });
+
+  it('rejects an empty key and a non-positive TTL', async () => {
+    const store = new MemoryIdempotencyStore();
+
+    expect(() => new IdempotencyGuard(store, 0)).toThrow(ValidationError);
+    expect(() => new IdempotencyGuard(store, 60, 0)).toThrow(ValidationError);
+    expect(() => new IdempotencyGuard(store).run('', async () => sent)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  DeleteCommand,
+  type DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { IdempotencyConflictError, mapDynamoDBError, ValidationError } from './errors';
+import type { IdempotencyStore, SendEmailResult } from './types';
+
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+export const DEFAULT_IDEMPOTENCY_CLAIM_TTL_SECONDS = 5 * 60;
+
+/**
+ * Process-local {@link IdempotencyStore}, and the default: keys only dedupe
+ * retries that land on the same `WrapsEmail` instance.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  /** A record without `result` is a pending claim. */
+  private records = new Map<string, { result?: SendEmailResult; expiresAt: number }>();
+
+  async get(key: string): Promise<SendEmailResult | undefined> {
+    const record = this.live(key);
+    return record?.result && { ...record.result };
+  }
+
+  async set(key: string, result: SendEmailResult, ttlSeconds: number): Promise<void> {
+    this.write(key, { ...result }, ttlSeconds);
+  }
+
+  async claim(key: string, ttlSeconds: number): Promise<boolean> {
+    if (this.live(key)) {
+      return false;
+    }
+    this.write(key, undefined, ttlSeconds);
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    if (!this.records.get(key)?.result) {
+      this.records.delete(key);
+    }
+  }
+
+  private live(key: string) {
+    const record = this.records.get(key);
+    if (record && record.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  private write(key: string, result: SendEmailResult | undefined, ttlSeconds: number): void {
+    const now = Date.now();
+    // Insertion order tracks expiry order when the TTL is constant, so sweeping
+    // from the front keeps the map bounded without a timer.
+    for (const [storedKey, record] of this.records) {
+      if (record.expiresAt > now) {
+        break;
+      }
+      this.records.delete(storedKey);
+    }
+    this.records.delete(key);
+    this.records.set(key, { result, expiresAt: now + ttlSeconds * 1000 });
+  }
+}
+
+/**
+ * {@link IdempotencyStore} over a DynamoDB table keyed on `idempotencyKey`.
+ * `expiresAt` is written in epoch seconds for DynamoDB TTL; because TTL
+ * deletion can lag, reads also ignore expired items. A claim is an item
+ * without `result`, put on the condition that no live item exists.
+ */
+export class DynamoDBIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private client: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  async get(key: string): Promise<SendEmailResult | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { idempotencyKey: key },
+          ConsistentRead: true,
+        })
+      );
+      const item = response.Item;
+      if (!item?.result || (item.expiresAt as number) * 1000 <= Date.now()) {
+        return undefined;
+      }
+      return item.result as SendEmailResult;
+    } catch (error) {
+      throw mapDynamoDBError(error);
+    }
+  }
+
+  async set(key: string, result: SendEmailResult, ttlSeconds: number): Promise<void> {
+    try {
+      await this.client.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: {
+            idempotencyKey: key,
+            result,
+            expiresAt: Math.floor(Date.now() / 1000) + ttlSeconds,
+          },
+        })
+      );
+    } catch (error) {
+      throw mapDynamoDBError(error);
+    }
+  }
+
+  async claim(key: string, ttlSeconds: number): Promise<boolean> {
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      await this.client.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: { idempotencyKey: key, expiresAt: now + ttlSeconds },
+          // An expired item is fair game: TTL deletion can lag by days
+          ConditionExpression: 'attribute_not_exists(idempotencyKey) OR expiresAt <= :now',
+          ExpressionAttributeValues: { ':now': now },
+        })
+      );
+      return true;
+    } catch (error) {
+      if ((error as { name?: string }).name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw mapDynamoDBError(error);
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    try {
+      await this.client.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { idempotencyKey: key },
+          ConditionExpression: 'attribute_not_exists(#result)',
+          ExpressionAttributeNames: { '#result': 'result' },
+        })
+      );
+    } catch (error) {
+      if ((error as { name?: string }).name !== 'ConditionalCheckFailedException') {
+        throw mapDynamoDBError(error);
+      }
+    }
+  }
+}
+
+/**
+ * Runs each send at most once per idempotency key: a key with a live record
+ * returns that record, and concurrent calls with one key share a single send.
+ * When the store can {@link IdempotencyStore.claim | claim} keys, the key is
+ * claimed before sending, so processes racing on it cannot both send; the
+ * loser gets the winner's record, or an {@link IdempotencyConflictError}
+ * while the winner is still sending. Without `claim`, that race is only
+ * closed within this process.
+ *
+ * A claim is a lease of `claimTtlSeconds`, not the record TTL: if its holder
+ * dies mid-send, the key can be claimed again once the lease runs out.
+ */
+export class IdempotencyGuard {
+  private inFlight = new Map<string, Promise<SendEmailResult>>();
+
+  constructor(
+    private readonly store: IdempotencyStore,
+    private readonly ttlSeconds: number = DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+    private readonly claimTtlSeconds: number = DEFAULT_IDEMPOTENCY_CLAIM_TTL_SECONDS
+  ) {
+    if (!(ttlSeconds > 0)) {
+      throw new ValidationError('idempotency.ttlSeconds must be a positive number', 'ttlSeconds');
+    }
+    if (!(claimTtlSeconds > 0)) {
+      throw new ValidationError(
+        'idempotency.claimTtlSeconds must be a positive number',
+        'claimTtlSeconds'
+      );
+    }
+  }
+
+  run(key: string | undefined, send: () => Promise<SendEmailResult>): Promise<SendEmailResult> {
+    if (key === undefined) {
+      return send();
+    }
+    assertIdempotencyKey(key, 'idempotencyKey');
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+    const run = (async () => {
+      const prior = await this.acquire(key);
+      if (prior) {
+        return prior;
+      }
+      let result: SendEmailResult;
+      try {
+        result = await send();
+      } catch (error) {
+        await this.release(key);
+        throw error;
+      }
+      // A send that went to no one (every recipient suppressed) may go later
+      await (result.messageId ? this.record(key, result) : this.release(key));
+      return result;
+    })().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, run);
+    return run;
+  }
+
+  /** The live record for `key`, if any. Store failures throw. */
+  lookup(key: string): Promise<SendEmailResult | undefined> {
+    return this.store.get(key);
+  }
+
+  /**
+   * Take `key` for a send: resolve its live record when it has one, so the
+   * send is skipped, or `undefined` once it is claimed for this caller. A
+   * claimant must later `record` the result or `release` the key.
+   *
+   * @throws {IdempotencyConflictError} When another process holds the claim.
+   */
+  async acquire(key: string): Promise<SendEmailResult | undefined> {
+    const prior = await this.store.get(key);
+    if (prior || !this.store.claim || (await this.store.claim(key, this.claimTtlSeconds))) {
+      return prior;
+    }
+    // Lost the race: the winner may have recorded its result since
+    const settled = await this.store.get(key);
+    if (settled) {
+      return settled;
+    }
+    throw new IdempotencyConflictError(
+      `idempotencyKey "${key}" is being sent by another process`,
+      key
+    );
+  }
+
+  /**
+   * Give up the claim on `key` after its send failed, so a retry can send.
+   * A store failure is swallowed; the claim then lapses with its lease.
+   */
+  async release(key: string): Promise<void> {
+    try {
+      await this.store.release?.(key);
+    } catch {
+      // See above.
+    }
+  }
+
+  /**
+   * Remember a completed send. A store failure here is swallowed: the email
+   * already went out, and surfacing the error would invite exactly the retry
+   * the key exists to absorb. A broken store still fails loudly on `lookup`.
+   */
+  async record(key: string, result: SendEmailResult): Promise<void> {
+    try {
+      await this.store.set(key, result, this.ttlSeconds);
+    } catch {
+      // See above.
+    }
+  }
+}
+
+export function assertIdempotencyKey(key: string, field: string): void {
+  if (typeof key !== 'string' || key.length === 0) {
+    throw new ValidationError(`${field} must be a non-empty string`, field);
+  }
+}
@@ -0,0 +1,312 @@
+import { createPublicKey, generateKeyPairSync } from 'node:crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IdentityVerificationError, SESError, ValidationError } from './errors';
+import { WrapsIdentities } from './identities';
+
+// Mock the command constructors to just pass through input
+vi.mock('@aws-sdk/client-sesv2', () => {
+  const passThrough = () =>
+    vi.fn(function (this: any, input: any) {
+      Object.assign(this, input);
+    });
+  return {
+    CreateEmailIdentityCommand: passThrough(),
+    DeleteEmailIdentityCommand: passThrough(),
+    GetEmailIdentityCommand: passThrough(),
+    ListEmailIdentitiesCommand: passThrough(),
+    PutEmailIdentityMailFromAttributesCommand: passThrough(),
+  };
+});
+
+const notFound = { name: 'NotFoundException', message: 'Identity not found', $metadata: {} };
+
+const pendingDomain = {
+  IdentityType: 'DOMAIN',
+  VerifiedForSendingStatus: false,
+  VerificationStatus: 'PENDING',
+  DkimAttributes: { SigningAttributesOrigin: 'AWS_SES', Status: 'PENDING', Tokens: ['tok1'] },
+  MailFromAttributes: {
+    MailFromDomain: 'mail.acme.test',
+    MailFromDomainStatus: 'PENDING',
+    BehaviorOnMxFailure: 'USE_DEFAULT_VALUE',
+  },
+};
+
+const verifiedDomain = {
+  ...pendingDomain,
+  VerifiedForSendingStatus: true,
+  VerificationStatus: 'SUCCESS',
+  DkimAttributes: { ...pendingDomain.DkimAttributes, Status: 'SUCCESS' },
+  MailFromAttributes: { ...pendingDomain.MailFromAttributes, MailFromDomainStatus: 'SUCCESS' },
+};
+
+describe('WrapsIdentities', () => {
+  let identities: WrapsIdentities;
+  let mockSend: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    const mockClient = {
+      send: mockSend,
+      config: { region: vi.fn().mockResolvedValue('eu-west-1') },
+      destroy: vi.fn(),
+    } as any;
+    identities = new WrapsIdentities(mockClient);
+  });
+
+  describe('createDomain', () => {
+    it('should create an Easy DKIM domain and return every record to publish', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          IdentityType: 'DOMAIN',
+          VerifiedForSendingStatus: false,
+          DkimAttributes: { Status: 'PENDING', Tokens: ['tok1', 'tok2', 'tok3'] },
+        })
+        .mockResolvedValueOnce({});
+
+      const identity = await identities.createDomain('acme.test', {
+        mailFromDomain: 'mail.acme.test',
+        dmarcReportEmail: 'dmarc@acme.test',
+        tags: { team: 'growth' },
+      });
+
+      expect(mockSend.mock.calls[0][0]).toMatchObject({
+        EmailIdentity: 'acme.test',
+        DkimSigningAttributes: { NextSigningKeyLength: 'RSA_2048_BIT' },
+        Tags: [{ Key: 'team', Value: 'growth' }],
+      });
+      expect(mockSend.mock.calls[1][0]).toEqual({
+        EmailIdentity: 'acme.test',
+        MailFromDomain: 'mail.acme.test',
+        BehaviorOnMxFailure: 'USE_DEFAULT_VALUE',
+      });
+      expect(identity).toMatchObject({
+        identity: 'acme.test',
+        type: 'DOMAIN',
+        verifiedForSending: false,
+        status: 'PENDING',
+        dkim: { mode: 'EASY_DKIM', status: 'PENDING' },
+        mailFrom: { domain: 'mail.acme.test', status: 'PENDING' },
+      });
+      expect(identity.dnsRecords).toEqual([
+        {
+          type: 'CNAME',
+          name: 'tok1._domainkey.acme.test',
+          value: 'tok1.dkim.amazonses.com',
+          purpose: 'dkim',
+        },
+        {
+          type: 'CNAME',
+          name: 'tok2._domainkey.acme.test',
+          value: 'tok2.dkim.amazonses.com',
+          purpose: 'dkim',
+        },
+        {
+          type: 'CNAME',
+          name: 'tok3._domainkey.acme.test',
+          value: 'tok3.dkim.amazonses.com',
+          purpose: 'dkim',
+        },
+        {
+          type: 'MX',
+          name: 'mail.acme.test',
+          value: 'feedback-smtp.eu-west-1.amazonses.com',
+          priority: 10,
+          purpose: 'mailFrom',
+        },
+        {
+          type: 'TXT',
+          name: 'mail.acme.test',
+          value: 'v=spf1 include:amazonses.com ~all',
+          purpose: 'spf',
+        },
+        {
+          type: 'TXT',
+          name: '_dmarc.acme.test',
+          value: 'v=DMARC1; p=none; rua=mailto:dmarc@acme.test',
+          purpose: 'dmarc',
+        },
+      ]);
+    });
+
+    it('should send a BYODKIM key as PKCS#1 DER and publish its public key', async () => {
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 1024 });
+      mockSend.mockResolvedValue({ IdentityType: 'DOMAIN', VerifiedForSendingStatus: false });
+
+      const identity = await identities.createDomain('acme.test', {
+        dkim: {
+          selector: 'wraps1',
+          privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        },
+      });
+
+      const { DkimSigningAttributes } = mockSend.mock.calls[0][0];
+      expect(DkimSigningAttributes.DomainSigningSelector).toBe('wraps1');
+      expect(DkimSigningAttributes.DomainSigningPrivateKey).toBe(
+        privateKey.export({ type: 'pkcs1', format: 'der' }).toString('base64')
+      );
+      const publicKey = createPublicKey(privateKey)
+        .export({ type: 'spki', format: 'der' })
+        .toString('base64');
+      expect(identity.dkim).toEqual({ mode: 'BYODKIM', status: 'PENDING', tokens: ['wraps1'] });
+      expect(identity.dnsRecords[0]).toEqual({
+        type: 'TXT',
+        name: 'wraps1._domainkey.acme.test',
+        value: `v=DKIM1; k=rsa; p=${publicKey}`,
+        purpose: 'dkim',
+      });
+    });
+
+    it('should reject bad input before calling SES', async () => {
+      const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+      await expect(identities.createDomain('not a domain')).rejects.toThrow(ValidationError);
+      await expect(
+        identities.createDomain('acme.test', { mailFromDomain: 'mail.other.test' })
+      ).rejects.toThrow('mailFromDomain must be a subdomain of acme.test');
+      await expect(
+        identities.createDomain('acme.test', {
+          dkim: {
+            selector: 'wraps1',
+            privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+          },
+        })
+      ).rejects.toThrow('dkim.privateKey must be a 1024- or 2048-bit RSA key');
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should map SES errors', async () => {
+      mockSend.mockRejectedValue({
+        name: 'AlreadyExistsException',
+        message: 'Email identity acme.test already exist.',
+        $metadata: { requestId: 'req-1' },
+      });
+
+      const error = await identities.createDomain('acme.test').catch((e) => e);
+      expect(error).toBeInstanceOf(SESError);
+      expect(error.code).toBe('AlreadyExistsException');
+    });
+  });
+
+  describe('createEmail', () => {
+    it('should create an email identity with no DNS records', async () => {
+      mockSend.mockResolvedValue({
+        IdentityType: 'EMAIL_ADDRESS',
+        VerifiedForSendingStatus: false,
+      });
+
+      const identity = await identities.createEmail('ada@example.com');
+
+      expect(mockSend.mock.calls[0][0]).toMatchObject({ EmailIdentity: 'ada@example.com' });
+      expect(identity).toEqual({
+        identity: 'ada@example.com',
+        type: 'EMAIL_ADDRESS',
+        verifiedForSending: false,
+        status: 'PENDING',
+        dnsRecords: [],
+      });
+    });
+  });
+
+  describe('get / list / delete', () => {
+    it('should get an identity with its records, or null', async () => {
+      mockSend.mockResolvedValueOnce(verifiedDomain).mockRejectedValueOnce(notFound);
+
+      const identity = await identities.get('acme.test');
+
+      expect(identity).toMatchObject({ verifiedForSending: true, status: 'SUCCESS' });
+      expect(identity?.dnsRecords.map((record) => record.purpose)).toEqual([
+        'dkim',
+        'mailFrom',
+        'spf',
+        'dmarc',
+      ]);
+      expect(await identities.get('missing.test')).toBeNull();
+    });
+
+    it('should list identities with nextToken', async () => {
+      mockSend.mockResolvedValue({
+        EmailIdentities: [
+          {
+            IdentityName: 'acme.test',
+            IdentityType: 'DOMAIN',
+            SendingEnabled: true,
+            VerificationStatus: 'SUCCESS',
+          },
+        ],
+        NextToken: 'next',
+      });
+
+      expect(await identities.list({ maxResults: 5 })).toEqual({
+        identities: [
+          { identity: 'acme.test', type: 'DOMAIN', verifiedForSending: true, status: 'SUCCESS' },
+        ],
+        nextToken: 'next',
+      });
+      expect(mockSend.mock.calls[0][0]).toMatchObject({ PageSize: 5 });
+    });
+
+    it('should delete idempotently', async () => {
+      mockSend.mockRejectedValue(notFound);
+
+      await expect(identities.delete('acme.test')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('waitUntilVerified', () => {
+    it('should poll until DKIM and MAIL FROM have verified', async () => {
+      const onPending = vi.fn();
+      mockSend
+        .mockResolvedValueOnce(pendingDomain)
+        .mockResolvedValueOnce({
+          ...verifiedDomain,
+          MailFromAttributes: pendingDomain.MailFromAttributes,
+        })
+        .mockResolvedValueOnce(verifiedDomain);
+
+      const identity = await identities.waitUntilVerified('acme.test', {
+        intervalMs: 1,
+        onPending,
+      });
+
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect(onPending).toHaveBeenCalledTimes(2);
+      expect(identity.mailFrom?.status).toBe('SUCCESS');
+    });
+
+    it('should stop on a failed check', async () => {
+      mockSend.mockResolvedValue({
+        ...pendingDomain,
+        DkimAttributes: { ...pendingDomain.DkimAttributes, Status: 'FAILED' },
+      });
+
+      const error = await identities
+        .waitUntilVerified('acme.test', { intervalMs: 1 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(IdentityVerificationError);
+      expect(error).toMatchObject({ reason: 'failed', dkimStatus: 'FAILED' });
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out while still pending', async () => {
+      mockSend.mockResolvedValue(pendingDomain);
+
+      const error = await identities
+        .waitUntilVerified('acme.test', { intervalMs: 1, timeoutMs: 0 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(IdentityVerificationError);
+      expect(error).toMatchObject({ identity: 'acme.test', reason: 'timeout' });
+    });
+
+    it('should name the region when the identity does not exist', async () => {
+      mockSend.mockRejectedValue(notFound);
+
+      await expect(identities.waitUntilVerified('acme.test')).rejects.toThrow(
+        'Identity acme.test does not exist in eu-west-1'
+      );
+    });
+  });
+});
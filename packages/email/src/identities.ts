@@ -0,0 +1,504 @@
+import { createPrivateKey, createPublicKey, type KeyObject } from 'node:crypto';
+import type {
+  DkimSigningAttributes,
+  GetEmailIdentityCommandOutput,
+  SESv2Client,
+} from '@aws-sdk/client-sesv2';
+import {
+  CreateEmailIdentityCommand,
+  DeleteEmailIdentityCommand,
+  GetEmailIdentityCommand,
+  ListEmailIdentitiesCommand,
+  PutEmailIdentityMailFromAttributesCommand,
+} from '@aws-sdk/client-sesv2';
+import {
+  IdentityVerificationError,
+  isUnverifiedIdentityError,
+  mapAwsSdkError,
+  ValidationError,
+} from './errors';
+import { sleep } from './retry';
+import type {
+  CreateDomainIdentityParams,
+  CreateEmailIdentityParams,
+  DkimSigningOptions,
+  Identity,
+  IdentityDnsRecord,
+  IdentityListOptions,
+  IdentityListResult,
+  IdentityType,
+  IdentityVerificationStatus,
+  WaitUntilVerifiedOptions,
+} from './types';
+import { validateEmailAddress } from './utils/validation';
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+const SELECTOR_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+const DEFAULT_WAIT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_WAIT_INTERVAL_MS = 15 * 1000;
+
+function isNotFound(error: unknown): boolean {
+  return (error as { name?: string }).name === 'NotFoundException';
+}
+
+function assertDomain(domain: string, field: string): void {
+  if (!DOMAIN_PATTERN.test(domain ?? '')) {
+    throw new ValidationError(`${field} must be a domain name, got: ${domain}`, field);
+  }
+}
+
+function requireIdentity(identity: string): void {
+  if (!identity) {
+    throw new ValidationError('Identity is required', 'identity');
+  }
+}
+
+function toTags(tags: Record<string, string> | undefined) {
+  return tags ? Object.entries(tags).map(([Key, Value]) => ({ Key, Value })) : undefined;
+}
+
+/**
+ * SES signing attributes for `options`, and for BYODKIM the public key to
+ * publish, base64 SubjectPublicKeyInfo.
+ */
+function signingAttributes(options: DkimSigningOptions | undefined): {
+  attributes: DkimSigningAttributes;
+  publicKey?: string;
+} {
+  if (!options || !('privateKey' in options)) {
+    return { attributes: { NextSigningKeyLength: options?.signingKeyLength ?? 'RSA_2048_BIT' } };
+  }
+
+  if (!SELECTOR_PATTERN.test(options.selector ?? '')) {
+    throw new ValidationError(
+      `dkim.selector must be a single DNS label, got: ${options.selector}`,
+      'dkim.selector'
+    );
+  }
+  let key: KeyObject;
+  try {
+    key = createPrivateKey(options.privateKey);
+  } catch (error) {
+    throw new ValidationError(
+      `dkim.privateKey could not be read: ${(error as Error).message}`,
+      'dkim.privateKey'
+    );
+  }
+  const bits = key.asymmetricKeyDetails?.modulusLength;
+  if (key.asymmetricKeyType !== 'rsa' || (bits !== 1024 && bits !== 2048)) {
+    throw new ValidationError(
+      `dkim.privateKey must be a 1024- or 2048-bit RSA key (got ${key.asymmetricKeyType}${bits ? ` ${bits}-bit` : ''})`,
+      'dkim.privateKey'
+    );
+  }
+  return {
+    attributes: {
+      DomainSigningSelector: options.selector,
+      // SES takes the key as base64 PKCS#1 DER, without PEM armour
+      DomainSigningPrivateKey: key.export({ type: 'pkcs1', format: 'der' }).toString('base64'),
+    },
+    publicKey: createPublicKey(key).export({ type: 'spki', format: 'der' }).toString('base64'),
+  };
+}
+
+/**
+ * The records a domain identity needs: DKIM, the MAIL FROM MX and SPF
+ * records, and a DMARC record starting at `p=none`.
+ */
+function domainRecords(
+  domain: string,
+  identity: Pick<Identity, 'dkim' | 'mailFrom'>,
+  region: string,
+  extra: { publicKey?: string; dmarcReportEmail?: string } = {}
+): IdentityDnsRecord[] {
+  const records: IdentityDnsRecord[] = [];
+  const dkim = identity.dkim;
+  if (dkim?.mode === 'EASY_DKIM') {
+    for (const token of dkim.tokens) {
+      records.push({
+        type: 'CNAME',
+        name: `${token}._domainkey.${domain}`,
+        value: `${token}.dkim.amazonses.com`,
+        purpose: 'dkim',
+      });
+    }
+  } else if (dkim && extra.publicKey) {
+    records.push({
+      type: 'TXT',
+      name: `${dkim.tokens[0]}._domainkey.${domain}`,
+      value: `v=DKIM1; k=rsa; p=${extra.publicKey}`,
+      purpose: 'dkim',
+    });
+  }
+
+  if (identity.mailFrom) {
+    records.push(
+      {
+        type: 'MX',
+        name: identity.mailFrom.domain,
+        value: `feedback-smtp.${region}.amazonses.com`,
+        priority: 10,
+        purpose: 'mailFrom',
+      },
+      {
+        type: 'TXT',
+        name: identity.mailFrom.domain,
+        value: 'v=spf1 include:amazonses.com ~all',
+        purpose: 'spf',
+      }
+    );
+  }
+
+  records.push({
+    type: 'TXT',
+    name: `_dmarc.${domain}`,
+    value: extra.dmarcReportEmail
+      ? `v=DMARC1; p=none; rua=mailto:${extra.dmarcReportEmail}`
+      : 'v=DMARC1; p=none;',
+    purpose: 'dmarc',
+  });
+  return records;
+}
+
+function fromResponse(
+  identity: string,
+  response: Omit<GetEmailIdentityCommandOutput, '$metadata'>
+): Omit<Identity, 'dnsRecords'> {
+  const type = (response.IdentityType ?? 'DOMAIN') as IdentityType;
+  const verifiedForSending = response.VerifiedForSendingStatus ?? false;
+  const result: Omit<Identity, 'dnsRecords'> = {
+    identity,
+    type,
+    verifiedForSending,
+    status: (response.VerificationStatus ??
+      (verifiedForSending ? 'SUCCESS' : 'PENDING')) as IdentityVerificationStatus,
+    configurationSetName: response.ConfigurationSetName,
+  };
+  if (type === 'DOMAIN' && response.DkimAttributes) {
+    result.dkim = {
+      mode:
+        response.DkimAttributes.SigningAttributesOrigin === 'EXTERNAL' ? 'BYODKIM' : 'EASY_DKIM',
+      status: (response.DkimAttributes.Status ?? 'PENDING') as IdentityVerificationStatus,
+      tokens: response.DkimAttributes.Tokens ?? [],
+    };
+  }
+  const mailFrom = response.MailFromAttributes;
+  if (mailFrom?.MailFromDomain) {
+    result.mailFrom = {
+      domain: mailFrom.MailFromDomain,
+      status: (mailFrom.MailFromDomainStatus ?? 'PENDING') as IdentityVerificationStatus,
+      behaviorOnMxFailure: mailFrom.BehaviorOnMxFailure ?? 'USE_DEFAULT_VALUE',
+    };
+  }
+  return result;
+}
+
+/**
+ * SES v2 sending identities: verify domains (with DKIM and a custom MAIL FROM
+ * domain) and email addresses, get the DNS records to publish, and wait for
+ * verification.
+ */
+export class WrapsIdentities {
+  constructor(private client: SESv2Client) {}
+
+  /**
+   * Create a domain identity and return the DNS records to publish
+   *
+   * Uses Easy DKIM unless `dkim` carries a selector and private key. If the
+   * MAIL FROM step fails, the domain identity has already been created;
+   * finish with `setMailFrom()`.
+   */
+  async createDomain(domain: string, params: CreateDomainIdentityParams = {}): Promise<Identity> {
+    assertDomain(domain, 'domain');
+    const mailFromDomain = params.mailFromDomain?.toLowerCase();
+    if (mailFromDomain !== undefined) {
+      this.assertMailFromDomain(domain, mailFromDomain);
+    }
+    if (params.dmarcReportEmail) {
+      validateEmailAddress(params.dmarcReportEmail, 'dmarcReportEmail');
+    }
+    const { attributes, publicKey } = signingAttributes(params.dkim);
+
+    let identity: Omit<Identity, 'dnsRecords'>;
+    try {
+      const response = await this.client.send(
+        new CreateEmailIdentityCommand({
+          EmailIdentity: domain,
+          DkimSigningAttributes: attributes,
+          ConfigurationSetName: params.configurationSetName,
+          Tags: toTags(params.tags),
+        })
+      );
+      identity = fromResponse(domain, { ...response, IdentityType: 'DOMAIN' });
+      if (publicKey) {
+        identity.dkim = {
+          mode: 'BYODKIM',
+          status: identity.dkim?.status ?? 'PENDING',
+          tokens: [attributes.DomainSigningSelector as string],
+        };
+      }
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+
+    if (mailFromDomain) {
+      const behaviorOnMxFailure = params.mailFromBehaviorOnMxFailure ?? 'USE_DEFAULT_VALUE';
+      await this.putMailFrom(domain, mailFromDomain, behaviorOnMxFailure);
+      identity.mailFrom = { domain: mailFromDomain, status: 'PENDING', behaviorOnMxFailure };
+    }
+
+    return {
+      ...identity,
+      dnsRecords: domainRecords(domain, identity, await this.region(), {
+        publicKey,
+        dmarcReportEmail: params.dmarcReportEmail,
+      }),
+    };
+  }
+
+  /**
+   * Create an email address identity
+   * SES emails the address a verification link; it is verified once clicked.
+   */
+  async createEmail(email: string, params: CreateEmailIdentityParams = {}): Promise<Identity> {
+    validateEmailAddress(email, 'email');
+
+    try {
+      const response = await this.client.send(
+        new CreateEmailIdentityCommand({
+          EmailIdentity: email,
+          ConfigurationSetName: params.configurationSetName,
+          Tags: toTags(params.tags),
+        })
+      );
+      return {
+        ...fromResponse(email, { ...response, IdentityType: 'EMAIL_ADDRESS' }),
+        dnsRecords: [],
+      };
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Set (or change) a domain's custom MAIL FROM domain
+   * Returns the domain's DNS records, including the new MX and SPF records.
+   */
+  async setMailFrom(
+    domain: string,
+    mailFromDomain: string,
+    behaviorOnMxFailure: 'USE_DEFAULT_VALUE' | 'REJECT_MESSAGE' = 'USE_DEFAULT_VALUE'
+  ): Promise<Identity> {
+    assertDomain(domain, 'domain');
+    this.assertMailFromDomain(domain, mailFromDomain.toLowerCase());
+    await this.putMailFrom(domain, mailFromDomain.toLowerCase(), behaviorOnMxFailure);
+    return (await this.get(domain)) as Identity;
+  }
+
+  /**
+   * Get an identity's verification state and, for domains, its DNS records
+   * Returns null if the identity does not exist in this region
+   */
+  async get(identity: string): Promise<Identity | null> {
+    requireIdentity(identity);
+
+    let details: Omit<Identity, 'dnsRecords'>;
+    try {
+      details = fromResponse(
+        identity,
+        await this.client.send(new GetEmailIdentityCommand({ EmailIdentity: identity }))
+      );
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw await this.handleError(error);
+    }
+    return {
+      ...details,
+      dnsRecords:
+        details.type === 'DOMAIN' ? domainRecords(identity, details, await this.region()) : [],
+    };
+  }
+
+  /**
+   * List the identities in this region
+   */
+  async list(options: IdentityListOptions = {}): Promise<IdentityListResult> {
+    try {
+      const response = await this.client.send(
+        new ListEmailIdentitiesCommand({
+          PageSize: options.maxResults || 100,
+          NextToken: options.continuationToken,
+        })
+      );
+
+      return {
+        identities: (response.EmailIdentities ?? []).flatMap((identity) =>
+          identity.IdentityName
+            ? [
+                {
+                  identity: identity.IdentityName,
+                  type: (identity.IdentityType ?? 'DOMAIN') as IdentityType,
+                  verifiedForSending: identity.SendingEnabled ?? false,
+                  status: (identity.VerificationStatus ?? 'PENDING') as IdentityVerificationStatus,
+                },
+              ]
+            : []
+        ),
+        nextToken: response.NextToken,
+      };
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Poll until SES will send from the identity (and, for a domain, DKIM and
+   * the MAIL FROM domain have verified)
+   *
+   * @throws {IdentityVerificationError} when SES reports a failed check, or
+   *   the identity is still pending at `timeoutMs`.
+   * @throws {ValidationError} when the identity does not exist in this region.
+   */
+  async waitUntilVerified(
+    identity: string,
+    options: WaitUntilVerifiedOptions = {}
+  ): Promise<Identity> {
+    const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS);
+    const intervalMs = options.intervalMs ?? DEFAULT_WAIT_INTERVAL_MS;
+    const includeMailFrom = options.includeMailFrom ?? true;
+
+    for (;;) {
+      const current = await this.get(identity);
+      if (!current) {
+        const region = await this.region();
+        throw new ValidationError(
+          `Identity ${identity} does not exist in ${region}. SES identities are per-region; create it with identities.createDomain() or createEmail() first`,
+          'identity'
+        );
+      }
+
+      const checks = [
+        current.status,
+        current.dkim?.status,
+        includeMailFrom ? current.mailFrom?.status : undefined,
+      ];
+      const statuses = {
+        verificationStatus: current.status,
+        dkimStatus: current.dkim?.status,
+        mailFromStatus: current.mailFrom?.status,
+      };
+      if (checks.includes('FAILED')) {
+        throw new IdentityVerificationError(
+          `SES could not verify ${identity} (${describeStatuses(statuses)}). Check that the records from identities.get() are published exactly, then try again`,
+          identity,
+          'failed',
+          statuses
+        );
+      }
+      if (
+        current.verifiedForSending &&
+        checks.every((status) => status === undefined || status === 'SUCCESS')
+      ) {
+        return current;
+      }
+
+      options.onPending?.(current);
+      if (Date.now() + intervalMs > deadline) {
+        throw new IdentityVerificationError(
+          `${identity} was still not verified after ${Math.round((options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS) / 1000)}s (${describeStatuses(statuses)}). DNS changes can take up to 72 hours to be seen`,
+          identity,
+          'timeout',
+          statuses
+        );
+      }
+      await sleep(intervalMs);
+    }
+  }
+
+  /**
+   * Delete an identity
+   * Idempotent — silently succeeds if the identity does not exist
+   */
+  async delete(identity: string): Promise<void> {
+    requireIdentity(identity);
+
+    try {
+      await this.client.send(new DeleteEmailIdentityCommand({ EmailIdentity: identity }));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  private assertMailFromDomain(domain: string, mailFromDomain: string): void {
+    assertDomain(mailFromDomain, 'mailFromDomain');
+    if (!mailFromDomain.endsWith(`.${domain.toLowerCase()}`)) {
+      throw new ValidationError(
+        `mailFromDomain must be a subdomain of ${domain}, got: ${mailFromDomain}`,
+        'mailFromDomain'
+      );
+    }
+  }
+
+  private async putMailFrom(
+    domain: string,
+    mailFromDomain: string,
+    behaviorOnMxFailure: 'USE_DEFAULT_VALUE' | 'REJECT_MESSAGE'
+  ): Promise<void> {
+    try {
+      await this.client.send(
+        new PutEmailIdentityMailFromAttributesCommand({
+          EmailIdentity: domain,
+          MailFromDomain: mailFromDomain,
+          BehaviorOnMxFailure: behaviorOnMxFailure,
+        })
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /** The client's region, for the MAIL FROM MX record. */
+  private async region(): Promise<string> {
+    return this.client.config.region();
+  }
+
+  /**
+   * Route through the shared mapper so a credential-chain failure here becomes
+   * a `CredentialsError`, as it does on the send path.
+   */
+  private async handleError(error: unknown): Promise<Error> {
+    return mapAwsSdkError(error, 'SES request failed', { region: await this.errorRegion(error) });
+  }
+
+  /** The region to name in an error, resolved only when the message will use it. */
+  private async errorRegion(error: unknown): Promise<string | undefined> {
+    if (!isUnverifiedIdentityError(error)) {
+      return undefined;
+    }
+    try {
+      return await this.client.config.region();
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function describeStatuses(statuses: {
+  verificationStatus: string;
+  dkimStatus?: string;
+  mailFromStatus?: string;
+}): string {
+  return [
+    `verification ${statuses.verificationStatus}`,
+    statuses.dkimStatus && `DKIM ${statuses.dkimStatus}`,
+    statuses.mailFromStatus && `MAIL FROM ${statuses.mailFromStatus}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
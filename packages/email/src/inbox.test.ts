@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { ValidationError } from './errors';
 import { WrapsInbox } from './inbox';
+import { MiddlewarePipeline } from './middleware';
 
 // Mock S3 client
 const mockS3Send = vi.fn();
@@ -409,4 +410,48 @@ describe('WrapsInbox', () => {
       expect(sentRaw).toContain('filename="report.pdf"');
     });
   });
+
+  describe('middleware', () => {
+    it('runs reply() through the pipeline with the emailId in params', async () => {
+      const pipeline = new MiddlewarePipeline();
+      const seen: unknown[] = [];
+      pipeline.use({
+        beforeSend: (ctx) => {
+          seen.push(ctx.params);
+        },
+        afterSend: (ctx) => {
+          seen.push(ctx.result);
+        },
+      });
+      const inbox = new WrapsInbox(mockS3Client, 'test-bucket', mockSesClient, pipeline);
+
+      mockS3Send.mockResolvedValueOnce(mockS3GetObject(makeParsedEmail()));
+      mockSesSend.mockResolvedValueOnce({
+        MessageId: 'reply-mw',
+        $metadata: { requestId: 'req-mw' },
+      });
+
+      await inbox.reply('email-123', { from: 'support@myapp.com', text: 'Hi' });
+
+      expect(seen).toEqual([
+        { emailId: 'email-123', from: 'support@myapp.com', text: 'Hi' },
+        { messageId: 'reply-mw', requestId: 'req-mw' },
+      ]);
+    });
+
+    it('lets beforeSend block forward() before anything is fetched', async () => {
+      const pipeline = new MiddlewarePipeline();
+      pipeline.use({
+        beforeSend: () => {
+          throw new ValidationError('blocked');
+        },
+      });
+      const inbox = new WrapsInbox(mockS3Client, 'test-bucket', mockSesClient, pipeline);
+
+      await expect(
+        inbox.forward('email-123', { to: 'x@blocked.test', from: 'sender@example.com' })
+      ).rejects.toThrow('blocked');
+      expect(mockS3Send).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -7,6 +7,7 @@ import {
 import { type SESClient, SendRawEmailCommand } from '@aws-sdk/client-ses';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { SESError, ValidationError } from './errors';
+import { MiddlewarePipeline } from './middleware';
 import type {
   InboxEmail,
   InboxEmailSummary,
@@ -34,11 +35,18 @@ export class WrapsInbox {
   private s3Client: S3Client;
   private bucketName: string;
   private sesClient: SESClient | null;
-
-  constructor(s3Client: S3Client, bucketName: string, sesClient?: SESClient) {
+  private middleware: MiddlewarePipeline;
+
+  constructor(
+    s3Client: S3Client,
+    bucketName: string,
+    sesClient?: SESClient,
+    middleware?: MiddlewarePipeline
+  ) {
     this.s3Client = s3Client;
     this.bucketName = bucketName;
     this.sesClient = sesClient ?? null;
+    this.middleware = middleware ?? new MiddlewarePipeline();
   }
 
   private requireSES(): SESClient {
@@ -224,8 +232,19 @@ export class WrapsInbox {
    * Two modes:
    * - passthrough (default): Re-sends raw MIME with rewritten From/To/Subject headers
    * - wrapped: Builds a new message wrapping the original content
+   *
+   * Runs through the owning client's `use()` middleware as `inbox.forward`.
    */
   async forward(emailId: string, options: InboxForwardOptions): Promise<SendEmailResult> {
+    return this.middleware.run('inbox.forward', { ...options, emailId }, ({ emailId, ...rest }) =>
+      this.forwardNow(emailId, rest)
+    );
+  }
+
+  private async forwardNow(
+    emailId: string,
+    options: InboxForwardOptions
+  ): Promise<SendEmailResult> {
     const ses = this.requireSES();
     const passthrough = options.passthrough !== false;
 
@@ -343,8 +362,16 @@ export class WrapsInbox {
 
   /**
    * Reply to an inbound email with proper threading headers (In-Reply-To, References)
+   *
+   * Runs through the owning client's `use()` middleware as `inbox.reply`.
    */
   async reply(emailId: string, options: InboxReplyOptions): Promise<SendEmailResult> {
+    return this.middleware.run('inbox.reply', { ...options, emailId }, ({ emailId, ...rest }) =>
+      this.replyNow(emailId, rest)
+    );
+  }
+
+  private async replyNow(emailId: string, options: InboxReplyOptions): Promise<SendEmailResult> {
     const ses = this.requireSES();
     const email = await this.get(emailId);
 
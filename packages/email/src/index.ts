@@ -1,15 +1,31 @@
+export { WrapsAccount } from './account';
+export { MemoryStreamCheckpointStore } from './bulk-stream';
+export { cancelCalendarEvent, updateCalendarEvent } from './calendar';
 export { WrapsEmail } from './client';
+export { HISTORY_EVENT_TYPES, WrapsConfigurationSets } from './configuration-sets';
+export { WrapsContactLists } from './contact-lists';
 export {
   CredentialsError,
   DynamoDBError,
+  IdempotencyConflictError,
+  IdentityVerificationError,
+  QuotaExceededError,
+  ReputationCircuitOpenError,
   SandboxError,
   SES_SIMULATOR_SUCCESS,
   SESError,
+  SuppressedRecipientError,
   ValidationError,
   WrapsEmailError,
 } from './errors';
 export { WrapsEmailEvents } from './events';
+export type { FileSinkRecord } from './file-sink';
+export { DynamoDBIdempotencyStore, MemoryIdempotencyStore } from './idempotency';
+export { WrapsIdentities } from './identities';
 export { WrapsInbox } from './inbox';
+export { WrapsIpPools } from './ip-pools';
+export { WrapsListUnsubscribe } from './list-unsubscribe';
+export { MemoryRateLimitStore } from './rate-limit';
 export type {
   GenerateReplyToParams,
   GenerateReplyToResult,
@@ -17,19 +33,64 @@ export type {
 } from './reply-threading';
 export { WrapsReplyThreading } from './reply-threading';
 export { encodeReplyToken, generateConversationId, generateSendId } from './reply-token-codec';
+export { ReputationGuard } from './reputation';
+export { isRetryableError } from './retry';
 export { WrapsEmailSuppression } from './suppression';
+export { generateTemplateTypes } from './template-types';
 export type {
+  AccountSummary,
+  AssertCanSendOptions,
   Attachment,
   BatchEmailEntry,
   BatchEntryResult,
   BulkTemplateDestination,
+  BulkTemplateDestinationResult,
+  BulkTemplateProgress,
+  CalendarEvent,
+  ConfigurationSet,
+  ConfigurationSetEventType,
+  ConfigurationSetListOptions,
+  ConfigurationSetListResult,
+  ConfigurationSetOptions,
+  Contact,
+  ContactList,
+  ContactListListOptions,
+  ContactListListResult,
+  ContactListSummary,
+  ContactListTopic,
+  ContactParams,
+  ContactSubscriptionStatus,
+  ContactsListOptions,
+  ContactsListResult,
+  CreateConfigurationSetParams,
+  CreateContactListParams,
+  CreateDomainIdentityParams,
+  CreateEmailIdentityParams,
+  CreateIpPoolParams,
   CreateTemplateFromReactParams,
   CreateTemplateParams,
+  DedicatedIp,
+  DedicatedIpListOptions,
+  DedicatedIpListResult,
+  DkimSigningOptions,
   EmailAddress,
   EmailEvent,
   EmailListOptions,
   EmailListResult,
   EmailStatus,
+  EventDestination,
+  EventDestinationTarget,
+  FileSinkConfig,
+  GenerateTemplateTypesOptions,
+  IdempotencyConfig,
+  IdempotencyStore,
+  Identity,
+  IdentityDnsRecord,
+  IdentityListOptions,
+  IdentityListResult,
+  IdentitySummary,
+  IdentityType,
+  IdentityVerificationStatus,
   InboxAttachment,
   InboxEmail,
   InboxEmailAddress,
@@ -39,23 +100,69 @@ export type {
   InboxListOptions,
   InboxListResult,
   InboxReplyOptions,
+  IpPool,
+  IpPoolListOptions,
+  IpPoolListResult,
+  IpPoolScalingMode,
+  ListManagementOptions,
+  ListUnsubscribeConfig,
+  ListUnsubscribeOptions,
+  ListUnsubscribeToken,
+  MiddlewareContext,
+  MiddlewareOperation,
+  MiddlewareOperationParams,
+  MiddlewareOperationResults,
+  MiddlewareResultContext,
+  RateLimitConfig,
+  RateLimitState,
+  RateLimitStore,
+  RenderedTemplate,
+  RenderTemplateOptions,
   ReplyThreadingConfig,
+  ReputationGuardConfig,
+  ReputationGuardEvent,
+  ReputationGuardStatus,
+  ReputationMetrics,
+  RetryEvent,
+  RetryPolicy,
+  SafeModeConfig,
   SendBatchParams,
   SendBatchResult,
+  SendBatchStreamParams,
+  SendBatchStreamResult,
   SendBulkTemplateParams,
   SendBulkTemplateResult,
+  SendBulkTemplateStreamParams,
+  SendBulkTemplateStreamResult,
   SendEmailBody,
   SendEmailParams,
   SendEmailParamsBase,
   SendEmailResult,
   SendTemplateParams,
+  SkippedRecipient,
+  SmimeConfig,
+  StreamCheckpoint,
+  StreamCheckpointStatus,
+  StreamCheckpointStore,
+  SuppressionCheckConfig,
+  SuppressionCheckMode,
   SuppressionEntry,
   SuppressionListOptions,
   SuppressionListResult,
   SuppressionReason,
   Template,
+  TemplateData,
+  TemplateDataMap,
   TemplateMetadata,
+  TemplateSyncChange,
+  TemplateSyncOptions,
+  TemplateSyncResult,
+  TemplateTypesSource,
+  UpdateConfigurationSetParams,
+  UpdateContactListParams,
   UpdateTemplateParams,
+  WaitUntilVerifiedOptions,
   WrapsEmailConfig,
+  WrapsEmailMiddleware,
 } from './types';
 export { htmlToPlainText } from './utils/html-to-text';
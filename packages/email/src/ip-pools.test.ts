@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SESError, ValidationError } from './errors';
+import { WrapsIpPools } from './ip-pools';
+
+// Mock the command constructors to just pass through input
+vi.mock('@aws-sdk/client-sesv2', () => {
+  const passThrough = () =>
+    vi.fn(function (this: any, input: any) {
+      Object.assign(this, input);
+    });
+  return {
+    CreateDedicatedIpPoolCommand: passThrough(),
+    DeleteDedicatedIpPoolCommand: passThrough(),
+    GetDedicatedIpCommand: passThrough(),
+    GetDedicatedIpPoolCommand: passThrough(),
+    GetDedicatedIpsCommand: passThrough(),
+    ListDedicatedIpPoolsCommand: passThrough(),
+    PutDedicatedIpInPoolCommand: passThrough(),
+    PutDedicatedIpPoolScalingAttributesCommand: passThrough(),
+  };
+});
+
+const notFound = { name: 'NotFoundException', message: 'Pool does not exist', $metadata: {} };
+
+describe('WrapsIpPools', () => {
+  let ipPools: WrapsIpPools;
+  let mockSend: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSend = vi.fn();
+    const mockClient = { send: mockSend, destroy: vi.fn() } as any;
+    ipPools = new WrapsIpPools(mockClient);
+  });
+
+  describe('pools', () => {
+    it('should create a standard pool by default', async () => {
+      mockSend.mockResolvedValue({});
+
+      await ipPools.create({ name: 'marketing', tags: { team: 'growth' } });
+
+      expect(mockSend.mock.calls[0][0]).toEqual({
+        PoolName: 'marketing',
+        ScalingMode: 'STANDARD',
+        Tags: [{ Key: 'team', Value: 'growth' }],
+      });
+    });
+
+    it('should get a pool, or null when it does not exist', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          DedicatedIpPool: { PoolName: 'marketing', ScalingMode: 'MANAGED' },
+        })
+        .mockRejectedValueOnce(notFound);
+
+      expect(await ipPools.get('marketing')).toEqual({ name: 'marketing', scalingMode: 'MANAGED' });
+      expect(await ipPools.get('missing')).toBeNull();
+    });
+
+    it('should list pool names with nextToken', async () => {
+      mockSend.mockResolvedValue({ DedicatedIpPools: ['marketing', 'tx'], NextToken: 'next' });
+
+      expect(await ipPools.list({ maxResults: 10 })).toEqual({
+        pools: ['marketing', 'tx'],
+        nextToken: 'next',
+      });
+      expect(mockSend.mock.calls[0][0]).toMatchObject({ PageSize: 10 });
+    });
+
+    it('should delete idempotently', async () => {
+      mockSend.mockRejectedValue(notFound);
+
+      await expect(ipPools.delete('missing')).resolves.toBeUndefined();
+    });
+
+    it('should validate the pool name', async () => {
+      await expect(ipPools.create({ name: '' })).rejects.toThrow(ValidationError);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dedicated IPs', () => {
+    it('should list IPs in a pool with warm-up progress', async () => {
+      mockSend.mockResolvedValue({
+        DedicatedIps: [
+          {
+            Ip: '192.0.2.1',
+            PoolName: 'marketing',
+            WarmupStatus: 'IN_PROGRESS',
+            WarmupPercentage: 40,
+          },
+          {
+            Ip: '192.0.2.2',
+            PoolName: 'managed',
+            WarmupStatus: 'NOT_APPLICABLE',
+            WarmupPercentage: -1,
+          },
+        ],
+      });
+
+      const result = await ipPools.listIps({ pool: 'marketing' });
+
+      expect(mockSend.mock.calls[0][0]).toMatchObject({ PoolName: 'marketing', PageSize: 100 });
+      expect(result.ips).toEqual([
+        { ip: '192.0.2.1', pool: 'marketing', warmupStatus: 'IN_PROGRESS', warmupPercentage: 40 },
+        {
+          ip: '192.0.2.2',
+          pool: 'managed',
+          warmupStatus: 'NOT_APPLICABLE',
+          warmupPercentage: null,
+        },
+      ]);
+    });
+
+    it('should get one IP, or null when it is not leased', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          DedicatedIp: { Ip: '192.0.2.1', WarmupStatus: 'DONE', WarmupPercentage: 100 },
+        })
+        .mockRejectedValueOnce(notFound);
+
+      expect(await ipPools.getIp('192.0.2.1')).toMatchObject({ warmupPercentage: 100 });
+      expect(await ipPools.getIp('192.0.2.9')).toBeNull();
+    });
+
+    it('should move an IP to another pool', async () => {
+      mockSend.mockResolvedValue({});
+
+      await ipPools.moveIp('192.0.2.1', 'tx');
+
+      expect(mockSend.mock.calls[0][0]).toEqual({ Ip: '192.0.2.1', DestinationPoolName: 'tx' });
+    });
+
+    it('should throw SESError on API errors', async () => {
+      mockSend.mockRejectedValue({
+        name: 'BadRequestException',
+        message: 'Pool tx is managed',
+        $metadata: { requestId: 'req-1' },
+      });
+
+      await expect(ipPools.moveIp('192.0.2.1', 'tx')).rejects.toThrow(SESError);
+    });
+  });
+});
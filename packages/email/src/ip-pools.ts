@@ -0,0 +1,224 @@
+import type { DedicatedIp as SESDedicatedIp, SESv2Client } from '@aws-sdk/client-sesv2';
+import {
+  CreateDedicatedIpPoolCommand,
+  DeleteDedicatedIpPoolCommand,
+  GetDedicatedIpCommand,
+  GetDedicatedIpPoolCommand,
+  GetDedicatedIpsCommand,
+  ListDedicatedIpPoolsCommand,
+  PutDedicatedIpInPoolCommand,
+  PutDedicatedIpPoolScalingAttributesCommand,
+} from '@aws-sdk/client-sesv2';
+import { isUnverifiedIdentityError, mapAwsSdkError, ValidationError } from './errors';
+import type {
+  CreateIpPoolParams,
+  DedicatedIp,
+  DedicatedIpListOptions,
+  DedicatedIpListResult,
+  IpPool,
+  IpPoolListOptions,
+  IpPoolListResult,
+  IpPoolScalingMode,
+} from './types';
+
+function isNotFound(error: unknown): boolean {
+  return (error as { name?: string }).name === 'NotFoundException';
+}
+
+function requireName(name: string, field = 'name'): void {
+  if (!name) {
+    throw new ValidationError('IP pool name is required', field);
+  }
+}
+
+function requireIp(ip: string): void {
+  if (!ip) {
+    throw new ValidationError('ip is required', 'ip');
+  }
+}
+
+function fromDedicatedIp(ip: SESDedicatedIp): DedicatedIp {
+  // SES reports -1 for IPs in a managed pool, which it warms itself
+  const percentage = ip.WarmupPercentage;
+  return {
+    ip: ip.Ip ?? '',
+    pool: ip.PoolName,
+    warmupStatus: ip.WarmupStatus ?? 'NOT_APPLICABLE',
+    warmupPercentage: percentage === undefined || percentage < 0 ? null : percentage,
+  };
+}
+
+/**
+ * SES v2 dedicated IP pools: the pools themselves and the dedicated IPs in
+ * them. Sends reach a pool through a configuration set whose delivery options
+ * name it — see `pools` on `WrapsEmailConfig`.
+ */
+export class WrapsIpPools {
+  constructor(private client: SESv2Client) {}
+
+  /**
+   * Create a dedicated IP pool
+   */
+  async create(params: CreateIpPoolParams): Promise<void> {
+    requireName(params.name);
+
+    try {
+      await this.client.send(
+        new CreateDedicatedIpPoolCommand({
+          PoolName: params.name,
+          ScalingMode: params.scalingMode ?? 'STANDARD',
+          Tags: params.tags
+            ? Object.entries(params.tags).map(([Key, Value]) => ({ Key, Value }))
+            : undefined,
+        })
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a pool's scaling mode
+   * Returns null if the pool does not exist
+   */
+  async get(name: string): Promise<IpPool | null> {
+    requireName(name);
+
+    try {
+      const response = await this.client.send(new GetDedicatedIpPoolCommand({ PoolName: name }));
+      return {
+        name: response.DedicatedIpPool?.PoolName ?? name,
+        scalingMode: response.DedicatedIpPool?.ScalingMode ?? 'STANDARD',
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * List dedicated IP pool names
+   */
+  async list(options: IpPoolListOptions = {}): Promise<IpPoolListResult> {
+    try {
+      const response = await this.client.send(
+        new ListDedicatedIpPoolsCommand({
+          PageSize: options.maxResults || 100,
+          NextToken: options.continuationToken,
+        })
+      );
+      return { pools: response.DedicatedIpPools ?? [], nextToken: response.NextToken };
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Change a pool's scaling mode. SES only converts `STANDARD` to `MANAGED`.
+   */
+  async setScalingMode(name: string, scalingMode: IpPoolScalingMode): Promise<void> {
+    requireName(name);
+
+    try {
+      await this.client.send(
+        new PutDedicatedIpPoolScalingAttributesCommand({ PoolName: name, ScalingMode: scalingMode })
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a dedicated IP pool
+   * Idempotent — silently succeeds if the pool does not exist
+   */
+  async delete(name: string): Promise<void> {
+    requireName(name);
+
+    try {
+      await this.client.send(new DeleteDedicatedIpPoolCommand({ PoolName: name }));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * List dedicated IPs with their pool and warm-up progress
+   */
+  async listIps(options: DedicatedIpListOptions = {}): Promise<DedicatedIpListResult> {
+    try {
+      const response = await this.client.send(
+        new GetDedicatedIpsCommand({
+          PoolName: options.pool,
+          PageSize: options.maxResults || 100,
+          NextToken: options.continuationToken,
+        })
+      );
+      return {
+        ips: (response.DedicatedIps ?? []).map(fromDedicatedIp),
+        nextToken: response.NextToken,
+      };
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Get one dedicated IP's pool and warm-up progress
+   * Returns null if the IP is not leased by this account
+   */
+  async getIp(ip: string): Promise<DedicatedIp | null> {
+    requireIp(ip);
+
+    try {
+      const response = await this.client.send(new GetDedicatedIpCommand({ Ip: ip }));
+      return response.DedicatedIp ? fromDedicatedIp(response.DedicatedIp) : null;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Move a dedicated IP into another pool
+   */
+  async moveIp(ip: string, destinationPool: string): Promise<void> {
+    requireIp(ip);
+    requireName(destinationPool, 'destinationPool');
+
+    try {
+      await this.client.send(
+        new PutDedicatedIpInPoolCommand({ Ip: ip, DestinationPoolName: destinationPool })
+      );
+    } catch (error) {
+      throw await this.handleError(error);
+    }
+  }
+
+  /**
+   * Route through the shared mapper so a credential-chain failure here becomes
+   * a `CredentialsError`, as it does on the send path.
+   */
+  private async handleError(error: unknown): Promise<Error> {
+    return mapAwsSdkError(error, 'SES request failed', { region: await this.errorRegion(error) });
+  }
+
+  /** The region to name in an error, resolved only when the message will use it. */
+  private async errorRegion(error: unknown): Promise<string | undefined> {
+    if (!isUnverifiedIdentityError(error)) {
+      return undefined;
+    }
+    try {
+      return await this.client.config.region();
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ValidationError } from './errors';
+import { unsubscribeHeaders, WrapsListUnsubscribe } from './list-unsubscribe';
+
+const secret = 'unsubscribe-secret-0123456789';
+
+describe('WrapsListUnsubscribe', () => {
+  const signer = new WrapsListUnsubscribe({
+    secret,
+    url: 'https://acme.test/unsubscribe?src=email',
+    mailto: 'unsubscribe@acme.test',
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('round-trips recipient, list and topic through a token', () => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+
+    const token = signer.createToken('"Ada" <Ada@Example.com>', {
+      list: 'newsletter',
+      topic: 'product-updates',
+      ttlSeconds: 3600,
+    });
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(signer.verify(token)).toEqual({
+      recipient: 'ada@example.com',
+      list: 'newsletter',
+      topic: 'product-updates',
+      expiresAt: Date.parse('2025-01-01T01:00:00Z') / 1000,
+    });
+  });
+
+  it('builds one-click headers with the token in the URL and mailto subject', () => {
+    const headers = signer.headers(['ada@example.com'], { list: 'newsletter' });
+
+    const [, url, mailto] = /^<(https:[^>]+)>, <mailto:([^>]+)>$/.exec(
+      headers['List-Unsubscribe']
+    ) as RegExpExecArray;
+    const token = new URL(url).searchParams.get('token') as string;
+    expect(new URL(url).searchParams.get('src')).toBe('email');
+    expect(mailto).toBe(`unsubscribe@acme.test?subject=${token}`);
+    expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    expect(signer.verify(token)).toMatchObject({
+      recipient: 'ada@example.com',
+      list: 'newsletter',
+    });
+  });
+
+  it('omits List-Unsubscribe-Post when only a mailto is configured', () => {
+    const mailOnly = new WrapsListUnsubscribe({ secret, mailto: 'unsubscribe@acme.test' });
+
+    expect(mailOnly.headers(['ada@example.com'], { list: 'news' })).toEqual({
+      'List-Unsubscribe': expect.stringMatching(/^<mailto:unsubscribe@acme\.test\?subject=/),
+    });
+  });
+
+  it('rejects tampered tokens and tokens signed with another secret', () => {
+    const token = signer.createToken('ada@example.com', { list: 'newsletter' });
+    const tampered = `${token.slice(0, 8)}${token[8] === 'A' ? 'B' : 'A'}${token.slice(9)}`;
+    const other = new WrapsListUnsubscribe({ secret: 'some-other-secret-0123456789' });
+
+    expect(() => signer.verify(tampered)).toThrow('Invalid unsubscribe token');
+    expect(() => other.verify(token)).toThrow(ValidationError);
+    expect(() => signer.verify('not a token')).toThrow('Invalid unsubscribe token');
+  });
+
+  it('rejects expired tokens, and never expires a ttl of 0', () => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    const expiring = signer.createToken('ada@example.com', { list: 'news', ttlSeconds: 60 });
+    const forever = signer.createToken('ada@example.com', { list: 'news', ttlSeconds: 0 });
+
+    vi.setSystemTime(new Date('2030-01-01T00:00:00Z'));
+
+    expect(() => signer.verify(expiring)).toThrow('Unsubscribe token has expired');
+    expect(signer.verify(forever).expiresAt).toBeNull();
+  });
+
+  it('still verifies tokens signed before a secret rotation', () => {
+    const token = signer.createToken('ada@example.com', { list: 'news' });
+    const rotated = new WrapsListUnsubscribe({
+      secret: 'the-next-secret-0123456789',
+      previousSecret: secret,
+    });
+
+    expect(rotated.verify(token).recipient).toBe('ada@example.com');
+  });
+
+  it('validates its config', () => {
+    expect(() => new WrapsListUnsubscribe({ secret: 'short' })).toThrow('at least 16 bytes');
+    expect(() => new WrapsListUnsubscribe({ secret, previousSecret: 'short' })).toThrow(
+      'listUnsubscribe.previousSecret must be at least 16 bytes'
+    );
+    expect(() => new WrapsListUnsubscribe({ secret, url: 'http://acme.test/u' })).toThrow(
+      'must be an https:// URL'
+    );
+    expect(() => new WrapsListUnsubscribe({ secret, mailto: 'nobody' })).toThrow(
+      'must be an email address'
+    );
+  });
+
+  it('needs exactly one recipient per message', () => {
+    expect(() =>
+      signer.headers(['ada@example.com', 'bob@example.com'], { list: 'newsletter' })
+    ).toThrow('exactly one recipient per message (got 2)');
+  });
+});
+
+describe('unsubscribeHeaders', () => {
+  const signer = new WrapsListUnsubscribe({ secret, url: 'https://acme.test/u' });
+
+  it('is a no-op for sends that did not opt in', () => {
+    expect(unsubscribeHeaders(null, undefined, ['ada@example.com'])).toBeUndefined();
+  });
+
+  it('needs a configured signer', () => {
+    expect(() => unsubscribeHeaders(null, { list: 'news' }, ['ada@example.com'])).toThrow(
+      'listUnsubscribe needs the listUnsubscribe option'
+    );
+  });
+
+  it('refuses a hand-written List-Unsubscribe header alongside the option', () => {
+    expect(() =>
+      unsubscribeHeaders(signer, { list: 'news' }, ['ada@example.com'], {
+        'list-unsubscribe': '<https://elsewhere.test>',
+      })
+    ).toThrow('not both');
+  });
+});
@@ -0,0 +1,210 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { ValidationError } from './errors';
+import type { ListUnsubscribeConfig, ListUnsubscribeOptions, ListUnsubscribeToken } from './types';
+import { assertNoHeaderInjection } from './utils/headers';
+import { extractEmail } from './utils/validation';
+
+export const UNSUBSCRIBE_TOKEN_VERSION = 1;
+const HEADER_LEN = 5; // version + exp
+const HMAC_LEN = 16;
+const MIN_SECRET_BYTES = 16;
+const DEFAULT_TTL_SECONDS = 90 * 86_400; // 90 days
+
+function hmac16(payload: Buffer, secret: Buffer): Buffer {
+  return createHmac('sha256', secret).update(payload).digest().subarray(0, HMAC_LEN);
+}
+
+function toBase64Url(buf: Buffer): string {
+  return buf.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function invalidToken(): ValidationError {
+  return new ValidationError('Invalid unsubscribe token', 'token');
+}
+
+function signingSecret(value: string | undefined, field: 'secret' | 'previousSecret'): Buffer {
+  const secret = Buffer.from(value ?? '', 'utf-8');
+  if (secret.length < MIN_SECRET_BYTES) {
+    throw new ValidationError(
+      `listUnsubscribe.${field} must be at least ${MIN_SECRET_BYTES} bytes`,
+      field
+    );
+  }
+  return secret;
+}
+
+/**
+ * WrapsListUnsubscribe - Sign and verify RFC 8058 one-click unsubscribe tokens.
+ *
+ * A token is `version | exp | recipient\nlist\ntopic` followed by a 16-byte
+ * HMAC-SHA256 tag, base64url-encoded — the same truncated-HMAC layout as
+ * reply tokens, with the identifying fields carried in clear so the endpoint
+ * needs no lookup. Construct one with only `secret` to verify tokens in the
+ * HTTP handler.
+ */
+export class WrapsListUnsubscribe {
+  private secrets: Buffer[];
+  private url?: URL;
+  private mailto?: string;
+  private ttlSeconds: number;
+
+  constructor(config: ListUnsubscribeConfig) {
+    this.secrets = [signingSecret(config.secret, 'secret')];
+    if (config.previousSecret !== undefined) {
+      this.secrets.push(signingSecret(config.previousSecret, 'previousSecret'));
+    }
+
+    if (config.url) {
+      let url: URL;
+      try {
+        url = new URL(config.url);
+      } catch {
+        throw new ValidationError(`listUnsubscribe.url is not a URL: ${config.url}`, 'url');
+      }
+      // RFC 8058 §3.1: the one-click URI must be HTTPS
+      if (url.protocol !== 'https:') {
+        throw new ValidationError('listUnsubscribe.url must be an https:// URL', 'url');
+      }
+      this.url = url;
+    }
+
+    if (config.mailto) {
+      assertNoHeaderInjection(config.mailto, 'mailto');
+      if (!config.mailto.includes('@')) {
+        throw new ValidationError('listUnsubscribe.mailto must be an email address', 'mailto');
+      }
+      this.mailto = config.mailto;
+    }
+
+    this.ttlSeconds = config.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  }
+
+  /**
+   * Sign a token for one recipient.
+   *
+   * @throws {ValidationError} if `list` is missing or a field contains a newline.
+   */
+  createToken(recipient: string, options: ListUnsubscribeOptions): string {
+    if (!options.list) {
+      throw new ValidationError('listUnsubscribe.list is required', 'listUnsubscribe.list');
+    }
+    assertNoHeaderInjection(options.list, 'listUnsubscribe.list');
+    assertNoHeaderInjection(options.topic ?? '', 'listUnsubscribe.topic');
+
+    const ttlSeconds = options.ttlSeconds ?? this.ttlSeconds;
+    const exp = ttlSeconds > 0 ? Math.floor(Date.now() / 1000) + ttlSeconds : 0;
+    const fields = [extractEmail(recipient).toLowerCase(), options.list, options.topic ?? ''];
+
+    const payload = Buffer.concat([Buffer.alloc(HEADER_LEN), Buffer.from(fields.join('\n'))]);
+    payload.writeUInt8(UNSUBSCRIBE_TOKEN_VERSION, 0);
+    payload.writeUInt32BE(exp >>> 0, 1);
+
+    return toBase64Url(Buffer.concat([payload, hmac16(payload, this.secrets[0])]));
+  }
+
+  /**
+   * `List-Unsubscribe` and `List-Unsubscribe-Post` for a message.
+   *
+   * @param recipients - Every To/Cc/Bcc address of the message. A link
+   *   unsubscribes one person, so exactly one is allowed.
+   * @throws {ValidationError} if there is not exactly one recipient, or
+   *   neither `url` nor `mailto` is configured.
+   */
+  headers(recipients: string[], options: ListUnsubscribeOptions): Record<string, string> {
+    if (recipients.length !== 1) {
+      throw new ValidationError(
+        `listUnsubscribe needs exactly one recipient per message (got ${recipients.length}); use sendBatch() to give each recipient their own link`,
+        'listUnsubscribe'
+      );
+    }
+    if (!this.url && !this.mailto) {
+      throw new ValidationError(
+        'listUnsubscribe needs a url or mailto in the client config',
+        'listUnsubscribe'
+      );
+    }
+
+    const token = this.createToken(recipients[0], options);
+    const targets: string[] = [];
+    if (this.url) {
+      const url = new URL(this.url.href);
+      url.searchParams.set('token', token);
+      targets.push(`<${url.href}>`);
+    }
+    if (this.mailto) {
+      targets.push(`<mailto:${this.mailto}?subject=${token}>`);
+    }
+
+    const headers: Record<string, string> = { 'List-Unsubscribe': targets.join(', ') };
+    if (this.url) {
+      headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click';
+    }
+    return headers;
+  }
+
+  /**
+   * Decode a token back to its recipient, list and topic. Accepts tokens
+   * signed with `secret` or `previousSecret`.
+   *
+   * @throws {ValidationError} (field `token`) if the token is malformed, was
+   *   not signed with a configured secret, or has expired.
+   */
+  verify(token: string): ListUnsubscribeToken {
+    if (typeof token !== 'string' || !/^[A-Za-z0-9_-]+$/.test(token)) {
+      throw invalidToken();
+    }
+    const raw = Buffer.from(token.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+    if (raw.length <= HEADER_LEN + HMAC_LEN || raw.readUInt8(0) !== UNSUBSCRIBE_TOKEN_VERSION) {
+      throw invalidToken();
+    }
+
+    const payload = raw.subarray(0, raw.length - HMAC_LEN);
+    const mac = raw.subarray(raw.length - HMAC_LEN);
+    if (!this.secrets.some((secret) => timingSafeEqual(mac, hmac16(payload, secret)))) {
+      throw invalidToken();
+    }
+
+    const exp = payload.readUInt32BE(1);
+    if (exp !== 0 && exp < Math.floor(Date.now() / 1000)) {
+      throw new ValidationError('Unsubscribe token has expired', 'token');
+    }
+
+    const [recipient, list, topic] = payload.subarray(HEADER_LEN).toString('utf-8').split('\n');
+    const result: ListUnsubscribeToken = { recipient, list, expiresAt: exp === 0 ? null : exp };
+    if (topic) {
+      result.topic = topic;
+    }
+    return result;
+  }
+}
+
+/**
+ * Unsubscribe headers for one message, or `undefined` when the send did not
+ * opt in. Shared by every send path that accepts `listUnsubscribe`.
+ *
+ * @param recipients - The addresses the caller asked for, before safe mode.
+ * @param headers - The caller's own `headers`, which may not set these too.
+ */
+export function unsubscribeHeaders(
+  signer: WrapsListUnsubscribe | null | undefined,
+  options: ListUnsubscribeOptions | undefined,
+  recipients: string[],
+  headers?: Record<string, string>
+): Record<string, string> | undefined {
+  if (!options) {
+    return undefined;
+  }
+  if (!signer) {
+    throw new ValidationError(
+      'listUnsubscribe needs the listUnsubscribe option in the WrapsEmail config',
+      'listUnsubscribe'
+    );
+  }
+  if (headers && Object.keys(headers).some((name) => /^list-unsubscribe(-post)?$/i.test(name))) {
+    throw new ValidationError(
+      'Pass either listUnsubscribe or a List-Unsubscribe header, not both',
+      'headers'
+    );
+  }
+  return signer.headers(recipients, options);
+}
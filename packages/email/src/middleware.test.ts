@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MiddlewarePipeline } from './middleware';
+
+const params = {
+  from: 'sender@example.com',
+  to: 'recipient@example.com',
+  subject: 'Hi',
+  html: '<p>Hi</p>',
+};
+const result = { messageId: 'msg-1', requestId: 'req-1' };
+
+describe('MiddlewarePipeline', () => {
+  it('calls the operation directly when nothing is registered', async () => {
+    const execute = vi.fn().mockResolvedValue(result);
+
+    await expect(new MiddlewarePipeline().run('send', params, execute)).resolves.toBe(result);
+    expect(execute).toHaveBeenCalledWith(params);
+  });
+
+  it('runs hooks in registration order around the operation', async () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline();
+    for (const name of ['a', 'b']) {
+      pipeline.use({
+        beforeSend: () => {
+          calls.push(`before:${name}`);
+        },
+        afterSend: () => {
+          calls.push(`after:${name}`);
+        },
+      });
+    }
+
+    await pipeline.run('send', params, async () => {
+      calls.push('send');
+      return result;
+    });
+
+    expect(calls).toEqual(['before:a', 'before:b', 'send', 'after:a', 'after:b']);
+  });
+
+  it('sends the params a beforeSend hook substituted', async () => {
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use({
+      beforeSend: (ctx) => {
+        if (ctx.operation === 'send') {
+          ctx.params = { ...ctx.params, to: 'staging@example.com' };
+        }
+      },
+    });
+    const execute = vi.fn().mockResolvedValue(result);
+
+    await pipeline.run('send', params, execute);
+
+    expect(execute).toHaveBeenCalledWith({ ...params, to: 'staging@example.com' });
+  });
+
+  it('hands hooks the params with address fields normalized', async () => {
+    const seen: unknown[] = [];
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use({
+      beforeSend: (ctx) => {
+        seen.push(ctx.params);
+      },
+    });
+    const execute = vi.fn().mockResolvedValue(result);
+
+    await pipeline.run(
+      'send',
+      {
+        ...params,
+        from: { email: 'sender@example.com', name: 'Acme' },
+        cc: { email: 'cc@example.com' },
+        replyTo: 'support@example.com',
+      },
+      execute
+    );
+    await pipeline.run(
+      'sendBatch',
+      {
+        from: 'sender@example.com',
+        entries: [
+          { to: { email: 'a@example.com', name: 'Ann' }, bcc: 'audit@example.com', subject: 'Hi' },
+        ],
+      },
+      execute
+    );
+
+    expect(seen).toEqual([
+      {
+        ...params,
+        from: '"Acme" <sender@example.com>',
+        to: ['recipient@example.com'],
+        cc: ['cc@example.com'],
+        replyTo: ['support@example.com'],
+      },
+      {
+        from: 'sender@example.com',
+        entries: [{ to: '"Ann" <a@example.com>', bcc: ['audit@example.com'], subject: 'Hi' }],
+      },
+    ]);
+    expect(execute).toHaveBeenCalledWith(seen[0]);
+  });
+
+  it('reports a failed operation to onError and rethrows it', async () => {
+    const onError = vi.fn();
+    const afterSend = vi.fn();
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use({ onError, afterSend });
+    const failure = new Error('SES down');
+
+    await expect(pipeline.run('send', params, () => Promise.reject(failure))).rejects.toBe(failure);
+    expect(onError).toHaveBeenCalledWith({
+      operation: 'send',
+      params: { ...params, to: [params.to] },
+      error: failure,
+    });
+    expect(afterSend).not.toHaveBeenCalled();
+  });
+
+  it('treats a throwing beforeSend as a blocked send', async () => {
+    const onError = vi.fn();
+    const execute = vi.fn();
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use({
+      beforeSend: () => {
+        throw new Error('domain blocked');
+      },
+      onError,
+    });
+
+    await expect(pipeline.run('send', params, execute)).rejects.toThrow('domain blocked');
+    expect(execute).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it('does not report a failing afterSend hook as a send error', async () => {
+    const onError = vi.fn();
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use({
+      afterSend: () => {
+        throw new Error('audit log down');
+      },
+      onError,
+    });
+
+    await expect(pipeline.run('send', params, async () => result)).rejects.toThrow(
+      'audit log down'
+    );
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import type {
+  MiddlewareContext,
+  MiddlewareOperation,
+  MiddlewareOperationParams,
+  MiddlewareOperationResults,
+  MiddlewareResultContext,
+  WrapsEmailMiddleware,
+} from './types';
+import { normalizeEmailAddress, normalizeEmailAddresses } from './utils/validation';
+
+type AddressList = Parameters<typeof normalizeEmailAddresses>[0];
+
+/** Operations whose `to` takes a list; the rest address one recipient. */
+const LIST_TO: ReadonlySet<MiddlewareOperation> = new Set(['send', 'inbox.forward']);
+
+/**
+ * `fields` with `from` and a single `to` as one address string, and `to`,
+ * `cc`, `bcc` and `replyTo` lists as string arrays. Absent fields stay absent.
+ */
+function normalizeAddresses<T extends object>(fields: T, listTo: boolean): T {
+  const source = fields as Record<string, unknown>;
+  const normalized: Record<string, unknown> = { ...source };
+  if (source.from) {
+    normalized.from = normalizeEmailAddress(source.from as string);
+  }
+  for (const field of ['to', 'cc', 'bcc', 'replyTo']) {
+    const value = source[field] as AddressList | undefined;
+    if (value) {
+      normalized[field] =
+        field === 'to' && !listTo && !Array.isArray(value)
+          ? normalizeEmailAddress(value)
+          : normalizeEmailAddresses(value);
+    }
+  }
+  return normalized as T;
+}
+
+/** `params` with every address field normalized, down to batch entries and bulk destinations. */
+function normalizeParams<Op extends MiddlewareOperation>(
+  operation: Op,
+  params: MiddlewareOperationParams[Op]
+): MiddlewareOperationParams[Op] {
+  const normalized = normalizeAddresses(params, LIST_TO.has(operation));
+  const nested = normalized as { entries?: unknown; destinations?: unknown };
+  for (const field of ['entries', 'destinations'] as const) {
+    const items = nested[field];
+    if (Array.isArray(items)) {
+      nested[field] = items.map((item: object) => normalizeAddresses(item, false));
+    }
+  }
+  return normalized;
+}
+
+/**
+ * The `use()` chain shared by a `WrapsEmail` and its inbox. Each wrapped
+ * operation runs `beforeSend` hooks, then the operation with whatever params
+ * the hooks left, then `afterSend` or `onError` hooks. Hooks see address
+ * fields normalized to strings, however the caller wrote them.
+ */
+export class MiddlewarePipeline {
+  private readonly middleware: WrapsEmailMiddleware[] = [];
+
+  use(middleware: WrapsEmailMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  async run<Op extends MiddlewareOperation>(
+    operation: Op,
+    params: MiddlewareOperationParams[Op],
+    execute: (params: MiddlewareOperationParams[Op]) => Promise<MiddlewareOperationResults[Op]>
+  ): Promise<MiddlewareOperationResults[Op]> {
+    if (this.middleware.length === 0) {
+      return execute(params);
+    }
+
+    const ctx = { operation, params: normalizeParams(operation, params) };
+    let result: MiddlewareOperationResults[Op];
+    try {
+      for (const middleware of this.middleware) {
+        await middleware.beforeSend?.(ctx as MiddlewareContext);
+      }
+      result = await execute(ctx.params);
+    } catch (error) {
+      const errorCtx = { ...ctx, error: error as Error } as MiddlewareContext & { error: Error };
+      for (const middleware of this.middleware) {
+        await middleware.onError?.(errorCtx);
+      }
+      throw error;
+    }
+
+    // Outside the try: a failing afterSend hook must not be reported as a
+    // failed send — the email already went out.
+    const resultCtx = { ...ctx, result } as MiddlewareResultContext;
+    for (const middleware of this.middleware) {
+      await middleware.afterSend?.(resultCtx);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CredentialsError, QuotaExceededError } from './errors';
+import { MemoryRateLimitStore, SendRateLimiter } from './rate-limit';
+
+vi.mock('@aws-sdk/client-sesv2', () => ({
+  GetAccountCommand: vi.fn(function (this: any, input: any) {
+    Object.assign(this, input);
+  }),
+}));
+
+const accountResponse = (sendQuota: Record<string, number>) => ({
+  SendQuota: sendQuota,
+  $metadata: { requestId: 'req-account' },
+});
+
+describe('SendRateLimiter', () => {
+  let mockSend: ReturnType<typeof vi.fn>;
+  let client: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockSend = vi.fn();
+    client = { send: mockSend };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('seeds its limits from GetAccount once', async () => {
+    mockSend.mockResolvedValue(
+      accountResponse({ MaxSendRate: 10, Max24HourSend: 1000, SentLast24Hours: 0 })
+    );
+    const limiter = new SendRateLimiter({}, client);
+
+    await limiter.acquire(1);
+    await limiter.acquire(1);
+
+    expect(mockSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips GetAccount when both limits are explicit', async () => {
+    const limiter = new SendRateLimiter({ maxSendRate: 5, max24HourSend: 100 }, client);
+
+    await limiter.acquire(1);
+
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('paces sends beyond the burst to the send rate', async () => {
+    const limiter = new SendRateLimiter({ maxSendRate: 2, max24HourSend: -1 }, client);
+
+    await limiter.acquire(2); // drains the bucket
+    let acquired = false;
+    const pending = limiter.acquire(1).then(() => {
+      acquired = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(acquired).toBe(true);
+  });
+
+  it('lets one oversized send through from a full bucket and charges the debt after', async () => {
+    const limiter = new SendRateLimiter({ maxSendRate: 10, max24HourSend: -1 }, client);
+
+    await limiter.acquire(50);
+
+    let acquired = false;
+    const pending = limiter.acquire(1).then(() => {
+      acquired = true;
+    });
+    // 40 tokens of debt plus the one requested, at 10/s.
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(100);
+    await pending;
+    expect(acquired).toBe(true);
+  });
+
+  it('refuses a send that would cross the 24-hour quota, counting what SES already saw', async () => {
+    mockSend.mockResolvedValue(
+      accountResponse({ MaxSendRate: 100, Max24HourSend: 200, SentLast24Hours: 195 })
+    );
+    const limiter = new SendRateLimiter({}, client);
+
+    await limiter.acquire(5);
+    const error = await limiter.acquire(1).catch((e) => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toMatchObject({ max24HourSend: 200, sentLast24Hours: 200, requested: 1 });
+  });
+
+  it('treats a negative Max24HourSend as unlimited', async () => {
+    mockSend.mockResolvedValue(
+      accountResponse({ MaxSendRate: 1000, Max24HourSend: -1, SentLast24Hours: 5_000_000 })
+    );
+    const limiter = new SendRateLimiter({}, client);
+
+    await expect(limiter.acquire(10)).resolves.toBeUndefined();
+  });
+
+  it('starts a fresh quota window after 24 hours', async () => {
+    const limiter = new SendRateLimiter({ maxSendRate: 100, max24HourSend: 10 }, client);
+
+    await limiter.acquire(10);
+    await expect(limiter.acquire(1)).rejects.toBeInstanceOf(QuotaExceededError);
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    await expect(limiter.acquire(1)).resolves.toBeUndefined();
+  });
+
+  it('maps a GetAccount failure and retries seeding on the next send', async () => {
+    mockSend
+      .mockRejectedValueOnce(
+        Object.assign(new Error('Could not load credentials from any providers'), {
+          name: 'CredentialsProviderError',
+        })
+      )
+      .mockResolvedValueOnce(accountResponse({ MaxSendRate: 10, Max24HourSend: 100 }));
+    const limiter = new SendRateLimiter({}, client);
+
+    await expect(limiter.acquire(1)).rejects.toBeInstanceOf(CredentialsError);
+    await expect(limiter.acquire(1)).resolves.toBeUndefined();
+    expect(mockSend).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one budget between limiters on the same store and key', async () => {
+    const store = new MemoryRateLimitStore();
+    const a = new SendRateLimiter({ maxSendRate: 100, max24HourSend: 3, store }, client);
+    const b = new SendRateLimiter({ maxSendRate: 100, max24HourSend: 3, store }, client);
+
+    await a.acquire(2);
+    await expect(b.acquire(2)).rejects.toBeInstanceOf(QuotaExceededError);
+    await expect(b.acquire(1)).resolves.toBeUndefined();
+  });
+
+  it('re-reads and retries when a compare-and-set loses the race', async () => {
+    const store = new MemoryRateLimitStore();
+    const compareAndSet = vi.spyOn(store, 'compareAndSet').mockResolvedValueOnce(false);
+    const limiter = new SendRateLimiter({ maxSendRate: 10, max24HourSend: -1, store }, client);
+
+    await limiter.acquire(1);
+
+    expect(compareAndSet).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('only writes when the expected state matches', async () => {
+    const store = new MemoryRateLimitStore();
+    const first = { tokens: 1, updatedAt: 1, windowStart: 1, sentInWindow: 0 };
+
+    expect(await store.compareAndSet('k', undefined, first)).toBe(true);
+    expect(await store.compareAndSet('k', undefined, first)).toBe(false);
+    expect(await store.compareAndSet('k', { ...first }, { ...first, tokens: 0 })).toBe(true);
+    expect(await store.get('k')).toMatchObject({ tokens: 0 });
+  });
+});
@@ -0,0 +1,200 @@
+import { GetAccountCommand, type SESv2Client } from '@aws-sdk/client-sesv2';
+import { mapAwsSdkError, QuotaExceededError, ValidationError } from './errors';
+import { sleep } from './retry';
+import type { RateLimitConfig, RateLimitState, RateLimitStore } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_KEY = 'wraps-email:send-rate';
+
+/**
+ * Process-local {@link RateLimitStore}. The default backend: one budget per
+ * `WrapsEmail` instance unless the same store is passed to several instances.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private states = new Map<string, RateLimitState>();
+
+  async get(key: string): Promise<RateLimitState | undefined> {
+    const state = this.states.get(key);
+    return state ? { ...state } : undefined;
+  }
+
+  async compareAndSet(
+    key: string,
+    expected: RateLimitState | undefined,
+    next: RateLimitState
+  ): Promise<boolean> {
+    if (!sameState(this.states.get(key), expected)) {
+      return false;
+    }
+    this.states.set(key, { ...next });
+    return true;
+  }
+}
+
+function sameState(a: RateLimitState | undefined, b: RateLimitState | undefined): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return (
+    a.tokens === b.tokens &&
+    a.updatedAt === b.updatedAt &&
+    a.windowStart === b.windowStart &&
+    a.sentInWindow === b.sentInWindow
+  );
+}
+
+interface ResolvedQuota {
+  maxSendRate: number;
+  /** `null` when the account has no daily cap. */
+  max24HourSend: number | null;
+  /** Recipients SES had already counted when the limiter was seeded. */
+  sentLast24Hours: number;
+}
+
+/**
+ * Client-side token bucket that paces sends to the SES account's maximum send
+ * rate and refuses a send that would cross the 24-hour quota.
+ *
+ * SES meters both limits per *recipient*, so callers acquire one token per
+ * address in To/Cc/Bcc. A single acquire larger than the bucket is allowed once
+ * the bucket is full and leaves it in debt, so a 50-recipient bulk send on a
+ * 14/s account waits for the following sends rather than failing outright.
+ *
+ * State lives in a {@link RateLimitStore}. Updates go through compare-and-set,
+ * so a store shared between processes (Redis, DynamoDB, ...) gives them one
+ * budget. The 24-hour window is fixed from the moment the budget was first
+ * used and seeded with SES's own `SentLast24Hours` — an approximation of SES's
+ * rolling window that errs on the side of stopping early.
+ */
+export class SendRateLimiter {
+  private readonly store: RateLimitStore;
+  private readonly key: string;
+  private quota: Promise<ResolvedQuota> | undefined;
+
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly sesv2Client: SESv2Client
+  ) {
+    if (config.maxSendRate !== undefined && !(config.maxSendRate > 0)) {
+      throw new ValidationError('rateLimit.maxSendRate must be a positive number', 'maxSendRate');
+    }
+    this.store = config.store ?? new MemoryRateLimitStore();
+    this.key = config.key ?? DEFAULT_KEY;
+  }
+
+  /**
+   * Wait until `recipients` sends fit the rate budget, then claim them.
+   *
+   * @throws {QuotaExceededError} When the send would exceed the 24-hour quota.
+   *   Nothing is claimed, so smaller sends may still go through.
+   */
+  async acquire(recipients: number): Promise<void> {
+    if (recipients <= 0) {
+      return;
+    }
+    const quota = await this.resolveQuota();
+    const capacity = quota.maxSendRate;
+
+    for (;;) {
+      const now = Date.now();
+      const stored = await this.store.get(this.key);
+      const current = this.advance(stored, quota, now);
+
+      if (quota.max24HourSend !== null && current.sentInWindow + recipients > quota.max24HourSend) {
+        throw new QuotaExceededError(
+          `Sending to ${recipients} recipient(s) would exceed the SES 24-hour quota of ${quota.max24HourSend} (${current.sentInWindow} already sent in this window). Nothing was sent.`,
+          quota.max24HourSend,
+          current.sentInWindow,
+          recipients
+        );
+      }
+
+      const needed = Math.min(recipients, capacity);
+      if (current.tokens >= needed) {
+        const next: RateLimitState = {
+          ...current,
+          tokens: current.tokens - recipients,
+          sentInWindow: current.sentInWindow + recipients,
+        };
+        if (await this.store.compareAndSet(this.key, stored, next)) {
+          return;
+        }
+        // Another sender claimed first; re-read and try again.
+        continue;
+      }
+
+      await sleep(Math.ceil(((needed - current.tokens) / quota.maxSendRate) * 1000));
+    }
+  }
+
+  /** Refill the bucket for elapsed time and roll the 24-hour window. */
+  private advance(
+    stored: RateLimitState | undefined,
+    quota: ResolvedQuota,
+    now: number
+  ): RateLimitState {
+    if (!stored) {
+      return {
+        tokens: quota.maxSendRate,
+        updatedAt: now,
+        windowStart: now,
+        sentInWindow: quota.sentLast24Hours,
+      };
+    }
+    const elapsed = Math.max(0, now - stored.updatedAt);
+    const rolled = now - stored.windowStart >= DAY_MS;
+    return {
+      tokens: Math.min(quota.maxSendRate, stored.tokens + (elapsed / 1000) * quota.maxSendRate),
+      updatedAt: now,
+      windowStart: rolled ? now : stored.windowStart,
+      sentInWindow: rolled ? 0 : stored.sentInWindow,
+    };
+  }
+
+  /**
+   * Explicit limits win; anything missing comes from `GetAccount`, fetched at
+   * most once per limiter.
+   */
+  private resolveQuota(): Promise<ResolvedQuota> {
+    this.quota ??= this.fetchQuota().catch((error) => {
+      // Don't cache a failure: the next send gets a fresh attempt.
+      this.quota = undefined;
+      throw error;
+    });
+    return this.quota;
+  }
+
+  private async fetchQuota(): Promise<ResolvedQuota> {
+    const { maxSendRate, max24HourSend } = this.config;
+    if (maxSendRate !== undefined && max24HourSend !== undefined) {
+      return {
+        maxSendRate,
+        max24HourSend: max24HourSend < 0 ? null : max24HourSend,
+        sentLast24Hours: 0,
+      };
+    }
+
+    let sendQuota: { MaxSendRate?: number; Max24HourSend?: number; SentLast24Hours?: number };
+    try {
+      const response = await this.sesv2Client.send(new GetAccountCommand({}));
+      sendQuota = response.SendQuota ?? {};
+    } catch (error) {
+      throw mapAwsSdkError(error, 'SES GetAccount failed');
+    }
+
+    const rate = maxSendRate ?? sendQuota.MaxSendRate;
+    if (!rate || rate <= 0) {
+      throw new ValidationError(
+        'SES GetAccount returned no MaxSendRate; pass rateLimit.maxSendRate explicitly',
+        'maxSendRate'
+      );
+    }
+    // SES reports -1 for an unlimited daily quota.
+    const daily = max24HourSend ?? sendQuota.Max24HourSend;
+    return {
+      maxSendRate: rate,
+      max24HourSend: daily === undefined || daily < 0 ? null : daily,
+      sentLast24Hours: sendQuota.SentLast24Hours ?? 0,
+    };
+  }
+}
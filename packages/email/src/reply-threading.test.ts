@@ -2,7 +2,7 @@ import { createHmac } from 'node:crypto';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { ValidationError } from './errors';
 import { WrapsReplyThreading } from './reply-threading';
-import { encodeReplyToken } from './reply-token-codec';
+import { decodeReplyToken, encodeReplyToken } from './reply-token-codec';
 
 // Mock @aws-sdk/client-ssm at module level — matches events.test.ts pattern
 vi.mock('@aws-sdk/client-ssm', () => ({
@@ -383,4 +383,21 @@ describe('encodeReplyToken KAT (drift guard against @wraps/core)', () => {
     expect(token).toBe(expectedToken);
     expect(token.length).toBe(51);
   });
+
+  it('decodes the fields back out of a token', () => {
+    const convId = Buffer.from('0102030405060708', 'hex');
+    const sendId = Buffer.from('090a0b0c0d0e0f10', 'hex');
+    const secret = Buffer.alloc(32, 0x42);
+    const token = encodeReplyToken({ kid: 3, convId, sendId, exp: 2_000_000_000, secret });
+
+    expect(decodeReplyToken(token)).toEqual({
+      kid: 3,
+      convId,
+      sendId,
+      exp: 2_000_000_000,
+      mac: expect.any(Buffer),
+    });
+    expect(decodeReplyToken(token.slice(1))).toBeNull();
+    expect(decodeReplyToken(`B${token.slice(1)}`)).toBeNull(); // another version
+  });
 });
@@ -1,6 +1,6 @@
 // Duplicated from @wraps/core — must stay byte-identical.
 // When @wraps/core is published, this file should be replaced with:
-//   export { encodeReplyToken, generateConversationId, generateSendId } from '@wraps/core';
+//   export { decodeReplyToken, encodeReplyToken, generateConversationId, generateSendId } from '@wraps/core';
 // The verifier Lambda uses @wraps/core's decodeReplyToken/verifyReplyToken; this encoder
 // MUST produce bytes that the verifier accepts. See KAT in reply-threading.test.ts.
 
@@ -9,6 +9,7 @@ import { createHmac, randomBytes } from 'node:crypto';
 export const REPLY_TOKEN_VERSION = 1;
 const PAYLOAD_LEN = 22;
 const HMAC_LEN = 16;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{51}$/;
 
 export type EncodeReplyTokenInput = {
   kid: number;
@@ -18,6 +19,14 @@ export type EncodeReplyTokenInput = {
   secret: Buffer;
 };
 
+export type DecodedReplyToken = {
+  kid: number;
+  convId: Buffer;
+  sendId: Buffer;
+  exp: number;
+  mac: Buffer;
+};
+
 function hmac16(payload: Buffer, secret: Buffer): Buffer {
   return createHmac('sha256', secret).update(payload).digest().subarray(0, HMAC_LEN);
 }
@@ -50,6 +59,30 @@ export function encodeReplyToken(input: EncodeReplyTokenInput): string {
   return toBase64Url(Buffer.concat([payload, mac]));
 }
 
+/**
+ * Decode a reply token's fields. Does not check the signature: that takes the
+ * secret, and is the verifier's job.
+ *
+ * Returns `null` unless `token` is a 51-char base64url token of the current
+ * version.
+ */
+export function decodeReplyToken(token: string): DecodedReplyToken | null {
+  if (!TOKEN_PATTERN.test(token)) {
+    return null;
+  }
+  const bytes = Buffer.from(token.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  if (bytes.readUInt8(0) !== REPLY_TOKEN_VERSION) {
+    return null;
+  }
+  return {
+    kid: bytes.readUInt8(1),
+    convId: bytes.subarray(2, 10),
+    sendId: bytes.subarray(10, 18),
+    exp: bytes.readUInt32BE(18),
+    mac: bytes.subarray(PAYLOAD_LEN),
+  };
+}
+
 /**
  * Generate a random 11-char base64url conversation id (8 random bytes).
  */
@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReputationCircuitOpenError, ValidationError } from './errors';
+import { ReputationGuard } from './reputation';
+import type { EmailStatus, ReputationGuardConfig } from './types';
+
+// Mock the command constructors to just pass through input
+vi.mock('@aws-sdk/client-ses', () => ({
+  GetSendStatisticsCommand: vi.fn(function (this: any, input: any) {
+    Object.assign(this, input);
+  }),
+}));
+
+vi.mock('@aws-sdk/client-sesv2', () => ({
+  BatchGetMetricDataCommand: vi.fn(function (this: any, input: any) {
+    Object.assign(this, input);
+  }),
+}));
+
+function vdmResponse(sends: number, bounces: number, complaints: number) {
+  return {
+    Results: [
+      { Id: 'SEND', Values: [sends - 10, 10] },
+      { Id: 'PERMANENT_BOUNCE', Values: [bounces] },
+      { Id: 'COMPLAINT', Values: [complaints] },
+    ],
+    Errors: [],
+    $metadata: { requestId: 'req-1' },
+  };
+}
+
+/** One 15-minute bucket `minutesAgo` minutes back. */
+function dataPoint(minutesAgo: number, deliveryAttempts: number, bounces: number, complaints = 0) {
+  return {
+    Timestamp: new Date(Date.now() - minutesAgo * 60 * 1000),
+    DeliveryAttempts: deliveryAttempts,
+    Bounces: bounces,
+    Complaints: complaints,
+    Rejects: 0,
+  };
+}
+
+function email(messageId: string, ...types: string[]): EmailStatus {
+  return {
+    messageId,
+    from: 'news@acme.test',
+    to: ['ada@example.com'],
+    subject: 'Offer',
+    status: 'sent',
+    sentAt: 1,
+    lastEventAt: 1,
+    events: [{ type: 'send', timestamp: 1 }, ...types.map((type) => ({ type, timestamp: 2 }))],
+  };
+}
+
+const promotional = [{ promotional: true }];
+
+describe('ReputationGuard', () => {
+  let mockSesSend: ReturnType<typeof vi.fn>;
+  let mockSend: ReturnType<typeof vi.fn>;
+  let mockList: ReturnType<typeof vi.fn>;
+  let onEvent: ReturnType<typeof vi.fn>;
+
+  const guard = (config: ReputationGuardConfig = {}) =>
+    new ReputationGuard(
+      { onEvent, ...config },
+      { send: mockSesSend } as any,
+      { send: mockSend } as any,
+      { list: mockList } as any
+    );
+  const vdmGuard = (config: ReputationGuardConfig = {}) =>
+    guard({ sendStatistics: false, vdm: true, ...config });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSesSend = vi.fn();
+    mockSend = vi.fn();
+    mockList = vi.fn();
+    onEvent = vi.fn();
+  });
+
+  describe('config', () => {
+    it('should reject bad thresholds and missing sources', () => {
+      expect(() => guard({ maxBounceRate: 5 })).toThrow(
+        'reputationGuard.maxBounceRate must be a fraction from 0 to 1'
+      );
+      expect(() => guard({ sendStatistics: false })).toThrow(ValidationError);
+      expect(
+        () =>
+          new ReputationGuard(
+            { events: { accountId: '123' } },
+            { send: mockSesSend } as any,
+            { send: mockSend } as any,
+            null
+          )
+      ).toThrow('reputationGuard.events requires historyTableName');
+    });
+  });
+
+  describe('isPromotional', () => {
+    it('should honour the option over the tag', () => {
+      const reputation = guard({ promotionalTag: { name: 'stream', value: 'marketing' } });
+
+      expect(reputation.isPromotional({ tags: { stream: 'marketing' } })).toBe(true);
+      expect(reputation.isPromotional({ tags: { stream: 'receipts' } })).toBe(false);
+      expect(reputation.isPromotional({ promotional: false, tags: { stream: 'marketing' } })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('check', () => {
+    it('should not read rates for transactional sends', async () => {
+      await guard().check('send', [{}, { tags: { category: 'receipts' } }]);
+
+      expect(mockSesSend).not.toHaveBeenCalled();
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should trip on send statistics by default, counting only buckets in the window', async () => {
+      mockSesSend.mockResolvedValue({
+        SendDataPoints: [
+          dataPoint(15, 600, 30),
+          dataPoint(60, 400, 20),
+          // Outside the 24-hour window
+          dataPoint(25 * 60, 5000, 0),
+        ],
+      });
+
+      const error = await guard()
+        .check('send', promotional)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ReputationCircuitOpenError);
+      expect(error.reasons).toEqual(['bounce rate 5% (sendStatistics) exceeds 4%']);
+      expect(error.metrics).toEqual([
+        {
+          source: 'sendStatistics',
+          sends: 1000,
+          bounces: 50,
+          complaints: 0,
+          bounceRate: 0.05,
+          complaintRate: 0,
+        },
+      ]);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should trip on VDM rates and refuse promotional sends', async () => {
+      mockSend.mockResolvedValue(vdmResponse(1000, 10, 2));
+      const reputation = vdmGuard();
+
+      const error = await reputation.check('sendBatch', promotional).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ReputationCircuitOpenError);
+      expect(error.reasons).toEqual(['complaint rate 0.2% (vdm) exceeds 0.08%']);
+      expect(error.metrics[0]).toMatchObject({ source: 'vdm', sends: 1000, complaints: 2 });
+      expect(mockSend.mock.calls[0][0].Queries.map((query: any) => query.Metric)).toEqual([
+        'SEND',
+        'PERMANENT_BOUNCE',
+        'COMPLAINT',
+      ]);
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual(['tripped', 'blocked']);
+    });
+
+    it('should reuse a reading within refreshIntervalMs', async () => {
+      mockSend.mockResolvedValue(vdmResponse(1000, 0, 0));
+      const reputation = vdmGuard();
+
+      await reputation.check('send', promotional);
+      await reputation.check('send', promotional);
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore a source below minSends', async () => {
+      mockSend.mockResolvedValue(vdmResponse(50, 25, 0));
+
+      await expect(vdmGuard().check('send', promotional)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should count hard bounces and complaints from event history', async () => {
+      mockList
+        .mockResolvedValueOnce({
+          emails: [
+            email('m1', 'bounce'),
+            email('m2', 'complaint'),
+            {
+              ...email('m3', 'bounce'),
+              events: [{ type: 'bounce', timestamp: 2, metadata: { bounceType: 'Transient' } }],
+            },
+          ],
+          nextToken: 'next',
+        })
+        .mockResolvedValueOnce({ emails: [email('m4', 'delivery')] });
+
+      const status = await guard({
+        sendStatistics: false,
+        minSends: 1,
+        events: { accountId: '123456789012' },
+      }).refresh();
+
+      expect(mockList.mock.calls[1][0]).toMatchObject({
+        accountId: '123456789012',
+        continuationToken: 'next',
+      });
+      expect(status.metrics).toEqual([
+        {
+          source: 'events',
+          sends: 4,
+          bounces: 1,
+          complaints: 1,
+          bounceRate: 0.25,
+          complaintRate: 0.25,
+        },
+      ]);
+      expect(status.state).toBe('open');
+    });
+
+    it('should recover once rates fall back under the thresholds', async () => {
+      mockSend
+        .mockResolvedValueOnce(vdmResponse(1000, 100, 0))
+        .mockResolvedValueOnce(vdmResponse(1000, 10, 0));
+      const reputation = vdmGuard();
+
+      await reputation.refresh();
+      const status = await reputation.refresh();
+
+      expect(status).toMatchObject({ state: 'closed', reasons: [] });
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual(['tripped', 'recovered']);
+    });
+
+    it('should keep the last verdict and report the error when every source fails', async () => {
+      mockSend.mockResolvedValueOnce(vdmResponse(1000, 100, 0)).mockResolvedValueOnce({
+        Results: [],
+        Errors: [{ Id: 'SEND', Code: 'ACCESS_DENIED', Message: 'VDM is not enabled' }],
+        $metadata: {},
+      });
+      const reputation = vdmGuard();
+
+      await reputation.refresh();
+      const status = await reputation.refresh();
+
+      expect(status.state).toBe('open');
+      expect(onEvent.mock.calls[1][0]).toMatchObject({ type: 'error' });
+      expect(onEvent.mock.calls[1][0].error.message).toContain('VDM is not enabled');
+    });
+  });
+});
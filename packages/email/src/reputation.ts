@@ -0,0 +1,338 @@
+import type { GetSendStatisticsCommandOutput, SESClient } from '@aws-sdk/client-ses';
+import { GetSendStatisticsCommand } from '@aws-sdk/client-ses';
+import type { BatchGetMetricDataCommandOutput, SESv2Client } from '@aws-sdk/client-sesv2';
+import { BatchGetMetricDataCommand } from '@aws-sdk/client-sesv2';
+import { mapAwsSdkError, ReputationCircuitOpenError, SESError, ValidationError } from './errors';
+import type { WrapsEmailEvents } from './events';
+import type {
+  ReputationGuardConfig,
+  ReputationGuardEvent,
+  ReputationGuardStatus,
+  ReputationMetrics,
+} from './types';
+
+const DEFAULT_MAX_BOUNCE_RATE = 0.04;
+const DEFAULT_MAX_COMPLAINT_RATE = 0.0008;
+const DEFAULT_MIN_SENDS = 100;
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_MESSAGES = 1000;
+const DEFAULT_PROMOTIONAL_TAG = { name: 'category', value: 'promotional' };
+
+/** What decides whether one message is promotional. */
+interface PromotionalMarker {
+  promotional?: boolean;
+  tags?: Record<string, string>;
+}
+
+function formatRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+function assertRate(value: number | undefined, field: string): void {
+  if (value !== undefined && !(value >= 0 && value <= 1)) {
+    throw new ValidationError(`reputationGuard.${field} must be a fraction from 0 to 1`, field);
+  }
+}
+
+function toMetrics(
+  source: ReputationMetrics['source'],
+  sends: number,
+  bounces: number,
+  complaints: number
+): ReputationMetrics {
+  return {
+    source,
+    sends,
+    bounces,
+    complaints,
+    bounceRate: sends > 0 ? bounces / sends : 0,
+    complaintRate: sends > 0 ? complaints / sends : 0,
+  };
+}
+
+/**
+ * Applies a {@link ReputationGuardConfig}. Rates are read lazily: only a
+ * promotional send waits on a refresh, and only when the last reading is older
+ * than `refreshIntervalMs`. A source that fails to read is left out of the
+ * reading and reported through `onEvent`; when every source fails the
+ * previous state stands.
+ */
+export class ReputationGuard {
+  private readonly maxBounceRate: number;
+  private readonly maxComplaintRate: number;
+  private readonly minSends: number;
+  private readonly windowMs: number;
+  private readonly refreshIntervalMs: number;
+  private readonly promotionalTag: { name: string; value: string };
+  private readonly onEvent: ((event: ReputationGuardEvent) => void) | undefined;
+  private readonly eventsSource: { accountId: string; maxMessages: number } | null;
+  private readonly sendStatistics: boolean;
+  private readonly vdm: boolean;
+
+  private current: ReputationGuardStatus = { state: 'closed', reasons: [], metrics: [] };
+  /** In-flight refresh, shared by concurrent sends. */
+  private refreshing: Promise<ReputationGuardStatus> | undefined;
+
+  constructor(
+    config: ReputationGuardConfig,
+    private readonly sesClient: SESClient,
+    private readonly sesv2Client: SESv2Client,
+    private readonly events: WrapsEmailEvents | null
+  ) {
+    assertRate(config.maxBounceRate, 'maxBounceRate');
+    assertRate(config.maxComplaintRate, 'maxComplaintRate');
+    if (config.events && !events) {
+      throw new ValidationError(
+        'reputationGuard.events requires historyTableName',
+        'historyTableName'
+      );
+    }
+    if (config.events && !config.events.accountId) {
+      throw new ValidationError('reputationGuard.events.accountId is required', 'accountId');
+    }
+    this.sendStatistics = config.sendStatistics ?? true;
+    this.vdm = config.vdm ?? false;
+    if (!config.events && !this.sendStatistics && !this.vdm) {
+      throw new ValidationError(
+        'reputationGuard needs a source: set events or vdm, or leave sendStatistics enabled',
+        'reputationGuard'
+      );
+    }
+
+    this.maxBounceRate = config.maxBounceRate ?? DEFAULT_MAX_BOUNCE_RATE;
+    this.maxComplaintRate = config.maxComplaintRate ?? DEFAULT_MAX_COMPLAINT_RATE;
+    this.minSends = config.minSends ?? DEFAULT_MIN_SENDS;
+    this.windowMs = config.windowMs ?? DEFAULT_WINDOW_MS;
+    this.refreshIntervalMs = config.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS;
+    this.promotionalTag = config.promotionalTag ?? DEFAULT_PROMOTIONAL_TAG;
+    this.onEvent = config.onEvent;
+    this.eventsSource = config.events
+      ? {
+          accountId: config.events.accountId,
+          maxMessages: config.events.maxMessages ?? DEFAULT_MAX_MESSAGES,
+        }
+      : null;
+  }
+
+  /** The breaker's last reading. Does not read rates. */
+  status(): ReputationGuardStatus {
+    return { ...this.current, reasons: [...this.current.reasons] };
+  }
+
+  /**
+   * Read rates now and open or close the breaker on them, whatever the age
+   * of the last reading.
+   */
+  async refresh(): Promise<ReputationGuardStatus> {
+    if (!this.refreshing) {
+      this.refreshing = this.read().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * `promotional` decides when set, so `promotional: false` overrides the tag.
+   */
+  isPromotional(marker: PromotionalMarker): boolean {
+    return (
+      marker.promotional ?? marker.tags?.[this.promotionalTag.name] === this.promotionalTag.value
+    );
+  }
+
+  /**
+   * Refuse an operation that carries any promotional message while the
+   * breaker is open. Operations with no promotional message return at once.
+   *
+   * @throws {ReputationCircuitOpenError} When the breaker is open.
+   */
+  async check(operation: string, messages: PromotionalMarker[]): Promise<void> {
+    if (!messages.some((message) => this.isPromotional(message))) {
+      return;
+    }
+
+    const checkedAt = this.current.checkedAt?.getTime() ?? 0;
+    const status =
+      Date.now() - checkedAt >= this.refreshIntervalMs ? await this.refresh() : this.status();
+    if (status.state === 'open') {
+      this.emit({ type: 'blocked', operation, status });
+      throw new ReputationCircuitOpenError(
+        `${operation} refused: promotional sends are paused while ${status.reasons.join('; ')}. Transactional sends are unaffected.`,
+        status.reasons,
+        status.metrics
+      );
+    }
+  }
+
+  private async read(): Promise<ReputationGuardStatus> {
+    const readers: Array<() => Promise<ReputationMetrics>> = [];
+    const { events, eventsSource } = this;
+    if (events && eventsSource) {
+      readers.push(() => this.readEvents(events, eventsSource));
+    }
+    if (this.sendStatistics) {
+      readers.push(() => this.readSendStatistics());
+    }
+    if (this.vdm) {
+      readers.push(() => this.readVdm());
+    }
+
+    const metrics: ReputationMetrics[] = [];
+    for (const result of await Promise.allSettled(readers.map((reader) => reader()))) {
+      if (result.status === 'fulfilled') {
+        metrics.push(result.value);
+      } else {
+        this.emit({ type: 'error', error: result.reason });
+      }
+    }
+
+    const checkedAt = new Date();
+    if (metrics.length === 0) {
+      // Nothing to judge by: keep the last verdict, but back off until the next interval
+      this.current = { ...this.current, checkedAt };
+      return this.status();
+    }
+
+    const reasons: string[] = [];
+    for (const reading of metrics) {
+      if (reading.sends < this.minSends) {
+        continue;
+      }
+      if (reading.bounceRate > this.maxBounceRate) {
+        reasons.push(
+          `bounce rate ${formatRate(reading.bounceRate)} (${reading.source}) exceeds ${formatRate(this.maxBounceRate)}`
+        );
+      }
+      if (reading.complaintRate > this.maxComplaintRate) {
+        reasons.push(
+          `complaint rate ${formatRate(reading.complaintRate)} (${reading.source}) exceeds ${formatRate(this.maxComplaintRate)}`
+        );
+      }
+    }
+
+    const previous = this.current.state;
+    this.current = { state: reasons.length > 0 ? 'open' : 'closed', reasons, metrics, checkedAt };
+    if (previous === 'closed' && this.current.state === 'open') {
+      this.emit({ type: 'tripped', status: this.status() });
+    } else if (previous === 'open' && this.current.state === 'closed') {
+      this.emit({ type: 'recovered', status: this.status() });
+    }
+    return this.status();
+  }
+
+  /** Hard bounces and complaints among the most recent messages in the history table. */
+  private async readEvents(
+    events: WrapsEmailEvents,
+    { accountId, maxMessages }: { accountId: string; maxMessages: number }
+  ): Promise<ReputationMetrics> {
+    const startTime = new Date(Date.now() - this.windowMs);
+    let sends = 0;
+    let bounces = 0;
+    let complaints = 0;
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await events.list({
+        accountId,
+        startTime,
+        maxResults: Math.min(100, maxMessages - sends),
+        continuationToken,
+      });
+      for (const email of page.emails) {
+        sends++;
+        if (
+          email.events.some(
+            (event) => event.type === 'bounce' && event.metadata?.bounceType !== 'Transient'
+          )
+        ) {
+          bounces++;
+        }
+        if (email.events.some((event) => event.type === 'complaint')) {
+          complaints++;
+        }
+      }
+      continuationToken = page.nextToken;
+    } while (continuationToken && sends < maxMessages);
+
+    return toMetrics('events', sends, bounces, complaints);
+  }
+
+  /**
+   * Account-wide delivery attempts, bounces and complaints from
+   * GetSendStatistics, which every account has: 15-minute buckets covering
+   * the last two weeks, of which those inside the window count.
+   */
+  private async readSendStatistics(): Promise<ReputationMetrics> {
+    const since = Date.now() - this.windowMs;
+
+    let response: GetSendStatisticsCommandOutput;
+    try {
+      response = await this.sesClient.send(new GetSendStatisticsCommand({}));
+    } catch (error) {
+      throw mapAwsSdkError(error, 'SES GetSendStatistics failed');
+    }
+
+    let sends = 0;
+    let bounces = 0;
+    let complaints = 0;
+    for (const point of response.SendDataPoints ?? []) {
+      if (!point.Timestamp || point.Timestamp.getTime() < since) {
+        continue;
+      }
+      sends += point.DeliveryAttempts ?? 0;
+      bounces += point.Bounces ?? 0;
+      complaints += point.Complaints ?? 0;
+    }
+    return toMetrics('sendStatistics', sends, bounces, complaints);
+  }
+
+  /** Account-wide sends, hard bounces and complaints from VDM. */
+  private async readVdm(): Promise<ReputationMetrics> {
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - this.windowMs);
+    const metrics = ['SEND', 'PERMANENT_BOUNCE', 'COMPLAINT'] as const;
+
+    let response: BatchGetMetricDataCommandOutput;
+    try {
+      response = await this.sesv2Client.send(
+        new BatchGetMetricDataCommand({
+          Queries: metrics.map((metric) => ({
+            Id: metric,
+            Namespace: 'VDM',
+            Metric: metric,
+            StartDate: startDate,
+            EndDate: endDate,
+          })),
+        })
+      );
+    } catch (error) {
+      throw mapAwsSdkError(error, 'SES BatchGetMetricData failed');
+    }
+
+    const failed = response.Errors?.[0];
+    if (failed) {
+      throw new SESError(
+        `VDM metric ${failed.Id} unavailable: ${failed.Message ?? failed.Code}. Is VDM enabled on the account?`,
+        failed.Code ?? 'MetricUnavailable',
+        response.$metadata?.requestId ?? 'unknown',
+        false
+      );
+    }
+    const total = (id: string): number =>
+      (response.Results?.find((result) => result.Id === id)?.Values ?? []).reduce(
+        (sum, value) => sum + value,
+        0
+      );
+    return toMetrics('vdm', total('SEND'), total('PERMANENT_BOUNCE'), total('COMPLAINT'));
+  }
+
+  private emit(event: ReputationGuardEvent): void {
+    try {
+      this.onEvent?.(event);
+    } catch {
+      // An alerting hook must not decide whether mail goes out
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SandboxError, SESError } from './errors';
+import { isRetryableError, nextRetryDelay, withRetry } from './retry';
+
+/** SES rate limiting as the AWS SDK surfaces it. */
+const throttled = () =>
+  Object.assign(new Error('Maximum sending rate exceeded.'), {
+    name: 'Throttling',
+    $metadata: { requestId: 'req-throttle', httpStatusCode: 400 },
+  });
+
+const rejected = () =>
+  Object.assign(new Error('Email address is not verified.'), {
+    name: 'MessageRejected',
+    $metadata: { requestId: 'req-rejected', httpStatusCode: 400 },
+  });
+
+describe('isRetryableError', () => {
+  it('accepts throttling by name even without the SDK $retryable flag', () => {
+    expect(isRetryableError(throttled())).toBe(true);
+  });
+
+  it('accepts 5xx responses and socket failures', () => {
+    expect(isRetryableError({ name: 'InternalFailure', $metadata: { httpStatusCode: 503 } })).toBe(
+      true
+    );
+    expect(
+      isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+    ).toBe(true);
+  });
+
+  it('rejects permanent SES failures', () => {
+    expect(isRetryableError(rejected())).toBe(false);
+  });
+
+  it('never retries a credential-chain failure', () => {
+    const error = Object.assign(new Error('Could not load credentials from any providers'), {
+      name: 'CredentialsProviderError',
+    });
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  it('reads the flag off an already-mapped SESError', () => {
+    expect(isRetryableError(new SESError('slow down', 'Throttling', 'r', true))).toBe(true);
+    expect(isRetryableError(new SandboxError('nope', 'MessageRejected', 'r', false))).toBe(false);
+  });
+});
+
+describe('nextRetryDelay', () => {
+  it('doubles the backoff per attempt up to maxDelayMs', () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 300, jitter: 'none' as const, maxAttempts: 5 };
+    const now = Date.now();
+
+    expect(nextRetryDelay(policy, 1, now)).toBe(100);
+    expect(nextRetryDelay(policy, 2, now)).toBe(200);
+    expect(nextRetryDelay(policy, 3, now)).toBe(300);
+  });
+
+  it('keeps full-jitter delays within the backoff cap', () => {
+    const policy = { baseDelayMs: 100, maxAttempts: 5 };
+    for (let i = 0; i < 50; i++) {
+      const delay = nextRetryDelay(policy, 3, Date.now()) as number;
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(400);
+    }
+  });
+
+  it('returns null once maxAttempts is spent', () => {
+    expect(nextRetryDelay({ maxAttempts: 2 }, 2, Date.now())).toBeNull();
+  });
+
+  it('returns null when waiting would exceed maxElapsedMs', () => {
+    const policy = { baseDelayMs: 1000, jitter: 'none' as const, maxElapsedMs: 1500 };
+    expect(nextRetryDelay(policy, 1, Date.now() - 1000)).toBeNull();
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the call exactly once without a policy', async () => {
+    const fn = vi.fn().mockRejectedValue(throttled());
+
+    await expect(withRetry(undefined, 'send', fn)).rejects.toThrow('Maximum sending rate');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a throttled call and resolves with the eventual result', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(throttled()).mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    const result = await withRetry({ baseDelayMs: 0, onRetry }, 'sendTemplate', fn);
+
+    expect(result).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    const event = onRetry.mock.calls[0][0];
+    expect(event).toMatchObject({ operation: 'sendTemplate', attempt: 1 });
+    // The hook sees the mapped error, not raw AWS SDK internals.
+    expect(event.error).toBeInstanceOf(SESError);
+    expect(event.error.code).toBe('Throttling');
+  });
+
+  it('does not retry a permanent failure', async () => {
+    const fn = vi.fn().mockRejectedValue(rejected());
+    const onRetry = vi.fn();
+
+    await expect(withRetry({ baseDelayMs: 0, onRetry }, 'send', fn)).rejects.toMatchObject({
+      name: 'MessageRejected',
+    });
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('gives up after maxAttempts and rethrows the last raw error', async () => {
+    const fn = vi.fn().mockRejectedValue(throttled());
+
+    await expect(withRetry({ maxAttempts: 3, baseDelayMs: 0 }, 'send', fn)).rejects.toMatchObject({
+      name: 'Throttling',
+    });
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits the backoff between attempts', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn().mockRejectedValueOnce(throttled()).mockResolvedValue('ok');
+
+    const pending = withRetry({ baseDelayMs: 1000, jitter: 'none' }, 'send', fn);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts when onRetry rejects', async () => {
+    const fn = vi.fn().mockRejectedValue(throttled());
+    const onRetry = vi.fn().mockRejectedValue(new Error('circuit open'));
+
+    await expect(withRetry({ baseDelayMs: 0, onRetry }, 'send', fn)).rejects.toThrow(
+      'circuit open'
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,141 @@
+import { isCredentialsChainError, mapAwsSdkError, SESError } from './errors';
+import type { RetryEvent, RetryPolicy } from './types';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 200;
+const DEFAULT_MAX_DELAY_MS = 5_000;
+
+/**
+ * Error names AWS uses for rate limiting. The SDK flags most of them with
+ * `$retryable.throttling`, but SES v1 reports "Maximum sending rate exceeded"
+ * as a plain `Throttling` error on some paths, so check the name as well.
+ */
+const THROTTLING_ERROR_NAMES = new Set([
+  'Throttling',
+  'ThrottlingException',
+  'TooManyRequestsException',
+  'LimitExceededException',
+]);
+
+/** Socket-level failures: the request may never have reached SES. */
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+]);
+
+/**
+ * True when an error from an SES call is worth retrying: throttling, a 5xx from
+ * SES, or a network failure. Accepts both raw AWS SDK errors and errors already
+ * mapped by {@link mapAwsSdkError}.
+ *
+ * A credential-chain failure is never retryable — nothing was signed, and
+ * retrying only delays the actionable `CredentialsError`.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof SESError) {
+    return error.retryable;
+  }
+  if (isCredentialsChainError(error)) {
+    return false;
+  }
+
+  const err = error as {
+    name?: string;
+    code?: string;
+    $retryable?: unknown;
+    $metadata?: { httpStatusCode?: number };
+  };
+  if (!err || typeof err !== 'object') {
+    return false;
+  }
+  if (err.$retryable) {
+    return true;
+  }
+  if (typeof err.name === 'string' && THROTTLING_ERROR_NAMES.has(err.name)) {
+    return true;
+  }
+  const status = err.$metadata?.httpStatusCode;
+  if (typeof status === 'number' && status >= 500) {
+    return true;
+  }
+  return (
+    err.name === 'TimeoutError' ||
+    (typeof err.code === 'string' && TRANSIENT_NETWORK_CODES.has(err.code))
+  );
+}
+
+/**
+ * Delay before the retry that follows `attempt` (1-based), or `null` when the
+ * policy allows no further attempt — either `maxAttempts` is spent or waiting
+ * would push the operation past `maxElapsedMs`.
+ *
+ * Exponential backoff capped at `maxDelayMs`. With the default full jitter the
+ * delay is drawn uniformly from `[0, cap]`, so concurrent senders throttled at
+ * the same moment don't retry in lockstep.
+ */
+export function nextRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  startedAt: number
+): number | null {
+  const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  if (attempt >= maxAttempts) {
+    return null;
+  }
+
+  const base = policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const cap = Math.min(base * 2 ** (attempt - 1), policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS);
+  const delayMs = policy.jitter === 'none' ? cap : Math.floor(Math.random() * cap);
+
+  if (policy.maxElapsedMs !== undefined && Date.now() - startedAt + delayMs > policy.maxElapsedMs) {
+    return null;
+  }
+  return delayMs;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run one SES call under a retry policy. Without a policy the call runs exactly
+ * once, which is the behaviour every send path had before retries existed.
+ *
+ * Errors propagate raw so the caller still maps them once, with the resolved
+ * region — `onRetry` alone sees a mapped error, since that is what user code
+ * knows how to inspect.
+ */
+export async function withRetry<T>(
+  policy: RetryPolicy | undefined,
+  operation: RetryEvent['operation'],
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!policy) {
+    return fn();
+  }
+
+  const startedAt = Date.now();
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = nextRetryDelay(policy, attempt, startedAt);
+      if (delayMs === null) {
+        throw error;
+      }
+      await policy.onRetry?.({
+        operation,
+        attempt,
+        delayMs,
+        error: mapAwsSdkError(error, 'SES request failed'),
+      });
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { SES_SIMULATOR_SUCCESS, ValidationError } from './errors';
+import { SafeMode } from './safe-mode';
+
+describe('SafeMode', () => {
+  const safeMode = new SafeMode({
+    allowedRecipients: ['QA@Example.com'],
+    allowedDomains: ['@team.test'],
+  });
+
+  it('leaves a message with only allowed recipients untouched', () => {
+    expect(
+      safeMode.rewrite({ to: ['qa@example.com', { email: 'dev@team.test', name: 'Dev' }] })
+    ).toBeNull();
+  });
+
+  it('redirects everyone else to the mailbox simulator, once per message', () => {
+    const rewrite = safeMode.rewrite({
+      to: ['qa@example.com', 'customer@gmail.com'],
+      cc: 'Other Customer <other@gmail.com>',
+      bcc: ['audit@gmail.com'],
+    });
+
+    expect(rewrite).toEqual({
+      to: ['qa@example.com', SES_SIMULATOR_SUCCESS],
+      headers: {
+        'X-Original-To': 'qa@example.com, customer@gmail.com, Other Customer <other@gmail.com>',
+      },
+    });
+  });
+
+  it('never lists Bcc recipients in the headers', () => {
+    const rewrite = safeMode.rewrite({
+      to: 'qa@example.com',
+      bcc: ['audit@gmail.com', 'dev@team.test'],
+    });
+
+    expect(rewrite?.bcc).toEqual([SES_SIMULATOR_SUCCESS, 'dev@team.test']);
+    expect(rewrite?.headers).toEqual({ 'X-Original-To': 'qa@example.com' });
+    expect(JSON.stringify(rewrite?.headers)).not.toMatch(/audit@gmail\.com|dev@team\.test/);
+  });
+
+  it('redirects to a configured catch-all', () => {
+    const catchAll = new SafeMode({ redirectTo: 'staging-inbox@team.test' });
+
+    expect(catchAll.rewrite({ to: 'customer@gmail.com' })?.to).toEqual(['staging-inbox@team.test']);
+  });
+
+  it('drops recipients in drop mode, falling back to the redirect when none remain', () => {
+    const dropping = new SafeMode({ action: 'drop', allowedDomains: ['team.test'] });
+
+    expect(
+      dropping.rewrite({ to: ['customer@gmail.com', 'dev@team.test'], cc: 'x@gmail.com' })
+    ).toMatchObject({ to: ['dev@team.test'] });
+    expect(dropping.rewrite({ to: 'customer@gmail.com' })?.to).toEqual([SES_SIMULATOR_SUCCESS]);
+  });
+
+  it('prefixes subjects', () => {
+    expect(safeMode.subject('Your receipt')).toBe('[safe-mode] Your receipt');
+    expect(new SafeMode({ subjectPrefix: '[staging]' }).subject('Hi')).toBe('[staging] Hi');
+  });
+
+  it('rejects a redirect target that is not an address', () => {
+    expect(() => new SafeMode({ redirectTo: 'nowhere' })).toThrow(ValidationError);
+  });
+});
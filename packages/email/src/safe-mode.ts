@@ -0,0 +1,120 @@
+import { SES_SIMULATOR_SUCCESS, ValidationError } from './errors';
+import type { EmailAddress, SafeModeConfig } from './types';
+import { assertNoHeaderInjection } from './utils/headers';
+import { normalizeEmailAddresses } from './utils/validation';
+
+export const DEFAULT_SAFE_MODE_SUBJECT_PREFIX = '[safe-mode]';
+
+type AddressList = string | string[] | EmailAddress | EmailAddress[] | (string | EmailAddress)[];
+
+/** One message's recipients after safe mode rewrote at least one of them. */
+export interface SafeModeRewrite {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  /** `X-Original-To`, listing the caller's To and Cc recipients. */
+  headers: Record<string, string>;
+}
+
+/** The bare address inside `"Name" <addr>`, lower-cased for comparison. */
+function bareAddress(address: string): string {
+  const angle = /<([^>]*)>\s*$/.exec(address);
+  return (angle ? angle[1] : address).trim().toLowerCase();
+}
+
+/**
+ * Applies a {@link SafeModeConfig} to outgoing recipients. Stateless: every
+ * send path asks it to rewrite its own recipient lists.
+ */
+export class SafeMode {
+  private readonly allowedRecipients: Set<string>;
+  private readonly allowedDomains: Set<string>;
+  private readonly drop: boolean;
+  private readonly redirectTo: string;
+  /** Prepended to the subject of rewritten messages. */
+  readonly subjectPrefix: string;
+
+  constructor(config: SafeModeConfig) {
+    this.allowedRecipients = new Set(
+      (config.allowedRecipients ?? []).map((address) => address.trim().toLowerCase())
+    );
+    this.allowedDomains = new Set(
+      (config.allowedDomains ?? []).map((domain) => domain.trim().toLowerCase().replace(/^@/, ''))
+    );
+    this.drop = config.action === 'drop';
+    this.redirectTo = config.redirectTo ?? SES_SIMULATOR_SUCCESS;
+    this.subjectPrefix = config.subjectPrefix ?? DEFAULT_SAFE_MODE_SUBJECT_PREFIX;
+
+    if (!this.redirectTo.includes('@')) {
+      throw new ValidationError('safeMode.redirectTo must be an email address', 'redirectTo');
+    }
+    assertNoHeaderInjection(this.redirectTo, 'redirectTo');
+    assertNoHeaderInjection(this.subjectPrefix, 'subjectPrefix');
+  }
+
+  isAllowed(address: string): boolean {
+    const bare = bareAddress(address);
+    if (this.allowedRecipients.has(bare)) {
+      return true;
+    }
+    const domain = bare.slice(bare.lastIndexOf('@') + 1);
+    return this.allowedDomains.has(domain);
+  }
+
+  /**
+   * Rewrite one message's recipients.
+   *
+   * @returns `null` when every recipient is allowed — the message goes out
+   *   untouched, with no header or subject prefix.
+   */
+  rewrite(recipients: {
+    to: AddressList;
+    cc?: AddressList;
+    bcc?: AddressList;
+  }): SafeModeRewrite | null {
+    const to = normalizeEmailAddresses(recipients.to);
+    const cc = recipients.cc ? normalizeEmailAddresses(recipients.cc) : [];
+    const bcc = recipients.bcc ? normalizeEmailAddresses(recipients.bcc) : [];
+    if ([...to, ...cc, ...bcc].every((address) => this.isAllowed(address))) {
+      return null;
+    }
+
+    // One copy per message is enough: the catch-all would otherwise receive
+    // the same email once per rewritten recipient.
+    const seen = new Set<string>();
+    const rewriteList = (list: string[]): string[] => {
+      const out: string[] = [];
+      for (const address of list) {
+        const kept = this.isAllowed(address) ? address : this.drop ? null : this.redirectTo;
+        if (kept && !seen.has(bareAddress(kept))) {
+          seen.add(bareAddress(kept));
+          out.push(kept);
+        }
+      }
+      return out;
+    };
+
+    const rewritten: SafeModeRewrite = {
+      to: rewriteList(to),
+      // Bcc stays out: every copy carries the header, and Bcc must stay hidden
+      headers: { 'X-Original-To': [...to, ...cc].join(', ') },
+    };
+    const rewrittenCc = rewriteList(cc);
+    const rewrittenBcc = rewriteList(bcc);
+    if (rewritten.to.length === 0) {
+      rewritten.to = [this.redirectTo];
+    }
+    if (rewrittenCc.length > 0) {
+      rewritten.cc = rewrittenCc;
+    }
+    if (rewrittenBcc.length > 0) {
+      rewritten.bcc = rewrittenBcc;
+    }
+    return rewritten;
+  }
+
+  /** Subject for a rewritten message. */
+  subject(subject: string): string {
+    return `${this.subjectPrefix} ${subject}`;
+  }
+}
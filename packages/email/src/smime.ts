@@ -0,0 +1,251 @@
+import {
+  constants,
+  createCipheriv,
+  createHash,
+  createPrivateKey,
+  type KeyObject,
+  publicEncrypt,
+  randomBytes,
+  sign,
+  X509Certificate,
+} from 'node:crypto';
+import { ValidationError } from './errors';
+import type { SmimeConfig } from './types';
+import {
+  algorithm,
+  explicit,
+  implicitPrimitive,
+  integer,
+  nullValue,
+  octetString,
+  oid,
+  readChildren,
+  readElement,
+  sequence,
+  setOf,
+  time,
+} from './utils/der';
+import { extractEmail } from './utils/validation';
+
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  envelopedData: '1.2.840.113549.1.7.3',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  rsaesOaep: '1.2.840.113549.1.1.7',
+  mgf1: '1.2.840.113549.1.1.8',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  aes256Cbc: '2.16.840.1.101.3.4.1.42',
+};
+
+/** Parsed, checked {@link SmimeConfig}, ready for `buildRawEmailMessage({ smime })`. */
+export interface ResolvedSmime {
+  /** The signing certificate first, then its intermediates. */
+  signer?: { certificates: X509Certificate[]; key: KeyObject };
+  recipients: X509Certificate[];
+}
+
+/**
+ * Parse and check an S/MIME config: certificates and key must parse, the key
+ * must match the signing certificate, and no certificate may have expired.
+ *
+ * @throws {ValidationError} (field `smime.*`) on any of the above, or when
+ *   the config neither signs nor encrypts.
+ */
+export function resolveSmime(config: SmimeConfig): ResolvedSmime {
+  const resolved: ResolvedSmime = {
+    recipients: (config.recipientCertificates ?? []).flatMap((pem) =>
+      parseCertificates(pem, 'smime.recipientCertificates')
+    ),
+  };
+  for (const certificate of resolved.recipients) {
+    if (certificate.publicKey.asymmetricKeyType !== 'rsa') {
+      throw new ValidationError(
+        `smime.recipientCertificates must hold RSA keys (got ${certificate.publicKey.asymmetricKeyType} for ${certificate.subject})`,
+        'smime.recipientCertificates'
+      );
+    }
+  }
+
+  if (config.certificate || config.privateKey) {
+    if (!config.certificate || !config.privateKey) {
+      const missing = config.certificate ? 'privateKey' : 'certificate';
+      throw new ValidationError(
+        `smime.${missing} is required to sign; pass both certificate and privateKey`,
+        `smime.${missing}`
+      );
+    }
+    const certificates = parseCertificates(config.certificate, 'smime.certificate');
+    let key: KeyObject;
+    try {
+      key = createPrivateKey({ key: config.privateKey, passphrase: config.passphrase });
+    } catch (error) {
+      throw new ValidationError(
+        `smime.privateKey could not be read: ${(error as Error).message}`,
+        'smime.privateKey'
+      );
+    }
+    if (key.asymmetricKeyType !== 'rsa' && key.asymmetricKeyType !== 'ec') {
+      throw new ValidationError(
+        `smime.privateKey must be an RSA or EC key (got ${key.asymmetricKeyType})`,
+        'smime.privateKey'
+      );
+    }
+    if (!certificates[0].checkPrivateKey(key)) {
+      throw new ValidationError(
+        'smime.privateKey does not belong to smime.certificate',
+        'smime.privateKey'
+      );
+    }
+    resolved.signer = { certificates, key };
+  }
+
+  if (!resolved.signer && resolved.recipients.length === 0) {
+    throw new ValidationError(
+      'smime needs a certificate and privateKey to sign, recipientCertificates to encrypt, or both',
+      'smime'
+    );
+  }
+  return resolved;
+}
+
+function parseCertificates(pem: string, field: string): X509Certificate[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
+  if (!blocks) {
+    throw new ValidationError(`${field} must be a PEM certificate`, field);
+  }
+  return blocks.map((block) => {
+    let certificate: X509Certificate;
+    try {
+      certificate = new X509Certificate(block);
+    } catch (error) {
+      throw new ValidationError(`${field} could not be read: ${(error as Error).message}`, field);
+    }
+    if (Date.parse(certificate.validTo) < Date.now()) {
+      throw new ValidationError(
+        `${field} for ${certificate.subject} expired on ${certificate.validTo}`,
+        field
+      );
+    }
+    return certificate;
+  });
+}
+
+/**
+ * Check that every recipient can decrypt: each needs a recipient certificate
+ * naming their address. A no-op when not encrypting.
+ *
+ * @throws {ValidationError} listing the recipients without a certificate.
+ */
+export function assertRecipientCertificates(smime: ResolvedSmime, recipients: string[]): void {
+  if (smime.recipients.length === 0) {
+    return;
+  }
+  const missing = recipients
+    .map(extractEmail)
+    .filter((email) => !smime.recipients.some((certificate) => certificate.checkEmail(email)));
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `smime.recipientCertificates has no certificate for ${missing.join(', ')}; they could not read the message`,
+      'smime.recipientCertificates'
+    );
+  }
+}
+
+/** IssuerAndSerialNumber, lifted from the certificate's TBSCertificate. */
+function issuerAndSerial(certificate: X509Certificate): Buffer {
+  const [tbs] = readChildren(readElement(certificate.raw).value);
+  const fields = readChildren(tbs.value);
+  // Skip the optional [0] version
+  const serial = fields[0].tag === 0xa0 ? 1 : 0;
+  return sequence(fields[serial + 2].raw, fields[serial].raw);
+}
+
+function attribute(type: string, value: Buffer): Buffer {
+  return sequence(oid(type), setOf(value));
+}
+
+/**
+ * A detached CMS SignedData over `content` (SHA-256), with the signer's
+ * certificate chain, as DER.
+ */
+export function signDetached(
+  content: Buffer,
+  signer: NonNullable<ResolvedSmime['signer']>
+): Buffer {
+  const signedAttributes = setOf(
+    attribute(OID.contentType, oid(OID.data)),
+    attribute(OID.signingTime, time(new Date())),
+    attribute(OID.messageDigest, octetString(createHash('sha256').update(content).digest()))
+  );
+  // The signature covers the attributes as a SET OF; they are carried as [0] IMPLICIT
+  const signature = sign('sha256', signedAttributes, signer.key);
+  const isEc = signer.key.asymmetricKeyType === 'ec';
+
+  const signerInfo = sequence(
+    integer(1),
+    issuerAndSerial(signer.certificates[0]),
+    algorithm(OID.sha256),
+    explicit(0, readElement(signedAttributes).value),
+    isEc ? algorithm(OID.ecdsaWithSha256) : algorithm(OID.rsaEncryption, nullValue()),
+    octetString(signature)
+  );
+  const signedData = sequence(
+    integer(1),
+    setOf(algorithm(OID.sha256)),
+    sequence(oid(OID.data)),
+    explicit(0, ...signer.certificates.map((certificate) => certificate.raw).sort(Buffer.compare)),
+    setOf(signerInfo)
+  );
+  return sequence(oid(OID.signedData), explicit(0, signedData));
+}
+
+/**
+ * A CMS EnvelopedData holding `content` under a fresh AES-256-CBC key,
+ * wrapped for each recipient with RSAES-OAEP (SHA-256), as DER.
+ */
+export function envelope(content: Buffer, recipients: X509Certificate[]): Buffer {
+  const key = randomBytes(32);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-256-cbc', key, iv);
+  const encrypted = Buffer.concat([cipher.update(content), cipher.final()]);
+
+  const oaep = algorithm(
+    OID.rsaesOaep,
+    sequence(
+      explicit(0, algorithm(OID.sha256)),
+      explicit(1, algorithm(OID.mgf1, algorithm(OID.sha256)))
+    )
+  );
+  const recipientInfos = recipients.map((certificate) =>
+    sequence(
+      integer(0),
+      issuerAndSerial(certificate),
+      oaep,
+      octetString(
+        publicEncrypt(
+          {
+            key: certificate.publicKey,
+            padding: constants.RSA_PKCS1_OAEP_PADDING,
+            oaepHash: 'sha256',
+          },
+          key
+        )
+      )
+    )
+  );
+  const envelopedData = sequence(
+    integer(0),
+    setOf(...recipientInfos),
+    sequence(
+      oid(OID.data),
+      algorithm(OID.aes256Cbc, octetString(iv)),
+      implicitPrimitive(0, encrypted)
+    )
+  );
+  return sequence(oid(OID.envelopedData), explicit(0, envelopedData));
+}
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SuppressedRecipientError, ValidationError } from './errors';
+import type { WrapsEmailSuppression } from './suppression';
+import { SuppressionCheck } from './suppression-check';
+
+function sesList(suppressed: Record<string, 'BOUNCE' | 'COMPLAINT'>) {
+  return {
+    get: vi.fn(async (email: string) =>
+      suppressed[email] ? { email, reason: suppressed[email], lastUpdated: new Date(0) } : null
+    ),
+  };
+}
+
+describe('SuppressionCheck', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should be off unless configured, and let a send opt in', async () => {
+    const ses = sesList({ 'bounced@example.com': 'BOUNCE' });
+    const check = new SuppressionCheck(undefined, ses as unknown as WrapsEmailSuppression);
+
+    expect(await check.screen(undefined, [{ to: 'bounced@example.com' }])).toBeNull();
+    expect(ses.get).not.toHaveBeenCalled();
+
+    expect(await check.screen('skip', [{ to: 'bounced@example.com' }])).toEqual([
+      {
+        to: [],
+        cc: undefined,
+        bcc: undefined,
+        skipped: [{ email: 'bounced@example.com', reason: 'BOUNCE', source: 'ses' }],
+      },
+    ]);
+  });
+
+  it('should ask the app lookup once for every address, then SES for the rest', async () => {
+    const ses = sesList({ 'bounced@example.com': 'BOUNCE' });
+    const lookup = vi.fn(async () => [
+      { email: 'Unsubscribed@Example.com', reason: 'unsubscribed' },
+    ]);
+    const check = new SuppressionCheck({ lookup }, ses as unknown as WrapsEmailSuppression);
+
+    const screened = await check.screen(undefined, [
+      { to: '"Ann" <ann@example.com>', cc: ['unsubscribed@example.com'] },
+      { to: 'bounced@example.com', bcc: 'ann@example.com' },
+    ]);
+
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(lookup).toHaveBeenCalledWith([
+      'ann@example.com',
+      'unsubscribed@example.com',
+      'bounced@example.com',
+    ]);
+    expect(ses.get.mock.calls.map(([email]) => email)).toEqual([
+      'ann@example.com',
+      'bounced@example.com',
+    ]);
+    expect(screened).toEqual([
+      {
+        to: ['"Ann" <ann@example.com>'],
+        cc: undefined,
+        bcc: undefined,
+        skipped: [{ email: 'unsubscribed@example.com', reason: 'unsubscribed', source: 'app' }],
+      },
+      {
+        to: [],
+        cc: undefined,
+        bcc: ['ann@example.com'],
+        skipped: [{ email: 'bounced@example.com', reason: 'BOUNCE', source: 'ses' }],
+      },
+    ]);
+  });
+
+  it('should reuse answers until the cache TTL passes', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const ses = sesList({});
+    const check = new SuppressionCheck(
+      { cacheTtlMs: 1000 },
+      ses as unknown as WrapsEmailSuppression
+    );
+
+    await check.screen(undefined, [{ to: 'a@example.com' }]);
+    await check.screen(undefined, [{ to: 'a@example.com' }]);
+    expect(ses.get).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(1000);
+    await check.screen(undefined, [{ to: 'a@example.com' }]);
+    expect(ses.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache a failed lookup', async () => {
+    const ses = sesList({});
+    ses.get.mockRejectedValueOnce(new Error('Throttling'));
+    const check = new SuppressionCheck({}, ses as unknown as WrapsEmailSuppression);
+
+    await expect(check.screen(undefined, [{ to: 'a@example.com' }])).rejects.toThrow('Throttling');
+    await check.screen(undefined, [{ to: 'a@example.com' }]);
+
+    expect(ses.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should name every suppressed recipient in error mode', async () => {
+    const ses = sesList({ 'a@example.com': 'BOUNCE', 'b@example.com': 'COMPLAINT' });
+    const check = new SuppressionCheck({ mode: 'error' }, ses as unknown as WrapsEmailSuppression);
+
+    const error = await check
+      .screen(undefined, [{ to: 'a@example.com' }, { to: 'c@example.com', cc: 'b@example.com' }])
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SuppressedRecipientError);
+    expect((error as SuppressedRecipientError).recipients.map((r) => r.email)).toEqual([
+      'a@example.com',
+      'b@example.com',
+    ]);
+    await expect(check.screen('off', [{ to: 'a@example.com' }])).resolves.toBeNull();
+  });
+
+  it('should reject an unknown mode', async () => {
+    const ses = sesList({});
+    expect(
+      () => new SuppressionCheck({ mode: 'drop' as never }, ses as unknown as WrapsEmailSuppression)
+    ).toThrow(ValidationError);
+  });
+});
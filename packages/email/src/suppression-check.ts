@@ -0,0 +1,204 @@
+import { SuppressedRecipientError, ValidationError } from './errors';
+import type { WrapsEmailSuppression } from './suppression';
+import type {
+  EmailAddress,
+  SkippedRecipient,
+  SuppressionCheckConfig,
+  SuppressionCheckMode,
+} from './types';
+import { normalizeEmailAddresses } from './utils/validation';
+
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_CONCURRENCY = 10;
+const MODES: readonly SuppressionCheckMode[] = ['skip', 'error', 'off'];
+
+type AddressList = string | EmailAddress | (string | EmailAddress)[];
+
+/** One message's recipients, as a send path hands them over. */
+export interface RecipientLists {
+  to: AddressList;
+  cc?: AddressList;
+  bcc?: AddressList;
+}
+
+/** One message's recipients with the suppressed ones taken out. */
+export interface ScreenedRecipients {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  skipped: SkippedRecipient[];
+}
+
+/** The address inside `"Name" <address>`, lowercased: how suppression lists key it. */
+function bareAddress(address: string): string {
+  const angle = /<([^>]*)>\s*$/.exec(address);
+  return (angle ? angle[1] : address).trim().toLowerCase();
+}
+
+/** Text for a row that was not sent because its recipient is suppressed. */
+export function suppressedError(skipped: SkippedRecipient): string {
+  return `Recipient is suppressed (${skipped.reason}, ${skipped.source})`;
+}
+
+/**
+ * Applies a {@link SuppressionCheckConfig} to outgoing recipients. Every send
+ * path screens all of its recipients in one call, so each uncached address is
+ * looked up once: in a single `lookup` call, then on the SES list.
+ */
+export class SuppressionCheck {
+  private readonly mode: SuppressionCheckMode;
+  private readonly ttlMs: number;
+  private readonly concurrency: number;
+  private readonly cache = new Map<
+    string,
+    { expiresAt: number; entry: Promise<SkippedRecipient | null> }
+  >();
+
+  constructor(
+    private readonly config: SuppressionCheckConfig | undefined,
+    private readonly suppression: WrapsEmailSuppression
+  ) {
+    this.mode = config ? (config.mode ?? 'skip') : 'off';
+    this.assertMode(this.mode, 'suppressionCheck.mode');
+    this.ttlMs = config?.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.concurrency = config?.concurrency ?? DEFAULT_CONCURRENCY;
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new ValidationError(
+        'suppressionCheck.concurrency must be a positive integer',
+        'suppressionCheck.concurrency'
+      );
+    }
+  }
+
+  /**
+   * Take suppressed recipients out of each message, in the send's own mode or
+   * else the client's. `null` when the check is off, so the send goes as asked.
+   *
+   * @throws {SuppressedRecipientError} In `'error'` mode, naming every
+   *   suppressed recipient across the messages.
+   */
+  async screen(
+    requested: SuppressionCheckMode | undefined,
+    messages: RecipientLists[]
+  ): Promise<ScreenedRecipients[] | null> {
+    const mode = requested ?? this.mode;
+    this.assertMode(mode, 'suppressionCheck');
+    if (mode === 'off') {
+      return null;
+    }
+
+    const lists = messages.map((message) => ({
+      to: normalizeEmailAddresses(message.to),
+      cc: message.cc ? normalizeEmailAddresses(message.cc) : undefined,
+      bcc: message.bcc ? normalizeEmailAddresses(message.bcc) : undefined,
+    }));
+    const suppressed = await this.lookup(
+      lists.flatMap((list) => [...list.to, ...(list.cc ?? []), ...(list.bcc ?? [])])
+    );
+
+    if (mode === 'error' && suppressed.size > 0) {
+      const recipients = [...suppressed.values()];
+      throw new SuppressedRecipientError(
+        `Suppressed recipients: ${recipients.map((r) => `${r.email} (${r.reason})`).join(', ')}`,
+        recipients
+      );
+    }
+
+    return lists.map((list) => {
+      const skipped: SkippedRecipient[] = [];
+      const keep = (addresses: string[] | undefined): string[] | undefined => {
+        const kept = addresses?.filter((address) => {
+          const entry = suppressed.get(bareAddress(address));
+          if (entry) {
+            skipped.push(entry);
+          }
+          return !entry;
+        });
+        return kept?.length ? kept : undefined;
+      };
+      return {
+        to: keep(list.to) ?? [],
+        cc: keep(list.cc),
+        bcc: keep(list.bcc),
+        skipped,
+      };
+    });
+  }
+
+  private assertMode(mode: string, field: string): void {
+    if (!MODES.includes(mode as SuppressionCheckMode)) {
+      throw new ValidationError(`${field} must be one of ${MODES.join(', ')}`, field);
+    }
+  }
+
+  /** Suppressed addresses among `addresses`, keyed by bare address. */
+  private async lookup(addresses: string[]): Promise<Map<string, SkippedRecipient>> {
+    const now = Date.now();
+    // Every entry lives equally long and is re-inserted when refreshed, so
+    // the expired ones are at the front
+    for (const [address, cached] of this.cache) {
+      if (cached.expiresAt > now) {
+        break;
+      }
+      this.cache.delete(address);
+    }
+
+    const entries: Array<Promise<SkippedRecipient | null>> = [];
+    const missing: string[] = [];
+    for (const address of new Set(addresses.map(bareAddress))) {
+      const cached = this.cache.get(address);
+      if (cached) {
+        entries.push(cached.entry);
+      } else {
+        missing.push(address);
+      }
+    }
+
+    if (missing.length > 0) {
+      const fetched = this.fetch(missing);
+      for (const address of missing) {
+        const entry = fetched.then((found) => found.get(address) ?? null);
+        this.cache.set(address, { expiresAt: now + this.ttlMs, entry });
+        entries.push(entry);
+        // A failed lookup is not an answer; the next send asks again
+        entry.catch(() => {
+          if (this.cache.get(address)?.entry === entry) {
+            this.cache.delete(address);
+          }
+        });
+      }
+    }
+
+    const suppressed = new Map<string, SkippedRecipient>();
+    for (const entry of await Promise.all(entries)) {
+      if (entry) {
+        suppressed.set(entry.email, entry);
+      }
+    }
+    return suppressed;
+  }
+
+  /** Look `addresses` up in `config.lookup`, then on the SES list. */
+  private async fetch(addresses: string[]): Promise<Map<string, SkippedRecipient>> {
+    const found = new Map<string, SkippedRecipient>();
+    if (this.config?.lookup) {
+      for (const { email, reason } of await this.config.lookup(addresses)) {
+        found.set(bareAddress(email), { email: bareAddress(email), reason, source: 'app' });
+      }
+    }
+
+    if (this.config?.ses !== false) {
+      const queue = addresses.filter((address) => !found.has(address));
+      const worker = async () => {
+        for (let address = queue.shift(); address !== undefined; address = queue.shift()) {
+          const entry = await this.suppression.get(address);
+          if (entry) {
+            found.set(address, { email: address, reason: entry.reason, source: 'ses' });
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(this.concurrency, queue.length) }, worker));
+    }
+    return found;
+  }
+}
@@ -0,0 +1,112 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ValidationError } from './errors';
+import { readTemplateDir, templateApiPacer, templateDiff, templateHash } from './template-sync';
+
+vi.mock('./react', () => ({
+  renderReactEmail: vi.fn().mockResolvedValue({ html: '<p>Rendered</p>', text: 'Rendered' }),
+}));
+
+describe('readTemplateDir', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'wraps-templates-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read subject, HTML and text files by template name', async () => {
+    await writeFile(join(dir, 'welcome.subject.txt'), 'Hi {{name}}\n');
+    await writeFile(join(dir, 'welcome.html'), '<p>Hi {{name}}</p>\n');
+    await writeFile(join(dir, 'receipt.subject.txt'), 'Receipt');
+    await writeFile(join(dir, 'receipt.txt'), 'Total: {{total}}');
+    await writeFile(join(dir, 'README.md'), 'ignored');
+
+    expect(await readTemplateDir(dir)).toEqual([
+      { name: 'receipt', subject: 'Receipt', html: undefined, text: 'Total: {{total}}' },
+      { name: 'welcome', subject: 'Hi {{name}}', html: '<p>Hi {{name}}</p>\n', text: undefined },
+    ]);
+  });
+
+  it('should render a React Email module with its subject export', async () => {
+    await writeFile(
+      join(dir, 'digest.mjs'),
+      "export const subject = 'Your {{period}} digest';\nexport default function Digest() { return null; }\n"
+    );
+
+    expect(await readTemplateDir(dir)).toEqual([
+      {
+        name: 'digest',
+        subject: 'Your {{period}} digest',
+        html: '<p>Rendered</p>',
+        text: 'Rendered',
+      },
+    ]);
+  });
+
+  it('should reject a template without a subject or a body', async () => {
+    await writeFile(join(dir, 'welcome.html'), '<p>Hi</p>');
+    await expect(readTemplateDir(dir)).rejects.toThrow(
+      'Template "welcome" has no welcome.subject.txt'
+    );
+
+    await rm(join(dir, 'welcome.html'));
+    await writeFile(join(dir, 'welcome.subject.txt'), 'Hi');
+    await expect(readTemplateDir(dir)).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject names SES does not allow', async () => {
+    await writeFile(join(dir, 'my template.html'), '<p>Hi</p>');
+
+    await expect(readTemplateDir(dir)).rejects.toThrow('template names may only contain');
+  });
+});
+
+describe('templateHash', () => {
+  it('should treat an empty part as absent', () => {
+    expect(templateHash({ subject: 'Hi', html: '<p>x</p>', text: '' })).toBe(
+      templateHash({ subject: 'Hi', html: '<p>x</p>' })
+    );
+    expect(templateHash({ subject: 'Hi', html: 'x' })).not.toBe(
+      templateHash({ subject: 'Hi', text: 'x' })
+    );
+  });
+});
+
+describe('templateDiff', () => {
+  it('should label each changed part with its file name', () => {
+    const diff = templateDiff(
+      'welcome',
+      { subject: 'Hi', html: '<p>a</p>' },
+      { subject: 'Hello', html: '<p>a</p>' }
+    );
+
+    expect(diff).toContain('--- a/welcome.subject.txt');
+    expect(diff).toContain('-Hi\n+Hello');
+    expect(diff).not.toContain('welcome.html');
+  });
+});
+
+describe('templateApiPacer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should space calls to the requested rate', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const pace = templateApiPacer(2);
+    const times: number[] = [];
+
+    const calls = [pace(), pace(), pace()].map((call) => call.then(() => times.push(Date.now())));
+    await vi.runAllTimersAsync();
+    await Promise.all(calls);
+
+    expect(times).toEqual([0, 500, 1000]);
+    expect(() => templateApiPacer(0)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,174 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type React from 'react';
+import { ValidationError } from './errors';
+import { renderReactEmail } from './react';
+import { sleep } from './retry';
+import { unifiedDiff } from './utils/diff';
+
+// Checked before `.txt`, which it also ends with
+const PART_FILES = [
+  ['.subject.txt', 'subject'],
+  ['.html', 'html'],
+  ['.txt', 'text'],
+] as const;
+
+const MODULE_EXTENSIONS = ['.tsx', '.jsx', '.ts', '.mts', '.js', '.mjs'];
+
+// SES template names: letters, digits, underscores and dashes, up to 64
+const TEMPLATE_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** A template as read from a directory. Either body may be absent, as in SES. */
+export interface LocalTemplate {
+  name: string;
+  subject: string;
+  html?: string;
+  text?: string;
+}
+
+type TemplateContent = Omit<LocalTemplate, 'name'>;
+
+interface TemplateFiles {
+  subject?: string;
+  html?: string;
+  text?: string;
+  module?: string;
+}
+
+function templateName(file: string, suffix: string): string {
+  const name = file.slice(0, -suffix.length);
+  if (!TEMPLATE_NAME.test(name)) {
+    throw new ValidationError(
+      `${file}: template names may only contain letters, digits, _ and -, up to 64 characters`,
+      'dir'
+    );
+  }
+  return name;
+}
+
+/**
+ * Render a React Email module: its default export is the component and its
+ * `subject` export the subject line, SES placeholders included.
+ */
+async function readModule(name: string, path: string): Promise<LocalTemplate> {
+  const loaded = (await import(pathToFileURL(path).href)) as {
+    default?: unknown;
+    subject?: unknown;
+  };
+  if (typeof loaded.subject !== 'string') {
+    throw new ValidationError(`${path} must export a subject string`, 'subject');
+  }
+  if (typeof loaded.default !== 'function') {
+    throw new ValidationError(`${path} must default-export a React component`, 'react');
+  }
+  const { createElement } = await import('react');
+  const { html, text } = await renderReactEmail(
+    createElement(loaded.default as () => React.ReactElement)
+  );
+  return { name, subject: loaded.subject, html, text };
+}
+
+/**
+ * Read the templates in a directory. A template is either a set of files
+ * sharing its name — `welcome.subject.txt` plus `welcome.html` and/or
+ * `welcome.txt` — or one React Email module such as `welcome.tsx`. Other
+ * files are ignored.
+ *
+ * @throws {ValidationError} On a bad name, a missing subject, or a template
+ * given both as files and as a module.
+ */
+export async function readTemplateDir(dir: string): Promise<LocalTemplate[]> {
+  const found = new Map<string, TemplateFiles>();
+  const entry = (name: string): TemplateFiles => {
+    let files = found.get(name);
+    if (!files) {
+      files = {};
+      found.set(name, files);
+    }
+    return files;
+  };
+
+  for (const file of (await readdir(dir)).sort()) {
+    const part = PART_FILES.find(([suffix]) => file.endsWith(suffix));
+    if (part) {
+      const [suffix, key] = part;
+      entry(templateName(file, suffix))[key] = await readFile(join(dir, file), 'utf8');
+      continue;
+    }
+    const extension = MODULE_EXTENSIONS.find((ext) => file.endsWith(ext));
+    if (extension && !file.endsWith(`.d${extension}`)) {
+      entry(templateName(file, extension)).module = join(dir, file);
+    }
+  }
+
+  const templates: LocalTemplate[] = [];
+  for (const [name, files] of found) {
+    if (files.module) {
+      if (files.subject !== undefined || files.html !== undefined || files.text !== undefined) {
+        throw new ValidationError(
+          `Template "${name}" is defined both by ${files.module} and by .subject.txt/.html/.txt files`,
+          'dir'
+        );
+      }
+      templates.push(await readModule(name, files.module));
+      continue;
+    }
+    if (files.subject === undefined) {
+      throw new ValidationError(`Template "${name}" has no ${name}.subject.txt`, 'subject');
+    }
+    if (files.html === undefined && files.text === undefined) {
+      throw new ValidationError(`Template "${name}" has no ${name}.html or ${name}.txt`, 'dir');
+    }
+    // Editors end files with a newline; a subject is one line
+    templates.push({ name, subject: files.subject.trim(), html: files.html, text: files.text });
+  }
+  return templates;
+}
+
+/** SHA-256 of a template's subject, HTML and text. */
+export function templateHash(template: TemplateContent): string {
+  return (
+    createHash('sha256')
+      // SES may return an absent part as an empty string
+      .update(JSON.stringify([template.subject, template.html || null, template.text || null]))
+      .digest('hex')
+  );
+}
+
+/** Unified diff of each part that differs, labelled with its file name. */
+export function templateDiff(
+  name: string,
+  remote: TemplateContent | null,
+  local: TemplateContent | null
+): string {
+  const subject = (template: typeof remote) =>
+    template?.subject === undefined ? '' : `${template.subject}\n`;
+  return [
+    unifiedDiff(subject(remote), subject(local), `${name}.subject.txt`),
+    unifiedDiff(remote?.html ?? '', local?.html ?? '', `${name}.html`),
+    unifiedDiff(remote?.text ?? '', local?.text ?? '', `${name}.txt`),
+  ].join('');
+}
+
+/**
+ * Returns a function that resolves once the next call fits under
+ * `requestsPerSecond`. SES limits the template APIs per account, not per call
+ * type, so one pacer covers every call in a sync.
+ */
+export function templateApiPacer(requestsPerSecond: number): () => Promise<void> {
+  if (!(requestsPerSecond > 0)) {
+    throw new ValidationError('requestsPerSecond must be a positive number', 'requestsPerSecond');
+  }
+  const intervalMs = 1000 / requestsPerSecond;
+  let nextAt = 0;
+  return async () => {
+    const now = Date.now();
+    const waitMs = nextAt - now;
+    nextAt = Math.max(now, nextAt) + intervalMs;
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+  };
+}
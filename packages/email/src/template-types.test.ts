@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from './errors';
+import { generateTemplateTypes, missingTemplateData } from './template-types';
+
+describe('generateTemplateTypes', () => {
+  it('should emit a TemplateDataMap augmentation and the required keys', () => {
+    const source = generateTemplateTypes([
+      {
+        name: 'welcome',
+        subject: 'Hi {{user.name}}',
+        html: '{{#if plan}}<p>{{plan}}</p>{{/if}}{{#each items}}<li>{{title}}</li>{{/each}}',
+      },
+      { name: 'order-shipped', subject: 'Shipped' },
+    ]);
+
+    expect(source).toBe(
+      [
+        '// Generated by generateTemplateTypes() from @wraps.dev/email. Do not edit;',
+        '// regenerate after changing a template.',
+        '',
+        'declare module "@wraps.dev/email" {',
+        '  interface TemplateDataMap {',
+        '    "order-shipped": Record<string, never>;',
+        '    welcome: {',
+        '      user: {',
+        '        name: string | number | boolean;',
+        '      };',
+        '      plan?: string | number | boolean;',
+        '      items?: Array<{',
+        '        title: string | number | boolean;',
+        '      }>;',
+        '    };',
+        '  }',
+        '}',
+        '',
+        '/** Keys each template cannot render without. Pass as `requiredTemplateData`. */',
+        'export const requiredTemplateData: Record<string, readonly string[]> = {',
+        '  "order-shipped": [],',
+        '  welcome: ["user.name"],',
+        '};',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should type keys only tested by a condition as unknown', () => {
+    const source = generateTemplateTypes([
+      { name: 'promo', subject: '{{#unless vip}}Offer{{/unless}} {{#each tags}}{{this}}{{/each}}' },
+    ]);
+
+    expect(source).toContain('vip?: unknown;');
+    expect(source).toContain('tags?: Array<string | number | boolean>;');
+  });
+
+  it('should name the template a helper error comes from', () => {
+    expect(() =>
+      generateTemplateTypes([{ name: 'broken', subject: '{{#eq a b}}{{/eq}}' }])
+    ).toThrow(ValidationError);
+    expect(() => generateTemplateTypes([{ name: 'broken', subject: '{{#if a}}' }])).toThrow(
+      'Template "broken": {{#if}} is never closed'
+    );
+  });
+});
+
+describe('missingTemplateData', () => {
+  it('should report paths with no value, treating null as present', () => {
+    expect(
+      missingTemplateData(['user.name', 'user.email', 'total'], {
+        user: { name: 'Ada' },
+        total: null,
+      })
+    ).toEqual(['user.email']);
+  });
+});
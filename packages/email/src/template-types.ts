@@ -0,0 +1,118 @@
+import { ValidationError } from './errors';
+import type { GenerateTemplateTypesOptions, TemplateTypesSource } from './types';
+import { describeTemplateData, type TemplateDataShape } from './utils/template';
+
+// What SES substitutes into a template: scalars, stringified
+const VALUE_TYPE = 'string | number | boolean';
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function typeOf(shape: TemplateDataShape, indent: number): string {
+  switch (shape.kind) {
+    case 'unknown':
+      return 'unknown';
+    case 'value':
+      return VALUE_TYPE;
+    case 'list':
+      return shape.item && shape.item.kind !== 'unknown'
+        ? `Array<${typeOf(shape.item, indent)}>`
+        : 'unknown[]';
+    case 'object': {
+      if (shape.fields.size === 0) {
+        return 'Record<string, unknown>';
+      }
+      const pad = '  '.repeat(indent + 1);
+      const lines = [...shape.fields].map(
+        ([key, field]) =>
+          `${pad}${propertyKey(key)}${field.required ? '' : '?'}: ${typeOf(field.shape, indent + 1)};`
+      );
+      return `{\n${lines.join('\n')}\n${'  '.repeat(indent)}}`;
+    }
+  }
+}
+
+/** Dotted paths to the deepest keys that must be present. */
+function requiredPaths(shape: TemplateDataShape, prefix = ''): string[] {
+  const paths: string[] = [];
+  for (const [key, field] of shape.fields) {
+    if (!field.required) {
+      continue;
+    }
+    const path = `${prefix}${key}`;
+    const nested = field.shape.kind === 'object' ? requiredPaths(field.shape, `${path}.`) : [];
+    paths.push(...(nested.length > 0 ? nested : [path]));
+  }
+  return paths;
+}
+
+/**
+ * Generate a TypeScript module typing each template's data. It augments
+ * {@link TemplateDataMap}, so `sendTemplate({ template: 'welcome', ... })`
+ * checks `templateData` against the `welcome` template, and exports
+ * `requiredTemplateData` for the client config.
+ *
+ * Keys a template only reads inside `{{#if}}`, `{{#unless}}` or as a block
+ * argument are optional, since SES renders those without them.
+ *
+ * @throws {ValidationError} When a template uses a helper SES does not support.
+ */
+export function generateTemplateTypes(
+  templates: TemplateTypesSource[],
+  options: GenerateTemplateTypesOptions = {}
+): string {
+  const moduleName = options.moduleName ?? '@wraps.dev/email';
+  const sorted = [...templates].sort((a, b) => a.name.localeCompare(b.name));
+
+  const types: string[] = [];
+  const required: string[] = [];
+  for (const template of sorted) {
+    let shape: TemplateDataShape;
+    try {
+      shape = describeTemplateData(template);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(`Template "${template.name}": ${error.message}`, 'template');
+      }
+      throw error;
+    }
+    const key = propertyKey(template.name);
+    types.push(
+      `    ${key}: ${shape.fields.size > 0 ? typeOf(shape, 2) : 'Record<string, never>'};`
+    );
+    const paths = requiredPaths(shape).map((path) => JSON.stringify(path));
+    required.push(`  ${key}: [${paths.join(', ')}],`);
+  }
+
+  return [
+    `// Generated by generateTemplateTypes() from ${moduleName}. Do not edit;`,
+    '// regenerate after changing a template.',
+    '',
+    `declare module ${JSON.stringify(moduleName)} {`,
+    '  interface TemplateDataMap {',
+    ...types,
+    '  }',
+    '}',
+    '',
+    '/** Keys each template cannot render without. Pass as `requiredTemplateData`. */',
+    'export const requiredTemplateData: Record<string, readonly string[]> = {',
+    ...required,
+    '};',
+    '',
+  ].join('\n');
+}
+
+/** The `required` paths with no value in `data`. */
+export function missingTemplateData(
+  required: readonly string[],
+  data: Record<string, unknown>
+): string[] {
+  return required.filter((path) => {
+    let value: unknown = data;
+    for (const key of path.split('.')) {
+      value = value == null ? undefined : (value as Record<string, unknown>)[key];
+    }
+    return value === undefined;
+  });
+}
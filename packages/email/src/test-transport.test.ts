@@ -0,0 +1,348 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { WrapsEmail } from './client';
+import { SandboxError, SESError } from './errors';
+import type { WrapsEmailEvents } from './events';
+import type { WrapsInbox } from './inbox';
+import { TestTransport } from './test-transport';
+
+describe('TestTransport', () => {
+  let transport: TestTransport;
+  let email: WrapsEmail;
+
+  beforeEach(() => {
+    transport = new TestTransport();
+    email = new WrapsEmail({ ...transport.config });
+  });
+
+  describe('outbox', () => {
+    it('records a simple send as SES received it', async () => {
+      const result = await email.send({
+        from: 'Acme <hello@acme.test>',
+        to: 'ada@example.com',
+        subject: 'Welcome',
+        html: '<p>Hi Ada</p>',
+        tags: { campaign: 'onboarding' },
+      });
+
+      const message = transport.outbox.get({ to: 'ADA@example.com', subject: 'Welcome' });
+      expect(message).toMatchObject({
+        messageId: result.messageId,
+        api: 'SendEmail',
+        html: '<p>Hi Ada</p>',
+        text: 'Hi Ada',
+        tags: { campaign: 'onboarding' },
+      });
+      expect(transport.outbox.find({ from: 'hello@acme.test', tags: { campaign: 'x' } })).toBe(
+        undefined
+      );
+    });
+
+    it('parses raw sends back into parts, attachments and headers', async () => {
+      await email.send({
+        from: 'hello@acme.test',
+        to: 'ada@example.com',
+        bcc: 'audit@acme.test',
+        subject: 'Your invoice',
+        html: '<p>Attached</p>',
+        attachments: [{ filename: 'invoice.pdf', content: Buffer.from('%PDF-1.4') }],
+      });
+
+      const message = transport.outbox.last();
+      expect(message).toMatchObject({
+        api: 'SendRawEmail',
+        to: ['ada@example.com'],
+        bcc: ['audit@acme.test'],
+        subject: 'Your invoice',
+        html: '<p>Attached</p>',
+        text: 'Attached',
+      });
+      expect(message?.headers['MIME-Version']).toBe('1.0');
+      expect(message?.attachments).toEqual([
+        {
+          filename: 'invoice.pdf',
+          contentType: 'application/pdf',
+          content: Buffer.from('%PDF-1.4'),
+        },
+      ]);
+    });
+
+    it('records inline images with their Content-ID', async () => {
+      const baseDir = await mkdtemp(join(tmpdir(), 'wraps-inline-'));
+      await writeFile(join(baseDir, 'logo.png'), 'PNG');
+
+      try {
+        await email.send({
+          from: 'hello@acme.test',
+          to: 'ada@example.com',
+          subject: 'Welcome',
+          html: '<img src="./logo.png"><p>Hi Ada</p>',
+          inlineImages: { baseDir },
+        });
+      } finally {
+        await rm(baseDir, { recursive: true, force: true });
+      }
+
+      const message = transport.outbox.last();
+      const [logo] = message?.attachments ?? [];
+      expect(logo).toMatchObject({ filename: 'logo.png', contentType: 'image/png' });
+      expect(message?.html).toBe(`<img src="cid:${logo.contentId}"><p>Hi Ada</p>`);
+    });
+
+    it('renders stored templates with their data', async () => {
+      await email.templates.create({
+        name: 'welcome',
+        subject: 'Welcome, {{name}}',
+        html: '<p>Plan: {{plan.name}}</p>',
+      });
+
+      await email.sendBulkTemplate({
+        from: 'hello@acme.test',
+        template: 'welcome',
+        defaultTemplateData: { plan: { name: 'Free' } },
+        destinations: [
+          { to: 'ada@example.com', templateData: { name: 'Ada' } },
+          { to: 'bob@example.com', templateData: { name: 'Bob', plan: { name: 'Pro' } } },
+        ],
+      });
+
+      expect(transport.outbox.filter({ template: 'welcome' })).toHaveLength(2);
+      expect(transport.outbox.get({ to: 'bob@example.com' })).toMatchObject({
+        subject: 'Welcome, Bob',
+        html: '<p>Plan: Pro</p>',
+      });
+    });
+
+    it('records each batch entry with its own content', async () => {
+      await email.sendBatch({
+        from: 'hello@acme.test',
+        entries: [
+          { to: 'ada@example.com', subject: 'Hi Ada', html: '<p>Ada</p>' },
+          { to: 'bob@example.com', subject: 'Hi Bob', html: '<p>Bob</p>' },
+        ],
+      });
+
+      expect(transport.outbox.messages.map((m) => [m.api, m.to[0], m.subject])).toEqual([
+        ['SendBulkEmail', 'ada@example.com', 'Hi Ada'],
+        ['SendBulkEmail', 'bob@example.com', 'Hi Bob'],
+      ]);
+    });
+
+    it('records batch content exactly as the entry gave it', async () => {
+      await email.sendBatch({
+        from: 'hello@acme.test',
+        entries: [
+          {
+            to: 'ada@example.com',
+            subject: 'Tom & Jerry',
+            html: '<p>Tom & Jerry\'s "deal"</p>',
+            text: 'Tom & Jerry <3',
+          },
+        ],
+      });
+
+      expect(transport.outbox.get({ to: 'ada@example.com' })).toMatchObject({
+        subject: 'Tom & Jerry',
+        html: '<p>Tom & Jerry\'s "deal"</p>',
+        text: 'Tom & Jerry <3',
+      });
+    });
+
+    it('lists what was sent when get() finds nothing', async () => {
+      await email.send({ from: 'a@acme.test', to: 'ada@example.com', subject: 'Hi', text: 'x' });
+
+      expect(() => transport.outbox.get({ subject: /receipt/ })).toThrow(
+        /No message in the outbox matches \{"subject":"\/receipt\/"\}[\s\S]*ada@example\.com: "Hi"/
+      );
+    });
+  });
+
+  describe('failNext', () => {
+    const params = { from: 'hello@acme.test', to: 'ada@example.com', subject: 'Hi', text: 'x' };
+
+    it('throws a sandbox rejection the client maps to SandboxError', async () => {
+      transport.failNext('sandbox');
+
+      const error = await email.send(params).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SandboxError);
+      expect(error.message).toContain('ada@example.com');
+      expect(error.region).toBe('us-east-1');
+      expect(transport.outbox.length).toBe(0);
+      await expect(email.send(params)).resolves.toBeDefined();
+    });
+
+    it('throttles only the targeted API, as many times as asked', async () => {
+      transport.failNext('throttling', { api: 'SendEmail', times: 2 });
+      const retrying = new WrapsEmail({
+        ...transport.config,
+        retry: { maxAttempts: 3, baseDelayMs: 0 },
+      });
+
+      await retrying.send(params);
+
+      expect(transport.outbox.length).toBe(1);
+    });
+
+    it('surfaces a throttle as a retryable SESError without a retry policy', async () => {
+      transport.failNext('throttling');
+
+      await expect(email.send(params)).rejects.toMatchObject({
+        name: 'SESError',
+        code: 'Throttling',
+        retryable: true,
+      });
+    });
+
+    it('names the sender for an unverified identity', async () => {
+      transport.failNext('unverifiedIdentity');
+
+      const error = await email.send(params).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SESError);
+      expect(error.message).toContain(
+        'identities failed the check in region US-EAST-1: hello@acme.test'
+      );
+    });
+  });
+
+  describe('inbox', () => {
+    it('serves received mail to email.inbox and records forwards', async () => {
+      const inbox = email.inbox as WrapsInbox;
+      const received = transport.inbox.receive({
+        from: 'Grace <grace@example.com>',
+        to: 'support@acme.test',
+        subject: 'Help',
+        text: 'It broke',
+        attachments: [{ filename: 'log.txt', content: 'stack trace' }],
+      });
+
+      const { emails } = await inbox.list();
+      expect(emails.map((e) => e.emailId)).toEqual([received.emailId]);
+      expect(await inbox.get(received.emailId)).toMatchObject({
+        from: { address: 'grace@example.com', name: 'Grace' },
+        subject: 'Help',
+      });
+
+      await inbox.forward(received.emailId, {
+        from: 'support@acme.test',
+        to: 'oncall@acme.test',
+        addPrefix: '[support]',
+      });
+      expect(transport.outbox.get({ to: 'oncall@acme.test' })).toMatchObject({
+        subject: '[support] Help',
+        text: 'It broke',
+      });
+
+      await inbox.delete(received.emailId);
+      expect((await inbox.list()).emails).toEqual([]);
+    });
+  });
+
+  describe('events', () => {
+    it('records a send event that later events build on', async () => {
+      const events = email.events as WrapsEmailEvents;
+      const { messageId } = await email.send({
+        from: 'hello@acme.test',
+        to: 'ada@example.com',
+        subject: 'Hi',
+        text: 'x',
+      });
+      transport.events.record(messageId, 'Delivery');
+      transport.events.record(messageId, 'Open', { userAgent: 'test' });
+
+      expect(await events.get(messageId)).toMatchObject({
+        status: 'opened',
+        subject: 'Hi',
+        to: ['ada@example.com'],
+      });
+      const { emails } = await events.list({ accountId: 'test-account' });
+      expect(emails.map((e) => e.messageId)).toEqual([messageId]);
+    });
+  });
+
+  it('backs suppression, DynamoDB idempotency and reply threading', async () => {
+    const threaded = new WrapsEmail({
+      ...transport.config,
+      idempotency: { tableName: 'idempotency' },
+      replyThreading: { ssmClient: transport.ssmClient },
+    });
+
+    await threaded.suppression.add('bounced@example.com', 'BOUNCE');
+    expect(await threaded.suppression.get('bounced@example.com')).toMatchObject({
+      reason: 'BOUNCE',
+    });
+
+    const params = {
+      from: 'hello@acme.test',
+      to: 'ada@example.com',
+      subject: 'Hi',
+      text: 'x',
+      idempotencyKey: 'welcome-ada',
+      conversationId: 'AAAAAAAAAAA',
+    };
+    const first = await threaded.send(params);
+    const second = await threaded.send(params);
+
+    expect(second.messageId).toBe(first.messageId);
+    expect(transport.outbox.length).toBe(1);
+    expect(transport.outbox.last()?.replyTo[0]).toMatch(/@/);
+    expect(transport.outbox.last()?.replyTo[0]).not.toBe('hello@acme.test');
+  });
+
+  it('backs contact lists and records list-managed sends', async () => {
+    await email.contactLists.create({
+      name: 'customers',
+      topics: [
+        { name: 'newsletter', displayName: 'Newsletter', defaultSubscriptionStatus: 'OPT_IN' },
+      ],
+    });
+    await email.contactLists.addContact('customers', 'ada@example.com');
+    await email.contactLists.addContact('customers', 'bob@example.com', {
+      topics: { newsletter: 'OPT_OUT' },
+    });
+
+    const subscribed = await email.contactLists.listContacts('customers', {
+      status: 'OPT_IN',
+      topic: 'newsletter',
+    });
+    expect(subscribed.contacts.map((contact) => contact.email)).toEqual(['ada@example.com']);
+    expect(await email.contactLists.getContact('customers', 'ada@example.com')).toMatchObject({
+      topics: {},
+      topicDefaults: { newsletter: 'OPT_IN' },
+    });
+
+    await email.send({
+      from: 'hello@acme.test',
+      to: 'ada@example.com',
+      subject: 'June news',
+      html: '<p>News</p>',
+      listManagement: { contactListName: 'customers', topicName: 'newsletter' },
+    });
+    expect(transport.outbox.last()).toMatchObject({
+      api: 'SendEmail',
+      to: ['ada@example.com'],
+      html: '<p>News</p>',
+      listManagement: { contactListName: 'customers', topicName: 'newsletter' },
+    });
+
+    await email.contactLists.delete('customers');
+    expect(await email.contactLists.get('customers')).toBeNull();
+  });
+
+  it('reset() forgets everything', async () => {
+    await email.send({ from: 'a@acme.test', to: 'ada@example.com', subject: 'Hi', text: 'x' });
+    transport.inbox.receive({ from: 'b@example.com', to: 'a@acme.test', subject: 'Re', text: 'y' });
+    transport.failNext('sandbox');
+
+    transport.reset();
+
+    expect(transport.outbox.length).toBe(0);
+    expect((await (email.inbox as WrapsInbox).list()).emails).toEqual([]);
+    await expect(
+      email.send({ from: 'a@acme.test', to: 'ada@example.com', subject: 'Hi', text: 'x' })
+    ).resolves.toBeDefined();
+  });
+});
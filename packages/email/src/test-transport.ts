@@ -0,0 +1,1184 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  CreateTemplateCommand,
+  DeleteTemplateCommand,
+  GetTemplateCommand,
+  ListTemplatesCommand,
+  SESClient,
+  TestRenderTemplateCommand,
+  UpdateTemplateCommand,
+} from '@aws-sdk/client-ses';
+import {
+  CreateContactCommand,
+  CreateContactListCommand,
+  DeleteContactCommand,
+  DeleteContactListCommand,
+  DeleteSuppressedDestinationCommand,
+  GetAccountCommand,
+  GetContactCommand,
+  GetContactListCommand,
+  GetSuppressedDestinationCommand,
+  ListContactListsCommand,
+  ListContactsCommand,
+  ListSuppressedDestinationsCommand,
+  PutSuppressedDestinationCommand,
+  SESv2Client,
+  type Topic,
+  type TopicPreference,
+  UpdateContactCommand,
+  UpdateContactListCommand,
+} from '@aws-sdk/client-sesv2';
+import { GetParameterCommand, SSMClient } from '@aws-sdk/client-ssm';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type {
+  InboxEmail,
+  InboxEmailAddress,
+  ListManagementOptions,
+  SuppressionReason,
+  WrapsEmailConfig,
+} from './types';
+import { buildRawEmailMessage } from './utils/mime';
+import {
+  bareAddress,
+  type EmulatedSendApi,
+  emulatedSendOutput,
+  emulateSend,
+} from './utils/ses-emulation';
+import { buildRenderedTemplateMessage, renderTemplateParts } from './utils/template';
+
+/** Bucket name the fake S3 client serves the inbox from. */
+export const TEST_INBOX_BUCKET = 'wraps-test-inbox';
+
+/** Table name the fake DynamoDB client serves event history from. */
+export const TEST_HISTORY_TABLE = 'wraps-test-history';
+
+/** Reply-threading secret the fake SSM client returns for every domain. */
+const TEST_REPLY_SECRET = JSON.stringify({
+  kid: 1,
+  current: Buffer.alloc(32, 7).toString('base64'),
+});
+
+/** The SES API a message went out through. */
+export type OutboxApi = EmulatedSendApi;
+
+export interface OutboxAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  /** Content-ID without angle brackets, for inline parts. */
+  contentId?: string;
+}
+
+/**
+ * One message as SES would have received it: after React rendering, reply-to
+ * minting, template rendering and MIME building.
+ */
+export interface OutboxMessage {
+  messageId: string;
+  api: OutboxApi;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  replyTo: string[];
+  subject: string;
+  html?: string;
+  text?: string;
+  /**
+   * Top-level headers of a raw message, or the per-message headers of a batch
+   * entry. Keyed as written, e.g. `headers['X-Original-To']`.
+   */
+  headers: Record<string, string>;
+  attachments: OutboxAttachment[];
+  /** The MIME source, for `SendRawEmail`. */
+  raw?: string;
+  /** Template name and merged data, for templated sends. */
+  template?: string;
+  templateData?: Record<string, unknown>;
+  tags: Record<string, string>;
+  configurationSetName?: string;
+  /** The contact list (and topic) of a list-managed send. */
+  listManagement?: ListManagementOptions;
+  sentAt: Date;
+}
+
+/**
+ * What {@link Outbox.find} matches on. Every field set must match. Address
+ * strings compare the bare address case-insensitively; other strings must
+ * match exactly. Use a RegExp for partial matches.
+ */
+export interface OutboxQuery {
+  /** Matches when any `To` recipient matches. */
+  to?: string | RegExp;
+  from?: string | RegExp;
+  subject?: string | RegExp;
+  template?: string;
+  /** Every listed tag must be present with this value. */
+  tags?: Record<string, string>;
+}
+
+/**
+ * A failure the fake returns instead of sending, shaped like the AWS error so
+ * the client maps it exactly as it would in production:
+ * - `throttling` — "Maximum sending rate exceeded", retryable.
+ * - `sandbox` — a recipient is not verified (the SES sandbox).
+ * - `unverifiedIdentity` — the sender is not verified in this region.
+ *
+ * An `Error` is thrown as given.
+ */
+export type SimulatedFailure = 'throttling' | 'sandbox' | 'unverifiedIdentity' | Error;
+
+export interface SimulatedFailureOptions {
+  /** Only fail sends through these APIs. Every send API when omitted. */
+  api?: OutboxApi | OutboxApi[];
+  /** How many sends fail before the fake recovers. Defaults to 1. */
+  times?: number;
+}
+
+/** SES event types as the event-history pipeline stores them. */
+export type TestEmailEventType =
+  | 'Send'
+  | 'Delivery'
+  | 'Open'
+  | 'Click'
+  | 'Bounce'
+  | 'Complaint'
+  | 'Suppressed';
+
+export interface TestInboundEmail {
+  /** Generated when omitted. */
+  emailId?: string;
+  from: string;
+  to: string | string[];
+  cc?: string | string[];
+  subject: string;
+  html?: string;
+  text?: string;
+  headers?: Record<string, string>;
+  attachments?: Array<{ filename: string; content: Buffer | string; contentType?: string }>;
+  /** Defaults to now. */
+  receivedAt?: Date;
+}
+
+export interface TestTransportOptions {
+  /** Region the fake clients report. Defaults to `us-east-1`. */
+  region?: string;
+  /** `accountId` written on send events, for `events.list()`. Defaults to `test-account`. */
+  accountId?: string;
+  /** Quota `GetAccount` reports, for `rateLimit`. Defaults to 14/s and 50,000 a day. */
+  sendQuota?: { maxSendRate?: number; max24HourSend?: number };
+}
+
+interface FailureRule {
+  failure: SimulatedFailure;
+  apis?: OutboxApi[];
+  remaining: number;
+}
+
+interface StoredTemplate {
+  subject: string;
+  html?: string;
+  text?: string;
+  createdAt: Date;
+}
+
+interface StoredContactList {
+  description?: string;
+  topics: Topic[];
+  contacts: Map<string, StoredContact>;
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
+interface StoredContact {
+  email: string;
+  topics: TopicPreference[];
+  unsubscribeAll: boolean;
+  attributes?: string;
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
+type Item = Record<string, unknown>;
+
+function matches(value: string, pattern: string | RegExp, address = false): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(value);
+  }
+  return address ? bareAddress(value) === bareAddress(pattern) : value === pattern;
+}
+
+function describeQuery(query: OutboxQuery | ((message: OutboxMessage) => boolean)): string {
+  if (typeof query === 'function') {
+    return 'the given predicate';
+  }
+  return JSON.stringify(query, (_key, value) => (value instanceof RegExp ? String(value) : value));
+}
+
+/** An error shaped like one the AWS SDK throws after reaching AWS. */
+function awsError(
+  name: string,
+  message: string,
+  requestId: string,
+  extra: { httpStatusCode?: number; throttling?: boolean } = {}
+): Error {
+  return Object.assign(new Error(message), {
+    name,
+    $fault: 'client',
+    $metadata: { httpStatusCode: extra.httpStatusCode ?? 400, requestId },
+    ...(extra.throttling ? { $retryable: { throttling: true } } : {}),
+  });
+}
+
+/**
+ * Every message sent through a {@link TestTransport}, in send order. Batch
+ * and bulk sends add one message per recipient entry.
+ */
+export class Outbox {
+  constructor(private readonly sent: OutboxMessage[]) {}
+
+  get messages(): readonly OutboxMessage[] {
+    return this.sent;
+  }
+
+  get length(): number {
+    return this.sent.length;
+  }
+
+  /** The most recently sent message. */
+  last(): OutboxMessage | undefined {
+    return this.sent[this.sent.length - 1];
+  }
+
+  /** The first message matching the query or predicate. */
+  find(query: OutboxQuery | ((message: OutboxMessage) => boolean)): OutboxMessage | undefined {
+    return this.sent.find(this.matcher(query));
+  }
+
+  /** Every message matching the query or predicate. */
+  filter(query: OutboxQuery | ((message: OutboxMessage) => boolean)): OutboxMessage[] {
+    return this.sent.filter(this.matcher(query));
+  }
+
+  /**
+   * Like {@link Outbox.find}, but throws when nothing matches. The error lists
+   * what was sent, so a failing test shows the near misses.
+   */
+  get(query: OutboxQuery | ((message: OutboxMessage) => boolean)): OutboxMessage {
+    const message = this.find(query);
+    if (!message) {
+      const sent = this.sent.map((m) => `  - to ${m.to.join(', ')}: ${JSON.stringify(m.subject)}`);
+      throw new Error(
+        [
+          `No message in the outbox matches ${describeQuery(query)}.`,
+          sent.length > 0 ? `Sent (${sent.length}):\n${sent.join('\n')}` : 'Nothing was sent.',
+        ].join('\n')
+      );
+    }
+    return message;
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+
+  private matcher(
+    query: OutboxQuery | ((message: OutboxMessage) => boolean)
+  ): (message: OutboxMessage) => boolean {
+    if (typeof query === 'function') {
+      return query;
+    }
+    return (message) =>
+      (query.to === undefined ||
+        message.to.some((address) => matches(address, query.to as string | RegExp, true))) &&
+      (query.from === undefined || matches(message.from, query.from, true)) &&
+      (query.subject === undefined || matches(message.subject, query.subject)) &&
+      (query.template === undefined || message.template === query.template) &&
+      (query.tags === undefined ||
+        Object.entries(query.tags).every(([name, value]) => message.tags[name] === value));
+  }
+}
+
+/** Inbound email stored where `email.inbox` reads it. */
+export class TestInbox {
+  private counter = 0;
+
+  constructor(private readonly objects: Map<string, { body: Uint8Array; lastModified: Date }>) {}
+
+  /**
+   * Store an inbound email the way the inbound Lambda would: raw MIME, the
+   * parsed JSON, and one object per attachment.
+   */
+  receive(email: TestInboundEmail): InboxEmail {
+    const emailId = email.emailId ?? `test-inbound-${String(++this.counter).padStart(6, '0')}`;
+    const receivedAt = email.receivedAt ?? new Date();
+    const messageId = `<${emailId}@test.wraps.dev>`;
+    const to = Array.isArray(email.to) ? email.to : [email.to];
+    const cc = email.cc ? (Array.isArray(email.cc) ? email.cc : [email.cc]) : [];
+    const attachments = email.attachments ?? [];
+
+    const raw = buildRawEmailMessage({
+      from: email.from,
+      to,
+      cc: cc.length > 0 ? cc : undefined,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      attachments: attachments.map((attachment) => ({
+        filename: attachment.filename,
+        content:
+          typeof attachment.content === 'string'
+            ? Buffer.from(attachment.content)
+            : attachment.content,
+        contentType: attachment.contentType,
+      })),
+      customHeaders: {
+        'Message-ID': messageId,
+        Date: receivedAt.toUTCString(),
+        ...email.headers,
+      },
+    });
+    const rawS3Key = `raw/${emailId}`;
+    this.put(rawS3Key, raw, receivedAt);
+
+    const parsed: InboxEmail = {
+      emailId,
+      messageId,
+      from: inboxAddress(email.from),
+      to: to.map(inboxAddress),
+      cc: cc.map(inboxAddress),
+      subject: email.subject,
+      date: receivedAt.toISOString(),
+      html: email.html ?? null,
+      htmlTruncated: false,
+      text: email.text ?? null,
+      headers: { ...email.headers },
+      attachments: attachments.map((attachment, i) => {
+        const id = `att${i + 1}`;
+        const s3Key = `attachments/${emailId}/${id}-${attachment.filename}`;
+        const content =
+          typeof attachment.content === 'string'
+            ? Buffer.from(attachment.content)
+            : attachment.content;
+        this.put(s3Key, content, receivedAt);
+        return {
+          id,
+          filename: attachment.filename,
+          contentType: attachment.contentType ?? 'application/octet-stream',
+          size: content.length,
+          s3Key,
+          contentDisposition: 'attachment',
+        };
+      }),
+      spamVerdict: 'PASS',
+      virusVerdict: 'PASS',
+      rawS3Key,
+      receivedAt: receivedAt.toISOString(),
+    };
+    this.put(`parsed/${emailId}.json`, JSON.stringify(parsed), receivedAt);
+    return parsed;
+  }
+
+  clear(): void {
+    this.objects.clear();
+  }
+
+  private put(key: string, body: string | Uint8Array, lastModified: Date): void {
+    this.objects.set(key, {
+      body: typeof body === 'string' ? new TextEncoder().encode(body) : body,
+      lastModified,
+    });
+  }
+}
+
+function inboxAddress(address: string): InboxEmailAddress {
+  const angle = /^\s*"?([^"<]*?)"?\s*<([^>]*)>\s*$/.exec(address);
+  return angle ? { address: angle[2], name: angle[1] } : { address: address.trim(), name: '' };
+}
+
+/** Event history rows where `email.events` reads them. */
+export class TestEvents {
+  constructor(
+    private readonly rows: Item[],
+    private readonly accountId: string
+  ) {}
+
+  /**
+   * Add an event for a message, as the event pipeline would after SES
+   * reports it. Sends record their own `Send` event.
+   */
+  record(messageId: string, type: TestEmailEventType, metadata?: Record<string, unknown>): void {
+    const previous = this.rows.filter((row) => row.messageId === messageId);
+    const send = previous.find((row) => row.eventType === 'Send');
+    // (messageId, sentAt) is the table key, so events of one message need
+    // distinct timestamps even when recorded within the same millisecond.
+    const last = Math.max(0, ...previous.map((row) => row.sentAt as number));
+    this.rows.push({
+      messageId,
+      sentAt: Math.max(Date.now(), last + 1),
+      accountId: send?.accountId ?? this.accountId,
+      eventType: type,
+      from: send?.from,
+      to: send?.to,
+      subject: send?.subject,
+      additionalData: metadata ? JSON.stringify(metadata) : undefined,
+    });
+  }
+
+  clear(): void {
+    this.rows.length = 0;
+  }
+}
+
+/**
+ * An in-memory stand-in for SES, SES v2, S3, DynamoDB and SSM. Spread
+ * {@link TestTransport.config} into `new WrapsEmail()` and every send lands
+ * in {@link TestTransport.outbox} instead of AWS.
+ *
+ * The clients are real AWS SDK clients with `send` replaced, so region
+ * lookups and presigned URLs behave as they do in production. Only the
+ * commands `WrapsEmail` uses are implemented; anything else throws.
+ *
+ * @example
+ * ```typescript
+ * const transport = new TestTransport();
+ * const email = new WrapsEmail({ ...transport.config });
+ *
+ * await signup(email, 'ada@example.com');
+ *
+ * expect(transport.outbox.get({ to: 'ada@example.com' }).subject).toBe('Welcome');
+ * ```
+ */
+export class TestTransport {
+  readonly outbox: Outbox;
+  readonly inbox: TestInbox;
+  readonly events: TestEvents;
+
+  readonly sesClient: SESClient;
+  readonly sesv2Client: SESv2Client;
+  readonly s3Client: S3Client;
+  readonly dynamodbClient: DynamoDBDocumentClient;
+  /**
+   * Serves a fixed reply-threading secret for every domain. Pass it as
+   * `replyThreading.ssmClient` to mint signed reply-to addresses.
+   */
+  readonly ssmClient: SSMClient;
+
+  /** Client config wiring every AWS dependency of `WrapsEmail` to this transport. */
+  readonly config: Required<
+    Pick<
+      WrapsEmailConfig,
+      | 'region'
+      | 'client'
+      | 'sesv2Client'
+      | 's3Client'
+      | 'dynamodbClient'
+      | 'inboxBucketName'
+      | 'historyTableName'
+    >
+  >;
+
+  private readonly region: string;
+  private readonly accountId: string;
+  private readonly sendQuota: { maxSendRate: number; max24HourSend: number };
+  private readonly sent: OutboxMessage[] = [];
+  private readonly objects = new Map<string, { body: Uint8Array; lastModified: Date }>();
+  private readonly tables = new Map<string, Item[]>();
+  private readonly tableKeys = new Map<string, string[]>();
+  private readonly templates = new Map<string, StoredTemplate>();
+  private readonly suppressed = new Map<string, { reason: SuppressionReason; lastUpdated: Date }>();
+  private readonly contactLists = new Map<string, StoredContactList>();
+  private failures: FailureRule[] = [];
+  private counter = 0;
+
+  constructor(options: TestTransportOptions = {}) {
+    this.region = options.region ?? 'us-east-1';
+    this.accountId = options.accountId ?? 'test-account';
+    this.sendQuota = {
+      maxSendRate: options.sendQuota?.maxSendRate ?? 14,
+      max24HourSend: options.sendQuota?.max24HourSend ?? 50_000,
+    };
+
+    // Requests never leave the process, but the clients still sign presigned URLs.
+    const clientConfig = {
+      region: this.region,
+      credentials: { accessKeyId: 'test', secretAccessKey: 'test' },
+    };
+    this.sesClient = new SESClient(clientConfig);
+    this.sesv2Client = new SESv2Client(clientConfig);
+    this.s3Client = new S3Client(clientConfig);
+    this.dynamodbClient = DynamoDBDocumentClient.from(new DynamoDBClient(clientConfig));
+    this.ssmClient = new SSMClient(clientConfig);
+    intercept(this.sesClient, (command) => this.handleSes(command));
+    intercept(this.sesv2Client, (command) => this.handleSesv2(command));
+    intercept(this.s3Client, (command) => this.handleS3(command));
+    intercept(this.dynamodbClient, (command) => this.handleDynamoDB(command));
+    intercept(this.ssmClient, (command) => this.handleSsm(command));
+
+    this.tableKeys.set(TEST_HISTORY_TABLE, ['messageId', 'sentAt']);
+    this.outbox = new Outbox(this.sent);
+    this.inbox = new TestInbox(this.objects);
+    this.events = new TestEvents(this.table(TEST_HISTORY_TABLE), this.accountId);
+
+    this.config = {
+      region: this.region,
+      client: this.sesClient,
+      sesv2Client: this.sesv2Client,
+      s3Client: this.s3Client,
+      dynamodbClient: this.dynamodbClient,
+      inboxBucketName: TEST_INBOX_BUCKET,
+      historyTableName: TEST_HISTORY_TABLE,
+    };
+  }
+
+  /**
+   * Fail upcoming sends instead of delivering them. Rules queue in call order;
+   * each send consumes the first rule that applies to its API.
+   *
+   * @example
+   * ```typescript
+   * transport.failNext('throttling', { times: 2 });
+   * transport.failNext('sandbox', { api: 'SendBulkEmail' });
+   * ```
+   */
+  failNext(failure: SimulatedFailure, options: SimulatedFailureOptions = {}): void {
+    const apis = options.api === undefined ? undefined : [options.api].flat();
+    this.failures.push({ failure, apis, remaining: options.times ?? 1 });
+  }
+
+  /**
+   * Forget everything: sent mail, inbox, events, templates, suppressions,
+   * contact lists and pending failures.
+   */
+  reset(): void {
+    this.outbox.clear();
+    this.inbox.clear();
+    this.events.clear();
+    for (const [name, rows] of this.tables) {
+      if (name !== TEST_HISTORY_TABLE) {
+        rows.length = 0;
+      }
+    }
+    this.templates.clear();
+    this.suppressed.clear();
+    this.contactLists.clear();
+    this.failures = [];
+  }
+
+  private nextId(kind: string): string {
+    return `test-${kind}-${String(++this.counter).padStart(6, '0')}`;
+  }
+
+  private respond<T extends object>(output: T): T & { $metadata: object } {
+    return { ...output, $metadata: { httpStatusCode: 200, requestId: this.nextId('request') } };
+  }
+
+  /** Deliver the messages of an SES or SES v2 send command, if it is one. */
+  private async handleSend(command: unknown): Promise<object | undefined> {
+    const send = await emulateSend(command, (name) => this.template(name));
+    if (!send) {
+      return undefined;
+    }
+    this.checkFailure(
+      send.api,
+      send.from,
+      send.messages.flatMap((message) => [...message.to, ...message.cc, ...message.bcc])
+    );
+    const messageIds = send.messages.map(
+      (message) => this.deliver({ api: send.api, ...message }).messageId
+    );
+    return this.respond(emulatedSendOutput(send.api, messageIds));
+  }
+
+  private async handleSes(command: unknown): Promise<object> {
+    const sent = await this.handleSend(command);
+    if (sent) {
+      return sent;
+    }
+
+    if (command instanceof CreateTemplateCommand) {
+      const name = command.input.Template?.TemplateName ?? '';
+      if (this.templates.has(name)) {
+        throw awsError('AlreadyExists', `Template ${name} already exists.`, this.nextId('request'));
+      }
+      this.storeTemplate(command.input.Template, new Date());
+      return this.respond({});
+    }
+
+    if (command instanceof UpdateTemplateCommand) {
+      const existing = this.template(command.input.Template?.TemplateName);
+      this.storeTemplate(command.input.Template, existing.createdAt);
+      return this.respond({});
+    }
+
+    if (command instanceof GetTemplateCommand) {
+      const template = this.template(command.input.TemplateName);
+      return this.respond({
+        Template: {
+          TemplateName: command.input.TemplateName,
+          SubjectPart: template.subject,
+          HtmlPart: template.html,
+          TextPart: template.text,
+        },
+      });
+    }
+
+    if (command instanceof ListTemplatesCommand) {
+      return this.respond({
+        TemplatesMetadata: [...this.templates].map(([Name, template]) => ({
+          Name,
+          CreatedTimestamp: template.createdAt,
+        })),
+      });
+    }
+
+    if (command instanceof DeleteTemplateCommand) {
+      this.templates.delete(command.input.TemplateName ?? '');
+      return this.respond({});
+    }
+
+    if (command instanceof TestRenderTemplateCommand) {
+      const template = this.template(command.input.TemplateName);
+      const data = JSON.parse(command.input.TemplateData ?? '{}') as Record<string, unknown>;
+      return this.respond({
+        RenderedTemplate: buildRenderedTemplateMessage(renderTemplateParts(template, data)),
+      });
+    }
+
+    throw unsupported(command);
+  }
+
+  private async handleSesv2(command: unknown): Promise<object> {
+    const sent = await this.handleSend(command);
+    if (sent) {
+      return sent;
+    }
+
+    if (command instanceof GetAccountCommand) {
+      const sentLast24Hours = this.sent.filter(
+        (message) => Date.now() - message.sentAt.getTime() < 24 * 60 * 60 * 1000
+      ).length;
+      return this.respond({
+        ProductionAccessEnabled: true,
+        SendingEnabled: true,
+        SendQuota: {
+          MaxSendRate: this.sendQuota.maxSendRate,
+          Max24HourSend: this.sendQuota.max24HourSend,
+          SentLast24Hours: sentLast24Hours,
+        },
+      });
+    }
+
+    if (command instanceof PutSuppressedDestinationCommand) {
+      this.suppressed.set((command.input.EmailAddress ?? '').toLowerCase(), {
+        reason: command.input.Reason as SuppressionReason,
+        lastUpdated: new Date(),
+      });
+      return this.respond({});
+    }
+
+    if (command instanceof GetSuppressedDestinationCommand) {
+      const address = (command.input.EmailAddress ?? '').toLowerCase();
+      const entry = this.suppressed.get(address);
+      if (!entry) {
+        throw this.notFound(address);
+      }
+      return this.respond({
+        SuppressedDestination: {
+          EmailAddress: address,
+          Reason: entry.reason,
+          LastUpdateTime: entry.lastUpdated,
+        },
+      });
+    }
+
+    if (command instanceof DeleteSuppressedDestinationCommand) {
+      const address = (command.input.EmailAddress ?? '').toLowerCase();
+      if (!this.suppressed.delete(address)) {
+        throw this.notFound(address);
+      }
+      return this.respond({});
+    }
+
+    if (command instanceof ListSuppressedDestinationsCommand) {
+      const reasons = command.input.Reasons;
+      return this.respond({
+        SuppressedDestinationSummaries: [...this.suppressed]
+          .filter(([, entry]) => !reasons || reasons.includes(entry.reason))
+          .map(([EmailAddress, entry]) => ({
+            EmailAddress,
+            Reason: entry.reason,
+            LastUpdateTime: entry.lastUpdated,
+          })),
+      });
+    }
+
+    return this.handleContactLists(command);
+  }
+
+  private async handleContactLists(command: unknown): Promise<object> {
+    if (command instanceof CreateContactListCommand) {
+      const name = command.input.ContactListName ?? '';
+      if (this.contactLists.has(name)) {
+        throw awsError(
+          'AlreadyExistsException',
+          `List with name ${name} already exists.`,
+          this.nextId('request')
+        );
+      }
+      const now = new Date();
+      this.contactLists.set(name, {
+        description: command.input.Description,
+        topics: command.input.Topics ?? [],
+        contacts: new Map(),
+        createdAt: now,
+        lastUpdated: now,
+      });
+      return this.respond({});
+    }
+
+    if (command instanceof GetContactListCommand) {
+      const name = command.input.ContactListName ?? '';
+      const list = this.contactList(name);
+      return this.respond({
+        ContactListName: name,
+        Description: list.description,
+        Topics: list.topics,
+        CreatedTimestamp: list.createdAt,
+        LastUpdatedTimestamp: list.lastUpdated,
+      });
+    }
+
+    if (command instanceof ListContactListsCommand) {
+      return this.respond({
+        ContactLists: [...this.contactLists].map(([ContactListName, list]) => ({
+          ContactListName,
+          LastUpdatedTimestamp: list.lastUpdated,
+        })),
+      });
+    }
+
+    if (command instanceof UpdateContactListCommand) {
+      const list = this.contactList(command.input.ContactListName);
+      list.description = command.input.Description ?? list.description;
+      list.topics = command.input.Topics ?? list.topics;
+      list.lastUpdated = new Date();
+      return this.respond({});
+    }
+
+    if (command instanceof DeleteContactListCommand) {
+      this.contactList(command.input.ContactListName);
+      this.contactLists.delete(command.input.ContactListName ?? '');
+      return this.respond({});
+    }
+
+    if (command instanceof CreateContactCommand) {
+      const { input } = command;
+      const list = this.contactList(input.ContactListName);
+      const address = (input.EmailAddress ?? '').toLowerCase();
+      if (list.contacts.has(address)) {
+        throw awsError(
+          'AlreadyExistsException',
+          `Contact already exists in list ${input.ContactListName}.`,
+          this.nextId('request')
+        );
+      }
+      const now = new Date();
+      list.contacts.set(address, {
+        email: input.EmailAddress ?? '',
+        topics: input.TopicPreferences ?? [],
+        unsubscribeAll: input.UnsubscribeAll ?? false,
+        attributes: input.AttributesData,
+        createdAt: now,
+        lastUpdated: now,
+      });
+      return this.respond({});
+    }
+
+    if (command instanceof GetContactCommand) {
+      const list = this.contactList(command.input.ContactListName);
+      const contact = this.contact(list, command.input.EmailAddress);
+      return this.respond({
+        ContactListName: command.input.ContactListName,
+        EmailAddress: contact.email,
+        TopicPreferences: contact.topics,
+        TopicDefaultPreferences: this.topicDefaults(list, contact),
+        UnsubscribeAll: contact.unsubscribeAll,
+        AttributesData: contact.attributes,
+        CreatedTimestamp: contact.createdAt,
+        LastUpdatedTimestamp: contact.lastUpdated,
+      });
+    }
+
+    if (command instanceof UpdateContactCommand) {
+      const { input } = command;
+      const contact = this.contact(this.contactList(input.ContactListName), input.EmailAddress);
+      contact.topics = input.TopicPreferences ?? contact.topics;
+      contact.unsubscribeAll = input.UnsubscribeAll ?? contact.unsubscribeAll;
+      contact.attributes = input.AttributesData ?? contact.attributes;
+      contact.lastUpdated = new Date();
+      return this.respond({});
+    }
+
+    if (command instanceof DeleteContactCommand) {
+      const list = this.contactList(command.input.ContactListName);
+      this.contact(list, command.input.EmailAddress);
+      list.contacts.delete((command.input.EmailAddress ?? '').toLowerCase());
+      return this.respond({});
+    }
+
+    if (command instanceof ListContactsCommand) {
+      const list = this.contactList(command.input.ContactListName);
+      const filter = command.input.Filter;
+      const topic = filter?.TopicFilter;
+      const contacts = [...list.contacts.values()].filter((contact) => {
+        if (!filter?.FilteredStatus) {
+          return true;
+        }
+        if (contact.unsubscribeAll) {
+          return filter.FilteredStatus === 'OPT_OUT';
+        }
+        if (!topic?.TopicName) {
+          return filter.FilteredStatus === 'OPT_IN';
+        }
+        const status =
+          contact.topics.find((preference) => preference.TopicName === topic.TopicName)
+            ?.SubscriptionStatus ??
+          (topic.UseDefaultIfPreferenceUnavailable
+            ? list.topics.find((t) => t.TopicName === topic.TopicName)?.DefaultSubscriptionStatus
+            : undefined);
+        return status === filter.FilteredStatus;
+      });
+      return this.respond({
+        Contacts: contacts.map((contact) => ({
+          EmailAddress: contact.email,
+          TopicPreferences: contact.topics,
+          TopicDefaultPreferences: this.topicDefaults(list, contact),
+          UnsubscribeAll: contact.unsubscribeAll,
+          LastUpdatedTimestamp: contact.lastUpdated,
+        })),
+      });
+    }
+
+    throw unsupported(command);
+  }
+
+  private async handleS3(command: unknown): Promise<object> {
+    if (command instanceof ListObjectsV2Command) {
+      const { Prefix = '', MaxKeys = 1000, ContinuationToken } = command.input;
+      const keys = [...this.objects.keys()]
+        .filter((key) => key.startsWith(Prefix) && (!ContinuationToken || key > ContinuationToken))
+        .sort();
+      const page = keys.slice(0, MaxKeys);
+      return this.respond({
+        Contents: page.map((Key) => {
+          const object = this.objects.get(Key) as { body: Uint8Array; lastModified: Date };
+          return { Key, LastModified: object.lastModified, Size: object.body.length };
+        }),
+        KeyCount: page.length,
+        IsTruncated: keys.length > page.length,
+        NextContinuationToken: keys.length > page.length ? page[page.length - 1] : undefined,
+      });
+    }
+
+    if (command instanceof GetObjectCommand) {
+      const object = this.objects.get(command.input.Key ?? '');
+      if (!object) {
+        throw awsError('NoSuchKey', 'The specified key does not exist.', this.nextId('request'), {
+          httpStatusCode: 404,
+        });
+      }
+      const { body } = object;
+      return this.respond({
+        Body: {
+          transformToString: async (encoding?: string) =>
+            Buffer.from(body).toString((encoding as BufferEncoding | undefined) ?? 'utf-8'),
+          transformToByteArray: async () => body,
+        },
+        ContentLength: body.length,
+        LastModified: object.lastModified,
+      });
+    }
+
+    if (command instanceof DeleteObjectsCommand) {
+      const keys = (command.input.Delete?.Objects ?? []).map((object) => object.Key ?? '');
+      for (const key of keys) {
+        this.objects.delete(key);
+      }
+      return this.respond({ Deleted: keys.map((Key) => ({ Key })) });
+    }
+
+    throw unsupported(command);
+  }
+
+  private async handleDynamoDB(command: unknown): Promise<object> {
+    if (command instanceof GetCommand) {
+      const { TableName = '', Key = {} } = command.input;
+      this.tableKeys.set(TableName, this.tableKeys.get(TableName) ?? Object.keys(Key));
+      const item = this.table(TableName).find((row) => hasKey(row, Key));
+      return this.respond({ Item: item ? { ...item } : undefined });
+    }
+
+    if (command instanceof PutCommand) {
+      const { TableName = '', Item = {} } = command.input;
+      // Without a declared key schema, assume the partition key comes first.
+      const keyNames = this.tableKeys.get(TableName) ?? Object.keys(Item).slice(0, 1);
+      this.tableKeys.set(TableName, keyNames);
+      const key = Object.fromEntries(keyNames.map((name) => [name, Item[name]]));
+      const rows = this.table(TableName);
+      const existing = rows.findIndex((row) => hasKey(row, key));
+      if (existing >= 0) {
+        rows[existing] = { ...Item };
+      } else {
+        rows.push({ ...Item });
+      }
+      return this.respond({});
+    }
+
+    if (command instanceof QueryCommand) {
+      return this.respond(this.query(command.input));
+    }
+
+    throw unsupported(command);
+  }
+
+  private async handleSsm(command: unknown): Promise<object> {
+    if (command instanceof GetParameterCommand) {
+      return this.respond({
+        Parameter: { Name: command.input.Name, Type: 'SecureString', Value: TEST_REPLY_SECRET },
+      });
+    }
+    throw unsupported(command);
+  }
+
+  /**
+   * The key conditions `WrapsEmailEvents` writes: an equality on the partition
+   * key, optionally with a range on `sentAt`.
+   */
+  private query(input: QueryCommand['input']): object {
+    const values = (input.ExpressionAttributeValues ?? {}) as Item;
+    const condition = input.KeyConditionExpression ?? '';
+    const partition = /^\s*(\w+)\s*=\s*(:\w+)/.exec(condition);
+    if (!partition) {
+      throw new Error(`TestTransport cannot evaluate key condition: ${condition}`);
+    }
+    const [, partitionKey, partitionValue] = partition;
+    const between = /AND\s+(\w+)\s+BETWEEN\s+(:\w+)\s+AND\s+(:\w+)/i.exec(condition);
+    const compare = /AND\s+(\w+)\s*(>=|<=|>|<|=)\s*(:\w+)/.exec(condition);
+
+    let rows = this.table(input.TableName ?? '').filter((row) => {
+      if (row[partitionKey] !== values[partitionValue]) {
+        return false;
+      }
+      if (between) {
+        const sort = row[between[1]] as number;
+        return sort >= (values[between[2]] as number) && sort <= (values[between[3]] as number);
+      }
+      if (compare) {
+        const sort = row[compare[1]] as number;
+        const bound = values[compare[3]] as number;
+        switch (compare[2]) {
+          case '>=':
+            return sort >= bound;
+          case '<=':
+            return sort <= bound;
+          case '>':
+            return sort > bound;
+          case '<':
+            return sort < bound;
+          default:
+            return sort === bound;
+        }
+      }
+      return true;
+    });
+    rows.sort((a, b) => (a.sentAt as number) - (b.sentAt as number));
+    if (input.ScanIndexForward === false) {
+      rows.reverse();
+    }
+
+    if (input.ExclusiveStartKey) {
+      const start = rows.findIndex((row) => hasKey(row, input.ExclusiveStartKey as Item));
+      rows = rows.slice(start + 1);
+    }
+    const page = input.Limit ? rows.slice(0, input.Limit) : rows;
+    const last = page[page.length - 1];
+    return {
+      Items: page.map((row) => ({ ...row })),
+      Count: page.length,
+      LastEvaluatedKey:
+        page.length < rows.length && last
+          ? { messageId: last.messageId, sentAt: last.sentAt, [partitionKey]: last[partitionKey] }
+          : undefined,
+    };
+  }
+
+  private table(name: string): Item[] {
+    let rows = this.tables.get(name);
+    if (!rows) {
+      rows = [];
+      this.tables.set(name, rows);
+    }
+    return rows;
+  }
+
+  /** Throw the next queued failure that applies to this send, if any. */
+  private checkFailure(api: OutboxApi, from: string, recipients: string[]): void {
+    const rule = this.failures.find((r) => !r.apis || r.apis.includes(api));
+    if (!rule) {
+      return;
+    }
+    rule.remaining--;
+    if (rule.remaining <= 0) {
+      this.failures = this.failures.filter((r) => r !== rule);
+    }
+
+    const { failure } = rule;
+    if (failure instanceof Error) {
+      throw failure;
+    }
+    const requestId = this.nextId('request');
+    const region = this.region.toUpperCase();
+    switch (failure) {
+      case 'throttling':
+        throw awsError(
+          api === 'SendBulkEmail' ? 'TooManyRequestsException' : 'Throttling',
+          'Maximum sending rate exceeded.',
+          requestId,
+          { httpStatusCode: api === 'SendBulkEmail' ? 429 : 400, throttling: true }
+        );
+      case 'sandbox':
+        throw awsError(
+          'MessageRejected',
+          `Email address is not verified. The following identities failed the check in region ${region}: ${recipients.join(', ')}`,
+          requestId
+        );
+      case 'unverifiedIdentity':
+        throw awsError(
+          'MessageRejected',
+          `Email address is not verified. The following identities failed the check in region ${region}: ${from}`,
+          requestId
+        );
+    }
+  }
+
+  /** Record a delivered message in the outbox and its `Send` event. */
+  private deliver(message: Omit<OutboxMessage, 'messageId' | 'sentAt'>): OutboxMessage {
+    const delivered: OutboxMessage = {
+      ...message,
+      messageId: this.nextId('message'),
+      sentAt: new Date(),
+    };
+    this.sent.push(delivered);
+    this.table(TEST_HISTORY_TABLE).push({
+      messageId: delivered.messageId,
+      sentAt: delivered.sentAt.getTime(),
+      accountId: this.accountId,
+      eventType: 'Send',
+      from: delivered.from,
+      to: [...delivered.to, ...delivered.cc, ...delivered.bcc],
+      subject: delivered.subject,
+    });
+    return delivered;
+  }
+
+  private template(name: string | undefined): StoredTemplate {
+    const template = this.templates.get(name ?? '');
+    if (!template) {
+      throw awsError(
+        'TemplateDoesNotExist',
+        `Template ${name} does not exist.`,
+        this.nextId('request')
+      );
+    }
+    return template;
+  }
+
+  private storeTemplate(
+    template:
+      | { TemplateName?: string; SubjectPart?: string; HtmlPart?: string; TextPart?: string }
+      | undefined,
+    createdAt: Date
+  ): void {
+    this.templates.set(template?.TemplateName ?? '', {
+      subject: template?.SubjectPart ?? '',
+      html: template?.HtmlPart,
+      text: template?.TextPart,
+      createdAt,
+    });
+  }
+
+  private contactList(name: string | undefined): StoredContactList {
+    const list = this.contactLists.get(name ?? '');
+    if (!list) {
+      throw awsError(
+        'NotFoundException',
+        `List with name ${name} does not exist.`,
+        this.nextId('request'),
+        {
+          httpStatusCode: 404,
+        }
+      );
+    }
+    return list;
+  }
+
+  private contact(list: StoredContactList, address: string | undefined): StoredContact {
+    const contact = list.contacts.get((address ?? '').toLowerCase());
+    if (!contact) {
+      throw awsError(
+        'NotFoundException',
+        `Contact ${address} does not exist.`,
+        this.nextId('request'),
+        {
+          httpStatusCode: 404,
+        }
+      );
+    }
+    return contact;
+  }
+
+  /** The list's default status for each topic the contact has no preference for. */
+  private topicDefaults(list: StoredContactList, contact: StoredContact): TopicPreference[] {
+    return list.topics
+      .filter((topic) => !contact.topics.some((p) => p.TopicName === topic.TopicName))
+      .map((topic) => ({
+        TopicName: topic.TopicName,
+        SubscriptionStatus: topic.DefaultSubscriptionStatus,
+      }));
+  }
+
+  private notFound(address: string): Error {
+    return awsError(
+      'NotFoundException',
+      `Email address ${address} does not exist on your suppression list.`,
+      this.nextId('request'),
+      { httpStatusCode: 404 }
+    );
+  }
+}
+
+function hasKey(row: Item, key: Item): boolean {
+  return Object.entries(key).every(([name, value]) => row[name] === value);
+}
+
+function unsupported(command: unknown): Error {
+  const name = (command as { constructor?: { name?: string } })?.constructor?.name ?? 'command';
+  return new Error(`TestTransport does not implement ${name}`);
+}
+
+/** Route a real client's `send` to a handler, keeping the rest of the client intact. */
+function intercept(client: { send: unknown }, handle: (command: unknown) => Promise<object>): void {
+  client.send = handle;
+}
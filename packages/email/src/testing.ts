@@ -0,0 +1,19 @@
+export type {
+  OutboxApi,
+  OutboxAttachment,
+  OutboxMessage,
+  OutboxQuery,
+  SimulatedFailure,
+  SimulatedFailureOptions,
+  TestEmailEventType,
+  TestInboundEmail,
+  TestTransportOptions,
+} from './test-transport';
+export {
+  Outbox,
+  TEST_HISTORY_TABLE,
+  TEST_INBOX_BUCKET,
+  TestEvents,
+  TestInbox,
+  TestTransport,
+} from './test-transport';
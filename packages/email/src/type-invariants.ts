@@ -9,7 +9,7 @@
  * and threw in production.
  */
 import type React from 'react';
-import type { SendEmailParams } from './types';
+import type { SendBulkTemplateParams, SendEmailParams, SendTemplateParams } from './types';
 import type { WorkerSendEmailParams } from './workers-client';
 
 const from = 'sender@example.com';
@@ -55,3 +55,48 @@ export const workerNoBody: WorkerSendEmailParams = { from, to, subject };
 
 // @ts-expect-error - react is not supported at the edge
 export const workerReact: WorkerSendEmailParams = { from, to, subject, react: reactBody };
+
+// A generated TemplateDataMap entry types templateData for that template only.
+declare module './types' {
+  interface TemplateDataMap {
+    'invariants-welcome': { name: string | number | boolean; plan?: unknown };
+  }
+}
+
+export const typedTemplate: SendTemplateParams<'invariants-welcome'> = {
+  from,
+  to,
+  template: 'invariants-welcome',
+  templateData: { name: 'Ada' },
+};
+
+export const typedTemplateMissing: SendTemplateParams<'invariants-welcome'> = {
+  from,
+  to,
+  template: 'invariants-welcome',
+  // @ts-expect-error - name is required by the invariants-welcome template
+  templateData: { plan: 'pro' },
+};
+
+// Templates without an entry still take any data.
+export const untypedTemplate: SendTemplateParams = {
+  from,
+  to,
+  template: 'anything',
+  templateData: { whatever: 1 },
+};
+
+// Destinations may lean on defaultTemplateData, so their keys are optional.
+export const typedBulk: SendBulkTemplateParams<'invariants-welcome'> = {
+  from,
+  template: 'invariants-welcome',
+  defaultTemplateData: { name: 'there' },
+  destinations: [{ to, templateData: {} }],
+};
+
+export const typedBulkTypo: SendBulkTemplateParams<'invariants-welcome'> = {
+  from,
+  template: 'invariants-welcome',
+  // @ts-expect-error - nmae is not a key of the invariants-welcome template
+  destinations: [{ to, templateData: { nmae: 'Ada' } }],
+};
@@ -42,6 +42,392 @@ export interface ReplyThreadingConfig {
   cacheTtlMs?: number;
 }
 
+/**
+ * Retry policy for throttled and transient SES failures.
+ *
+ * Applies to `send()`, `sendTemplate()`, `sendBulkTemplate()` and `sendBatch()`.
+ * Only throttling, 5xx responses and network errors are retried (see
+ * `isRetryableError()`). Validation, sandbox and credential errors are thrown
+ * on the first attempt.
+ */
+export interface RetryPolicy {
+  /**
+   * Total attempts, including the first. Default: `3`. `1` disables retries.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Backoff before the first retry, in milliseconds. Doubles on each
+   * subsequent retry. Default: `200`.
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound on a single backoff, in milliseconds. Default: `5000`.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Stop retrying once a retry would start more than this many milliseconds
+   * after the first attempt. Unbounded when omitted.
+   */
+  maxElapsedMs?: number;
+
+  /**
+   * `'full'` (default) draws each delay uniformly from zero to the backoff
+   * cap; `'none'` waits the full cap every time.
+   */
+  jitter?: 'full' | 'none';
+
+  /**
+   * Called before each retry sleeps. Awaited, so a rejection aborts the send
+   * with that rejection.
+   */
+  onRetry?: (event: RetryEvent) => void | Promise<void>;
+}
+
+export interface RetryEvent {
+  /** The `WrapsEmail` method being retried. */
+  operation: 'send' | 'sendTemplate' | 'sendBulkTemplate' | 'sendBatch';
+
+  /** The attempt that just failed (1-based). */
+  attempt: number;
+
+  /** How long the client waits before the next attempt, in milliseconds. */
+  delayMs: number;
+
+  /** The failure that triggered the retry. */
+  error: Error;
+
+  /**
+   * `sendBatch()` only: indices (into `entries`) of the entries being retried.
+   * Entries that already succeeded are never re-sent.
+   */
+  entries?: number[];
+}
+
+/**
+ * Token-bucket state persisted by a {@link RateLimitStore}.
+ */
+export interface RateLimitState {
+  /** Tokens left at `updatedAt`. Negative after an oversized send. */
+  tokens: number;
+  /** Epoch milliseconds of the last update. */
+  updatedAt: number;
+  /** Epoch milliseconds the current 24-hour window opened. */
+  windowStart: number;
+  /** Recipients counted against the current 24-hour window. */
+  sentInWindow: number;
+}
+
+/**
+ * Backend for the send-rate limiter's state. Implement it over a shared store
+ * (Redis, DynamoDB with a conditional write, ...) to give several processes
+ * one budget.
+ */
+export interface RateLimitStore {
+  /** Current state for `key`, or `undefined` when none has been written. */
+  get(key: string): Promise<RateLimitState | undefined>;
+
+  /**
+   * Write `next` only if the stored state still equals `expected` (`undefined`
+   * meaning "absent"). Resolve `false` when another writer got there first.
+   */
+  compareAndSet(
+    key: string,
+    expected: RateLimitState | undefined,
+    next: RateLimitState
+  ): Promise<boolean>;
+}
+
+/**
+ * Client-side send pacing. Any limit left unset is read from the SES account
+ * (`GetAccount` → `SendQuota`) on first send.
+ */
+export interface RateLimitConfig {
+  /**
+   * Maximum recipients per second. Defaults to the account's `MaxSendRate`.
+   */
+  maxSendRate?: number;
+
+  /**
+   * Maximum recipients per 24 hours. Defaults to the account's
+   * `Max24HourSend`. A negative value means unlimited.
+   */
+  max24HourSend?: number;
+
+  /**
+   * Where the bucket lives. Defaults to an in-memory store private to this
+   * client.
+   */
+  store?: RateLimitStore;
+
+  /**
+   * Budget key within the store. Clients sharing a store and key share one
+   * budget. Default: `"wraps-email:send-rate"`.
+   */
+  key?: string;
+}
+
+/**
+ * Backend for idempotency keys. Implement it over a shared store to dedupe
+ * retries that land on a different process.
+ *
+ * Without `claim`, two processes that send one key at the same moment both
+ * find no record and both send; keys then only dedupe reliably within one
+ * process. With it, a key is claimed before its send and only the claimant
+ * sends.
+ */
+export interface IdempotencyStore {
+  /** The result recorded under `key`, or `undefined` when none is live. */
+  get(key: string): Promise<SendEmailResult | undefined>;
+
+  /** Record `result` under `key` for `ttlSeconds`, replacing any claim. */
+  set(key: string, result: SendEmailResult, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Mark `key` pending for `ttlSeconds` (the claim lease, not the record
+   * TTL), atomically, only if it holds neither a live record nor a live
+   * claim. Resolve `false` when it does.
+   */
+  claim?(key: string, ttlSeconds: number): Promise<boolean>;
+
+  /** Drop a pending claim on `key` whose send failed. A record is kept. */
+  release?(key: string): Promise<void>;
+}
+
+/**
+ * Where idempotency keys are remembered, and for how long.
+ */
+export interface IdempotencyConfig {
+  /**
+   * Custom store. Takes precedence over `tableName`.
+   */
+  store?: IdempotencyStore;
+
+  /**
+   * DynamoDB table for keys, partitioned on a string `idempotencyKey`
+   * attribute with TTL enabled on `expiresAt`. Uses `dynamodbClient` when
+   * provided, else a client built from region/credentials. When neither this
+   * nor `store` is set, keys are kept in memory for this client only.
+   */
+  tableName?: string;
+
+  /**
+   * How long a key suppresses repeat sends, in seconds. Default: 86400 (24h).
+   */
+  ttlSeconds?: number;
+
+  /**
+   * How long a claim taken before sending holds the key, in seconds. A
+   * process that dies mid-send blocks the key for this long; keep it above
+   * your slowest send, retries included. Default: 300 (5 minutes).
+   */
+  claimTtlSeconds?: number;
+}
+
+/**
+ * Recipient rewriting for non-production environments. Any `to`/`cc`/`bcc`
+ * not on the allow-list is redirected (or dropped), and the rewritten message
+ * carries an `X-Original-To` header and a subject prefix.
+ */
+export interface SafeModeConfig {
+  /** Addresses allowed through unchanged, matched case-insensitively. */
+  allowedRecipients?: string[];
+
+  /** Domains allowed through unchanged (`example.com` or `@example.com`). */
+  allowedDomains?: string[];
+
+  /**
+   * What happens to a recipient not on the allow-list. `'redirect'` (default)
+   * replaces it with `redirectTo`; `'drop'` removes it, and a message left
+   * with no To recipient goes to `redirectTo`.
+   */
+  action?: 'redirect' | 'drop';
+
+  /**
+   * Catch-all address. Defaults to the SES mailbox simulator
+   * (`success@simulator.amazonses.com`), which accepts everything and
+   * delivers nowhere.
+   */
+  redirectTo?: string;
+
+  /** Prepended to the subject of rewritten messages. Default: `"[safe-mode]"`. */
+  subjectPrefix?: string;
+}
+
+/**
+ * Circuit breaker on sender reputation. When the bounce or complaint rate
+ * crosses its threshold, promotional sends fail fast with a
+ * `ReputationCircuitOpenError`; transactional sends are never held back.
+ */
+export interface ReputationGuardConfig {
+  /**
+   * Hard-bounce rate that trips the breaker, as a fraction. Default: `0.04`,
+   * a little under the 5% at which SES puts an account under review.
+   */
+  maxBounceRate?: number;
+
+  /**
+   * Complaint rate that trips the breaker, as a fraction. Default: `0.0008`,
+   * a little under the 0.1% at which SES puts an account under review.
+   */
+  maxComplaintRate?: number;
+
+  /** Sends a source must have counted before its rates are trusted. Default: 100. */
+  minSends?: number;
+
+  /** How far back rates are measured, in milliseconds. Default: 24 hours. */
+  windowMs?: number;
+
+  /**
+   * How long a reading is reused before a promotional send refreshes it, in
+   * milliseconds. Default: 5 minutes.
+   */
+  refreshIntervalMs?: number;
+
+  /**
+   * Measure rates from the event history table. Requires `historyTableName`.
+   * Reads at most `maxMessages` of the most recent messages (default 1000).
+   */
+  events?: { accountId: string; maxMessages?: number };
+
+  /**
+   * Measure rates from SES `GetSendStatistics`, which every account has.
+   * Default: `true`.
+   */
+  sendStatistics?: boolean;
+
+  /**
+   * Measure rates from SES Virtual Deliverability Manager metrics. VDM is a
+   * paid add-on that must be enabled on the account; without it every reading
+   * fails with an `SESError` reported through `onEvent`. Default: `false`.
+   */
+  vdm?: boolean;
+
+  /**
+   * Tag that marks a send as promotional, alongside the `promotional` send
+   * option. Default: `{ name: 'category', value: 'promotional' }`.
+   */
+  promotionalTag?: { name: string; value: string };
+
+  /** Called when the breaker trips, recovers or blocks a send, or a reading fails. */
+  onEvent?: (event: ReputationGuardEvent) => void;
+}
+
+/** Rates measured by one source over the guard's window. */
+export interface ReputationMetrics {
+  source: 'events' | 'sendStatistics' | 'vdm';
+  sends: number;
+  bounces: number;
+  complaints: number;
+  bounceRate: number;
+  complaintRate: number;
+}
+
+export interface ReputationGuardStatus {
+  /** `open` while promotional sends are being refused. */
+  state: 'closed' | 'open';
+  /** Why the breaker is open, e.g. `bounce rate 6.2% (sendStatistics) exceeds 4%`. */
+  reasons: string[];
+  metrics: ReputationMetrics[];
+  /** When the rates were last read; undefined before the first reading. */
+  checkedAt?: Date;
+}
+
+export type ReputationGuardEvent =
+  | { type: 'tripped'; status: ReputationGuardStatus }
+  | { type: 'recovered'; status: ReputationGuardStatus }
+  | { type: 'blocked'; operation: string; status: ReputationGuardStatus }
+  | { type: 'error'; error: unknown };
+
+/**
+ * Local-development transport: messages are written to a directory as `.eml`
+ * files with JSON sidecars instead of being sent through SES.
+ */
+export interface FileSinkConfig {
+  /** Directory to write into. Created on first send. */
+  directory: string;
+}
+
+/**
+ * One-click unsubscribe (RFC 8058). When set, sends that pass
+ * `listUnsubscribe` carry `List-Unsubscribe` and `List-Unsubscribe-Post`
+ * headers holding a signed, expiring token for their recipient.
+ */
+export interface ListUnsubscribeConfig {
+  /**
+   * HMAC-SHA256 signing secret, at least 16 bytes. Keep it out of source
+   * control; the endpoint that verifies tokens needs the same value.
+   */
+  secret: string;
+
+  /**
+   * The secret being rotated out, also at least 16 bytes. Tokens signed
+   * with it still verify, so links in mail sent before a rotation keep working.
+   */
+  previousSecret?: string;
+
+  /**
+   * HTTPS endpoint for one-click unsubscribes. The token is appended as the
+   * `token` query parameter; mail clients POST `List-Unsubscribe=One-Click`
+   * to the resulting URL.
+   */
+  url?: string;
+
+  /**
+   * Mailbox for mail clients that unsubscribe by email, e.g.
+   * `unsubscribe@acme.com`. The token is sent as the message subject.
+   */
+  mailto?: string;
+
+  /** Token lifetime in seconds. `0` = never expires. Defaults to 90 days. */
+  ttlSeconds?: number;
+}
+
+/** Per-send opt-in to {@link ListUnsubscribeConfig} headers. */
+export interface ListUnsubscribeOptions {
+  /** The mailing list the recipient is leaving, e.g. `newsletter`. */
+  list: string;
+
+  /** Narrower topic within the list, e.g. `product-updates`. */
+  topic?: string;
+
+  /** Override the configured token lifetime for this send. `0` = never. */
+  ttlSeconds?: number;
+}
+
+/** What a verified unsubscribe token says. */
+export interface ListUnsubscribeToken {
+  /** Bare, lower-cased recipient address. */
+  recipient: string;
+  list: string;
+  topic?: string;
+  /** Unix seconds when the token expires; `null` when it never does. */
+  expiresAt: number | null;
+}
+
+/**
+ * S/MIME signing and encryption (RFC 8551). Sign with `certificate` and
+ * `privateKey`; encrypt by listing `recipientCertificates`. Either or both.
+ */
+export interface SmimeConfig {
+  /** PEM signing certificate, optionally followed by its intermediates. */
+  certificate?: string;
+
+  /** PEM private key for `certificate` (RSA or EC). */
+  privateKey?: string;
+
+  /** Passphrase for an encrypted `privateKey`. */
+  passphrase?: string;
+
+  /**
+   * PEM certificates (RSA) to encrypt to. Every To/Cc/Bcc recipient needs
+   * one naming their address, or the send is rejected.
+   */
+  recipientCertificates?: string[];
+}
+
 export interface WrapsEmailConfig {
   /**
    * Pre-configured SES client for advanced authentication scenarios
@@ -131,6 +517,83 @@ export interface WrapsEmailConfig {
    * signed reply-to address that the inbound Lambda verifies.
    */
   replyThreading?: ReplyThreadingConfig;
+
+  /**
+   * Retry throttled and transient SES failures with exponential backoff.
+   * Off when omitted — every send path throws on the first failure.
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Pace sends to the account's SES send rate and stop before the 24-hour
+   * quota. Off when omitted; `{}` enables it with limits read from SES.
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Where `idempotencyKey`s are remembered. Keys are honored without this,
+   * in memory for 24 hours.
+   */
+  idempotency?: IdempotencyConfig;
+
+  /**
+   * Middleware registered at construction, ahead of any added with `use()`.
+   */
+  middleware?: WrapsEmailMiddleware[];
+
+  /**
+   * Keep non-production environments from emailing real people: recipients
+   * off the allow-list are rewritten on every send path. Off when omitted.
+   */
+  safeMode?: SafeModeConfig;
+
+  /**
+   * Write messages to a directory instead of sending them, for local
+   * development without AWS credentials. Replaces SES for `send`,
+   * `sendTemplate`, `sendBulkTemplate` and `sendBatch`, and takes precedence
+   * over `client` and `sesv2Client`. Templates are stored and rendered locally.
+   */
+  fileSink?: FileSinkConfig;
+
+  /**
+   * Sign RFC 8058 one-click unsubscribe links. Required before `send`,
+   * `sendBatch` or `sendBulkTemplate` can be passed `listUnsubscribe`.
+   */
+  listUnsubscribe?: ListUnsubscribeConfig;
+
+  /**
+   * Sign and/or encrypt every `send()` with S/MIME. Such sends go through
+   * SendRawEmail; template and batch sends, which SES renders, are rejected.
+   */
+  smime?: SmimeConfig;
+
+  /**
+   * Stop promotional sends when bounce or complaint rates cross a threshold.
+   * Off when omitted.
+   */
+  reputationGuard?: ReputationGuardConfig;
+
+  /**
+   * Named configuration sets a send can pick with `pool`, e.g.
+   * `{ transactional: 'tx', marketing: 'bulk' }`. Each set's delivery options
+   * choose the dedicated IP pool its mail leaves from.
+   */
+  pools?: Record<string, string>;
+
+  /**
+   * Data keys each template cannot render without, keyed by template name:
+   * the `requiredTemplateData` export of the file `generateTemplateTypes()`
+   * writes. `sendTemplate()` and `sendBulkTemplate()` throw a
+   * `ValidationError` naming the missing keys instead of calling SES.
+   */
+  requiredTemplateData?: Record<string, readonly string[]>;
+
+  /**
+   * Leave suppressed recipients out of `send`, `sendBatch` and
+   * `sendBulkTemplate`, or refuse such sends. Off when omitted, though a send
+   * can still pass `suppressionCheck` to check the SES list.
+   */
+  suppressionCheck?: SuppressionCheckConfig;
 }
 
 export interface EmailAddress {
@@ -143,6 +606,65 @@ export interface Attachment {
   content: Buffer | string; // Buffer or base64 string
   contentType?: string;
   encoding?: 'base64' | 'utf-8';
+  /**
+   * Content-ID for referencing the part from HTML as `<img src="cid:logo">`.
+   * Angle brackets are optional.
+   */
+  contentId?: string;
+  /**
+   * `'inline'` (the default with a `contentId`) places the part alongside the
+   * HTML in `multipart/related`; `'attachment'` (the default otherwise) shows
+   * it as a downloadable file.
+   */
+  disposition?: 'inline' | 'attachment';
+}
+
+/**
+ * A meeting invite sent as an RFC 5545 `text/calendar` part. Send the same
+ * `uid` again with a higher `sequence` to update it — see
+ * `updateCalendarEvent()` and `cancelCalendarEvent()`.
+ */
+export interface CalendarEvent {
+  /**
+   * Stable identifier shared by the invite, its updates and its
+   * cancellation. Generated when omitted and returned as
+   * `SendEmailResult.calendarEventUid`.
+   */
+  uid?: string;
+
+  /** `'REQUEST'` (default) invites or updates; `'CANCEL'` withdraws the event. */
+  method?: 'REQUEST' | 'CANCEL';
+
+  /** Revision number; each update or cancellation must increase it. Default `0`. */
+  sequence?: number;
+
+  /** Event title. Defaults to the email subject. */
+  summary?: string;
+
+  description?: string;
+
+  location?: string;
+
+  /** Start time: a `Date` or anything `new Date()` parses, e.g. an ISO string. */
+  start: Date | string;
+
+  /** End time, after `start`. */
+  end: Date | string;
+
+  /**
+   * IANA time zone (e.g. `Europe/Berlin`) to present the times in. Clients
+   * keep recurring events at the same local time across DST changes, for as
+   * long as the event recurs. Times are sent in UTC when omitted.
+   */
+  timezone?: string;
+
+  organizer: string | EmailAddress;
+
+  /** Invitees. Defaults to the message's To and Cc recipients. */
+  attendees?: (string | EmailAddress)[];
+
+  /** RFC 5545 recurrence rule, e.g. `FREQ=WEEKLY;BYDAY=MO;COUNT=10`. */
+  recurrence?: string;
 }
 
 /**
@@ -193,6 +715,47 @@ export interface SendEmailParamsBase {
    */
   attachments?: Attachment[];
 
+  /**
+   * Embed local images: every `<img src>` in the HTML that is a file path
+   * rather than a URL (e.g. `./logo.png`) is read from disk, attached inline
+   * and rewritten to a `cid:` reference. Paths resolve against `baseDir`,
+   * or the working directory when `true`.
+   */
+  inlineImages?: boolean | { baseDir: string };
+
+  /**
+   * Attach a meeting invite that mail clients show with accept/decline
+   * buttons. Sends with an event go through SendRawEmail.
+   */
+  calendarEvent?: CalendarEvent;
+
+  /**
+   * Extra MIME headers, e.g. `List-Id`, `X-Entity-Ref-ID` or `Auto-Submitted`.
+   * Sends with headers go through SendRawEmail. Headers the client writes
+   * itself (`From`, `To`, `Subject`, `Message-ID`, `Content-Type`, ...) are
+   * rejected with a `ValidationError`.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Add one-click `List-Unsubscribe` headers for the recipient. Needs
+   * `listUnsubscribe` in the client config and exactly one recipient.
+   */
+  listUnsubscribe?: ListUnsubscribeOptions;
+
+  /**
+   * Send on behalf of an SES contact list so SES manages unsubscribes. Sends
+   * with list management go through SES v2. Cannot be combined with
+   * `listUnsubscribe`.
+   */
+  listManagement?: ListManagementOptions;
+
+  /**
+   * S/MIME for this send, merged over the client's `smime` (e.g. to add
+   * `recipientCertificates`). `false` sends this message unsigned.
+   */
+  smime?: SmimeConfig | false;
+
   /**
    * SES message tags for categorization and tracking (optional)
    */
@@ -223,6 +786,31 @@ export interface SendEmailParamsBase {
    * `replyThreading.ttlSeconds` value (or 90 days).
    */
   replyTtlSeconds?: number;
+  /**
+   * Dedupe key for this send. A repeat within the key's TTL returns the
+   * original result instead of sending again — use one per logical email,
+   * e.g. `order-123-receipt`, so job retries are safe.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Marks a marketing send, which `reputationGuard` refuses while its breaker
+   * is open. Transactional sends leave this unset.
+   */
+  promotional?: boolean;
+
+  /**
+   * Route this send through a configuration set named in the client's
+   * `pools`, and so through that set's dedicated IP pool. Cannot be combined
+   * with `configurationSetName`.
+   */
+  pool?: string;
+
+  /**
+   * What to do with recipients on the SES account-level suppression list or
+   * the client's `suppressionCheck.lookup`. Overrides the client's mode.
+   */
+  suppressionCheck?: SuppressionCheckMode;
 }
 
 /**
@@ -273,9 +861,32 @@ export interface SendEmailResult {
    * `sendId` baked into the reply-to token.
    */
   sendId?: string;
+  /**
+   * Present when the send carried a `calendarEvent` — the UID to reuse for
+   * its updates and cancellation.
+   */
+  calendarEventUid?: string;
+  /**
+   * Recipients `suppressionCheck` left out of the message. When every To
+   * recipient is among them, nothing was sent and `messageId` is empty.
+   */
+  skipped?: SkippedRecipient[];
 }
 
-export interface SendTemplateParams {
+/**
+ * Template name to the data it takes. Empty here, so any template takes any
+ * data; the file `generateTemplateTypes()` writes fills it in by declaration
+ * merging, after which `templateData` is checked against the named template.
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: filled in by declaration merging
+export interface TemplateDataMap {}
+
+/** The data a template takes: its {@link TemplateDataMap} entry, or any record. */
+export type TemplateData<Name extends string> = Name extends keyof TemplateDataMap
+  ? TemplateDataMap[Name]
+  : Record<string, unknown>;
+
+export interface SendTemplateParams<Name extends string = string> {
   /**
    * Sender email address (must be verified in SES)
    */
@@ -304,12 +915,12 @@ export interface SendTemplateParams {
   /**
    * Template name (must exist in your SES account)
    */
-  template: string;
+  template: Name;
 
   /**
    * Template data for variable substitution
    */
-  templateData: Record<string, unknown>;
+  templateData: TemplateData<Name>;
 
   /**
    * SES message tags (optional)
@@ -335,15 +946,37 @@ export interface SendTemplateParams {
    * Override token TTL for this send (seconds). `0` = infinite.
    */
   replyTtlSeconds?: number;
+
+  /**
+   * Dedupe key for this send. See `SendEmailParams.idempotencyKey`.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Marks a marketing send, which `reputationGuard` refuses while its breaker
+   * is open. Transactional sends leave this unset.
+   */
+  promotional?: boolean;
+
+  /**
+   * Route this send through a configuration set named in the client's
+   * `pools`, and so through that set's dedicated IP pool. Cannot be combined
+   * with `configurationSetName`.
+   */
+  pool?: string;
 }
 
-export interface BulkTemplateDestination {
+export interface BulkTemplateDestination<Name extends string = string> {
   to: string | EmailAddress;
-  templateData: Record<string, unknown>;
+  /**
+   * Merged over `defaultTemplateData`, so for a typed template each key is
+   * optional here; `requiredTemplateData` checks the merged data at runtime.
+   */
+  templateData: Partial<TemplateData<Name>>;
   replacementTags?: Record<string, string>;
 }
 
-export interface SendBulkTemplateParams {
+export interface SendBulkTemplateParams<Name extends string = string> {
   /**
    * Sender email address (must be verified in SES)
    */
@@ -352,17 +985,17 @@ export interface SendBulkTemplateParams {
   /**
    * Template name (must exist in your SES account)
    */
-  template: string;
+  template: Name;
 
   /**
    * List of recipients with personalized data (max 50)
    */
-  destinations: BulkTemplateDestination[];
+  destinations: BulkTemplateDestination<Name>[];
 
   /**
    * Default template data (optional, merged with destination-specific data)
    */
-  defaultTemplateData?: Record<string, unknown>;
+  defaultTemplateData?: Partial<TemplateData<Name>>;
 
   /**
    * Reply-To address (optional)
@@ -394,6 +1027,38 @@ export interface SendBulkTemplateParams {
    * Override token TTL for this send (seconds). `0` = infinite.
    */
   replyTtlSeconds?: number;
+
+  /**
+   * Add one-click `List-Unsubscribe` headers, signed per destination. Each
+   * destination then goes out as its own rendered message, and needs
+   * exactly one recipient.
+   */
+  listUnsubscribe?: ListUnsubscribeOptions;
+
+  /**
+   * Send on behalf of an SES contact list. Each destination then goes out as
+   * its own rendered message through SES v2.
+   */
+  listManagement?: ListManagementOptions;
+
+  /**
+   * Marks the whole send as marketing, which `reputationGuard` refuses while
+   * its breaker is open.
+   */
+  promotional?: boolean;
+
+  /**
+   * Route this send through a configuration set named in the client's
+   * `pools`, and so through that set's dedicated IP pool. Cannot be combined
+   * with `configurationSetName`.
+   */
+  pool?: string;
+
+  /**
+   * What to do with recipients on the SES account-level suppression list or
+   * the client's `suppressionCheck.lookup`. Overrides the client's mode.
+   */
+  suppressionCheck?: SuppressionCheckMode;
 }
 
 export interface SendBulkTemplateResult {
@@ -401,7 +1066,10 @@ export interface SendBulkTemplateResult {
     messageId?: string;
     status: 'success' | 'failure';
     error?: string;
+    /** Set on a destination `suppressionCheck` did not send to. */
+    skipped?: SkippedRecipient[];
   }>;
+  /** Empty when `suppressionCheck` skipped every destination and SES was not called. */
   requestId: string;
   /**
    * Present when the bulk send was signed for reply threading.
@@ -413,6 +1081,102 @@ export interface SendBulkTemplateResult {
   sendId?: string;
 }
 
+// ============================================================
+// Streaming send types (sendBulkTemplateStream, sendBatchStream)
+// ============================================================
+
+/** What became of one destination or entry, keyed in a checkpoint by its offset. */
+export type StreamCheckpointStatus =
+  | { status: 'success'; messageId?: string }
+  | { status: 'failure'; error: string }
+  /** Its chunk was handed to SES but never acknowledged. */
+  | { status: 'pending' }
+  /** Pending when the job stopped: SES may or may not have sent it. */
+  | { status: 'unknown' };
+
+/**
+ * Progress of a streaming send, enough to resume it. Destinations and entries
+ * are identified by their offset in the source, so a resumed job must read
+ * them in the same order.
+ */
+export interface StreamCheckpoint {
+  /** Every destination before this offset has an outcome. */
+  offset: number;
+  /** Outcomes at or after `offset`, from chunks that finished out of order. */
+  statuses: Record<number, StreamCheckpointStatus>;
+  sent: number;
+  failed: number;
+  unknown: number;
+}
+
+/**
+ * Where a streaming send (`sendBulkTemplateStream` or `sendBatchStream`) keeps
+ * its checkpoint. Implement it over durable storage (a file, Redis, DynamoDB)
+ * so a job can resume after a crash.
+ */
+export interface StreamCheckpointStore {
+  /** The checkpoint saved for `jobId`, or `undefined` for a new job. */
+  get(jobId: string): Promise<StreamCheckpoint | undefined>;
+
+  /** Replace the checkpoint for `jobId`. Calls for one job never overlap. */
+  set(jobId: string, checkpoint: StreamCheckpoint): Promise<void>;
+}
+
+/** One destination's outcome, as reported to `onProgress`. */
+export type BulkTemplateDestinationResult = StreamCheckpointStatus & {
+  offset: number;
+  to: string | EmailAddress;
+};
+
+export interface BulkTemplateProgress {
+  /** The chunk that just finished. */
+  results: BulkTemplateDestinationResult[];
+  /** Totals so far, including any from before a resume. */
+  sent: number;
+  failed: number;
+  unknown: number;
+  /** Every destination before this offset has an outcome. */
+  offset: number;
+}
+
+export interface SendBulkTemplateStreamParams<Name extends string = string>
+  extends Omit<SendBulkTemplateParams<Name>, 'destinations'> {
+  /** Destinations to send to, read as they are needed. */
+  destinations:
+    | AsyncIterable<BulkTemplateDestination<Name>>
+    | Iterable<BulkTemplateDestination<Name>>;
+
+  /** Destinations per `SendBulkTemplatedEmail` call, 1–50. Default: 50. */
+  chunkSize?: number;
+
+  /** Chunks in flight at once. Default: 4. */
+  concurrency?: number;
+
+  /**
+   * Names the job in `checkpointStore`, which must be set with it. A job
+   * with a saved checkpoint resumes from it, skipping every destination that
+   * already has an outcome.
+   */
+  jobId?: string;
+
+  /** Where checkpoints are saved. Required with `jobId`. */
+  checkpointStore?: StreamCheckpointStore;
+
+  /** Called after each chunk finishes. Awaited; a rejection stops the job. */
+  onProgress?: (progress: BulkTemplateProgress) => void | Promise<void>;
+}
+
+export interface SendBulkTemplateStreamResult {
+  sent: number;
+  failed: number;
+  /** Destinations whose chunk was in flight when an earlier run stopped. */
+  unknown: number;
+  /** Destinations read from the source, including those skipped on resume. */
+  total: number;
+  /** The offset the job resumed from; 0 for a fresh job. */
+  resumedFrom: number;
+}
+
 // ============================================================
 // Batch sending types (sendBatch)
 // ============================================================
@@ -423,6 +1187,22 @@ export interface BatchEmailEntry {
    */
   to: string | EmailAddress;
 
+  /**
+   * CC recipients for this entry
+   */
+  cc?: string | string[] | EmailAddress | EmailAddress[];
+
+  /**
+   * BCC recipients for this entry
+   */
+  bcc?: string | string[] | EmailAddress | EmailAddress[];
+
+  /**
+   * Reply-To for this entry, in place of the batch's `replyTo`. The entry is
+   * sent on its own, since `SendBulkEmail` shares one Reply-To per call.
+   */
+  replyTo?: string | string[] | EmailAddress | EmailAddress[];
+
   /**
    * Email subject for this entry
    */
@@ -446,10 +1226,26 @@ export interface BatchEmailEntry {
    */
   react?: React.ReactElement;
 
+  /**
+   * Attachments for this entry (max 100). The entry is sent on its own as a
+   * raw message, since `SendBulkEmail` cannot carry attachments.
+   */
+  attachments?: Attachment[];
+
   /**
    * Per-entry SES message tags (replaces default tags for this entry)
    */
   tags?: Record<string, string>;
+
+  /**
+   * Extra MIME headers for this entry, validated like `send({ headers })`.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Dedupe key for this entry. An entry whose key was already sent is not
+   * re-sent; its row reports the original `messageId`.
+   */
+  idempotencyKey?: string;
 }
 
 export interface SendBatchParams {
@@ -477,10 +1273,44 @@ export interface SendBatchParams {
    * Configuration set name (optional)
    */
   configurationSetName?: string;
+
+  /**
+   * Add one-click `List-Unsubscribe` headers to every entry, each signed for
+   * its own recipient.
+   */
+  listUnsubscribe?: ListUnsubscribeOptions;
+
+  /**
+   * Send on behalf of an SES contact list. SES bulk sends cannot carry list
+   * management, so each entry is sent with its own SES v2 `SendEmail`.
+   */
+  listManagement?: ListManagementOptions;
+
+  /**
+   * Marks the whole send as marketing, which `reputationGuard` refuses while
+   * its breaker is open.
+   */
+  promotional?: boolean;
+
+  /**
+   * Route this send through a configuration set named in the client's
+   * `pools`, and so through that set's dedicated IP pool. Cannot be combined
+   * with `configurationSetName`.
+   */
+  pool?: string;
+
+  /**
+   * What to do with recipients on the SES account-level suppression list or
+   * the client's `suppressionCheck.lookup`. Overrides the client's mode.
+   */
+  suppressionCheck?: SuppressionCheckMode;
 }
 
 export interface BatchEntryResult {
-  /** Index of the entry in the original entries array */
+  /**
+   * Index of the entry in the original entries array; for `sendBatchStream`,
+   * its offset in the source
+   */
   index: number;
 
   /** SES message ID (present on success) */
@@ -491,6 +1321,12 @@ export interface BatchEntryResult {
 
   /** Error message (present on failure) */
   error?: string;
+
+  /**
+   * Recipients `suppressionCheck` left out. When `to` is among them, the
+   * entry was not sent and its status is `failure`.
+   */
+  skipped?: SkippedRecipient[];
 }
 
 export interface SendBatchResult {
@@ -500,8 +1336,41 @@ export interface SendBatchResult {
   /** Number of entries sent successfully */
   successCount: number;
 
-  /** Number of entries that failed */
-  failureCount: number;
+  /** Number of entries that failed */
+  failureCount: number;
+}
+
+export interface SendBatchStreamParams extends Omit<SendBatchParams, 'entries'> {
+  /** Entries to send, read as they are needed. React entries render per chunk. */
+  entries: AsyncIterable<BatchEmailEntry> | Iterable<BatchEmailEntry>;
+
+  /** Entries per `sendBatch` call, 1–100. Default: 100. */
+  chunkSize?: number;
+
+  /** Chunks in flight at once. Default: 4. */
+  concurrency?: number;
+
+  /**
+   * Names the job in `checkpointStore`, which must be set with it. A job
+   * with a saved checkpoint resumes from it, skipping every entry that
+   * already has an outcome.
+   */
+  jobId?: string;
+
+  /** Where checkpoints are saved. Required with `jobId`. */
+  checkpointStore?: StreamCheckpointStore;
+}
+
+/** Returned by `sendBatchStream` once every entry has been read and sent. */
+export interface SendBatchStreamResult {
+  sent: number;
+  failed: number;
+  /** Entries whose chunk was in flight when an earlier run stopped. */
+  unknown: number;
+  /** Entries read from the source, including those skipped on resume. */
+  total: number;
+  /** The offset the job resumed from; 0 for a fresh job. */
+  resumedFrom: number;
 }
 
 export interface CreateTemplateParams {
@@ -579,6 +1448,89 @@ export interface Template {
   createdTimestamp: Date;
 }
 
+export interface RenderTemplateOptions {
+  /**
+   * `'ses'` renders with SES `TestRenderTemplate`; `'local'` with the SDK's
+   * Handlebars renderer, which follows SES semantics. Defaults to SES, or to
+   * local when `template` is given or the client writes to a `fileSink`.
+   */
+  renderer?: 'ses' | 'local';
+
+  /** Render this content instead of a stored template, e.g. before creating it. */
+  template?: { subject: string; html?: string; text?: string };
+}
+
+export interface RenderedTemplate {
+  subject: string;
+  html?: string;
+  text?: string;
+  /**
+   * Substitutions the data has no value for, e.g. `user.firstName`. SES
+   * refuses to render or send such a template; the preview shows them empty.
+   */
+  missing: string[];
+  /** Top-level data keys the template never refers to. */
+  unused: string[];
+  /** Which renderer produced the preview. */
+  renderer: 'ses' | 'local';
+}
+
+/** A template to generate data types for, from SES or your own files. */
+export interface TemplateTypesSource {
+  name: string;
+  subject: string;
+  html?: string;
+  text?: string;
+}
+
+export interface TemplateSyncOptions {
+  /**
+   * Directory of template files. Defaults to `./templates`, the default
+   * `templatesDir` of `wraps.config.ts`.
+   */
+  dir?: string;
+
+  /** Delete SES templates that have no files in `dir`. Off by default. */
+  prune?: boolean;
+
+  /** Work out and report the changes without making them. */
+  dryRun?: boolean;
+
+  /**
+   * SES template API calls per second. SES allows one per second per
+   * account, which is the default.
+   */
+  requestsPerSecond?: number;
+}
+
+export interface TemplateSyncChange {
+  action: 'create' | 'update' | 'delete';
+  name: string;
+  /** Unified diff from the SES template to the local files. */
+  diff: string;
+  /** SHA-256 of the local content; absent for a delete. */
+  localHash?: string;
+  /** SHA-256 of the SES content; absent for a create. */
+  remoteHash?: string;
+}
+
+export interface TemplateSyncResult {
+  /** Creates, updates and deletes, applied unless `dryRun` was set. */
+  changes: TemplateSyncChange[];
+  /** Templates whose content already matches. */
+  unchanged: string[];
+  /** SES templates with no local files, left in place because `prune` was off. */
+  untracked: string[];
+  dryRun: boolean;
+}
+
+export interface GenerateTemplateTypesOptions {
+  /**
+   * Module the generated declaration augments. Defaults to `'@wraps.dev/email'`.
+   */
+  moduleName?: string;
+}
+
 // ============================================================
 // Inbox types (inbound email)
 // ============================================================
@@ -765,3 +1717,551 @@ export interface SuppressionListResult {
   entries: SuppressionEntry[];
   nextToken?: string;
 }
+
+/**
+ * What a send does with suppressed recipients: `'skip'` leaves them out (and
+ * does not send a message whose To recipients are all suppressed), `'error'`
+ * refuses the send with a `SuppressedRecipientError`, `'off'` sends as asked.
+ */
+export type SuppressionCheckMode = 'skip' | 'error' | 'off';
+
+/** A recipient `suppressionCheck` left out of a send, and why. */
+export interface SkippedRecipient {
+  /** The bare address, lowercased. */
+  email: string;
+  /** `BOUNCE` or `COMPLAINT` from SES, or the reason `lookup` gave. */
+  reason: string;
+  /** Which list it was found on. */
+  source: 'ses' | 'app';
+}
+
+/**
+ * Pre-send suppression filtering for `send`, `sendBatch` and
+ * `sendBulkTemplate`. Each send's recipients are looked up together, and
+ * every answer is cached for `cacheTtlMs`.
+ */
+export interface SuppressionCheckConfig {
+  /** Mode for sends that don't set `suppressionCheck`. Default: `'skip'`. */
+  mode?: SuppressionCheckMode;
+
+  /**
+   * App-level suppressions, consulted before SES: called once per send with
+   * every address not already cached, it returns the suppressed ones.
+   */
+  lookup?: (emails: string[]) => Promise<Array<{ email: string; reason: string }>>;
+
+  /**
+   * Consult the SES account-level suppression list, one
+   * `GetSuppressedDestination` per uncached address. Default: `true`.
+   */
+  ses?: boolean;
+
+  /** How long an address's lookup is reused, in milliseconds. Default: 5 minutes. */
+  cacheTtlMs?: number;
+
+  /** SES lookups in flight at once. Default: 10. */
+  concurrency?: number;
+}
+
+// ============================================================
+// Contact list types
+// ============================================================
+
+export type ContactSubscriptionStatus = 'OPT_IN' | 'OPT_OUT';
+
+/** A subscription topic within a contact list, e.g. `product-updates`. */
+export interface ContactListTopic {
+  name: string;
+  /** Shown to contacts on the SES-hosted subscription preferences page. */
+  displayName: string;
+  description?: string;
+  /** Status of contacts with no preference of their own for this topic. */
+  defaultSubscriptionStatus: ContactSubscriptionStatus;
+}
+
+export interface CreateContactListParams {
+  name: string;
+  description?: string;
+  topics?: ContactListTopic[];
+  tags?: Record<string, string>;
+}
+
+export interface UpdateContactListParams {
+  description?: string;
+  /** Replaces the list's topics. Use `putTopic` / `deleteTopic` to change one. */
+  topics?: ContactListTopic[];
+}
+
+export interface ContactList {
+  name: string;
+  description?: string;
+  topics: ContactListTopic[];
+  createdAt?: Date;
+  lastUpdated?: Date;
+}
+
+export interface ContactListSummary {
+  name: string;
+  lastUpdated?: Date;
+}
+
+export interface ContactListListOptions {
+  /** Max results per page (default 100, max 1000) */
+  maxResults?: number;
+  /** Pagination token from previous response */
+  continuationToken?: string;
+}
+
+export interface ContactListListResult {
+  lists: ContactListSummary[];
+  nextToken?: string;
+}
+
+/** Fields to set when adding or updating a contact. */
+export interface ContactParams {
+  /** Per-topic preferences; topics left out follow the topic default. */
+  topics?: Record<string, ContactSubscriptionStatus>;
+  /** Opt out of every topic on the list. */
+  unsubscribeAll?: boolean;
+  /** Arbitrary JSON stored with the contact. */
+  attributes?: Record<string, unknown>;
+}
+
+export interface Contact {
+  email: string;
+  /** Preferences the contact chose. */
+  topics: Record<string, ContactSubscriptionStatus>;
+  /** Topic defaults that apply where the contact has no preference. */
+  topicDefaults: Record<string, ContactSubscriptionStatus>;
+  unsubscribeAll: boolean;
+  /** Only returned by `getContact`. */
+  attributes?: Record<string, unknown>;
+  createdAt?: Date;
+  lastUpdated?: Date;
+}
+
+export interface ContactsListOptions {
+  /** Only contacts with this subscription status. */
+  status?: ContactSubscriptionStatus;
+  /** Apply `status` to this topic. */
+  topic?: string;
+  /** Count contacts with no preference by the topic default (default `true`). */
+  useTopicDefault?: boolean;
+  /** Max results per page (default 100, max 1000) */
+  maxResults?: number;
+  /** Pagination token from previous response */
+  continuationToken?: string;
+}
+
+export interface ContactsListResult {
+  contacts: Contact[];
+  nextToken?: string;
+}
+
+/**
+ * Attribute a send to a contact list (and topic) so SES handles unsubscribes:
+ * it adds `List-Unsubscribe` headers and skips contacts who opted out.
+ */
+export interface ListManagementOptions {
+  contactListName: string;
+  topicName?: string;
+}
+
+// ============================================================
+// Account types
+// ============================================================
+
+/** The SES account in this region, as `GetAccount` reports it. */
+export interface AccountSummary {
+  /** `false` while the account is in the SES sandbox. */
+  productionAccessEnabled: boolean;
+
+  /** `false` when sending is paused for the whole account. */
+  sendingEnabled: boolean;
+
+  /**
+   * SES's review of the account: `HEALTHY`, `PROBATION` (bounce or complaint
+   * rates need fixing) or `SHUTDOWN` (sending stopped).
+   */
+  enforcementStatus: 'HEALTHY' | 'PROBATION' | 'SHUTDOWN' | (string & {});
+
+  sendQuota: {
+    /** Recipients per 24 hours; `null` when unlimited. */
+    max24HourSend: number | null;
+    /** Recipients per second. */
+    maxSendRate: number;
+    sentLast24Hours: number;
+    /** What is left of today's quota; `null` when unlimited. */
+    remaining24Hour: number | null;
+  };
+
+  /** Virtual Deliverability Manager. */
+  vdm: { enabled: boolean; dashboardEnabled: boolean; guardianEnabled: boolean };
+
+  /** Reasons that add recipients to the account suppression list. */
+  suppressedReasons: SuppressionReason[];
+
+  dedicatedIpAutoWarmupEnabled: boolean;
+}
+
+export interface AssertCanSendOptions {
+  /** Recipients about to be sent to, checked against what is left of the 24-hour quota. */
+  recipients?: number;
+
+  /** Pass a sandboxed account, e.g. for a staging campaign to verified addresses. */
+  allowSandbox?: boolean;
+}
+
+// ============================================================
+// Configuration set types
+// ============================================================
+
+/** SES event types an event destination can publish. */
+export type ConfigurationSetEventType =
+  | 'SEND'
+  | 'REJECT'
+  | 'BOUNCE'
+  | 'COMPLAINT'
+  | 'DELIVERY'
+  | 'OPEN'
+  | 'CLICK'
+  | 'RENDERING_FAILURE'
+  | 'DELIVERY_DELAY'
+  | 'SUBSCRIPTION';
+
+export interface ConfigurationSetOptions {
+  /** Open and click tracking through your own domain instead of the SES default. */
+  tracking?: {
+    customRedirectDomain: string;
+    httpsPolicy?: 'REQUIRE' | 'REQUIRE_OPEN_ONLY' | 'OPTIONAL';
+  };
+
+  /** Publish bounce and complaint rate metrics for sends through this set. */
+  reputationMetricsEnabled?: boolean;
+
+  /** `false` pauses every send that names this set. */
+  sendingEnabled?: boolean;
+
+  /**
+   * Reasons that add a recipient to the account suppression list for sends
+   * through this set. Unset uses the account setting; `[]` suppresses nothing.
+   */
+  suppressedReasons?: SuppressionReason[];
+
+  delivery?: {
+    /** `REQUIRE` refuses delivery to a receiving server without TLS. */
+    tlsPolicy?: 'REQUIRE' | 'OPTIONAL';
+    /** Dedicated IP pool to send from. */
+    sendingPoolName?: string;
+    /** Give up on delivery after this long, 300–50,400 seconds. */
+    maxDeliverySeconds?: number;
+  };
+}
+
+export interface CreateConfigurationSetParams extends ConfigurationSetOptions {
+  name: string;
+  tags?: Record<string, string>;
+}
+
+/**
+ * Sections to replace; omitted sections are left as they are. `tracking: null`
+ * removes the custom redirect domain.
+ */
+export interface UpdateConfigurationSetParams extends Omit<ConfigurationSetOptions, 'tracking'> {
+  tracking?: ConfigurationSetOptions['tracking'] | null;
+}
+
+export interface ConfigurationSet extends ConfigurationSetOptions {
+  name: string;
+  tags: Record<string, string>;
+}
+
+export interface ConfigurationSetListOptions {
+  maxResults?: number;
+  continuationToken?: string;
+}
+
+export interface ConfigurationSetListResult {
+  configurationSets: string[];
+  nextToken?: string;
+}
+
+/** Where an event destination publishes. */
+export type EventDestinationTarget =
+  | { type: 'eventBridge'; eventBusArn: string }
+  | { type: 'sns'; topicArn: string }
+  | {
+      type: 'cloudWatch';
+      dimensions: Array<{
+        name: string;
+        source: 'MESSAGE_TAG' | 'EMAIL_HEADER' | 'LINK_TAG';
+        defaultValue: string;
+      }>;
+    }
+  | { type: 'firehose'; deliveryStreamArn: string; iamRoleArn: string };
+
+export interface EventDestination {
+  name: string;
+
+  /** Defaults to `true`. */
+  enabled?: boolean;
+
+  /**
+   * Events to publish. Defaults to the events `WrapsEmailEvents` reports on:
+   * send, delivery, open, click, bounce and complaint.
+   */
+  eventTypes?: ConfigurationSetEventType[];
+
+  target: EventDestinationTarget;
+}
+
+// ============================================================
+// IP pool types
+// ============================================================
+
+/**
+ * `STANDARD` pools hold the dedicated IPs you lease and warm up yourself;
+ * `MANAGED` pools are sized and warmed by SES.
+ */
+export type IpPoolScalingMode = 'STANDARD' | 'MANAGED';
+
+export interface CreateIpPoolParams {
+  name: string;
+  /** Default: `'STANDARD'`. */
+  scalingMode?: IpPoolScalingMode;
+  tags?: Record<string, string>;
+}
+
+export interface IpPool {
+  name: string;
+  scalingMode: IpPoolScalingMode;
+}
+
+export interface IpPoolListOptions {
+  maxResults?: number;
+  continuationToken?: string;
+}
+
+export interface IpPoolListResult {
+  pools: string[];
+  nextToken?: string;
+}
+
+export interface DedicatedIp {
+  ip: string;
+  pool?: string;
+  /** `NOT_APPLICABLE` for IPs in a managed pool, which SES warms itself. */
+  warmupStatus: 'IN_PROGRESS' | 'DONE' | 'NOT_APPLICABLE';
+  /** Warm-up progress from 0 to 100; `null` for IPs in a managed pool. */
+  warmupPercentage: number | null;
+}
+
+export interface DedicatedIpListOptions {
+  /** Only IPs in this pool. */
+  pool?: string;
+  maxResults?: number;
+  continuationToken?: string;
+}
+
+export interface DedicatedIpListResult {
+  ips: DedicatedIp[];
+  nextToken?: string;
+}
+
+// ============================================================
+// Identity types
+// ============================================================
+
+export type IdentityType = 'EMAIL_ADDRESS' | 'DOMAIN';
+
+/** SES verification state of an identity, its DKIM setup or its MAIL FROM domain. */
+export type IdentityVerificationStatus =
+  | 'PENDING'
+  | 'SUCCESS'
+  | 'FAILED'
+  | 'TEMPORARY_FAILURE'
+  | 'NOT_STARTED';
+
+/**
+ * How SES signs for a domain: Easy DKIM (SES holds the key) or BYODKIM (bring
+ * your own key, published under your own selector).
+ */
+export type DkimSigningOptions =
+  | { signingKeyLength?: 'RSA_1024_BIT' | 'RSA_2048_BIT' }
+  | {
+      /** The selector the public key is published under, e.g. `wraps1`. */
+      selector: string;
+      /** RSA private key (1024 or 2048 bit), PEM. */
+      privateKey: string;
+    };
+
+export interface CreateDomainIdentityParams {
+  /** Easy DKIM with a 2048-bit key when omitted. */
+  dkim?: DkimSigningOptions;
+
+  /**
+   * Custom MAIL FROM subdomain, e.g. `mail.acme.com`, so SPF aligns with the
+   * From domain for DMARC.
+   */
+  mailFromDomain?: string;
+
+  /**
+   * What SES does when the MAIL FROM MX record is missing: fall back to
+   * `amazonses.com` (default) or reject the send.
+   */
+  mailFromBehaviorOnMxFailure?: 'USE_DEFAULT_VALUE' | 'REJECT_MESSAGE';
+
+  /** Where aggregate DMARC reports go, for the recommended DMARC record. */
+  dmarcReportEmail?: string;
+
+  /** Default configuration set for sends from this identity. */
+  configurationSetName?: string;
+
+  tags?: Record<string, string>;
+}
+
+export interface CreateEmailIdentityParams {
+  /** Default configuration set for sends from this identity. */
+  configurationSetName?: string;
+
+  tags?: Record<string, string>;
+}
+
+/** A DNS record to publish for a domain identity. */
+export interface IdentityDnsRecord {
+  type: 'CNAME' | 'MX' | 'TXT';
+  name: string;
+  value: string;
+  /** MX priority. */
+  priority?: number;
+  purpose: 'dkim' | 'mailFrom' | 'spf' | 'dmarc';
+}
+
+export interface Identity {
+  identity: string;
+  type: IdentityType;
+  /** True once SES will send from this identity. */
+  verifiedForSending: boolean;
+  status: IdentityVerificationStatus;
+  /** Domains only. */
+  dkim?: {
+    mode: 'EASY_DKIM' | 'BYODKIM';
+    status: IdentityVerificationStatus;
+    /** Easy DKIM tokens, or the BYODKIM selector. */
+    tokens: string[];
+  };
+  /** Domains with a custom MAIL FROM domain only. */
+  mailFrom?: {
+    domain: string;
+    status: IdentityVerificationStatus;
+    behaviorOnMxFailure: 'USE_DEFAULT_VALUE' | 'REJECT_MESSAGE';
+  };
+  configurationSetName?: string;
+  /**
+   * Records to publish for a domain: DKIM, MAIL FROM MX and SPF, and a
+   * recommended DMARC record. Empty for email addresses. A BYODKIM public key
+   * record is only known to `createDomain()`, which derived it from the key.
+   */
+  dnsRecords: IdentityDnsRecord[];
+}
+
+export interface IdentitySummary {
+  identity: string;
+  type: IdentityType;
+  verifiedForSending: boolean;
+  status: IdentityVerificationStatus;
+}
+
+export interface IdentityListOptions {
+  maxResults?: number;
+  continuationToken?: string;
+}
+
+export interface IdentityListResult {
+  identities: IdentitySummary[];
+  nextToken?: string;
+}
+
+export interface WaitUntilVerifiedOptions {
+  /** Give up after this long. Defaults to 10 minutes; DNS can take far longer. */
+  timeoutMs?: number;
+
+  /** Time between checks. Defaults to 15 seconds. */
+  intervalMs?: number;
+
+  /** Also wait for the custom MAIL FROM domain, when one is set. Defaults to `true`. */
+  includeMailFrom?: boolean;
+
+  /** Called with the identity after every check that is not yet verified. */
+  onPending?: (identity: Identity) => void;
+}
+
+// ============================================================
+// Middleware types (use())
+// ============================================================
+
+/**
+ * Parameters each middleware-wrapped operation receives, keyed by operation.
+ * Inbox operations carry the `emailId` alongside their options.
+ */
+export interface MiddlewareOperationParams {
+  send: SendEmailParams;
+  sendTemplate: SendTemplateParams;
+  sendBulkTemplate: SendBulkTemplateParams;
+  sendBatch: SendBatchParams;
+  'inbox.forward': InboxForwardOptions & { emailId: string };
+  'inbox.reply': InboxReplyOptions & { emailId: string };
+}
+
+/** Result each middleware-wrapped operation resolves with, keyed by operation. */
+export interface MiddlewareOperationResults {
+  send: SendEmailResult;
+  sendTemplate: SendEmailResult;
+  sendBulkTemplate: SendBulkTemplateResult;
+  sendBatch: SendBatchResult;
+  'inbox.forward': SendEmailResult;
+  'inbox.reply': SendEmailResult;
+}
+
+export type MiddlewareOperation = keyof MiddlewareOperationParams;
+
+/**
+ * One operation passing through the middleware chain. Narrow on `operation` to
+ * get typed `params`. `beforeSend` hooks may replace `params`; later hooks and
+ * the operation itself see the replacement.
+ *
+ * Address fields arrive normalized, including those of batch entries and bulk
+ * destinations: `from` and a single-recipient `to` as one string (`"Name"
+ * <email>` when named), and `to`, `cc`, `bcc` and `replyTo` lists as string
+ * arrays.
+ */
+export type MiddlewareContext<Op extends MiddlewareOperation = MiddlewareOperation> = {
+  [K in Op]: { operation: K; params: MiddlewareOperationParams[K] };
+}[Op];
+
+/** A {@link MiddlewareContext} with the operation's result, for `afterSend`. */
+export type MiddlewareResultContext<Op extends MiddlewareOperation = MiddlewareOperation> = {
+  [K in Op]: {
+    operation: K;
+    params: MiddlewareOperationParams[K];
+    result: MiddlewareOperationResults[K];
+  };
+}[Op];
+
+export interface WrapsEmailMiddleware {
+  /**
+   * Runs before the operation, in registration order. Assign `ctx.params` to
+   * rewrite the send; throw to block it (the error reaches `onError` hooks and
+   * then the caller).
+   */
+  beforeSend?: (ctx: MiddlewareContext) => void | Promise<void>;
+
+  /** Runs after the operation succeeds, in registration order. */
+  afterSend?: (ctx: MiddlewareResultContext) => void | Promise<void>;
+
+  /**
+   * Runs when the operation or a `beforeSend` hook throws, in registration
+   * order. Observes only — the error is rethrown to the caller afterwards.
+   */
+  onError?: (ctx: MiddlewareContext & { error: Error }) => void | Promise<void>;
+}
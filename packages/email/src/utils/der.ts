@@ -0,0 +1,139 @@
+/**
+ * Just enough ASN.1 DER to write CMS (RFC 5652) structures and pick fields
+ * out of X.509 certificates.
+ */
+
+/** A decoded TLV: `raw` is the whole element, `value` its contents. */
+export interface DerElement {
+  tag: number;
+  raw: Buffer;
+  value: Buffer;
+}
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest % 256);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+/** Encode one element from its tag and contents. */
+export function der(tag: number, ...contents: Buffer[]): Buffer {
+  const value = Buffer.concat(contents);
+  return Buffer.concat([Buffer.from([tag]), encodeLength(value.length), value]);
+}
+
+export function sequence(...contents: Buffer[]): Buffer {
+  return der(0x30, ...contents);
+}
+
+/** SET OF, with members in DER (byte-wise ascending) order. */
+export function setOf(...members: Buffer[]): Buffer {
+  return der(0x31, ...[...members].sort(Buffer.compare));
+}
+
+/** `[n]` context-specific constructed (EXPLICIT, or IMPLICIT over a SET/SEQUENCE). */
+export function explicit(n: number, ...contents: Buffer[]): Buffer {
+  return der(0xa0 | n, ...contents);
+}
+
+/** `[n]` context-specific primitive (IMPLICIT over a primitive type). */
+export function implicitPrimitive(n: number, value: Buffer): Buffer {
+  return der(0x80 | n, value);
+}
+
+export function integer(value: number): Buffer {
+  const bytes: number[] = [];
+  let rest = value;
+  do {
+    bytes.unshift(rest & 0xff);
+    rest = Math.floor(rest / 256);
+  } while (rest > 0);
+  if (bytes[0] & 0x80) {
+    bytes.unshift(0);
+  }
+  return der(0x02, Buffer.from(bytes));
+}
+
+export function octetString(value: Buffer): Buffer {
+  return der(0x04, value);
+}
+
+export function nullValue(): Buffer {
+  return der(0x05);
+}
+
+export function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const base128 = [arc & 0x7f];
+    for (let value = Math.floor(arc / 128); value > 0; value = Math.floor(value / 128)) {
+      base128.unshift(0x80 | (value & 0x7f));
+    }
+    bytes.push(...base128);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+/** UTCTime through 2049, GeneralizedTime after (RFC 5280 §4.1.2.5). */
+export function time(date: Date): Buffer {
+  const digits = date.toISOString().replace(/\D/g, '').slice(0, 14); // YYYYMMDDHHMMSS
+  return date.getUTCFullYear() < 2050
+    ? der(0x17, Buffer.from(`${digits.slice(2)}Z`, 'ascii'))
+    : der(0x18, Buffer.from(`${digits}Z`, 'ascii'));
+}
+
+/** AlgorithmIdentifier, with `parameters` omitted when not given. */
+export function algorithm(dotted: string, parameters?: Buffer): Buffer {
+  return parameters ? sequence(oid(dotted), parameters) : sequence(oid(dotted));
+}
+
+/**
+ * Decode the element starting at `offset`.
+ *
+ * @throws {Error} on truncated or indefinite-length input.
+ */
+export function readElement(input: Buffer, offset = 0): DerElement {
+  if (offset + 2 > input.length) {
+    throw new Error('DER: truncated element');
+  }
+  const tag = input[offset];
+  let length = input[offset + 1];
+  let header = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4 || offset + 2 + count > input.length) {
+      throw new Error('DER: unsupported length');
+    }
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + input[offset + 2 + i];
+    }
+    header += count;
+  }
+  const end = offset + header + length;
+  if (end > input.length) {
+    throw new Error('DER: truncated element');
+  }
+  return {
+    tag,
+    raw: input.subarray(offset, end),
+    value: input.subarray(offset + header, end),
+  };
+}
+
+/** The elements inside a constructed element's contents. */
+export function readChildren(value: Buffer): DerElement[] {
+  const children: DerElement[] = [];
+  for (let offset = 0; offset < value.length; ) {
+    const child = readElement(value, offset);
+    children.push(child);
+    offset += child.raw.length;
+  }
+  return children;
+}
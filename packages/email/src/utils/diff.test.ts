@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { unifiedDiff } from './diff';
+
+describe('unifiedDiff', () => {
+  it('returns an empty string for equal text', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb\n', 'x.txt')).toBe('');
+  });
+
+  it('prints a changed line with its context', () => {
+    expect(unifiedDiff('a\nb\nc\n', 'a\nB\nc\n', 'x.txt')).toBe(
+      ['--- a/x.txt', '+++ b/x.txt', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c', ''].join('\n')
+    );
+  });
+
+  it('diffs against nothing for a new file', () => {
+    expect(unifiedDiff('', 'a\nb\n', 'x.txt')).toBe(
+      ['--- a/x.txt', '+++ b/x.txt', '@@ -0,0 +1,2 @@', '+a', '+b', ''].join('\n')
+    );
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = `${Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n')}\n`;
+    const after = before.replace('line 1\n', 'one\n').replace('line 18\n', 'eighteen\n');
+
+    const diff = unifiedDiff(before, after, 'x.txt');
+
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+  });
+
+  it('marks a missing final newline', () => {
+    expect(unifiedDiff('a\n', 'a', 'x.txt')).toContain('+a\n\\ No newline at end of file');
+  });
+});
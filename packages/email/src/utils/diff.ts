@@ -0,0 +1,96 @@
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+// Above this many line pairs the LCS table costs more than the diff is worth
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Lines with their terminators, so a missing final newline is a change too. */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((line) => ({ type: '-' as const, line })),
+      ...b.map((line) => ({ type: '+' as const, line })),
+    ];
+  }
+
+  // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  return ops;
+}
+
+function formatLine(op: Op): string {
+  return op.line.endsWith('\n')
+    ? `${op.type}${op.line.slice(0, -1)}`
+    : `${op.type}${op.line}\n\\ No newline at end of file`;
+}
+
+/**
+ * A unified diff from `before` to `after`, as `git diff` prints it, with
+ * `path` in the file headers. Empty when the two are equal.
+ */
+export function unifiedDiff(before: string, after: string, path: string, context = 3): string {
+  if (before === after) {
+    return '';
+  }
+  const ops = diffLines(splitLines(before), splitLines(after));
+
+  // Lines consumed from each side before each op, for the hunk headers
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (op.type !== '+') {
+      oldLine++;
+    }
+    if (op.type !== '-') {
+      newLine++;
+    }
+  }
+
+  const changed = ops.flatMap((op, index) => (op.type === ' ' ? [] : [index]));
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < changed.length) {
+    const start = Math.max(0, changed[index] - context);
+    let last = changed[index];
+    while (index + 1 < changed.length && changed[index + 1] - last <= 2 * context) {
+      last = changed[++index];
+    }
+    index++;
+    const end = Math.min(ops.length, last + context + 1);
+
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter((op) => op.type !== '+').length;
+    const newCount = slice.filter((op) => op.type !== '-').length;
+    const oldStart = oldCount > 0 ? oldAt[start] + 1 : oldAt[start];
+    const newStart = newCount > 0 ? newAt[start] + 1 : newAt[start];
+    hunks.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...slice.map(formatLine));
+  }
+
+  return [`--- a/${path}`, `+++ b/${path}`, ...hunks, ''].join('\n');
+}
@@ -15,3 +15,58 @@ export function sanitizeHeaderValue(value: string, field: string): string {
   assertNoHeaderInjection(value, field);
   return value;
 }
+
+/**
+ * Headers the client writes itself. A caller-supplied copy would either be
+ * ignored by SES or produce a message with two conflicting values.
+ */
+const RESERVED_HEADERS = new Set([
+  'from',
+  'sender',
+  'to',
+  'cc',
+  'bcc',
+  'reply-to',
+  'subject',
+  'date',
+  'message-id',
+  'return-path',
+  'mime-version',
+  'content-type',
+  'content-transfer-encoding',
+  'content-disposition',
+  'dkim-signature',
+]);
+
+/** RFC 5322 field-name: printable US-ASCII except the colon. */
+const HEADER_NAME = /^[!-9;-~]+$/;
+
+/**
+ * Validate a caller-supplied header map (`send({ headers })`, batch entries).
+ * Rejects malformed names, reserved headers (case-insensitively) and newlines
+ * in either name or value.
+ */
+export function assertCustomHeaders(headers: Record<string, string>, field: string): void {
+  const seen = new Set<string>();
+  for (const [name, value] of Object.entries(headers)) {
+    assertNoHeaderInjection(name, field);
+    if (!HEADER_NAME.test(name)) {
+      throw new ValidationError(`Invalid header name: "${name}"`, field);
+    }
+    const key = name.toLowerCase();
+    if (RESERVED_HEADERS.has(key)) {
+      throw new ValidationError(
+        `Header "${name}" is set by the client and cannot be overridden`,
+        field
+      );
+    }
+    if (seen.has(key)) {
+      throw new ValidationError(`Header "${name}" is given more than once`, field);
+    }
+    seen.add(key);
+    if (typeof value !== 'string') {
+      throw new ValidationError(`Header "${name}" must have a string value`, `${field}.${name}`);
+    }
+    assertNoHeaderInjection(value, `${field}.${name}`);
+  }
+}
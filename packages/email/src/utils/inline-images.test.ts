@@ -0,0 +1,86 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ValidationError } from '../errors';
+import { inlineLocalImages } from './inline-images';
+
+describe('inlineLocalImages', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'wraps-inline-'));
+    await writeFile(join(baseDir, 'logo.png'), 'PNG');
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('attaches local images once and rewrites their src to cid references', async () => {
+    const { html, attachments } = await inlineLocalImages(
+      '<img src="./logo.png" alt="Acme"><img class="x" src=\'./logo.png\'>',
+      baseDir
+    );
+
+    expect(attachments).toEqual([
+      {
+        filename: 'logo.png',
+        content: Buffer.from('PNG'),
+        contentId: '1.logo.png@inline',
+        disposition: 'inline',
+      },
+    ]);
+    expect(html).toBe(
+      '<img src="cid:1.logo.png@inline" alt="Acme"><img class="x" src=\'cid:1.logo.png@inline\'>'
+    );
+  });
+
+  it('leaves URLs, data URIs and existing cid references alone', async () => {
+    const source =
+      '<img src="https://cdn.acme.test/a.png"><img src="//cdn.acme.test/b.png">' +
+      '<img src="data:image/png;base64,AAAA"><img src="cid:logo">';
+
+    const { html, attachments } = await inlineLocalImages(source, baseDir);
+
+    expect(html).toBe(source);
+    expect(attachments).toEqual([]);
+  });
+
+  it('names the image it could not read', async () => {
+    const error = await inlineLocalImages('<img src="missing.png">', baseDir).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.field).toBe('html');
+    expect(error.message).toContain('cannot read image "missing.png"');
+  });
+
+  it('refuses absolute paths, traversal and files that are not images', async () => {
+    await mkdir(join(baseDir, 'emails'));
+    await writeFile(join(baseDir, '.env'), 'SECRET=1');
+    const emails = join(baseDir, 'emails');
+
+    for (const src of ['/etc/passwd', '../.env', 'sub/../../.env', '%2e%2e/logo.png', '.env']) {
+      const error = await inlineLocalImages(`<img src="${src}">`, emails).catch((e) => e);
+      expect(error, src).toBeInstanceOf(ValidationError);
+      expect(error.message, src).toContain(`refusing image "${src}"`);
+    }
+  });
+
+  it('refuses a symlink that leads out of baseDir', async () => {
+    const outside = await mkdtemp(join(tmpdir(), 'wraps-outside-'));
+    await writeFile(join(outside, 'secret.png'), 'PNG');
+    await symlink(join(outside, 'secret.png'), join(baseDir, 'link.png'));
+
+    await expect(inlineLocalImages('<img src="link.png">', baseDir)).rejects.toThrow(
+      'links outside'
+    );
+    await rm(outside, { recursive: true, force: true });
+  });
+
+  it('reports malformed percent-encoding as a ValidationError', async () => {
+    await expect(inlineLocalImages('<img src="logo%E0.png">', baseDir)).rejects.toThrow(
+      'malformed percent-encoding'
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { readFile, realpath } from 'node:fs/promises';
+import { basename, extname, isAbsolute, relative, resolve } from 'node:path';
+import { ValidationError } from '../errors';
+import type { Attachment } from '../types';
+
+/** `src` values a mail client can already load: any scheme, or `//host`. */
+const URL_SRC = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+
+const IMG_SRC = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])([^"']+)\2/gi;
+
+/** Only files with these extensions are read; anything else is refused. */
+const IMAGE_EXTENSIONS = new Set([
+  '.apng',
+  '.avif',
+  '.bmp',
+  '.gif',
+  '.ico',
+  '.jpeg',
+  '.jpg',
+  '.png',
+  '.svg',
+  '.webp',
+]);
+
+/** Whether `path` is `dir` or lies beneath it. */
+function isInside(dir: string, path: string): boolean {
+  const rel = relative(dir, path);
+  return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel);
+}
+
+/**
+ * Attach every local image an HTML body references and point its `<img src>`
+ * at the attachment's Content-ID. A file referenced more than once is
+ * attached once.
+ *
+ * Only image files inside `baseDir` are read: an absolute `src`, one that
+ * climbs out with `../` or through a symlink, or one without an image
+ * extension is refused, so HTML built from user input cannot mail out
+ * arbitrary files from the server.
+ *
+ * @param baseDir - Directory relative paths resolve against. Defaults to the
+ *   working directory.
+ * @throws {ValidationError} (field `html`) if a referenced file is refused or
+ *   cannot be read.
+ */
+export async function inlineLocalImages(
+  html: string,
+  baseDir: string = process.cwd()
+): Promise<{ html: string; attachments: Attachment[] }> {
+  const contentIds = new Map<string, string>();
+  const attachments: Attachment[] = [];
+  const base = resolve(baseDir);
+  let realBase: string | undefined;
+
+  for (const match of html.matchAll(IMG_SRC)) {
+    const src = match[3].trim();
+    if (URL_SRC.test(src) || contentIds.has(src)) {
+      continue;
+    }
+    const refuse = (reason: string) =>
+      new ValidationError(`inlineImages: refusing image "${src}": ${reason}`, 'html');
+
+    let path: string;
+    try {
+      path = decodeURI(src);
+    } catch {
+      throw refuse('malformed percent-encoding');
+    }
+    if (isAbsolute(path) || /^[a-z]:|^[\\/]/i.test(path)) {
+      throw refuse('absolute paths are not allowed');
+    }
+    path = resolve(base, path);
+    if (!isInside(base, path)) {
+      throw refuse(`it is outside ${base}`);
+    }
+    if (!IMAGE_EXTENSIONS.has(extname(path).toLowerCase())) {
+      throw refuse('not an image file');
+    }
+
+    let content: Buffer;
+    try {
+      // A symlink inside baseDir must not lead back out of it
+      realBase ??= await realpath(base);
+      if (!isInside(realBase, await realpath(path))) {
+        throw refuse(`it links outside ${base}`);
+      }
+      content = await readFile(path);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new ValidationError(
+        `inlineImages: cannot read image "${src}" (${path}): ${(error as Error).message}`,
+        'html'
+      );
+    }
+    const filename = basename(path);
+    const contentId = `${attachments.length + 1}.${filename.replace(/[^\w.-]/g, '_')}@inline`;
+    contentIds.set(src, contentId);
+    attachments.push({ filename, content, contentId, disposition: 'inline' });
+  }
+
+  return {
+    html: html.replace(IMG_SRC, (whole, prefix: string, quote: string, src: string) => {
+      const contentId = contentIds.get(src.trim());
+      return contentId ? `${prefix}${quote}cid:${contentId}${quote}` : whole;
+    }),
+    attachments,
+  };
+}
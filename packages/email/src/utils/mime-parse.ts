@@ -0,0 +1,111 @@
+/** A MIME part with a filename or an attachment disposition. */
+export interface ParsedAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  /** Content-ID without angle brackets, for inline parts. */
+  contentId?: string;
+}
+
+export interface ParsedMime {
+  headers: Array<[string, string]>;
+  html?: string;
+  text?: string;
+  attachments: ParsedAttachment[];
+}
+
+function splitHeaders(source: string): { headers: Array<[string, string]>; body: string } {
+  const blank = /\r?\n\r?\n/.exec(source);
+  const head = blank ? source.slice(0, blank.index) : source;
+  const body = blank ? source.slice(blank.index + blank[0].length) : '';
+  const headers: Array<[string, string]> = [];
+  for (const line of head.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1][1] += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers.push([line.slice(0, colon).trim(), line.slice(colon + 1).trim()]);
+    }
+  }
+  return { headers, body };
+}
+
+export function headerValue(headers: Array<[string, string]>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find(([key]) => key.toLowerCase() === lower)?.[1];
+}
+
+function headerParam(value: string | undefined, param: string): string | undefined {
+  return value ? new RegExp(`${param}="?([^";]+)"?`, 'i').exec(value)?.[1] : undefined;
+}
+
+function decodeBody(body: string, encoding: string | undefined): Buffer {
+  switch ((encoding ?? '').toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-F]{2})/gi, (_match, hex: string) =>
+            String.fromCharCode(Number.parseInt(hex, 16))
+          ),
+        'latin1'
+      );
+    default:
+      return Buffer.from(body, 'utf-8');
+  }
+}
+
+/** Pull the text, HTML and attachments out of a MIME message. */
+export function parseMime(source: string): ParsedMime {
+  const { headers, body } = splitHeaders(source);
+  const parsed: ParsedMime = { headers, attachments: [] };
+  collectParts(headers, body, parsed);
+  return parsed;
+}
+
+function collectParts(headers: Array<[string, string]>, body: string, out: ParsedMime): void {
+  const contentType = headerValue(headers, 'Content-Type') ?? 'text/plain';
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (mediaType.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (!boundary) {
+      return;
+    }
+    const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Segment 0 is the preamble; a segment starting with "--" is the epilogue.
+    const segments = body.split(new RegExp(`(?:\\r?\\n)?--${escaped}`));
+    for (const segment of segments.slice(1)) {
+      if (segment.startsWith('--')) {
+        break;
+      }
+      const part = splitHeaders(segment.replace(/^[ \t]*\r?\n/, ''));
+      collectParts(part.headers, part.body, out);
+    }
+    return;
+  }
+
+  const disposition = headerValue(headers, 'Content-Disposition');
+  const filename = headerParam(disposition, 'filename') ?? headerParam(contentType, 'name');
+  const content = decodeBody(body, headerValue(headers, 'Content-Transfer-Encoding'));
+  if (filename || disposition?.toLowerCase().startsWith('attachment')) {
+    const attachment: ParsedAttachment = {
+      filename: filename ?? 'attachment',
+      contentType: mediaType,
+      content,
+    };
+    const contentId = headerValue(headers, 'Content-ID');
+    if (contentId) {
+      attachment.contentId = contentId.replace(/^<|>$/g, '');
+    }
+    out.attachments.push(attachment);
+  } else if (mediaType === 'text/html' && out.html === undefined) {
+    out.html = content.toString('utf-8').replace(/\r?\n$/, '');
+  } else if (mediaType === 'text/plain' && out.text === undefined) {
+    out.text = content.toString('utf-8').replace(/\r?\n$/, '');
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { buildRawEmailMessage } from './mime';
+import { addressRenderedMessage, buildRawEmailMessage } from './mime';
 
 describe('MIME Message Builder', () => {
   describe('buildRawEmailMessage', () => {
@@ -355,6 +355,88 @@ describe('MIME Message Builder', () => {
       expect(message).toContain('Content-Type: text/plain; charset=UTF-8');
       expect(message).not.toContain('multipart/mixed');
     });
+
+    it('should place inline parts in multipart/related inside multipart/mixed', () => {
+      const message = buildRawEmailMessage({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Logo',
+        html: '<img src="cid:logo">',
+        text: 'Logo',
+        attachments: [
+          { filename: 'logo.png', content: Buffer.from('PNG'), contentId: '<logo>' },
+          { filename: 'terms.pdf', content: Buffer.from('PDF') },
+        ],
+      });
+
+      const mixed = /^Content-Type: multipart\/mixed; boundary="([^"]+)"/m.exec(message);
+      const related = /^Content-Type: multipart\/related; boundary="([^"]+)"/m.exec(message);
+      expect(mixed).not.toBeNull();
+      expect(related).not.toBeNull();
+      // related opens the mixed body; the alternative body comes first inside it
+      expect(message.indexOf(`--${mixed?.[1]}\r\nContent-Type: multipart/related`)).toBeGreaterThan(
+        0
+      );
+      expect(message.indexOf('multipart/alternative')).toBeGreaterThan(
+        message.indexOf('multipart/related')
+      );
+      expect(message).toContain(
+        'Content-Disposition: inline; filename="logo.png"\r\nContent-ID: <logo>\r\n'
+      );
+      expect(message).toContain(`--${related?.[1]}--`);
+      // The regular attachment follows the closed related part
+      expect(message.indexOf('terms.pdf')).toBeGreaterThan(message.indexOf(`--${related?.[1]}--`));
+    });
+
+    it('should add a calendar as the last alternative part', () => {
+      const message = buildRawEmailMessage({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Invite',
+        html: '<p>Join us</p>',
+        text: 'Join us',
+        calendar: { method: 'REQUEST', content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n' },
+      });
+
+      expect(message).toContain('Content-Type: multipart/alternative');
+      expect(message).toContain('Content-Type: text/calendar; charset=UTF-8; method=REQUEST');
+      expect(message.indexOf('text/calendar')).toBeGreaterThan(message.indexOf('text/html'));
+      expect(message).not.toContain('multipart/mixed');
+    });
+
+    it('should use multipart/related at the top level when every part is inline', () => {
+      const message = buildRawEmailMessage({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Logo',
+        html: '<img src="cid:logo">',
+        attachments: [{ filename: 'logo.png', content: Buffer.from('PNG'), contentId: 'logo' }],
+      });
+
+      expect(message).toMatch(/^MIME-Version: 1\.0\r\nContent-Type: multipart\/related;/m);
+      expect(message).not.toContain('multipart/mixed');
+    });
+
+    it('should keep a contentId part as a download when disposition is attachment', () => {
+      const message = buildRawEmailMessage({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Logo',
+        html: '<p>Attached</p>',
+        attachments: [
+          {
+            filename: 'logo.png',
+            content: Buffer.from('PNG'),
+            contentId: 'logo',
+            disposition: 'attachment',
+          },
+        ],
+      });
+
+      expect(message).not.toContain('multipart/related');
+      expect(message).toContain('Content-Disposition: attachment; filename="logo.png"');
+      expect(message).toContain('Content-ID: <logo>');
+    });
   });
 
   describe('header injection', () => {
@@ -411,4 +493,49 @@ describe('MIME Message Builder', () => {
       ).toThrow('Illegal newline in header field: attachment.filename');
     });
   });
+
+  describe('addressRenderedMessage', () => {
+    const rendered = [
+      'Date: Mon, 1 Jan 2024 00:00:00 +0000',
+      'Subject: Welcome, Ada',
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=UTF-8',
+      '',
+      'Subject: this body line is not a header',
+    ].join('\r\n');
+
+    it('prepends envelope and custom headers', () => {
+      const raw = addressRenderedMessage(rendered, {
+        from: 'sender@example.com',
+        to: ['a@example.com'],
+        cc: 'b@example.com',
+        customHeaders: { 'X-Original-To': 'real@customer.com' },
+      });
+
+      expect(raw.startsWith('From: sender@example.com\r\nTo: a@example.com\r\n')).toBe(true);
+      expect(raw).toContain('Cc: b@example.com\r\n');
+      expect(raw).toContain('X-Original-To: real@customer.com\r\nDate:');
+    });
+
+    it('prefixes only the top-level Subject header', () => {
+      const raw = addressRenderedMessage(rendered, {
+        from: 'sender@example.com',
+        to: 'a@example.com',
+        subjectPrefix: '[$&]',
+      });
+
+      expect(raw).toContain('Subject: [$&] Welcome, Ada');
+      expect(raw).toContain('\r\n\r\nSubject: this body line is not a header');
+    });
+
+    it('rejects a custom header value containing CRLF', () => {
+      expect(() =>
+        addressRenderedMessage(rendered, {
+          from: 'sender@example.com',
+          to: 'a@example.com',
+          customHeaders: { 'X-Original-To': 'a\r\nBcc: victim@example.com' },
+        })
+      ).toThrow('Illegal newline in header field: customHeaders.value');
+    });
+  });
 });
@@ -1,3 +1,4 @@
+import { envelope, type ResolvedSmime, signDetached } from '../smime';
 import type { Attachment, EmailAddress } from '../types';
 import { assertNoHeaderInjection, sanitizeHeaderValue } from './headers';
 
@@ -66,6 +67,8 @@ function getMimeType(filename: string, providedType?: string): string {
     jpg: 'image/jpeg',
     jpeg: 'image/jpeg',
     gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
     txt: 'text/plain',
     html: 'text/html',
     csv: 'text/csv',
@@ -87,6 +90,10 @@ export interface BuildRawEmailParams {
   text?: string;
   attachments?: Attachment[];
   customHeaders?: Record<string, string>;
+  /** An iCalendar object, sent as a `text/calendar` alternative to the body. */
+  calendar?: { method: string; content: string };
+  /** Sign and/or encrypt everything below the envelope headers (S/MIME). */
+  smime?: ResolvedSmime;
 }
 
 /**
@@ -97,6 +104,7 @@ export function buildRawEmailMessage(params: BuildRawEmailParams): string {
 
   // Generate boundaries
   const mainBoundary = generateBoundary('main');
+  const relatedBoundary = generateBoundary('related');
   const altBoundary = generateBoundary('alt');
 
   // Email headers
@@ -127,117 +135,228 @@ export function buildRawEmailMessage(params: BuildRawEmailParams): string {
   }
 
   lines.push('MIME-Version: 1.0');
+  const headerCount = lines.length;
 
-  const hasAttachments = params.attachments && params.attachments.length > 0;
+  // Inline parts sit next to the HTML that references them (multipart/related);
+  // everything else is a regular attachment (multipart/mixed)
+  const attachments = params.attachments ?? [];
+  const related = params.html ? attachments.filter(isRelatedPart) : [];
+  const mixed = attachments.filter((attachment) => !related.includes(attachment));
 
-  if (!hasAttachments) {
-    // No attachments — simple message (text, html, or multipart/alternative)
-    const altBoundarySimple = generateBoundary('alt');
+  if (mixed.length > 0) {
+    lines.push(`Content-Type: multipart/mixed; boundary="${mainBoundary}"`);
+    lines.push(''); // Blank line separates headers from body
+    lines.push(`--${mainBoundary}`);
+  }
 
-    if (params.text && params.html) {
-      lines.push(`Content-Type: multipart/alternative; boundary="${altBoundarySimple}"`);
-      lines.push('');
-      lines.push(`--${altBoundarySimple}`);
-      lines.push('Content-Type: text/plain; charset=UTF-8');
-      lines.push('Content-Transfer-Encoding: 7bit');
-      lines.push('');
-      lines.push(params.text);
-      lines.push('');
-      lines.push(`--${altBoundarySimple}`);
-      lines.push('Content-Type: text/html; charset=UTF-8');
-      lines.push('Content-Transfer-Encoding: 7bit');
-      lines.push('');
-      lines.push(params.html);
-      lines.push('');
-      lines.push(`--${altBoundarySimple}--`);
-    } else if (params.html) {
-      lines.push('Content-Type: text/html; charset=UTF-8');
-      lines.push('Content-Transfer-Encoding: 7bit');
-      lines.push('');
-      lines.push(params.html);
-    } else if (params.text) {
-      lines.push('Content-Type: text/plain; charset=UTF-8');
-      lines.push('Content-Transfer-Encoding: 7bit');
-      lines.push('');
-      lines.push(params.text);
+  if (related.length > 0) {
+    lines.push(`Content-Type: multipart/related; boundary="${relatedBoundary}"`);
+    lines.push('');
+    lines.push(`--${relatedBoundary}`);
+  }
+
+  // Signatures must survive relays that rewrite 8-bit text, so encode it
+  pushBody(lines, params, altBoundary, params.smime ? 'base64' : '7bit');
+
+  if (related.length > 0) {
+    lines.push('');
+    for (const attachment of related) {
+      lines.push(`--${relatedBoundary}`);
+      pushAttachment(lines, attachment);
     }
+    lines.push(`--${relatedBoundary}--`);
+  }
 
-    return lines.join('\r\n');
+  if (mixed.length > 0) {
+    lines.push('');
+    for (const attachment of mixed) {
+      lines.push(`--${mainBoundary}`);
+      pushAttachment(lines, attachment);
+    }
+    lines.push(`--${mainBoundary}--`);
   }
 
-  lines.push(`Content-Type: multipart/mixed; boundary="${mainBoundary}"`);
-  lines.push(''); // Blank line separates headers from body
+  if (params.smime) {
+    lines.push(smimeEntity(lines.splice(headerCount).join('\r\n'), params.smime));
+  }
 
-  // Start main multipart/mixed (for attachments)
-  lines.push(`--${mainBoundary}`);
+  // Join with CRLF (required by MIME spec)
+  return lines.join('\r\n');
+}
 
-  // Check if we need multipart/alternative for text and HTML
-  if (params.text && params.html) {
-    // Both text and HTML - use multipart/alternative
-    lines.push(`Content-Type: multipart/alternative; boundary="${altBoundary}"`);
-    lines.push('');
+/** An attachment that belongs in `multipart/related`, referenced by CID. */
+function isRelatedPart(attachment: Attachment): boolean {
+  return attachment.contentId !== undefined && attachment.disposition !== 'attachment';
+}
 
-    // Text version
-    lines.push(`--${altBoundary}`);
-    lines.push('Content-Type: text/plain; charset=UTF-8');
-    lines.push('Content-Transfer-Encoding: 7bit');
-    lines.push('');
-    lines.push(params.text);
-    lines.push('');
+/**
+ * Push the text, HTML and calendar body, including its Content-Type header:
+ * multipart/alternative when more than one is present.
+ */
+function pushBody(
+  lines: string[],
+  body: { html?: string; text?: string; calendar?: { method: string; content: string } },
+  altBoundary: string,
+  encoding: '7bit' | 'base64'
+): void {
+  // Least to most preferred, as multipart/alternative orders them
+  const parts: Array<{ contentType: string; content: string }> = [];
+  if (body.text) {
+    parts.push({ contentType: 'text/plain; charset=UTF-8', content: body.text });
+  }
+  if (body.html) {
+    parts.push({ contentType: 'text/html; charset=UTF-8', content: body.html });
+  }
+  if (body.calendar) {
+    assertNoHeaderInjection(body.calendar.method, 'calendar.method');
+    parts.push({
+      contentType: `text/calendar; charset=UTF-8; method=${body.calendar.method}`,
+      content: body.calendar.content,
+    });
+  }
 
-    // HTML version
-    lines.push(`--${altBoundary}`);
-    lines.push('Content-Type: text/html; charset=UTF-8');
-    lines.push('Content-Transfer-Encoding: 7bit');
-    lines.push('');
-    lines.push(params.html);
-    lines.push('');
+  const encode = (content: string) =>
+    encoding === 'base64' ? encodeAttachment(Buffer.from(content, 'utf-8')) : content;
 
-    lines.push(`--${altBoundary}--`);
-  } else if (params.html) {
-    // HTML only
-    lines.push('Content-Type: text/html; charset=UTF-8');
-    lines.push('Content-Transfer-Encoding: 7bit');
+  if (parts.length === 1) {
+    lines.push(`Content-Type: ${parts[0].contentType}`);
+    lines.push(`Content-Transfer-Encoding: ${encoding}`);
     lines.push('');
-    lines.push(params.html);
-  } else if (params.text) {
-    // Text only
-    lines.push('Content-Type: text/plain; charset=UTF-8');
-    lines.push('Content-Transfer-Encoding: 7bit');
+    lines.push(encode(parts[0].content));
+    return;
+  }
+
+  if (parts.length > 1) {
+    lines.push(`Content-Type: multipart/alternative; boundary="${altBoundary}"`);
     lines.push('');
-    lines.push(params.text);
+    for (const part of parts) {
+      lines.push(`--${altBoundary}`);
+      lines.push(`Content-Type: ${part.contentType}`);
+      lines.push(`Content-Transfer-Encoding: ${encoding}`);
+      lines.push('');
+      lines.push(encode(part.content));
+      lines.push('');
+    }
+    lines.push(`--${altBoundary}--`);
   }
+}
 
+/**
+ * Wrap a MIME entity in S/MIME (RFC 8551): `multipart/signed` with a detached
+ * signature when signing, then `application/pkcs7-mime` enveloped data when
+ * encrypting, so encrypted mail is signed inside the envelope.
+ */
+function smimeEntity(entity: string, smime: ResolvedSmime): string {
+  let result = entity;
+  if (smime.signer) {
+    const boundary = generateBoundary('signed');
+    const signature = signDetached(Buffer.from(result, 'utf-8'), smime.signer);
+    result = [
+      `Content-Type: multipart/signed; protocol="application/pkcs7-signature"; micalg=sha-256; boundary="${boundary}"`,
+      '',
+      'This is a cryptographically signed message in MIME format.',
+      '',
+      `--${boundary}`,
+      result,
+      `--${boundary}`,
+      'Content-Type: application/pkcs7-signature; name="smime.p7s"',
+      'Content-Transfer-Encoding: base64',
+      'Content-Disposition: attachment; filename="smime.p7s"',
+      '',
+      encodeAttachment(signature),
+      `--${boundary}--`,
+    ].join('\r\n');
+  }
+  if (smime.recipients.length > 0) {
+    result = [
+      'Content-Type: application/pkcs7-mime; smime-type=enveloped-data; name="smime.p7m"',
+      'Content-Transfer-Encoding: base64',
+      'Content-Disposition: attachment; filename="smime.p7m"',
+      '',
+      encodeAttachment(envelope(Buffer.from(result, 'utf-8'), smime.recipients)),
+    ].join('\r\n');
+  }
+  return result;
+}
+
+/** Push one attachment part's headers and encoded content. */
+function pushAttachment(lines: string[], attachment: Attachment): void {
+  const mimeType = getMimeType(attachment.filename, attachment.contentType);
+  const encoding = attachment.encoding || 'base64';
+  const disposition =
+    attachment.disposition ?? (attachment.contentId !== undefined ? 'inline' : 'attachment');
+
+  assertNoHeaderInjection(mimeType, 'attachment.contentType');
+  assertNoHeaderInjection(attachment.filename, 'attachment.filename');
+  lines.push(`Content-Type: ${mimeType}; name="${attachment.filename}"`);
+  lines.push(`Content-Disposition: ${disposition}; filename="${attachment.filename}"`);
+  if (attachment.contentId !== undefined) {
+    const contentId = attachment.contentId.replace(/^<|>$/g, '');
+    assertNoHeaderInjection(contentId, 'attachment.contentId');
+    lines.push(`Content-ID: <${contentId}>`);
+  }
+  lines.push(`Content-Transfer-Encoding: ${encoding}`);
   lines.push('');
 
-  // Add attachments (guaranteed non-empty by hasAttachments guard above)
-  for (const attachment of params.attachments as Attachment[]) {
-    const mimeType = getMimeType(attachment.filename, attachment.contentType);
-    const encoding = attachment.encoding || 'base64';
+  if (encoding === 'base64') {
+    lines.push(encodeAttachment(attachment.content));
+  } else {
+    // For other encodings, assume content is already properly encoded
+    const content =
+      typeof attachment.content === 'string' ? attachment.content : attachment.content.toString();
+    lines.push(content);
+  }
 
-    lines.push(`--${mainBoundary}`);
-    assertNoHeaderInjection(mimeType, 'attachment.contentType');
-    assertNoHeaderInjection(attachment.filename, 'attachment.filename');
-    lines.push(`Content-Type: ${mimeType}; name="${attachment.filename}"`);
-    lines.push(`Content-Disposition: attachment; filename="${attachment.filename}"`);
-    lines.push(`Content-Transfer-Encoding: ${encoding}`);
-    lines.push('');
+  lines.push('');
+}
 
-    if (encoding === 'base64') {
-      lines.push(encodeAttachment(attachment.content));
-    } else {
-      // For other encodings, assume content is already properly encoded
-      const content =
-        typeof attachment.content === 'string' ? attachment.content : attachment.content.toString();
-      lines.push(content);
-    }
+export interface AddressRenderedMessageParams {
+  from: string | EmailAddress;
+  to: string | string[] | EmailAddress | EmailAddress[];
+  cc?: string | string[] | EmailAddress | EmailAddress[];
+  replyTo?: string | string[] | EmailAddress | EmailAddress[];
+  /** Prepended to the rendered Subject header. */
+  subjectPrefix?: string;
+  customHeaders?: Record<string, string>;
+}
 
-    lines.push('');
+/**
+ * Address a MIME message that was rendered without envelope headers, such as
+ * the output of SES `TestRenderTemplate`: prepend From/To/Cc/Reply-To and any
+ * custom headers, and optionally prefix the existing Subject.
+ */
+export function addressRenderedMessage(
+  rawMime: string,
+  params: AddressRenderedMessageParams
+): string {
+  const eol = rawMime.includes('\r\n') ? '\r\n' : '\n';
+  const lines: string[] = [];
+
+  lines.push(`From: ${formatEmailAddress(params.from)}`);
+  lines.push(`To: ${formatEmailAddresses(params.to)}`);
+  if (params.cc) {
+    lines.push(`Cc: ${formatEmailAddresses(params.cc)}`);
+  }
+  if (params.replyTo) {
+    lines.push(`Reply-To: ${formatEmailAddresses(params.replyTo)}`);
+  }
+  if (params.customHeaders) {
+    for (const [name, value] of Object.entries(params.customHeaders)) {
+      assertNoHeaderInjection(name, 'customHeaders.name');
+      assertNoHeaderInjection(value, 'customHeaders.value');
+      lines.push(`${name}: ${value}`);
+    }
   }
 
-  // End main boundary
-  lines.push(`--${mainBoundary}--`);
+  let body = rawMime;
+  if (params.subjectPrefix) {
+    const prefix = sanitizeHeaderValue(params.subjectPrefix, 'subjectPrefix');
+    // Only the first header block: a Subject line inside an attached message
+    // part must stay as it is.
+    const headerEnd = body.indexOf(`${eol}${eol}`);
+    const head = headerEnd === -1 ? body : body.slice(0, headerEnd);
+    body = head.replace(/^Subject:[ \t]*/im, () => `Subject: ${prefix} `) + body.slice(head.length);
+  }
 
-  // Join with CRLF (required by MIME spec)
-  return lines.join('\r\n');
+  return lines.join(eol) + eol + body;
 }
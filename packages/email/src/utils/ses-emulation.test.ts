@@ -0,0 +1,109 @@
+import { SendRawEmailCommand, SendTemplatedEmailCommand } from '@aws-sdk/client-ses';
+import { SendBulkEmailCommand } from '@aws-sdk/client-sesv2';
+import { describe, expect, it } from 'vitest';
+import { emulatedSendOutput, emulateSend, splitAddressList } from './ses-emulation';
+
+const noTemplates = () => {
+  throw new Error('no templates');
+};
+
+describe('emulateSend', () => {
+  it('reads Bcc from envelope addresses missing from the headers', async () => {
+    const raw = 'From: a@acme.test\r\nTo: "Ada" <Ada@example.com>\r\nSubject: Hi\r\n\r\nBody';
+
+    const send = await emulateSend(
+      new SendRawEmailCommand({
+        RawMessage: { Data: new TextEncoder().encode(raw) },
+        Destinations: ['ada@example.com', 'audit@acme.test'],
+      }),
+      noTemplates
+    );
+
+    expect(send?.api).toBe('SendRawEmail');
+    expect(send?.messages[0]).toMatchObject({
+      from: 'a@acme.test',
+      to: ['"Ada" <Ada@example.com>'],
+      bcc: ['audit@acme.test'],
+      subject: 'Hi',
+      text: 'Body',
+      raw,
+    });
+  });
+
+  it('renders templates from the loader with the command data', async () => {
+    const send = await emulateSend(
+      new SendTemplatedEmailCommand({
+        Source: 'a@acme.test',
+        Destination: { ToAddresses: ['ada@example.com'] },
+        Template: 'welcome',
+        TemplateData: '{"name":"Ada"}',
+      }),
+      async () => ({ subject: 'Hi {{name}}', html: '<p>{{name}}</p>' })
+    );
+
+    expect(send?.messages[0]).toMatchObject({
+      subject: 'Hi Ada',
+      html: '<p>Ada</p>',
+      template: 'welcome',
+      templateData: { name: 'Ada' },
+    });
+  });
+
+  it('gives each bulk entry its own data, tags and headers', async () => {
+    const send = await emulateSend(
+      new SendBulkEmailCommand({
+        FromEmailAddress: 'a@acme.test',
+        DefaultContent: {
+          Template: {
+            TemplateContent: { Subject: '{{{subject}}}', Text: '{{{text}}}' },
+            TemplateData: '{"subject":"","text":""}',
+          },
+        },
+        DefaultEmailTags: [{ Name: 'stream', Value: 'news' }],
+        BulkEmailEntries: [
+          {
+            Destination: { ToAddresses: ['ada@example.com'] },
+            ReplacementTags: [{ Name: 'entry', Value: '0' }],
+            ReplacementHeaders: [{ Name: 'X-Entry', Value: '0' }],
+            ReplacementEmailContent: {
+              ReplacementTemplate: { ReplacementTemplateData: '{"subject":"A & B","text":"x"}' },
+            },
+          },
+        ],
+      }),
+      noTemplates
+    );
+
+    expect(send?.messages[0]).toMatchObject({
+      subject: 'A & B',
+      text: 'x',
+      tags: { stream: 'news', entry: '0' },
+      headers: { 'X-Entry': '0' },
+    });
+  });
+
+  it('ignores commands that are not sends', async () => {
+    expect(await emulateSend({}, noTemplates)).toBeUndefined();
+  });
+});
+
+describe('emulatedSendOutput', () => {
+  it('answers in the shape of each API', () => {
+    expect(emulatedSendOutput('SendEmail', ['m1'])).toEqual({ MessageId: 'm1' });
+    expect(emulatedSendOutput('SendBulkTemplatedEmail', ['m1'])).toEqual({
+      Status: [{ Status: 'Success', MessageId: 'm1' }],
+    });
+    expect(emulatedSendOutput('SendBulkEmail', ['m1'])).toEqual({
+      BulkEmailEntryResults: [{ Status: 'SUCCESS', MessageId: 'm1' }],
+    });
+  });
+});
+
+describe('splitAddressList', () => {
+  it('splits on commas outside quoted display names', () => {
+    expect(splitAddressList('"Lovelace, Ada" <ada@example.com>, bob@example.com')).toEqual([
+      '"Lovelace, Ada" <ada@example.com>',
+      'bob@example.com',
+    ]);
+  });
+});
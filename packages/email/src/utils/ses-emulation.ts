@@ -0,0 +1,335 @@
+import {
+  SendBulkTemplatedEmailCommand,
+  SendEmailCommand,
+  SendRawEmailCommand,
+  SendTemplatedEmailCommand,
+} from '@aws-sdk/client-ses';
+import {
+  SendBulkEmailCommand,
+  SendEmailCommand as SendEmailV2Command,
+} from '@aws-sdk/client-sesv2';
+import type { ListManagementOptions } from '../types';
+import { headerValue, type ParsedAttachment, parseMime } from './mime-parse';
+import { renderTemplateParts, type TemplateParts } from './template';
+
+export type EmulatedSendApi =
+  | 'SendEmail'
+  | 'SendRawEmail'
+  | 'SendTemplatedEmail'
+  | 'SendBulkTemplatedEmail'
+  | 'SendBulkEmail';
+
+/** One message a send command delivers: rendered, with addresses resolved. */
+export interface EmulatedMessage {
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  replyTo: string[];
+  subject: string;
+  html?: string;
+  text?: string;
+  /** Top-level headers of a raw message, or the per-message headers of a v2 send. */
+  headers: Record<string, string>;
+  attachments: ParsedAttachment[];
+  /** The MIME source of a raw send. */
+  raw?: string;
+  template?: string;
+  templateData?: Record<string, unknown>;
+  tags: Record<string, string>;
+  configurationSetName?: string;
+  listManagement?: ListManagementOptions;
+}
+
+export interface EmulatedSend {
+  api: EmulatedSendApi;
+  from: string;
+  /** One per destination; bulk sends may carry none. */
+  messages: EmulatedMessage[];
+}
+
+/** Looks a stored template up by name, throwing when it does not exist. */
+export type TemplateLoader = (name: string | undefined) => TemplateParts | Promise<TemplateParts>;
+
+/** The bare address inside `"Name" <addr>`, lower-cased for comparison. */
+export function bareAddress(address: string): string {
+  const angle = /<([^>]*)>\s*$/.exec(address);
+  return (angle ? angle[1] : address).trim().toLowerCase();
+}
+
+/** Split an address header on commas outside quoted display names. */
+export function splitAddressList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+export function tagsOf(
+  tags: Array<{ Name?: string; Value?: string }> | undefined
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const tag of tags ?? []) {
+    if (tag.Name) {
+      out[tag.Name] = tag.Value ?? '';
+    }
+  }
+  return out;
+}
+
+function headersOf(headers: Array<{ Name?: string; Value?: string }>): Record<string, string> {
+  // Same shape as tags; later entries win
+  return tagsOf(headers);
+}
+
+function templateDataOf(json: string | undefined): Record<string, unknown> {
+  return JSON.parse(json ?? '{}') as Record<string, unknown>;
+}
+
+/** A raw MIME source, with addresses read from its headers and envelope. */
+function rawMessage(
+  raw: string,
+  envelope: {
+    source?: string;
+    destinations?: string[];
+    tags: Record<string, string>;
+    configurationSetName?: string;
+    listManagement?: ListManagementOptions;
+  }
+): EmulatedMessage {
+  const parsed = parseMime(raw);
+  const to = splitAddressList(headerValue(parsed.headers, 'To'));
+  const cc = splitAddressList(headerValue(parsed.headers, 'Cc'));
+  // Whoever is on the envelope but not in a header was Bcc'd.
+  const visible = new Set([...to, ...cc].map(bareAddress));
+  return {
+    from: envelope.source ?? headerValue(parsed.headers, 'From') ?? '',
+    to,
+    cc,
+    bcc: envelope.destinations
+      ? envelope.destinations.filter((address) => !visible.has(bareAddress(address)))
+      : splitAddressList(headerValue(parsed.headers, 'Bcc')),
+    replyTo: splitAddressList(headerValue(parsed.headers, 'Reply-To')),
+    subject: headerValue(parsed.headers, 'Subject') ?? '',
+    html: parsed.html,
+    text: parsed.text,
+    headers: Object.fromEntries(parsed.headers),
+    attachments: parsed.attachments,
+    raw,
+    tags: envelope.tags,
+    configurationSetName: envelope.configurationSetName,
+    listManagement: envelope.listManagement,
+  };
+}
+
+/**
+ * Read the messages out of an SES or SES v2 send command the way SES would,
+ * rendering templates from `loadTemplate`. Shared by the in-process stand-ins
+ * for SES. Resolves `undefined` for any other command.
+ */
+export async function emulateSend(
+  command: unknown,
+  loadTemplate: TemplateLoader
+): Promise<EmulatedSend | undefined> {
+  if (command instanceof SendEmailCommand) {
+    const { input } = command;
+    const from = input.Source ?? '';
+    return {
+      api: 'SendEmail',
+      from,
+      messages: [
+        {
+          from,
+          to: input.Destination?.ToAddresses ?? [],
+          cc: input.Destination?.CcAddresses ?? [],
+          bcc: input.Destination?.BccAddresses ?? [],
+          replyTo: input.ReplyToAddresses ?? [],
+          subject: input.Message?.Subject?.Data ?? '',
+          html: input.Message?.Body?.Html?.Data,
+          text: input.Message?.Body?.Text?.Data,
+          headers: {},
+          attachments: [],
+          tags: tagsOf(input.Tags),
+          configurationSetName: input.ConfigurationSetName,
+        },
+      ],
+    };
+  }
+
+  if (command instanceof SendRawEmailCommand) {
+    const { input } = command;
+    const message = rawMessage(new TextDecoder().decode(input.RawMessage?.Data), {
+      source: input.Source,
+      destinations: input.Destinations,
+      tags: tagsOf(input.Tags),
+      configurationSetName: input.ConfigurationSetName,
+    });
+    return { api: 'SendRawEmail', from: message.from, messages: [message] };
+  }
+
+  if (command instanceof SendTemplatedEmailCommand) {
+    const { input } = command;
+    const from = input.Source ?? '';
+    const data = templateDataOf(input.TemplateData);
+    const rendered = renderTemplateParts(await loadTemplate(input.Template), data);
+    return {
+      api: 'SendTemplatedEmail',
+      from,
+      messages: [
+        {
+          from,
+          to: input.Destination?.ToAddresses ?? [],
+          cc: input.Destination?.CcAddresses ?? [],
+          bcc: input.Destination?.BccAddresses ?? [],
+          replyTo: input.ReplyToAddresses ?? [],
+          ...rendered,
+          headers: {},
+          attachments: [],
+          template: input.Template,
+          templateData: data,
+          tags: tagsOf(input.Tags),
+          configurationSetName: input.ConfigurationSetName,
+        },
+      ],
+    };
+  }
+
+  if (command instanceof SendBulkTemplatedEmailCommand) {
+    const { input } = command;
+    const from = input.Source ?? '';
+    const template = await loadTemplate(input.Template);
+    const defaults = templateDataOf(input.DefaultTemplateData);
+    return {
+      api: 'SendBulkTemplatedEmail',
+      from,
+      messages: (input.Destinations ?? []).map((dest) => {
+        const data = { ...defaults, ...templateDataOf(dest.ReplacementTemplateData) };
+        return {
+          from,
+          to: dest.Destination?.ToAddresses ?? [],
+          cc: dest.Destination?.CcAddresses ?? [],
+          bcc: dest.Destination?.BccAddresses ?? [],
+          replyTo: input.ReplyToAddresses ?? [],
+          ...renderTemplateParts(template, data),
+          headers: {},
+          attachments: [],
+          template: input.Template,
+          templateData: data,
+          tags: tagsOf(dest.ReplacementTags ?? input.DefaultTags),
+          configurationSetName: input.ConfigurationSetName,
+        };
+      }),
+    };
+  }
+
+  if (command instanceof SendEmailV2Command) {
+    const { input } = command;
+    const from = input.FromEmailAddress ?? '';
+    const to = input.Destination?.ToAddresses ?? [];
+    const cc = input.Destination?.CcAddresses ?? [];
+    const bcc = input.Destination?.BccAddresses ?? [];
+    const listManagement = input.ListManagementOptions?.ContactListName
+      ? {
+          contactListName: input.ListManagementOptions.ContactListName,
+          topicName: input.ListManagementOptions.TopicName,
+        }
+      : undefined;
+
+    const raw = input.Content?.Raw?.Data;
+    if (raw) {
+      const message = rawMessage(new TextDecoder().decode(raw), {
+        source: input.FromEmailAddress,
+        destinations: input.Destination ? [...to, ...cc, ...bcc] : undefined,
+        tags: tagsOf(input.EmailTags),
+        configurationSetName: input.ConfigurationSetName,
+        listManagement,
+      });
+      return { api: 'SendEmail', from: message.from, messages: [message] };
+    }
+
+    const simple = input.Content?.Simple;
+    if (simple) {
+      return {
+        api: 'SendEmail',
+        from,
+        messages: [
+          {
+            from,
+            to,
+            cc,
+            bcc,
+            replyTo: input.ReplyToAddresses ?? [],
+            subject: simple.Subject?.Data ?? '',
+            html: simple.Body?.Html?.Data,
+            text: simple.Body?.Text?.Data,
+            headers: headersOf(simple.Headers ?? []),
+            attachments: [],
+            tags: tagsOf(input.EmailTags),
+            configurationSetName: input.ConfigurationSetName,
+            listManagement,
+          },
+        ],
+      };
+    }
+    return undefined;
+  }
+
+  if (command instanceof SendBulkEmailCommand) {
+    const { input } = command;
+    const from = input.FromEmailAddress ?? '';
+    const template = input.DefaultContent?.Template;
+    const content: TemplateParts = template?.TemplateName
+      ? await loadTemplate(template.TemplateName)
+      : {
+          subject: template?.TemplateContent?.Subject ?? '',
+          html: template?.TemplateContent?.Html,
+          text: template?.TemplateContent?.Text,
+        };
+    const defaults = templateDataOf(template?.TemplateData);
+    return {
+      api: 'SendBulkEmail',
+      from,
+      messages: (input.BulkEmailEntries ?? []).map((entry) => {
+        const data = {
+          ...defaults,
+          ...templateDataOf(
+            entry.ReplacementEmailContent?.ReplacementTemplate?.ReplacementTemplateData
+          ),
+        };
+        return {
+          from,
+          to: entry.Destination?.ToAddresses ?? [],
+          cc: entry.Destination?.CcAddresses ?? [],
+          bcc: entry.Destination?.BccAddresses ?? [],
+          replyTo: input.ReplyToAddresses ?? [],
+          ...renderTemplateParts(content, data),
+          headers: headersOf([...(template?.Headers ?? []), ...(entry.ReplacementHeaders ?? [])]),
+          attachments: [],
+          template: template?.TemplateName,
+          templateData: template?.TemplateName ? data : undefined,
+          tags: { ...tagsOf(input.DefaultEmailTags), ...tagsOf(entry.ReplacementTags) },
+          configurationSetName: input.ConfigurationSetName,
+        };
+      }),
+    };
+  }
+
+  return undefined;
+}
+
+/** The response SES gives a send, for the message ids the fake assigned. */
+export function emulatedSendOutput(api: EmulatedSendApi, messageIds: string[]): object {
+  switch (api) {
+    case 'SendBulkTemplatedEmail':
+      return { Status: messageIds.map((MessageId) => ({ Status: 'Success', MessageId })) };
+    case 'SendBulkEmail':
+      return {
+        BulkEmailEntryResults: messageIds.map((MessageId) => ({ Status: 'SUCCESS', MessageId })),
+      };
+    default:
+      return { MessageId: messageIds[0] };
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../errors';
+import { renderTemplate } from './template';
+
+const render = (source: string, data: Record<string, unknown>) =>
+  renderTemplate({ subject: source }, data);
+
+describe('renderTemplate', () => {
+  it('escapes double-stash output and leaves triple-stash raw', () => {
+    expect(render('{{a}} {{{a}}}', { a: '<b>"x"</b>' }).parts.subject).toBe(
+      '&lt;b&gt;&quot;x&quot;&lt;/b&gt; <b>"x"</b>'
+    );
+  });
+
+  it('resolves dotted paths, this and ../', () => {
+    const result = render('{{#with user}}{{name}} of {{../team}}{{/with}}{{user.name}}', {
+      user: { name: 'Ada' },
+      team: 'Core',
+    });
+
+    expect(result.parts.subject).toBe('Ada of CoreAda');
+  });
+
+  it('renders if, unless and else branches with Handlebars truthiness', () => {
+    const source = '{{#if items}}some{{else}}none{{/if}}/{{#unless vip}}std{{/unless}}';
+
+    expect(render(source, { items: [], vip: false }).parts.subject).toBe('none/std');
+    expect(render(source, { items: [1], vip: true }).parts.subject).toBe('some/');
+  });
+
+  it('iterates arrays and objects with @index, @first, @last and @key', () => {
+    expect(
+      render('{{#each xs}}{{@index}}{{this}}{{#if @last}}.{{else}},{{/if}}{{/each}}', {
+        xs: ['a', 'b'],
+      }).parts.subject
+    ).toBe('0a,1b.');
+    expect(render('{{#each o}}{{@key}}={{this}} {{/each}}', { o: { k: 'v' } }).parts.subject).toBe(
+      'k=v '
+    );
+    expect(render('{{#each xs}}x{{else}}empty{{/each}}', { xs: [] }).parts.subject).toBe('empty');
+  });
+
+  it('strips comments and honours ~ whitespace control', () => {
+    expect(render('a {{!-- note --}}b  {{~x~}}  c', { x: 1 }).parts.subject).toBe('a b1c');
+  });
+
+  it('reports missing substitutions by path and unused top-level keys', () => {
+    const result = render('{{name}} {{#each items}}{{price}}{{/each}}', {
+      items: [{}],
+      extra: true,
+    });
+
+    expect(result.missing).toEqual(['name', 'items.price']);
+    expect(result.unused).toEqual(['extra']);
+  });
+
+  it('rejects unsupported helpers and unbalanced blocks', () => {
+    expect(() => render('{{#eq a b}}x{{/eq}}', {})).toThrow(ValidationError);
+    expect(() => render('{{#if a}}x', {})).toThrow('{{#if}} is never closed');
+    expect(() => render('{{#if a}}x{{/each}}', {})).toThrow(ValidationError);
+  });
+});
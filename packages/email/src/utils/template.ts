@@ -0,0 +1,415 @@
+import { ValidationError } from '../errors';
+import { buildRawEmailMessage } from './mime';
+
+/** A template's subject, HTML and text parts, rendered or not. */
+export interface TemplateParts {
+  subject: string;
+  html?: string;
+  text?: string;
+}
+
+/** Rendered parts, plus what the data did not line up with. */
+export interface TemplateRenderResult {
+  parts: TemplateParts;
+  /** Substitutions with no value in the data, e.g. `user.name` or `items.price`. */
+  missing: string[];
+  /** Top-level data keys no part of the template refers to. */
+  unused: string[];
+}
+
+type BlockHelper = 'if' | 'unless' | 'each' | 'with';
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'var'; path: string; escape: boolean }
+  | { type: 'block'; helper: BlockHelper; path: string; body: Node[]; inverse: Node[] };
+
+interface Frame {
+  value: unknown;
+  /** Where `value` sits in the data, for reporting: `items` inside `{{#each items}}`. */
+  path: string;
+  /** `@index`, `@first`, `@last` and `@key` inside `{{#each}}`. */
+  data: Record<string, unknown>;
+}
+
+interface RenderState {
+  missing: Set<string>;
+  used: Set<string>;
+}
+
+const BLOCK_HELPERS = new Set<string>(['if', 'unless', 'each', 'with']);
+
+// Handlebars' own escape set; SES escapes `{{name}}` output the same way.
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#x27;',
+  '`': '&#x60;',
+  '=': '&#x3D;',
+};
+
+const TAG = /\{\{(~?)(!--[\s\S]*?--|\{[\s\S]*?\}|[\s\S]*?)(~?)\}\}/g;
+
+/** Parse a template into nodes, rejecting helpers SES would not know. */
+function parse(source: string): Node[] {
+  const root: Node[] = [];
+  const stack: Array<{ node: Extract<Node, { type: 'block' }>; target: Node[] }> = [];
+  let target = root;
+  let last = 0;
+  let trimNext = false;
+
+  for (const match of source.matchAll(TAG)) {
+    let text = source.slice(last, match.index);
+    if (trimNext) {
+      text = text.replace(/^\s+/, '');
+    }
+    if (match[1]) {
+      text = text.replace(/\s+$/, '');
+    }
+    if (text) {
+      target.push({ type: 'text', value: text });
+    }
+    last = match.index + match[0].length;
+    trimNext = match[3] === '~';
+
+    const tag = match[2].trim();
+    if (tag.startsWith('!')) {
+      continue;
+    }
+    if (tag.startsWith('{')) {
+      target.push({ type: 'var', path: tag.slice(1, -1).trim(), escape: false });
+    } else if (tag.startsWith('#')) {
+      const [helper, path = ''] = tag.slice(1).trim().split(/\s+/);
+      if (!BLOCK_HELPERS.has(helper)) {
+        throw new ValidationError(
+          `Unsupported template helper "{{#${helper}}}": use if, unless, each or with`,
+          'template'
+        );
+      }
+      if (!path) {
+        throw new ValidationError(`{{#${helper}}} needs an argument`, 'template');
+      }
+      const node: Extract<Node, { type: 'block' }> = {
+        type: 'block',
+        helper: helper as BlockHelper,
+        path,
+        body: [],
+        inverse: [],
+      };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.body;
+    } else if (tag === 'else' || tag === '^') {
+      const open = stack[stack.length - 1];
+      if (!open) {
+        throw new ValidationError('{{else}} outside a block', 'template');
+      }
+      target = open.node.inverse;
+    } else if (tag.startsWith('/')) {
+      const helper = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open || open.node.helper !== helper) {
+        throw new ValidationError(
+          `{{/${helper}}} does not close ${open ? `{{#${open.node.helper}}}` : 'any block'}`,
+          'template'
+        );
+      }
+      target = open.target;
+    } else {
+      target.push({ type: 'var', path: tag, escape: true });
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new ValidationError(`{{#${unclosed.node.helper}}} is never closed`, 'template');
+  }
+  const tail = source.slice(last);
+  const text = trimNext ? tail.replace(/^\s+/, '') : tail;
+  if (text) {
+    target.push({ type: 'text', value: text });
+  }
+  return root;
+}
+
+/**
+ * Resolve a Handlebars path against the frame stack: `name`, `a.b`, `this`,
+ * `../name`, `@index` or `@root.name`. Like Handlebars, a name is only looked
+ * up in the current context, never in the ones enclosing it.
+ */
+function lookup(
+  path: string,
+  frames: Frame[],
+  state: RenderState
+): { value: unknown; where: string } {
+  let depth = frames.length - 1;
+  let rest = path;
+  while (rest.startsWith('../')) {
+    depth = Math.max(0, depth - 1);
+    rest = rest.slice(3);
+  }
+  const frame = frames[depth];
+
+  if (rest.startsWith('@')) {
+    const [name, ...keys] = rest.slice(1).split('.');
+    if (name !== 'root') {
+      return { value: frame.data[name], where: rest };
+    }
+    rest = keys.join('.');
+    return resolve(frames[0], rest, state);
+  }
+  return resolve(frame, rest, state);
+}
+
+function resolve(
+  frame: Frame,
+  path: string,
+  state: RenderState
+): { value: unknown; where: string } {
+  const keys = path
+    .replace(/^this(?=\.|$)\.?/, '')
+    .replace(/^\.\/?/, '')
+    .split('.')
+    .filter(Boolean);
+  if (frame.path === '' && keys.length > 0) {
+    state.used.add(keys[0]);
+  }
+  let value = frame.value;
+  for (const key of keys) {
+    value = value == null ? undefined : (value as Record<string, unknown>)[key];
+  }
+  return { value, where: [frame.path, ...keys].filter(Boolean).join('.') };
+}
+
+/** Handlebars truthiness: empty arrays are falsy as well. */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(nodes: Node[], frames: Frame[], state: RenderState): string {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.value;
+      continue;
+    }
+
+    if (node.type === 'var') {
+      const { value, where } = lookup(node.path, frames, state);
+      if (value === undefined) {
+        state.missing.add(where);
+        continue;
+      }
+      const text = value === null ? '' : String(value);
+      out += node.escape ? text.replace(/[&<>"'`=]/g, (char) => ESCAPES[char]) : text;
+      continue;
+    }
+
+    const { value, where } = lookup(node.path, frames, state);
+    const frame = frames[frames.length - 1];
+    switch (node.helper) {
+      case 'if':
+        out += renderNodes(isTruthy(value) ? node.body : node.inverse, frames, state);
+        break;
+      case 'unless':
+        out += renderNodes(isTruthy(value) ? node.inverse : node.body, frames, state);
+        break;
+      case 'with':
+        out += isTruthy(value)
+          ? renderNodes(node.body, [...frames, { value, path: where, data: frame.data }], state)
+          : renderNodes(node.inverse, frames, state);
+        break;
+      case 'each': {
+        const entries: Array<[string | number, unknown]> = Array.isArray(value)
+          ? value.map((item, index) => [index, item])
+          : value && typeof value === 'object'
+            ? Object.entries(value)
+            : [];
+        if (entries.length === 0) {
+          out += renderNodes(node.inverse, frames, state);
+          break;
+        }
+        entries.forEach(([key, item], index) => {
+          const data = {
+            index,
+            key,
+            first: index === 0,
+            last: index === entries.length - 1,
+          };
+          out += renderNodes(node.body, [...frames, { value: item, path: where, data }], state);
+        });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Render a template the way SES does: Handlebars `{{name}}` (HTML-escaped),
+ * `{{{name}}}` (raw), dotted paths, and the `if`, `unless`, `each` and `with`
+ * blocks. A substitution with no value renders empty here and is reported in
+ * `missing`; SES refuses to render or send such a template.
+ *
+ * @throws {ValidationError} On a helper SES does not support or an unbalanced block.
+ */
+export function renderTemplate(
+  template: TemplateParts,
+  data: Record<string, unknown>
+): TemplateRenderResult {
+  const state: RenderState = { missing: new Set(), used: new Set() };
+  const render = (source: string | undefined) =>
+    source === undefined
+      ? undefined
+      : renderNodes(parse(source), [{ value: data, path: '', data: {} }], state);
+
+  const parts: TemplateParts = {
+    subject: render(template.subject) ?? '',
+    html: render(template.html),
+    text: render(template.text),
+  };
+  return {
+    parts,
+    missing: [...state.missing],
+    unused: Object.keys(data).filter((key) => !state.used.has(key)),
+  };
+}
+
+/**
+ * What a template reads from its data. `value` is a substitution; `unknown` is
+ * only ever tested by `{{#if}}` or `{{#unless}}`.
+ */
+export interface TemplateDataShape {
+  kind: 'unknown' | 'value' | 'object' | 'list';
+  /** Keys read from an `object`, and whether SES fails to render without them. */
+  fields: Map<string, { shape: TemplateDataShape; required: boolean }>;
+  /** What each item of a `list` reads. */
+  item?: TemplateDataShape;
+}
+
+function emptyShape(): TemplateDataShape {
+  return { kind: 'unknown', fields: new Map() };
+}
+
+/** The shape at `keys` below `shape`, creating object fields on the way. */
+function touch(shape: TemplateDataShape, keys: string[], required: boolean): TemplateDataShape {
+  let node = shape;
+  for (const key of keys) {
+    if (node.kind === 'unknown' || node.kind === 'value') {
+      node.kind = 'object';
+    }
+    let field = node.fields.get(key);
+    if (!field) {
+      field = { shape: emptyShape(), required };
+      node.fields.set(key, field);
+    } else {
+      field.required ||= required;
+    }
+    node = field.shape;
+  }
+  return node;
+}
+
+/**
+ * Record what `nodes` read into the frame shapes. `required` is whether the
+ * nodes always render for the innermost frame; values reached through `../`
+ * or `@root` are never required, since they may sit behind a condition.
+ */
+function describeNodes(nodes: Node[], frames: TemplateDataShape[], required: boolean): void {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      continue;
+    }
+
+    let depth = frames.length - 1;
+    let rest = node.path;
+    while (rest.startsWith('../')) {
+      depth = Math.max(0, depth - 1);
+      rest = rest.slice(3);
+    }
+    let frame = frames[depth];
+    let always = required && depth === frames.length - 1;
+    if (rest.startsWith('@')) {
+      if (!rest.startsWith('@root')) {
+        continue;
+      }
+      frame = frames[0];
+      always = false;
+      rest = rest.replace(/^@root\.?/, '');
+    }
+    const keys = rest
+      .replace(/^this(?=\.|$)\.?/, '')
+      .replace(/^\.\/?/, '')
+      .split('.')
+      .filter(Boolean);
+
+    if (node.type === 'var') {
+      const shape = touch(frame, keys, always);
+      if (shape.kind === 'unknown') {
+        shape.kind = 'value';
+      }
+      continue;
+    }
+
+    // SES renders a block over a missing value as false, so its argument is optional
+    const shape = touch(frame, keys, false);
+    switch (node.helper) {
+      case 'if':
+      case 'unless':
+        describeNodes(node.body, frames, false);
+        break;
+      case 'with':
+        if (shape.kind === 'unknown' || shape.kind === 'value') {
+          shape.kind = 'object';
+        }
+        describeNodes(node.body, [...frames, shape], required);
+        break;
+      case 'each':
+        if (shape.kind === 'unknown' || shape.kind === 'value') {
+          shape.kind = 'list';
+        }
+        shape.item ??= emptyShape();
+        describeNodes(node.body, [...frames, shape.item], required);
+        break;
+    }
+    describeNodes(node.inverse, frames, false);
+  }
+}
+
+/**
+ * Work out the data a template reads across its parts, for generating types
+ * and checking data before a send.
+ *
+ * @throws {ValidationError} On a helper SES does not support or an unbalanced block.
+ */
+export function describeTemplateData(template: TemplateParts): TemplateDataShape {
+  const root: TemplateDataShape = { kind: 'object', fields: new Map() };
+  for (const source of [template.subject, template.html, template.text]) {
+    if (source !== undefined) {
+      describeNodes(parse(source), [root], true);
+    }
+  }
+  return root;
+}
+
+/** Render every part of a template with {@link renderTemplate}. */
+export function renderTemplateParts(
+  template: TemplateParts,
+  data: Record<string, unknown>
+): TemplateParts {
+  return renderTemplate(template, data).parts;
+}
+
+/**
+ * MIME for rendered template parts without envelope headers, the shape SES
+ * `TestRenderTemplate` returns.
+ */
+export function buildRenderedTemplateMessage(parts: TemplateParts): string {
+  // The builder always writes From and To as its first two lines.
+  return buildRawEmailMessage({ from: 'x@x', to: 'x@x', ...parts })
+    .split('\r\n')
+    .slice(2)
+    .join('\r\n');
+}
@@ -349,6 +349,46 @@ describe('validateEmailParams', () => {
     expect(() => validateEmailParams(params)).toThrow('Illegal newline in header field: from');
   });
 
+  describe('headers', () => {
+    const withHeaders = (headers: Record<string, string>): SendEmailParams => ({
+      from: 'sender@example.com',
+      to: 'recipient@example.com',
+      subject: 'Test',
+      html: '<p>Test</p>',
+      headers,
+    });
+
+    it('should accept custom headers', () => {
+      expect(() =>
+        validateEmailParams(withHeaders({ 'List-Id': '<news.acme.test>', 'X-Entity-Ref-ID': '1' }))
+      ).not.toThrow();
+    });
+
+    it('should reject headers the client sets, in any case', () => {
+      expect(() => validateEmailParams(withHeaders({ bcc: 'spy@example.com' }))).toThrow(
+        'Header "bcc" is set by the client and cannot be overridden'
+      );
+      expect(() => validateEmailParams(withHeaders({ 'Message-ID': '<x@y>' }))).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should reject malformed names and newlines in values', () => {
+      expect(() => validateEmailParams(withHeaders({ 'X Bad': 'x' }))).toThrow(
+        'Invalid header name: "X Bad"'
+      );
+      expect(() =>
+        validateEmailParams(withHeaders({ 'X-Ref': 'a\r\nBcc: victim@example.com' }))
+      ).toThrow('Illegal newline in header field: headers.X-Ref');
+    });
+
+    it('should reject the same header given twice', () => {
+      expect(() => validateEmailParams(withHeaders({ 'X-Ref': 'a', 'x-ref': 'b' }))).toThrow(
+        'Header "x-ref" is given more than once'
+      );
+    });
+  });
+
   it('should accept a normal display name with angle brackets', () => {
     const params: SendEmailParams = {
       from: { email: 'sender@example.com', name: 'Legitimate Name' },
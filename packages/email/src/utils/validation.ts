@@ -1,7 +1,7 @@
 import { safeParse, email as zEmail } from 'zod/mini';
 import { ValidationError } from '../errors';
 import type { EmailAddress, SendEmailParams } from '../types';
-import { assertNoHeaderInjection } from './headers';
+import { assertCustomHeaders, assertNoHeaderInjection } from './headers';
 
 /**
  * Normalize email address to string format
@@ -82,6 +82,10 @@ export function validateEmailParams(params: SendEmailParams): void {
       validateEmailAddress(addr, `replyTo[${idx}]`);
     }
   }
+
+  if (params.headers) {
+    assertCustomHeaders(params.headers, 'headers');
+  }
 }
 
 // Every address error states the expected format, gives a copyable example, and
@@ -107,7 +111,7 @@ function describeAddress(address: string | EmailAddress): string {
 /**
  * Extract email from RFC 5322 format strings like "Name <email>" or "email"
  */
-function extractEmail(address: string): string {
+export function extractEmail(address: string): string {
   // Match email in angle brackets: "Name <email>" or just "<email>"
   const angleMatch = address.match(/<([^>]+)>/);
   if (angleMatch) {
@@ -123,7 +127,7 @@ function extractEmail(address: string): string {
  * Zod's email validation is safer than custom regex patterns and avoids ReDoS vulnerabilities
  * Supports RFC 5322 format: "Display Name <email@example.com>" or plain "email@example.com"
  */
-function validateEmailAddress(address: string | EmailAddress, field: string): void {
+export function validateEmailAddress(address: string | EmailAddress, field: string): void {
   // Reject CRLF in the full address string or in EmailAddress fields
   if (typeof address === 'string') {
     assertNoHeaderInjection(address, field);
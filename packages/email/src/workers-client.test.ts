@@ -215,4 +215,35 @@ describe('WrapsEmail (workers)', () => {
     expect(err503).toBeInstanceOf(SESError);
     expect(err503.retryable).toBe(true);
   });
+
+  it('10. passes custom headers as Simple.Headers', async () => {
+    const email = new WrapsEmail(BASE);
+    await email.send({
+      from: 'sender@example.com',
+      to: 'recipient@example.com',
+      subject: 'Test',
+      text: 'Hi',
+      headers: { 'List-Id': '<news.acme.test>' },
+    });
+
+    const body = JSON.parse(await (fetchMock.mock.calls[0][0] as Request).text());
+    expect(body.Content.Simple.Headers).toEqual([{ Name: 'List-Id', Value: '<news.acme.test>' }]);
+  });
+
+  it('11. passes listManagement as ListManagementOptions', async () => {
+    const email = new WrapsEmail(BASE);
+    await email.send({
+      from: 'sender@example.com',
+      to: 'recipient@example.com',
+      subject: 'Test',
+      text: 'Hi',
+      listManagement: { contactListName: 'customers', topicName: 'newsletter' },
+    });
+
+    const body = JSON.parse(await (fetchMock.mock.calls[0][0] as Request).text());
+    expect(body.ListManagementOptions).toEqual({
+      ContactListName: 'customers',
+      TopicName: 'newsletter',
+    });
+  });
 });
@@ -39,15 +39,33 @@ type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K>
  * Subset of {@link SendEmailParams} supported at the edge.
  *
  * Not supported on the edge entry: `react` (render to HTML first),
- * `attachments` (MIME serialization requires Node built-ins),
- * `conversationId`, `sendId`, `replyTtlSeconds` (reply-threading uses SSM).
+ * `attachments`, `inlineImages` and `calendarEvent` (MIME serialization
+ * requires Node built-ins),
+ * `conversationId`, `sendId`, `replyTtlSeconds` (reply-threading uses SSM),
+ * `listUnsubscribe` and `smime` (signing uses `node:crypto`),
+ * `promotional` (the reputation guard reads DynamoDB and SES sending statistics),
+ * `pool` (pass the pool's `configurationSetName` instead),
+ * `idempotencyKey` (keys are remembered by the Node client's store),
+ * `suppressionCheck` (the check runs in the Node client's send pipeline).
  *
  * `Extract` drops the `react` branch rather than omitting the field from it,
  * which would otherwise leave a branch with no body at all.
  */
 export type WorkerSendEmailParams = DistributiveOmit<
   Extract<SendEmailParams, { react?: never }>,
-  'react' | 'attachments' | 'conversationId' | 'sendId' | 'replyTtlSeconds'
+  | 'react'
+  | 'attachments'
+  | 'inlineImages'
+  | 'calendarEvent'
+  | 'conversationId'
+  | 'sendId'
+  | 'replyTtlSeconds'
+  | 'listUnsubscribe'
+  | 'smime'
+  | 'promotional'
+  | 'pool'
+  | 'idempotencyKey'
+  | 'suppressionCheck'
 >;
 
 /**
@@ -136,6 +154,12 @@ export class WrapsEmail {
     if (p.attachments && p.attachments.length > 0) {
       throw new ValidationError('attachments are not supported at the edge', 'attachments');
     }
+    if (p.listManagement && !p.listManagement.contactListName) {
+      throw new ValidationError(
+        'listManagement.contactListName is required',
+        'listManagement.contactListName'
+      );
+    }
 
     validateEmailParams(p);
 
@@ -185,12 +209,25 @@ export class WrapsEmail {
         Simple: {
           Subject: { Data: params.subject, Charset: 'UTF-8' },
           Body: body,
+          ...(params.headers
+            ? {
+                Headers: Object.entries(params.headers).map(([Name, Value]) => ({ Name, Value })),
+              }
+            : {}),
         },
       },
       ...(params.tags
         ? { EmailTags: Object.entries(params.tags).map(([Name, Value]) => ({ Name, Value })) }
         : {}),
       ...(params.configurationSetName ? { ConfigurationSetName: params.configurationSetName } : {}),
+      ...(params.listManagement
+        ? {
+            ListManagementOptions: {
+              ContactListName: params.listManagement.contactListName,
+              TopicName: params.listManagement.topicName,
+            },
+          }
+        : {}),
     };
 
     return payload;
@@ -7,7 +7,7 @@ export default defineConfig({
   define: {
     __WRAPS_EMAIL_VERSION__: JSON.stringify(pkg.version),
   },
-  entry: ['src/index.ts', 'src/workers.ts'],
+  entry: ['src/index.ts', 'src/workers.ts', 'src/testing.ts'],
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,